@@ -6,6 +6,7 @@ import { HapticTab } from '@/components/haptic-tab';
 import { MonthTabButton } from '@/components/month-tab-button';
 import { Colors } from '@/constants/theme';
 import { useAppSettings } from '@/contexts/AppSettingsContext';
+import { useFamily } from '@/contexts/FamilyContext';
 import { useViewMode } from '@/contexts/ViewModeContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
@@ -13,6 +14,10 @@ export default function TabLayout() {
   const colorScheme = useColorScheme();
   const { viewMode } = useViewMode();
   const { settings } = useAppSettings();
+  const { userRole } = useFamily();
+
+  // Kids mode: no settings, and nothing beyond their own calendar, lists and routines
+  const isChild = userRole === 'child';
 
   const effectiveViewMode = viewMode || settings.defaultScreen;
 
@@ -70,6 +75,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="search"
         options={{
+          href: isChild ? null : undefined,
           title: 'Search',
           tabBarIcon: ({ color }) => <Ionicons name="search" size={24} color={color} />,
         }}
@@ -77,6 +83,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="add"
         options={{
+          href: isChild ? null : undefined,
           title: 'Add',
           tabBarIcon: ({ color }) => <Ionicons name="add" size={24} color={color} />,
         }}
@@ -98,6 +105,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="settings"
         options={{
+          href: isChild ? null : undefined,
           title: 'Settings',
           tabBarIcon: ({ color }) => <Ionicons name="settings" size={24} color={color} />,
         }}
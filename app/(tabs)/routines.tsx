@@ -30,14 +30,20 @@ const COLUMN_SPACING = 15;
 export default function RoutinesScreen() {
     const colorScheme = useColorScheme();
     const theme = Colors[colorScheme ?? 'light'];
-    const { userContact } = useAuth();
-    const { currentFamily, familyMembers } = useFamily();
+    const { userContact, signOut } = useAuth();
+    const { currentFamily, familyMembers, userRole } = useFamily();
+
+    // Kids mode: a child sees only their own column and can tick items off, nothing more
+    const isChild = userRole === 'child';
 
     const { width: screenWidth } = useWindowDimensions();
 
     const visibleFamilyMembers = useMemo(() => {
+        if (isChild) {
+            return familyMembers.filter(m => m.contact.id === userContact?.id);
+        }
         return familyMembers.filter(m => m.contact.routines_enabled !== false);
-    }, [familyMembers]);
+    }, [familyMembers, isChild, userContact?.id]);
 
     const COLUMN_WIDTH = useMemo(() => {
         const numMembers = visibleFamilyMembers?.length || 1;
@@ -148,9 +154,9 @@ export default function RoutinesScreen() {
         if (!currentFamily?.id || visibleFamilyMembers.length === 0) return;
 
         try {
-            // 1. Ensure Default Shared Routines Exist
+            // 1. Ensure Default Shared Routines Exist (children can't create routines)
             const sharedRoutines = await routineService.getRoutines(currentFamily.id, null);
-            const missingDefaults = DEFAULT_ROUTINES_TO_CREATE.filter(
+            const missingDefaults = isChild ? [] : DEFAULT_ROUTINES_TO_CREATE.filter(
                 def => !sharedRoutines.some(r => r.title === def.title)
             );
 
@@ -209,7 +215,7 @@ export default function RoutinesScreen() {
             setIsLoading(false);
             setIsRefreshing(false);
         }
-    }, [currentFamily?.id, visibleFamilyMembers]);
+    }, [currentFamily?.id, visibleFamilyMembers, isChild]);
 
     useEffect(() => {
         const timer = setInterval(() => {
@@ -236,6 +242,15 @@ export default function RoutinesScreen() {
         fetchData();
     };
 
+    // Back to the sign-in screen so the next person on the tablet can pick themselves
+    const handleChildSignOut = async () => {
+        try {
+            await signOut();
+        } catch (error) {
+            console.error('Error signing out:', error);
+        }
+    };
+
     const toggleItem = async (itemId: string, contactId: string) => {
         const today = new Date().toISOString().split('T')[0];
         const isCompleted = !!completions.find((c) => c.item_id === itemId && c.contact_id === contactId);
@@ -668,21 +683,31 @@ export default function RoutinesScreen() {
                         <Text style={[styles.dateText, { color: theme.secondaryText }]}>{todayDate}</Text>
                         <Text style={[styles.title, { color: theme.text }]}>Daily Routines</Text>
                     </View>
-                    <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
+                    {isChild ? (
                         <TouchableOpacity
-                            onPress={() => setEditMode(!editMode)}
-                            style={[styles.editToggle, { backgroundColor: editMode ? theme.tint : theme.cardBackground }]}
+                            onPress={handleChildSignOut}
+                            style={[styles.editToggle, { backgroundColor: theme.cardBackground, flexDirection: 'row', alignItems: 'center', gap: 6 }]}
                         >
-                            <Text style={{ color: editMode ? '#fff' : theme.text, fontWeight: '600' }}>
-                                {editMode ? 'Done' : 'Edit'}
-                            </Text>
+                            <Ionicons name="swap-horizontal" size={16} color={theme.text} />
+                            <Text style={{ color: theme.text, fontWeight: '600' }}>Switch</Text>
                         </TouchableOpacity>
-                        {editMode && (
-                            <TouchableOpacity style={styles.addButton} onPress={() => setIsAddModalVisible(true)}>
-                                <Ionicons name="add-circle" size={36} color={theme.tint} />
+                    ) : (
+                        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
+                            <TouchableOpacity
+                                onPress={() => setEditMode(!editMode)}
+                                style={[styles.editToggle, { backgroundColor: editMode ? theme.tint : theme.cardBackground }]}
+                            >
+                                <Text style={{ color: editMode ? '#fff' : theme.text, fontWeight: '600' }}>
+                                    {editMode ? 'Done' : 'Edit'}
+                                </Text>
                             </TouchableOpacity>
-                        )}
-                    </View>
+                            {editMode && (
+                                <TouchableOpacity style={styles.addButton} onPress={() => setIsAddModalVisible(true)}>
+                                    <Ionicons name="add-circle" size={36} color={theme.tint} />
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                    )}
                 </View>
 
                 <ScrollView
@@ -11,7 +11,17 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useFamily } from '@/contexts/FamilyContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { EventWithDetails, getUpcomingEvents, deleteEvent, mapEventsToFamilyEvents } from '@/services/eventService';
+import {
+  EventWithDetails,
+  getUpcomingEvents,
+  getEvent,
+  deleteEvent,
+  deleteEventOccurrence,
+  deleteFutureEventOccurrences,
+  mapEventsToFamilyEvents,
+  RecurringEditScope,
+} from '@/services/eventService';
+import { promptRecurringScope } from '@/utils/recurringScope';
 import { FamilyEvent } from '@/utils/mockEvents';
 import { EventCard } from '@/components/family/EventCard';
 import { useThemeColor } from '@/hooks/use-theme-color';
@@ -29,7 +39,7 @@ export default function SearchScreen() {
   const [allEvents, setAllEvents] = useState<EventWithDetails[]>([]);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
 
-  const { currentFamily, familyMembers, contacts } = useFamily();
+  const { currentFamily, familyMembers, contacts, canEditEvent } = useFamily();
   const { user } = useAuth();
   const backgroundColor = useThemeColor({ light: '#F5F5F7', dark: '#0F0F0F' }, 'background');
   const textColor = useThemeColor({}, 'text');
@@ -146,32 +156,82 @@ export default function SearchScreen() {
       return;
     }
 
+    // Leave out events the user isn't allowed to delete (the database would refuse them anyway)
+    const selectedResults = searchResults.filter(result => selectedEvents.has(result.id));
+    const deletableResults = selectedResults.filter(result =>
+      canEditEvent(result.originalEvent.created_by, result.originalEvent.edit_permission)
+    );
+    const skippedCount = selectedResults.length - deletableResults.length;
+
+    if (deletableResults.length === 0) {
+      window.alert(`You don't have permission to delete ${selectedResults.length > 1 ? 'these events' : 'this event'}.`);
+      return;
+    }
+
     // Use window.confirm for web compatibility
     const confirmed = window.confirm(
-      `Are you sure you want to delete ${selectedEvents.size} event${selectedEvents.size > 1 ? 's' : ''}? This action cannot be undone.`
+      `Are you sure you want to delete ${deletableResults.length} event${deletableResults.length > 1 ? 's' : ''}? This action cannot be undone.` +
+      (skippedCount > 0 ? ` ${skippedCount} you don't have permission to delete will be left as they are.` : '')
     );
 
     if (!confirmed) {
       return;
     }
 
+    // Get the events behind the selected search results (one result per participant,
+    // so several results can share an event)
+    const selectedOccurrences = new Map<string, EventWithDetails>();
+    deletableResults.forEach(searchResult => {
+      selectedOccurrences.set(searchResult.originalEvent.id, searchResult.originalEvent);
+    });
+
+    const singleEventIds: string[] = [];
+    // Recurring series id -> original starts of the selected occurrences
+    const recurringOccurrences = new Map<string, Date[]>();
+    selectedOccurrences.forEach(event => {
+      if (event.is_recurring && event.original_event_id && event.occurrence_start_time) {
+        const starts = recurringOccurrences.get(event.original_event_id) || [];
+        starts.push(new Date(event.occurrence_start_time));
+        recurringOccurrences.set(event.original_event_id, starts);
+      } else {
+        singleEventIds.push(event.original_event_id || event.id);
+      }
+    });
+
+    // Ask once how far deletes of recurring occurrences should reach
+    let scope: RecurringEditScope | null = 'all';
+    if (recurringOccurrences.size > 0) {
+      scope = await promptRecurringScope({
+        title: 'Delete recurring events',
+        message: 'Some selected events repeat. Delete just the selected occurrences, those and future occurrences, or the whole series?',
+        verb: 'Delete',
+        destructive: true,
+      });
+      if (!scope) {
+        return;
+      }
+    }
+
     // Proceed with deletion
     setIsDeleting(true);
     try {
-      // Get the original event IDs from selected search results
-      const eventIdsToDelete = Array.from(selectedEvents).map(selectedId => {
-        const searchResult = searchResults.find(result => result.id === selectedId);
-        console.log('Finding searchResult for selectedId:', selectedId);
-        console.log('searchResult found:', !!searchResult);
-        console.log('originalEvent.id:', searchResult?.originalEvent.id);
-        return searchResult?.originalEvent.id;
-      }).filter(id => id != null);
-
-      console.log('eventIdsToDelete:', eventIdsToDelete);
-
-      const deletePromises = eventIdsToDelete.map(eventId => {
-        console.log('Calling deleteEvent for:', eventId);
-        return deleteEvent(eventId);
+      console.log('Deleting events:', singleEventIds, 'recurring series:', Array.from(recurringOccurrences.keys()), 'scope:', scope);
+
+      const deletePromises: Promise<{ error: any }>[] = singleEventIds.map(eventId => deleteEvent(eventId));
+
+      recurringOccurrences.forEach((starts, seriesId) => {
+        if (scope === 'single') {
+          starts.forEach(start => deletePromises.push(deleteEventOccurrence(seriesId, start)));
+        } else if (scope === 'future') {
+          const earliest = new Date(Math.min(...starts.map(start => start.getTime())));
+          deletePromises.push(
+            getEvent(seriesId).then(({ data: series, error }) =>
+              series ? deleteFutureEventOccurrences(series, earliest) : { error: error || new Error('Event not found') }
+            )
+          );
+        } else {
+          deletePromises.push(deleteEvent(seriesId));
+        }
       });
 
       const results = await Promise.all(deletePromises);
@@ -182,10 +242,10 @@ export default function SearchScreen() {
 
       if (failedDeletes.length > 0) {
         window.alert(
-          `Partial Success: ${selectedEvents.size - failedDeletes.length} events deleted, but ${failedDeletes.length} failed.`
+          `Partial Success: ${deletableResults.length - failedDeletes.length} events deleted, but ${failedDeletes.length} failed.`
         );
       } else {
-        window.alert(`Success: ${selectedEvents.size} event${selectedEvents.size > 1 ? 's' : ''} deleted.`);
+        window.alert(`Success: ${deletableResults.length} event${deletableResults.length > 1 ? 's' : ''} deleted.`);
       }
 
       // Refresh events and clear selection
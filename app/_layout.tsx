@@ -62,8 +62,10 @@ function NavigationHandler({ children }: { children: React.ReactNode }) {
         router.replace('/onboarding');
       }
     } else {
-      // Authenticated with family - redirect to main app if in auth/onboarding
-      if (inAuthGroup || inOnboardingGroup) {
+      // Authenticated with family - redirect to main app if in auth/onboarding,
+      // except when following an invitation or join link to another family
+      const isJoiningAnotherFamily = currentSegment === 'join-family' || currentSegment === 'accept-invite';
+      if ((inAuthGroup || inOnboardingGroup) && !isJoiningAnotherFamily) {
         router.replace('/(tabs)');
       }
     }
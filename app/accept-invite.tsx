@@ -1,7 +1,7 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useFamily } from '@/contexts/FamilyContext';
 import { supabase } from '@/lib/supabase';
-import { acceptInvitation, getInvitationByToken } from '@/services/familyService';
+import { acceptInvitation, declineInvitation, getInvitationByToken } from '@/services/familyService';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
@@ -19,18 +19,28 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+// Why an invitation that isn't pending any more can't be used
+const INVITATION_STATUS_MESSAGES: Record<string, string> = {
+    expired: 'This invitation has expired. Ask the person who invited you to send a new one.',
+    declined: 'This invitation was declined.',
+    cancelled: 'This invitation was cancelled.',
+    accepted: 'This invitation has already been accepted.',
+};
+
 export default function AcceptInviteScreen() {
     const { token } = useLocalSearchParams<{ token: string }>();
     const router = useRouter();
     const insets = useSafeAreaInsets();
     const { user } = useAuth();
     const { refreshUserContact } = useAuth();
-    const { refreshFamilies } = useFamily();
+    const { refreshFamilies, setCurrentFamily } = useFamily();
 
     const [isLoading, setIsLoading] = useState(true);
     const [invitation, setInvitation] = useState<any>(null);
     const [error, setError] = useState<string | null>(null);
     const [isAccepting, setIsAccepting] = useState(false);
+    const [isDeclining, setIsDeclining] = useState(false);
+    const [isDeclined, setIsDeclined] = useState(false);
 
     // Form state for new users
     const [password, setPassword] = useState('');
@@ -54,7 +64,11 @@ export default function AcceptInviteScreen() {
         try {
             const { data, error: inviteError } = await getInvitationByToken(token!);
             if (inviteError || !data) {
-                throw new Error(inviteError?.message || 'Invitation not found or expired.');
+                // A mangled token fails the lookup outright; it's still just a wrong link
+                throw new Error('Invitation not found. Please check the link and try again.');
+            }
+            if (data.status !== 'pending') {
+                throw new Error(INVITATION_STATUS_MESSAGES[data.status] || 'This invitation can no longer be used.');
             }
             setInvitation(data);
             setFirstName(data.first_name || '');
@@ -87,9 +101,6 @@ export default function AcceptInviteScreen() {
 
         setIsAccepting(true);
         try {
-            let currentUserId = user?.id;
-            let currentUserEmail = user?.email || invitation.email;
-
             if (password) {
                 if (user) {
                     // If already logged in (via invite redirect), just update the password
@@ -113,10 +124,7 @@ export default function AcceptInviteScreen() {
 
                     // After signUp, we should have a user session
                     const { data: { user: newUser } } = await supabase.auth.getUser();
-                    if (newUser) {
-                        currentUserId = newUser.id;
-                        currentUserEmail = newUser.email!;
-                    } else {
+                    if (!newUser) {
                         // User might need email confirmation if they didn't use the invite link correctly
                         setIsAccepting(false);
                         Alert.alert('Check Email', 'Successfully created account. Please check your email to confirm before joining.');
@@ -126,9 +134,7 @@ export default function AcceptInviteScreen() {
             }
 
             const { error: acceptError } = await acceptInvitation(
-                invitation.id,
-                currentUserId!,
-                currentUserEmail,
+                invitation.invitation_token,
                 firstName.trim(),
                 lastName.trim()
             );
@@ -137,6 +143,10 @@ export default function AcceptInviteScreen() {
 
             await refreshUserContact();
             await refreshFamilies();
+            // Open the family just joined, even if the user already had another
+            if (invitation.family) {
+                setCurrentFamily(invitation.family);
+            }
 
             Alert.alert(
                 'Success',
@@ -150,6 +160,38 @@ export default function AcceptInviteScreen() {
         }
     };
 
+    const handleDecline = () => {
+        const familyName = invitation.family?.name || 'the family';
+        Alert.alert(
+            'Decline Invitation',
+            `Are you sure you don't want to join ${familyName}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Decline',
+                    style: 'destructive',
+                    onPress: async () => {
+                        setIsDeclining(true);
+                        try {
+                            const { data: declined, error: declineError } = await declineInvitation(token!);
+                            if (declineError) throw declineError;
+                            if (!declined) {
+                                // Expired or answered in the meantime; show why
+                                await loadInvitation();
+                                return;
+                            }
+                            setIsDeclined(true);
+                        } catch (err: any) {
+                            Alert.alert('Error', err.message || 'Failed to decline invitation.');
+                        } finally {
+                            setIsDeclining(false);
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
     if (isLoading) {
         return (
             <View style={styles.centerContainer}>
@@ -159,6 +201,25 @@ export default function AcceptInviteScreen() {
         );
     }
 
+    if (isDeclined) {
+        return (
+            <View style={[styles.container, { paddingTop: insets.top }]}>
+                <View style={styles.errorContent}>
+                    <Ionicons name="checkmark-circle-outline" size={64} color="#8E8E93" />
+                    <Text style={styles.errorTitle}>Invitation Declined</Text>
+                    <Text style={styles.errorText}>
+                        You won&apos;t be added to {invitation.family?.name || 'the family'}. If you change your mind, ask for a new invitation.
+                    </Text>
+                    <TouchableOpacity
+                        style={styles.backButton}
+                        onPress={() => router.replace(user ? '/(tabs)' : '/login')}>
+                        <Text style={styles.backButtonText}>{user ? 'Done' : 'Back to Login'}</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        );
+    }
+
     if (error) {
         return (
             <View style={[styles.container, { paddingTop: insets.top }]}>
@@ -287,6 +348,17 @@ export default function AcceptInviteScreen() {
                             )}
                         </TouchableOpacity>
 
+                        <TouchableOpacity
+                            style={styles.declineButton}
+                            onPress={handleDecline}
+                            disabled={isAccepting || isDeclining}>
+                            {isDeclining ? (
+                                <ActivityIndicator color="#FF3B30" />
+                            ) : (
+                                <Text style={styles.declineButtonText}>Decline Invitation</Text>
+                            )}
+                        </TouchableOpacity>
+
                         {!user && (
                             <TouchableOpacity
                                 style={styles.loginLink}
@@ -416,6 +488,17 @@ const styles = StyleSheet.create({
         fontWeight: '700',
         color: '#FFF',
     },
+    declineButton: {
+        height: 48,
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginTop: 8,
+    },
+    declineButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#FF3B30',
+    },
     loginLink: {
         marginTop: 20,
         alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
@@ -12,6 +12,8 @@ export default function EventDetailScreen() {
   const eventId = paramId?.includes('::') ? paramId.split('::')[0] : paramId;
   const occurrence = params.occurrence as string | undefined;
   const insets = useSafeAreaInsets();
+  // Hidden until the event has loaded and turns out to be one the user can change
+  const [canEdit, setCanEdit] = useState(false);
 
   // Check if this is a personal calendar event (they can't be opened in detail view)
   // Check both paramId and eventId to catch all cases
@@ -38,7 +40,7 @@ export default function EventDetailScreen() {
         </View>
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>
-            Personal calendar events cannot be viewed in detail. They are read-only from your iOS calendar.
+            Personal calendar events cannot be viewed in detail. They are read-only from your device calendar.
           </Text>
         </View>
       </View>
@@ -54,16 +56,18 @@ export default function EventDetailScreen() {
           hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
           <Ionicons name="chevron-back" size={24} color="#1D1D1F" />
         </TouchableOpacity>
-        <TouchableOpacity
-          style={styles.editButton}
-          onPress={() => router.push({
-            pathname: '/event/[id]/edit',
-            params: { id: eventId }
-          })}>
-          <Text style={styles.editButtonText}>Edit</Text>
-        </TouchableOpacity>
+        {canEdit && (
+          <TouchableOpacity
+            style={styles.editButton}
+            onPress={() => router.push({
+              pathname: '/event/[id]/edit',
+              params: occurrence ? { id: eventId, occurrence } : { id: eventId }
+            })}>
+            <Text style={styles.editButtonText}>Edit</Text>
+          </TouchableOpacity>
+        )}
       </View>
-      <EventDetailView eventId={eventId} occurrence={occurrence} />
+      <EventDetailView eventId={eventId} occurrence={occurrence} onEditableChange={setCanEdit} />
     </View>
   );
 }
@@ -15,6 +15,14 @@ export default function SettingsLayout() {
           gestureEnabled: true,
         }}
       />
+      <Stack.Screen
+        name="driver-rota"
+        options={{
+          headerShown: false,
+          presentation: 'modal',
+          gestureEnabled: true,
+        }}
+      />
       <Stack.Screen
         name="import-calendars"
         options={{
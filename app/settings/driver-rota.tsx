@@ -0,0 +1,6 @@
+import { DriverRotaView } from '@/components/settings/DriverRotaView';
+import React from 'react';
+
+export default function DriverRotaScreen() {
+  return <DriverRotaView />;
+}
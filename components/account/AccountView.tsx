@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   ScrollView,
   StyleSheet,
@@ -19,18 +19,25 @@ import { useAppSettings } from '@/contexts/AppSettingsContext';
 import { updateFamily } from '@/services/familyService';
 import { FAMILY_EVENT_COLOR, MEMBER_COLORS, getContrastingTextColor, normalizeColorForDisplay } from '@/utils/colorUtils';
 import { ColorPickerModal } from '@/components/ui/ColorPickerModal';
+import { FamilySwitcherSheet } from '@/components/family/FamilySwitcher';
 
 export function AccountView() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user, userContact, signOut } = useAuth();
-  const { currentFamily, familyMembers, refreshFamilies } = useFamily();
+  const { currentFamily, families, familyMembers, refreshFamilies, getFamilyColor } = useFamily();
   const { settings, setFamilyCalendarColor } = useAppSettings();
   
   const [familyName, setFamilyName] = useState(currentFamily?.family_name || '');
   const [isSaving, setIsSaving] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
   const [showFamilyPicker, setShowFamilyPicker] = useState(false);
+  const [showFamilySwitcher, setShowFamilySwitcher] = useState(false);
+
+  // Follow the selected family when switching
+  useEffect(() => {
+    setFamilyName(currentFamily?.family_name || '');
+  }, [currentFamily?.id, currentFamily?.family_name]);
 
   // Find current user's member record
   const currentMember = familyMembers.find(m => m.contact.user_id === user?.id);
@@ -169,6 +176,16 @@ export function AccountView() {
         {currentFamily && (
           <>
             <Text style={styles.sectionHeader}>Family</Text>
+            {families.length > 1 && (
+              <TouchableOpacity style={styles.card} onPress={() => setShowFamilySwitcher(true)}>
+                <View style={styles.cardContent}>
+                  <View style={[styles.memberColorDot, { backgroundColor: getFamilyColor(currentFamily.id) }]} />
+                  <Text style={styles.memberNameText}>{currentFamily.name}</Text>
+                  <Text style={styles.memberCount}>Switch</Text>
+                  <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
+                </View>
+              </TouchableOpacity>
+            )}
             <View style={styles.inputCard}>
               <Text style={styles.inputLabel}>Family Name</Text>
               <TextInput
@@ -272,6 +289,7 @@ export function AccountView() {
         onSelect={handleSelectFamilyColor}
         title="Shared calendar colour"
       />
+      <FamilySwitcherSheet visible={showFamilySwitcher} onClose={() => setShowFamilySwitcher(false)} />
     </View>
   );
 }
@@ -1,6 +1,8 @@
 import { ColorPickerModal } from '@/components/ui/ColorPickerModal';
+import { useAuth } from '@/contexts/AuthContext';
 import { useFamily } from '@/contexts/FamilyContext';
 import { Contact } from '@/lib/supabase';
+import { requestArrivalAlertPermission } from '@/services/arrivalAlertService';
 import { updateContact } from '@/services/contactService';
 import { MEMBER_COLORS, getContrastingTextColor } from '@/utils/colorUtils';
 import { Ionicons } from '@expo/vector-icons';
@@ -9,6 +11,7 @@ import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
+  Platform,
   ScrollView,
   StyleSheet,
   Switch,
@@ -25,6 +28,7 @@ interface MemberEditViewProps {
 
 export function MemberEditView({ contactId }: MemberEditViewProps) {
   const { familyMembers, refreshMembers } = useFamily();
+  const { user } = useAuth();
   const insets = useSafeAreaInsets();
   const router = useRouter();
 
@@ -40,6 +44,7 @@ export function MemberEditView({ contactId }: MemberEditViewProps) {
   const [selectedColor, setSelectedColor] = useState<string>(MEMBER_COLORS[0]);
   const [canDrive, setCanDrive] = useState(false);
   const [routinesEnabled, setRoutinesEnabled] = useState(true);
+  const [arrivalAlertsEnabled, setArrivalAlertsEnabled] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showPicker, setShowPicker] = useState(false);
 
@@ -53,8 +58,27 @@ export function MemberEditView({ contactId }: MemberEditViewProps) {
     setSelectedColor(contact.color || MEMBER_COLORS[0]);
     setCanDrive(contact.contact_type === 'external_driver');
     setRoutinesEnabled(contact.routines_enabled ?? true);
+    setArrivalAlertsEnabled(contact.arrival_alerts_enabled ?? false);
   }, [contact]);
 
+  const isOwnContact = !!user && contact?.user_id === user.id;
+
+  const handleArrivalAlertsChange = async (enabled: boolean) => {
+    // Members turning it on for themselves are asked for location access straight away;
+    // anyone else's phone asks them the next time they open the app
+    if (enabled && isOwnContact && Platform.OS !== 'web') {
+      const granted = await requestArrivalAlertPermission();
+      if (!granted) {
+        Alert.alert(
+          'Location Access Needed',
+          'Allow FamilyCal to use your location "Always" in Settings to share arrivals.'
+        );
+        return;
+      }
+    }
+    setArrivalAlertsEnabled(enabled);
+  };
+
   const handleSave = async () => {
     if (!contact) return;
     if (!firstName.trim()) {
@@ -73,6 +97,7 @@ export function MemberEditView({ contactId }: MemberEditViewProps) {
         contact_type: canDrive ? 'external_driver' : 'family_member',
         color: selectedColor,
         routines_enabled: routinesEnabled,
+        arrival_alerts_enabled: arrivalAlertsEnabled,
       });
 
       if (error) {
@@ -219,6 +244,25 @@ export function MemberEditView({ contactId }: MemberEditViewProps) {
           </View>
         </View>
 
+        <View style={styles.card}>
+          <View style={styles.row}>
+            <View style={styles.driverInfo}>
+              <Text style={styles.label}>Share arrivals</Text>
+              <Text style={styles.helperText}>
+                {isOwnContact
+                  ? 'Let the family know when you arrive at or leave an event. Uses your location in the background.'
+                  : `Let the family know when ${contact.first_name} arrives at or leaves an event. ${contact.first_name}'s phone will ask for location access.`}
+              </Text>
+            </View>
+            <Switch
+              value={arrivalAlertsEnabled}
+              onValueChange={handleArrivalAlertsChange}
+              trackColor={{ false: '#E5E5E7', true: '#34C759' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        </View>
+
         <View style={styles.card}>
           <Text style={styles.label}>Calendar colour</Text>
           <Text style={styles.helperText}>Tap to pick a darker, high-contrast colour.</Text>
@@ -10,15 +10,26 @@ import {
   TextInput,
   Alert,
   Platform,
+  Share,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
+import QRCode from 'react-native-qrcode-svg';
 import { useFamily } from '@/contexts/FamilyContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { Contact, FamilyInvitation } from '@/lib/supabase';
+import { Contact, FamilyInvitation, FamilyJoinLink } from '@/lib/supabase';
 import { updateContactColor, addVirtualFamilyMember } from '@/services/contactService';
-import { createInvitation, getFamilyInvitations, cancelInvitation } from '@/services/familyService';
+import {
+  createInvitation,
+  getFamilyInvitations,
+  cancelInvitation,
+  resendInvitation,
+  getJoinLinks,
+  createJoinLink,
+  revokeJoinLink,
+  getJoinLinkUrl,
+} from '@/services/familyService';
 import { normalizeColorForDisplay } from '@/utils/colorUtils';
 import { ColorPickerModal } from '@/components/ui/ColorPickerModal';
 
@@ -31,16 +42,22 @@ if (Platform.OS === 'web') {
   FamilyMemberItem = require('./FamilyMemberItem').FamilyMemberItem;
 }
 
-type AddMemberType = 'choose' | 'virtual' | 'invite';
+type AddMemberType = 'choose' | 'virtual' | 'invite' | 'link';
+
+const DEFAULT_JOIN_LINK_USES = '5';
 
 
 
 interface InvitationItemProps {
   invitation: FamilyInvitation;
   onCancel: (id: string) => void;
+  onResend: (invitation: FamilyInvitation) => void;
 }
 
-function InvitationItem({ invitation, onCancel }: InvitationItemProps) {
+function InvitationItem({ invitation, onCancel, onResend }: InvitationItemProps) {
+  // The server marks stale invitations expired hourly; don't wait for it here
+  const isExpired = invitation.status === 'expired' || new Date(invitation.expires_at) < new Date();
+
   return (
     <View style={styles.invitationCard}>
       <View style={styles.invitationIcon}>
@@ -49,9 +66,18 @@ function InvitationItem({ invitation, onCancel }: InvitationItemProps) {
       <View style={styles.invitationInfo}>
         <Text style={styles.invitationEmail}>{invitation.email}</Text>
         <Text style={styles.invitationStatus}>
-          Pending · Expires {new Date(invitation.expires_at).toLocaleDateString()}
+          {invitation.status === 'declined'
+            ? 'Declined'
+            : isExpired
+              ? `Expired ${new Date(invitation.expires_at).toLocaleDateString()}`
+              : `Pending · Expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
         </Text>
       </View>
+      <TouchableOpacity
+        style={styles.cancelButton}
+        onPress={() => onResend(invitation)}>
+        <Ionicons name="refresh-circle" size={24} color="#007AFF" />
+      </TouchableOpacity>
       <TouchableOpacity
         style={styles.cancelButton}
         onPress={() => onCancel(invitation.id)}>
@@ -61,6 +87,42 @@ function InvitationItem({ invitation, onCancel }: InvitationItemProps) {
   );
 }
 
+interface JoinLinkItemProps {
+  link: FamilyJoinLink;
+  onPress: (link: FamilyJoinLink) => void;
+  onRevoke: (id: string) => void;
+}
+
+function JoinLinkItem({ link, onPress, onRevoke }: JoinLinkItemProps) {
+  const isExpired = new Date(link.expires_at) < new Date();
+  const isUsedUp = link.use_count >= link.max_uses;
+
+  return (
+    <TouchableOpacity style={styles.invitationCard} onPress={() => onPress(link)}>
+      <View style={styles.invitationIcon}>
+        <Ionicons name="qr-code-outline" size={20} color="#8E8E93" />
+      </View>
+      <View style={styles.invitationInfo}>
+        <Text style={styles.invitationEmail}>
+          {link.use_count} of {link.max_uses} {link.max_uses === 1 ? 'use' : 'uses'}
+        </Text>
+        <Text style={styles.invitationStatus}>
+          {isUsedUp
+            ? 'Used up'
+            : isExpired
+              ? `Expired ${new Date(link.expires_at).toLocaleDateString()}`
+              : `Expires ${new Date(link.expires_at).toLocaleDateString()}`}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.cancelButton}
+        onPress={() => onRevoke(link.id)}>
+        <Ionicons name="close-circle" size={24} color="#FF3B30" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+}
+
 export function MyFamilyView() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
@@ -84,6 +146,12 @@ export function MyFamilyView() {
   const [virtualRelationship, setVirtualRelationship] = useState('');
   const [isAddingVirtual, setIsAddingVirtual] = useState(false);
 
+  // Join link state
+  const [joinLinks, setJoinLinks] = useState<FamilyJoinLink[]>([]);
+  const [joinLinkMaxUses, setJoinLinkMaxUses] = useState(DEFAULT_JOIN_LINK_USES);
+  const [isCreatingJoinLink, setIsCreatingJoinLink] = useState(false);
+  const [activeJoinLink, setActiveJoinLink] = useState<FamilyJoinLink | null>(null);
+
   // Load invitations
   const loadInvitations = useCallback(async () => {
     if (!currentFamily) return;
@@ -105,6 +173,21 @@ export function MyFamilyView() {
     loadInvitations();
   }, [loadInvitations]);
 
+  const loadJoinLinks = useCallback(async () => {
+    if (!currentFamily) return;
+
+    const { data, error } = await getJoinLinks(currentFamily.id);
+    if (error) {
+      console.error('Error loading join links:', error);
+      return;
+    }
+    setJoinLinks(data || []);
+  }, [currentFamily]);
+
+  React.useEffect(() => {
+    loadJoinLinks();
+  }, [loadJoinLinks]);
+
   const handleColorChange = async (contactId: string, color: string) => {
     try {
       const { error } = await updateContactColor(contactId, color);
@@ -127,6 +210,8 @@ export function MyFamilyView() {
     setVirtualFirstName('');
     setVirtualLastName('');
     setVirtualRelationship('');
+    setJoinLinkMaxUses(DEFAULT_JOIN_LINK_USES);
+    setActiveJoinLink(null);
   };
 
   const handleCloseModal = () => {
@@ -134,6 +219,11 @@ export function MyFamilyView() {
     resetModalState();
   };
 
+  const handleModalBack = () => {
+    setAddMemberType('choose');
+    setActiveJoinLink(null);
+  };
+
   const handleSendInvite = async () => {
     if (!inviteEmail.trim()) {
       Alert.alert('Missing Email', 'Please enter an email address');
@@ -221,6 +311,78 @@ export function MyFamilyView() {
     );
   };
 
+  const handleResendInvite = async (invitation: FamilyInvitation) => {
+    try {
+      const { error } = await resendInvitation(invitation.id);
+      if (error) throw error;
+      Alert.alert('Invitation Sent', `A new invitation has been sent to ${invitation.email}. The old link no longer works.`);
+      loadInvitations();
+    } catch (err: any) {
+      console.error('Error resending invitation:', err);
+      Alert.alert('Error', err.message || 'Failed to resend invitation');
+    }
+  };
+
+  const handleCreateJoinLink = async () => {
+    const maxUses = parseInt(joinLinkMaxUses, 10);
+    if (!maxUses || maxUses < 1) {
+      Alert.alert('Invalid Number', 'Please enter how many people can use the link');
+      return;
+    }
+
+    if (!currentFamily) return;
+
+    setIsCreatingJoinLink(true);
+    try {
+      const { data, error } = await createJoinLink(currentFamily.id, maxUses);
+      if (error) throw error;
+      setActiveJoinLink(data);
+      loadJoinLinks();
+    } catch (err: any) {
+      console.error('Error creating join link:', err);
+      Alert.alert('Error', err.message || 'Failed to create join link');
+    } finally {
+      setIsCreatingJoinLink(false);
+    }
+  };
+
+  const handleShowJoinLink = (link: FamilyJoinLink) => {
+    setActiveJoinLink(link);
+    setAddMemberType('link');
+    setShowAddMemberModal(true);
+  };
+
+  const handleShareJoinLink = async (link: FamilyJoinLink) => {
+    try {
+      await Share.share({ message: `Join our family calendar: ${getJoinLinkUrl(link.token)}` });
+    } catch (err) {
+      console.error('Error sharing join link:', err);
+    }
+  };
+
+  const handleRevokeJoinLink = (linkId: string) => {
+    Alert.alert(
+      'Turn Off Link',
+      'No one else will be able to join with this link or QR code.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await revokeJoinLink(linkId);
+            if (error) {
+              console.error('Error revoking join link:', error);
+              Alert.alert('Error', 'Failed to turn off join link');
+              return;
+            }
+            loadJoinLinks();
+          },
+        },
+      ]
+    );
+  };
+
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
       {/* Header */}
@@ -279,7 +441,7 @@ export function MyFamilyView() {
         </View>
 
         {/* Invitations Section */}
-        <Text style={styles.sectionHeader}>Pending Invitations</Text>
+        <Text style={styles.sectionHeader}>Invitations</Text>
         <View style={styles.card}>
           {isLoadingInvitations ? (
             <View style={styles.loadingContainer}>
@@ -296,6 +458,7 @@ export function MyFamilyView() {
                 <InvitationItem
                   invitation={invitation}
                   onCancel={handleCancelInvite}
+                  onResend={handleResendInvite}
                 />
                 {index < invitations.length - 1 && <View style={styles.separator} />}
               </View>
@@ -303,6 +466,25 @@ export function MyFamilyView() {
           )}
         </View>
 
+        {/* Join Links Section */}
+        {joinLinks.length > 0 && (
+          <>
+            <Text style={styles.sectionHeader}>Join Links</Text>
+            <View style={styles.card}>
+              {joinLinks.map((link, index) => (
+                <View key={link.id}>
+                  <JoinLinkItem
+                    link={link}
+                    onPress={handleShowJoinLink}
+                    onRevoke={handleRevokeJoinLink}
+                  />
+                  {index < joinLinks.length - 1 && <View style={styles.separator} />}
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
         {/* Color Legend */}
         <Text style={styles.sectionHeader}>Color Guide</Text>
         <View style={styles.colorGuideCard}>
@@ -320,7 +502,7 @@ export function MyFamilyView() {
         onRequestClose={handleCloseModal}>
         <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
           <View style={styles.modalHeader}>
-            <TouchableOpacity onPress={addMemberType === 'choose' ? handleCloseModal : () => setAddMemberType('choose')}>
+            <TouchableOpacity onPress={addMemberType === 'choose' ? handleCloseModal : handleModalBack}>
               <Text style={styles.modalCancelButton}>
                 {addMemberType === 'choose' ? 'Cancel' : 'Back'}
               </Text>
@@ -329,6 +511,7 @@ export function MyFamilyView() {
               {addMemberType === 'choose' && 'Add Member'}
               {addMemberType === 'virtual' && 'Add Virtual Member'}
               {addMemberType === 'invite' && 'Invite by Email'}
+              {addMemberType === 'link' && 'Join Link'}
             </Text>
             {addMemberType === 'virtual' ? (
               <TouchableOpacity onPress={handleAddVirtualMember} disabled={isAddingVirtual}>
@@ -346,6 +529,14 @@ export function MyFamilyView() {
                   <Text style={styles.modalSendButton}>Send</Text>
                 )}
               </TouchableOpacity>
+            ) : addMemberType === 'link' && !activeJoinLink ? (
+              <TouchableOpacity onPress={handleCreateJoinLink} disabled={isCreatingJoinLink}>
+                {isCreatingJoinLink ? (
+                  <ActivityIndicator size="small" color="#007AFF" />
+                ) : (
+                  <Text style={styles.modalSendButton}>Create</Text>
+                )}
+              </TouchableOpacity>
             ) : (
               <View style={{ width: 50 }} />
             )}
@@ -386,6 +577,21 @@ export function MyFamilyView() {
                   </View>
                   <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
                 </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.typeOption}
+                  onPress={() => setAddMemberType('link')}>
+                  <View style={[styles.typeIconContainer, { backgroundColor: '#F3E5F5' }]}>
+                    <Ionicons name="qr-code-outline" size={28} color="#9C27B0" />
+                  </View>
+                  <View style={styles.typeOptionContent}>
+                    <Text style={styles.typeOptionTitle}>Share a Join Link</Text>
+                    <Text style={styles.typeOptionDescription}>
+                      Create a link or QR code several people can use to join, without entering their email addresses.
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
+                </TouchableOpacity>
               </View>
             )}
 
@@ -486,6 +692,52 @@ export function MyFamilyView() {
                 </View>
               </View>
             )}
+
+            {/* Join Link Form */}
+            {addMemberType === 'link' && !activeJoinLink && (
+              <View>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>How many people can use it?</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder={DEFAULT_JOIN_LINK_USES}
+                    placeholderTextColor="#8E8E93"
+                    value={joinLinkMaxUses}
+                    onChangeText={setJoinLinkMaxUses}
+                    keyboardType="number-pad"
+                    maxLength={3}
+                  />
+                </View>
+
+                <View style={styles.inviteInfo}>
+                  <Ionicons name="information-circle-outline" size={20} color="#8E8E93" />
+                  <Text style={styles.inviteInfoText}>
+                    Anyone with the link or QR code can join as a member until it has been used this many times. It expires in 7 days, and you can turn it off at any time.
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            {/* Join Link QR Code */}
+            {addMemberType === 'link' && activeJoinLink && (
+              <View style={styles.joinLinkContainer}>
+                <View style={styles.qrCodeCard}>
+                  <QRCode value={getJoinLinkUrl(activeJoinLink.token)} size={200} />
+                </View>
+                <Text style={styles.joinLinkUrl} selectable>
+                  {getJoinLinkUrl(activeJoinLink.token)}
+                </Text>
+                <Text style={styles.joinLinkUses}>
+                  {activeJoinLink.use_count} of {activeJoinLink.max_uses} {activeJoinLink.max_uses === 1 ? 'use' : 'uses'} · Expires {new Date(activeJoinLink.expires_at).toLocaleDateString()}
+                </Text>
+                <TouchableOpacity
+                  style={styles.shareButton}
+                  onPress={() => handleShareJoinLink(activeJoinLink)}>
+                  <Ionicons name="share-outline" size={20} color="#FFFFFF" />
+                  <Text style={styles.shareButtonText}>Share Link</Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </ScrollView>
         </View>
       </Modal>
@@ -684,6 +936,42 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     lineHeight: 20,
   },
+  joinLinkContainer: {
+    alignItems: 'center',
+    paddingTop: 8,
+  },
+  qrCodeCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  joinLinkUrl: {
+    fontSize: 14,
+    color: '#1D1D1F',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  joinLinkUses: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 24,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignSelf: 'stretch',
+  },
+  shareButtonText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 8,
+  },
   chooseTypeContainer: {
     paddingTop: 8,
   },
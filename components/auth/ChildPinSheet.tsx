@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { TabletChild } from '@/services/childAccountService';
+
+const PIN_LENGTH_MIN = 4;
+const PIN_LENGTH_MAX = 6;
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'back'];
+
+interface ChildPinSheetProps {
+  child: TabletChild | null;
+  onClose: () => void;
+}
+
+// Number pad a child signs in with on a shared tablet
+export function ChildPinSheet({ child, onClose }: ChildPinSheetProps) {
+  const { signInChild } = useAuth();
+  const [pin, setPin] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPin('');
+    setError(null);
+  }, [child?.contactId]);
+
+  const submit = async (value: string) => {
+    if (!child || value.length < PIN_LENGTH_MIN) return;
+
+    setIsLoading(true);
+    setError(null);
+    const { error: signInError } = await signInChild(child.contactId, value);
+    setIsLoading(false);
+
+    if (signInError) {
+      setError(signInError);
+      setPin('');
+      return;
+    }
+
+    // Navigation will be handled by the root layout based on auth state
+    onClose();
+  };
+
+  const handleKey = (key: string) => {
+    if (isLoading) return;
+    setError(null);
+
+    if (key === 'back') {
+      setPin((current) => current.slice(0, -1));
+      return;
+    }
+
+    const next = (pin + key).slice(0, PIN_LENGTH_MAX);
+    setPin(next);
+    // Six digits is as long as a PIN gets, so there's nothing left to wait for
+    if (next.length === PIN_LENGTH_MAX) {
+      submit(next);
+    }
+  };
+
+  return (
+    <Modal visible={!!child} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} style={styles.sheet}>
+          {child && (
+            <>
+              <View style={[styles.avatar, { backgroundColor: child.color || '#8E8E93' }]}>
+                <Text style={styles.avatarText}>{child.firstName.charAt(0).toUpperCase()}</Text>
+              </View>
+              <Text style={styles.title}>Hi {child.firstName}!</Text>
+              <Text style={styles.subtitle}>Type your PIN</Text>
+
+              <View style={styles.dots}>
+                {Array.from({ length: Math.max(PIN_LENGTH_MIN, pin.length) }).map((_, i) => (
+                  <View key={i} style={[styles.dot, i < pin.length && styles.dotFilled]} />
+                ))}
+              </View>
+
+              {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+              <View style={styles.keypad}>
+                {KEYS.map((key, i) =>
+                  key === '' ? (
+                    <View key={i} style={styles.key} />
+                  ) : (
+                    <TouchableOpacity
+                      key={i}
+                      style={styles.key}
+                      onPress={() => handleKey(key)}
+                      disabled={isLoading}>
+                      {key === 'back' ? (
+                        <Ionicons name="backspace-outline" size={26} color="#1D1D1F" />
+                      ) : (
+                        <Text style={styles.keyText}>{key}</Text>
+                      )}
+                    </TouchableOpacity>
+                  )
+                )}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.goButton, (pin.length < PIN_LENGTH_MIN || isLoading) && styles.buttonDisabled]}
+                onPress={() => submit(pin)}
+                disabled={pin.length < PIN_LENGTH_MIN || isLoading}>
+                {isLoading ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.goButtonText}>Go</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  avatarText: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1D1D1F',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  dots: {
+    flexDirection: 'row',
+    marginVertical: 20,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: '#1D1D1F',
+    marginHorizontal: 8,
+  },
+  dotFilled: {
+    backgroundColor: '#1D1D1F',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    width: 264,
+    justifyContent: 'space-between',
+  },
+  key: {
+    width: 80,
+    height: 64,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: '500',
+    color: '#1D1D1F',
+  },
+  goButton: {
+    backgroundColor: '#1D1D1F',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginTop: 8,
+  },
+  goButtonText: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
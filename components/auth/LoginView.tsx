@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   StyleSheet,
   Text,
@@ -12,6 +12,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
+import { getTabletChildren, TabletChild } from '@/services/childAccountService';
+import { ChildPinSheet } from './ChildPinSheet';
 
 export function LoginView() {
   const router = useRouter();
@@ -23,6 +25,13 @@ export function LoginView() {
   const [isLoading, setIsLoading] = useState(false);
   const [isGoogleLoading, setIsGoogleLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [tabletChildren, setTabletChildren] = useState<TabletChild[]>([]);
+  const [pinChild, setPinChild] = useState<TabletChild | null>(null);
+
+  // Children a parent has put on this device sign in with a PIN
+  useEffect(() => {
+    getTabletChildren().then(setTabletChildren);
+  }, []);
 
   const handleSignIn = async () => {
     if (!email.trim()) {
@@ -123,6 +132,27 @@ export function LoginView() {
             <Text style={styles.tagline}>Family Calendar Made Simple</Text>
           </View>
 
+          {/* Kids on this device */}
+          {tabletChildren.length > 0 && (
+            <View style={styles.kidsContainer}>
+              <Text style={styles.kidsTitle}>Kids</Text>
+              <View style={styles.kidsRow}>
+                {tabletChildren.map((child) => (
+                  <TouchableOpacity
+                    key={child.contactId}
+                    style={styles.kidButton}
+                    onPress={() => setPinChild(child)}
+                    disabled={isLoading}>
+                    <View style={[styles.kidAvatar, { backgroundColor: child.color || '#8E8E93' }]}>
+                      <Text style={styles.kidAvatarText}>{child.firstName.charAt(0).toUpperCase()}</Text>
+                    </View>
+                    <Text style={styles.kidName} numberOfLines={1}>{child.firstName}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
           {/* Error Message */}
           {error && (
             <View style={styles.errorContainer}>
@@ -259,6 +289,8 @@ export function LoginView() {
           </View>
         </View>
       </ScrollView>
+
+      <ChildPinSheet child={pinChild} onClose={() => setPinChild(null)} />
     </View>
   );
 }
@@ -315,6 +347,43 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     fontWeight: '400',
   },
+  kidsContainer: {
+    marginBottom: 32,
+  },
+  kidsTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  kidsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  kidButton: {
+    alignItems: 'center',
+    width: 72,
+    marginRight: 12,
+    marginBottom: 12,
+  },
+  kidAvatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  kidAvatarText: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  kidName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
   errorContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -99,16 +99,10 @@ export function SignupView({ invitationToken }: SignupViewProps) {
         if (invitationToken) {
           try {
             const { data: invitation } = await getInvitationByToken(invitationToken);
-            if (invitation) {
+            if (invitation?.status === 'pending') {
               const { data: { user: newUser } } = await supabase.auth.getUser();
               if (newUser) {
-                await acceptInvitation(
-                  invitation.id,
-                  newUser.id,
-                  newUser.email!,
-                  firstName.trim(),
-                  lastName.trim()
-                );
+                await acceptInvitation(invitation.invitation_token, firstName.trim(), lastName.trim());
               }
             }
           } catch (err) {
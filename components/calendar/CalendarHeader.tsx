@@ -1,3 +1,4 @@
+import { FamilySwitcher } from '@/components/family/FamilySwitcher';
 import { useThemeColor } from '@/hooks/use-theme-color';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useState } from 'react';
@@ -15,6 +16,8 @@ interface CalendarHeaderProps {
   onListPress?: () => void;
   currentView?: 'month' | 'daily' | 'list';
   backgroundOverride?: string;
+  // Offer the merged "all my families" calendar in the family switcher
+  allowAllFamilies?: boolean;
 }
 
 interface ViewSelectorProps {
@@ -108,7 +111,7 @@ function ViewSelector({ currentView, onViewChange, buttonColor, activeButtonColo
   );
 }
 
-export function CalendarHeader({ month, year, onTodayPress, onMonthPress, onDailyPress, onListPress, currentView = 'month', backgroundOverride }: CalendarHeaderProps) {
+export function CalendarHeader({ month, year, onTodayPress, onMonthPress, onDailyPress, onListPress, currentView = 'month', backgroundOverride, allowAllFamilies = false }: CalendarHeaderProps) {
   const insets = useSafeAreaInsets();
 
   // All theme colors must be called at the top level, unconditionally
@@ -124,9 +127,12 @@ export function CalendarHeader({ month, year, onTodayPress, onMonthPress, onDail
 
   return (
     <View style={[styles.container, { paddingTop: Math.max(insets.top, 12), backgroundColor }]}>
-      <Text style={[styles.monthTitle, { color: textColor }]}>
-        {month} {year}
-      </Text>
+      <View>
+        <Text style={[styles.monthTitle, { color: textColor }]}>
+          {month} {year}
+        </Text>
+        <FamilySwitcher allowAll={allowAllFamilies} />
+      </View>
       <View style={styles.buttonContainer}>
         <ViewSelector
           currentView={currentView || 'month'}
@@ -5,10 +5,11 @@ import { useFamily } from '@/contexts/FamilyContext';
 import { useSelectedDate } from '@/contexts/SelectedDateContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
 import { Contact } from '@/lib/supabase';
-import { EventWithDetails } from '@/services/eventService';
+import { EventWithDetails, getAttendingParticipants, getEventsForDateRange } from '@/services/eventService';
 import { getPersonalCalendarEventsForUser, PersonalCalendarEvent } from '@/services/personalCalendarService';
 import { FAMILY_EVENT_COLOR, formatDisplayName, getEventColor } from '@/utils/colorUtils';
 import { generateMockEvents, MockEvent } from '@/utils/mockEvents';
+import { getEventTimeZone } from '@/utils/timezone';
 import { useRouter } from 'expo-router';
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, Dimensions, Platform, ScrollView, StyleSheet, Text, View } from 'react-native';
@@ -68,14 +69,20 @@ function mapSupabaseEventsToMockEvents(
   const baseFamilyColor = familyColor || FAMILY_EVENT_COLOR;
 
   for (const event of events) {
+    // Declined participants aren't shown on the event; one everyone declined keeps
+    // them, greyed out
+    const attending = getAttendingParticipants(event.participants);
+    const isDeclined = !!event.participants?.length && attending.length === 0;
+    const participants = isDeclined ? event.participants : attending;
+
     // Get participant colors for determining event color
-    const participantColors = event.participants?.map(
+    const participantColors = participants?.map(
       (p) => p.contact?.color
     ) || [];
     const validColors = participantColors.filter((c): c is string => c !== null);
 
     const allFamilyCount = familyMembers?.length || 0;
-    const participantCount = event.participants?.length || 0;
+    const participantCount = participants?.length || 0;
     const isAllFamilyEvent = allFamilyCount > 0 && participantCount === allFamilyCount;
 
     // Determine event color and gradient colors:
@@ -108,15 +115,15 @@ function mapSupabaseEventsToMockEvents(
     // Create ONE event per Supabase event (not per participant)
     // For person display, show all participants if multiple, or single participant name
     let personName: string | undefined;
-    if (event.participants && event.participants.length > 0) {
-      if (event.participants.length === 1) {
-        const contact = event.participants[0]?.contact;
+    if (participants && participants.length > 0) {
+      if (participants.length === 1) {
+        const contact = participants[0]?.contact;
         if (contact) {
           personName = formatDisplayName(contact.first_name, contact.last_name, familyName);
         }
-      } else if (event.participants.length > 1) {
+      } else if (participants.length > 1) {
         // Multiple participants - could show first participant or leave undefined
-        const firstContact = event.participants[0]?.contact;
+        const firstContact = participants[0]?.contact;
         if (firstContact) {
           personName = formatDisplayName(firstContact.first_name, firstContact.last_name, familyName);
         }
@@ -135,6 +142,8 @@ function mapSupabaseEventsToMockEvents(
       location: event.location || undefined,
       isRecurring: event.is_recurring,
       person: personName,
+      timeZone: getEventTimeZone(event),
+      rsvpStatus: isDeclined ? 'declined' : undefined,
     });
   }
 
@@ -170,7 +179,7 @@ interface MonthData {
 
 export function CalendarMonthView() {
   const router = useRouter();
-  const { currentFamily, familyMembers, contacts } = useFamily();
+  const { currentFamily, familyMembers, contacts, families, setCurrentFamily, showAllFamilies, getFamilyColor } = useFamily();
   const { settings } = useAppSettings();
   const eventCache = useEventCache();
   const { user } = useAuth();
@@ -193,6 +202,9 @@ export function CalendarMonthView() {
   const isScrollingRef = useRef(false);
   const [personalCalendarEvents, setPersonalCalendarEvents] = useState<PersonalCalendarEvent[]>([]);
   const [calendarViewMode, setCalendarViewMode] = useState<'month' | 'daily' | 'list'>('month');
+  // "All my families": every family's events in one calendar, coloured by family
+  const isMergedView = showAllFamilies && families.length > 1;
+  const [mergedEvents, setMergedEvents] = useState<EventWithDetails[]>([]);
 
   // Load persisted state
   useEffect(() => {
@@ -240,13 +252,23 @@ export function CalendarMonthView() {
   const handleEventPress = (eventId: string, originalEventId?: string, occurrenceIso?: string) => {
     // Check if this is a personal calendar event (they can't be opened in detail view)
     if (eventId.startsWith('personal-') || (originalEventId && originalEventId.startsWith('personal-'))) {
-      // Personal calendar events are read-only from iOS, so we can't show details
+      // Personal calendar events are read-only from the device calendar, so we can't show details
       console.log('Personal calendar event clicked - cannot show details');
       return;
     }
 
     const actualId = originalEventId || eventId;
     const canonicalId = actualId.split('::')[0];
+
+    // Open another family's event from within that family
+    if (isMergedView) {
+      const familyId = mergedEvents.find((e) => (e.original_event_id || e.id) === canonicalId)?.family_id;
+      const family = families.find((f) => f.id === familyId);
+      if (family && family.id !== currentFamily?.id) {
+        setCurrentFamily(family);
+      }
+    }
+
     router.push({
       pathname: `/event/${canonicalId}`,
       params: occurrenceIso ? { occurrence: occurrenceIso } : undefined,
@@ -255,7 +277,7 @@ export function CalendarMonthView() {
 
   // Fetch personal calendar events for visible date range
   useEffect(() => {
-    if (!user || !currentFamily || Platform.OS !== 'ios') {
+    if (!user || !currentFamily) {
       setPersonalCalendarEvents([]);
       return;
     }
@@ -317,6 +339,37 @@ export function CalendarMonthView() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [baseDate, monthOffset, currentFamily?.id]);
 
+  // The merged view fetches each family's events directly; the event cache only holds
+  // the current family's
+  useEffect(() => {
+    if (!isMergedView) {
+      setMergedEvents([]);
+      return;
+    }
+
+    let cancelled = false;
+    const startMonth = addMonths(baseDate, monthOffset - INITIAL_FETCH_RANGE);
+    const endMonth = addMonths(baseDate, monthOffset + INITIAL_FETCH_RANGE + 1);
+    const startDate = new Date(startMonth.getFullYear(), startMonth.getMonth(), 1);
+    const endDate = new Date(endMonth.getFullYear(), endMonth.getMonth(), 1);
+
+    Promise.all(families.map((family) => getEventsForDateRange(family.id, startDate, endDate))).then((results) => {
+      if (cancelled) return;
+      const events: EventWithDetails[] = [];
+      results.forEach(({ data, error }, index) => {
+        if (error) {
+          console.warn(`[CalendarMonthView] Error fetching events for ${families[index].name}:`, error);
+        }
+        events.push(...(data || []));
+      });
+      setMergedEvents(events);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isMergedView, families, baseDate, monthOffset]);
+
   // Generate months array (BUFFER_SIZE on each side of center)
   const monthsData = useMemo(() => {
     const months: MonthData[] = [];
@@ -330,7 +383,24 @@ export function CalendarMonthView() {
 
       // Map raw events to MockEvent format
       let events: MockEvent[] = [];
-      if (rawEvents.length > 0 && currentFamily) {
+      if (isMergedView) {
+        const monthStart = new Date(info.year, info.month - 1, 1);
+        const monthEnd = new Date(info.year, info.month, 1);
+        for (const family of families) {
+          const familyEvents = mergedEvents.filter((event) => {
+            const start = new Date(event.start_time);
+            return event.family_id === family.id && start >= monthStart && start < monthEnd;
+          });
+          const familyColor = getFamilyColor(family.id);
+          events.push(
+            ...mapSupabaseEventsToMockEvents(familyEvents, [], family.name, familyColor).map((event) => ({
+              ...event,
+              color: familyColor,
+              gradientColors: undefined,
+            }))
+          );
+        }
+      } else if (rawEvents.length > 0 && currentFamily) {
         const familyColor = settings.familyCalendarColor || FAMILY_EVENT_COLOR;
         const familyContacts = familyMembers.map(fm => fm.contact).filter((c): c is Contact => c !== undefined);
         events = mapSupabaseEventsToMockEvents(rawEvents, familyContacts, currentFamily?.name, familyColor);
@@ -385,7 +455,7 @@ export function CalendarMonthView() {
     }
 
     return months;
-  }, [baseDate, monthOffset, eventCache, currentFamily, familyMembers, settings.familyCalendarColor]);
+  }, [baseDate, monthOffset, eventCache, currentFamily, familyMembers, settings.familyCalendarColor, isMergedView, families, mergedEvents, getFamilyColor]);
 
 
   const handleTodayPress = () => {
@@ -574,6 +644,7 @@ export function CalendarMonthView() {
           onListPress={handleListPress}
           currentView="list"
           backgroundOverride={cardColor}
+          allowAllFamilies
         />
         <ListView events={allEvents} onEventPress={handleEventPress} />
       </View>
@@ -604,6 +675,7 @@ export function CalendarMonthView() {
         onListPress={handleListPress}
         currentView="month"
         backgroundOverride={cardColor}
+        allowAllFamilies
       />
       <View style={[styles.weekDaysHeader, { backgroundColor: surfaceColor, borderColor: surfaceColor }]}>
         {DAYS_OF_WEEK.map((day) => (
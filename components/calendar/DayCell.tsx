@@ -154,6 +154,8 @@ export function DayCell({
                 location={event.location}
                 person={event.person}
                 isRecurring={event.isRecurring}
+                timeZone={event.timeZone}
+                isDeclined={event.rsvpStatus === 'declined'}
                 onPress={onEventPress}
               />
             ))}
@@ -3,20 +3,30 @@ import { useAuth } from '@/contexts/AuthContext';
 import { getMonthCacheKey, useEventCache } from '@/contexts/EventCacheContext';
 import { useFamily } from '@/contexts/FamilyContext';
 import { useSelectedDate } from '@/contexts/SelectedDateContext';
+import { EventConflictSheet, useEventConflictCheck } from '@/components/event/EventConflictSheet';
 import { useThemeColor } from '@/hooks/use-theme-color';
 import { Contact } from '@/lib/supabase';
-import { EventWithDetails, updateEvent } from '@/services/eventService';
+import {
+  EventWithDetails,
+  getAttendingParticipants,
+  getEvent,
+  moveFutureEventOccurrences,
+  updateEvent,
+  updateEventOccurrence,
+} from '@/services/eventService';
 import { getPersonalCalendarEventsForUser, PersonalCalendarEvent } from '@/services/personalCalendarService';
 import { FAMILY_EVENT_COLOR, formatDisplayName, getEventColor } from '@/utils/colorUtils';
 import { FamilyEvent } from '@/utils/mockEvents';
+import { promptRecurringScope } from '@/utils/recurringScope';
+import { getEventTimeZone } from '@/utils/timezone';
 import { useFocusEffect } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Dimensions,
   GestureResponderEvent,
-  Platform,
   Pressable,
   ScrollView,
   StyleSheet,
@@ -67,14 +77,20 @@ function mapSupabaseEventsToFamilyEventsForCalendar(
   const baseFamilyColor = familyColor || FAMILY_EVENT_COLOR;
 
   for (const event of events) {
+    // Declined participants aren't shown on the event; one everyone declined keeps
+    // them, greyed out
+    const attending = getAttendingParticipants(event.participants);
+    const isDeclined = !!event.participants?.length && attending.length === 0;
+    const participants = isDeclined ? event.participants : attending;
+
     // Get participant colors for determining event color
-    const participantColors = event.participants?.map(
+    const participantColors = participants?.map(
       (p) => p.contact?.color
     ) || [];
     const validColors = participantColors.filter((c): c is string => c !== null);
 
     const allFamilyCount = familyMembers?.length || 0;
-    const participantCount = event.participants?.length || 0;
+    const participantCount = participants?.length || 0;
     const isAllFamilyEvent = allFamilyCount > 0 && participantCount === allFamilyCount;
 
     // Determine event color and gradient colors:
@@ -111,9 +127,9 @@ function mapSupabaseEventsToFamilyEventsForCalendar(
 
     let participantNameToColor: { [name: string]: string } | undefined;
 
-    if (event.participants && event.participants.length > 0) {
+    if (participants && participants.length > 0) {
       // Extract all participant names for filtering and map them to their colors
-      participantNames = event.participants
+      participantNames = participants
         .map(p => {
           if (!p.contact) return null;
           return formatDisplayName(p.contact.first_name, p.contact.last_name, familyName);
@@ -122,7 +138,7 @@ function mapSupabaseEventsToFamilyEventsForCalendar(
 
       // Create mapping of participant name to their color
       participantNameToColor = {};
-      event.participants.forEach((p, index) => {
+      participants.forEach((p, index) => {
         if (p.contact) {
           const name = formatDisplayName(p.contact.first_name, p.contact.last_name, familyName);
           const participantColor = p.contact.color || validColors[index] || color;
@@ -130,9 +146,9 @@ function mapSupabaseEventsToFamilyEventsForCalendar(
         }
       });
 
-      if (event.participants.length === 1) {
+      if (participants.length === 1) {
         personName = participantNames[0] || 'Family';
-      } else if (event.participants.length > 1) {
+      } else if (participants.length > 1) {
         // Multiple participants - show all names joined, or first name as fallback
         personName = participantNames.join(', ') || 'Family';
       } else {
@@ -156,6 +172,10 @@ function mapSupabaseEventsToFamilyEventsForCalendar(
       participantNameToColor, // Map of participant name to their color
       isRecurring: event.is_recurring,
       isAllDay: event.is_all_day,
+      timeZone: getEventTimeZone(event),
+      rsvpStatus: isDeclined ? 'declined' : undefined,
+      createdBy: event.created_by,
+      editPermission: event.edit_permission,
     });
   }
 
@@ -185,11 +205,12 @@ function mapPersonalCalendarEventsToFamilyEvents(
 export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress, currentView = 'daily' }: DayViewProps = {}) {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { currentFamily, familyMembers } = useFamily();
+  const { currentFamily, familyMembers, canEditEvent } = useFamily();
   const { settings } = useAppSettings();
   const eventCache = useEventCache();
   const { setSelectedDate: setGlobalSelectedDate } = useSelectedDate();
   const { user } = useAuth();
+  const { confirmEventTime, sheetProps: conflictSheetProps } = useEventConflictCheck();
   const backgroundColor = useThemeColor({}, 'background');
   const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
   const surfaceColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
@@ -247,7 +268,7 @@ export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress,
 
   // Fetch personal calendar events for visible date range
   useEffect(() => {
-    if (!user || !currentFamily || Platform.OS !== 'ios') {
+    if (!user || !currentFamily) {
       setPersonalCalendarEvents([]);
       return;
     }
@@ -614,8 +635,92 @@ export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress,
     return { top, height };
   };
 
+  // Persist new times for a dragged or resized event. For an occurrence of a recurring
+  // event, ask whether to move just it (as an exception), it and later ones, or the series.
+  // Returns false if the user cancelled.
+  const saveEventTimeChange = async (
+    eventId: string,
+    event: FamilyEvent | undefined,
+    newStartTime: Date,
+    newEndTime: Date
+  ): Promise<boolean> => {
+    // Drag and resize are off for these, but the database would refuse the change anyway
+    if (event && !canEditEvent(event.createdBy, event.editPermission)) return false;
+
+    const baseId = (event?.originalEventId || eventId).split('::')[0];
+    const occurrenceIso = eventId.split('::')[1];
+
+    // The cached event has the people to check the new time against
+    const cachedEvent = event
+      ? eventCache.getEvents(getMonthCacheKeyStandard(event.startTime)).find((e) => e.id === eventId)
+      : undefined;
+    if (currentFamily && cachedEvent && cachedEvent.availability !== 'free') {
+      const saveAnyway = await confirmEventTime(currentFamily.id, {
+        startTime: newStartTime,
+        endTime: newEndTime,
+        contactIds: getAttendingParticipants(cachedEvent.participants).map((p) => p.contact_id),
+        excludeEventId: baseId,
+      });
+      if (!saveAnyway) return false;
+    }
+
+    if (!event?.isRecurring || !occurrenceIso) {
+      const { error } = await updateEvent(baseId, { startTime: newStartTime, endTime: newEndTime });
+      if (error) throw error;
+      return true;
+    }
+
+    const scope = await promptRecurringScope({
+      title: 'Move recurring event',
+      message: 'Do you want to move just this occurrence or this and future occurrences?',
+      verb: 'Move',
+    });
+    if (!scope) return false;
+
+    const { data: series, error: fetchError } = await getEvent(baseId);
+    if (fetchError || !series) throw fetchError || new Error('Event not found');
+
+    const occurrenceStart = new Date(occurrenceIso);
+    const startDeltaMs = newStartTime.getTime() - event.startTime.getTime();
+    const endDeltaMs = newEndTime.getTime() - event.endTime.getTime();
+
+    if (scope === 'single') {
+      // Any title/location override already stored for this occurrence stays
+      const { error } = await updateEventOccurrence(baseId, occurrenceStart, {
+        startTime: newStartTime,
+        endTime: newEndTime,
+      });
+      if (error) throw error;
+    } else if (scope === 'future') {
+      const durationMs = new Date(series.end_time).getTime() - new Date(series.start_time).getTime();
+      const { error } = await moveFutureEventOccurrences(
+        series,
+        occurrenceStart,
+        new Date(occurrenceStart.getTime() + startDeltaMs),
+        new Date(occurrenceStart.getTime() + durationMs + endDeltaMs)
+      );
+      if (error) throw error;
+    } else {
+      // Shift the whole series by the same offset the occurrence was moved
+      const { error } = await updateEvent(baseId, {
+        startTime: new Date(new Date(series.start_time).getTime() + startDeltaMs),
+        endTime: new Date(new Date(series.end_time).getTime() + endDeltaMs),
+      });
+      if (error) throw error;
+    }
+    return true;
+  };
+
+  const revertEventPosition = (eventId: string) => {
+    setEventPositions((prev) => {
+      const next = { ...prev };
+      delete next[eventId];
+      return next;
+    });
+  };
+
   const handleDragEnd = async (eventId: string, newTop: number, newHeight?: number) => {
-    // Don't allow editing personal calendar events (they're read-only from iOS)
+    // Don't allow editing personal calendar events (they're read-only from the device calendar)
     if (eventId.startsWith('personal-')) {
       console.log('Cannot edit personal calendar event - read-only');
       return;
@@ -650,16 +755,17 @@ export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress,
       }));
 
       // Save to Supabase
-      const originalId = (dayEvents.find((e) => e.id === eventId)?.originalEventId || eventId).split('::')[0];
       try {
-        await updateEvent(originalId, {
-          startTime: newStartTime,
-          endTime: newEndTime,
-        });
+        const saved = await saveEventTimeChange(eventId, event, newStartTime, newEndTime);
+        if (!saved) {
+          revertEventPosition(eventId);
+          return;
+        }
         // Refresh cache after successful update
         eventCache.refreshCache(getMonthCacheKeyStandard(selectedDate));
-      } catch (err) {
+      } catch (err: any) {
         console.error('Error updating event time:', err);
+        Alert.alert('Error', err?.message || 'Failed to move event.');
         // Revert on error - refresh cache
         eventCache.refreshCache(getMonthCacheKeyStandard(selectedDate));
       }
@@ -667,7 +773,7 @@ export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress,
   };
 
   const handleResizeEnd = async (eventId: string, newTop: number, newHeight: number, eventDate?: Date) => {
-    // Don't allow editing personal calendar events (they're read-only from iOS)
+    // Don't allow editing personal calendar events (they're read-only from the device calendar)
     if (eventId.startsWith('personal-')) {
       console.log('Cannot resize personal calendar event - read-only');
       return;
@@ -708,16 +814,17 @@ export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress,
 
     // Save to Supabase
     const event = eventsForDay.find((e) => e.id === eventId);
-    const originalId = (event?.originalEventId || eventId).split('::')[0];
     try {
-      await updateEvent(originalId, {
-        startTime: newStartTime,
-        endTime: newEndTime,
-      });
+      const saved = await saveEventTimeChange(eventId, event, newStartTime, newEndTime);
+      if (!saved) {
+        revertEventPosition(eventId);
+        return;
+      }
       // Invalidate cache to refresh
       eventCache.invalidateCache([monthKey]);
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error updating event time:', err);
+      Alert.alert('Error', err?.message || 'Failed to move event.');
       // Revert on error - refresh cache for this month
       eventCache.refreshCache(monthKey);
     }
@@ -725,9 +832,9 @@ export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress,
 
   const handleEventPress = (eventId: string, originalEventId?: string, occurrenceIso?: string) => {
     // Check if this is a personal calendar event (they can't be opened in detail view)
-    // Check eventId first (it has the "personal-" prefix), not originalEventId (which is just the iOS event ID)
+    // Check eventId first (it has the "personal-" prefix), not originalEventId (which is just the device event ID)
     if (eventId && eventId.startsWith('personal-')) {
-      // Personal calendar events are read-only from iOS, so we can't show details
+      // Personal calendar events are read-only from the device calendar, so we can't show details
       console.log('Personal calendar event clicked - cannot show details');
       return;
     }
@@ -919,11 +1026,17 @@ export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress,
                                 key={event.id}
                                 style={[
                                   styles.allDayEventBar,
-                                  { backgroundColor: event.color }
+                                  { backgroundColor: event.color },
+                                  event.rsvpStatus === 'declined' && styles.declinedEvent,
                                 ]}
                                 onPress={() => handleEventPress(event.id, event.originalEventId)}
                               >
-                                <Text style={styles.allDayEventText} numberOfLines={1}>
+                                <Text
+                                  style={[
+                                    styles.allDayEventText,
+                                    event.rsvpStatus === 'declined' && styles.declinedEventText,
+                                  ]}
+                                  numberOfLines={1}>
                                   {event.title}
                                 </Text>
                               </TouchableOpacity>
@@ -953,6 +1066,7 @@ export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress,
                                 left={layout?.left}
                                 width={layout?.width}
                                 isPast={isPast}
+                                editable={!event.id.startsWith('personal-') && canEditEvent(event.createdBy, event.editPermission)}
                                 onDragEnd={handleDragEnd}
                                 onResizeEnd={handleResizeEnd}
                                 onPress={handleEventPress}
@@ -969,6 +1083,8 @@ export function DayView({ onTodayPress, onMonthPress, onDailyPress, onListPress,
           );
         })}
       </ScrollView>
+
+      <EventConflictSheet {...conflictSheetProps} />
     </View >
   );
 }
@@ -1160,6 +1276,12 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  declinedEvent: {
+    opacity: 0.4,
+  },
+  declinedEventText: {
+    textDecorationLine: 'line-through',
+  },
 });
 
 // Helper function to calculate layout for overlapping events
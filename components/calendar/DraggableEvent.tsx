@@ -2,6 +2,7 @@ import { hexToRgba } from '@/utils/colorUtils';
 import { LinearGradient } from 'expo-linear-gradient';
 import React, { useEffect, useRef, useState } from 'react';
 import { Animated, PanResponder, StyleSheet, Text, View } from 'react-native';
+import { TimeZoneMarker } from './TimeZoneMarker';
 
 interface DraggableEventProps {
     event: any;
@@ -11,6 +12,7 @@ interface DraggableEventProps {
     left?: number | string;
     width?: number | string;
     isPast?: boolean;
+    editable?: boolean; // False for events the user can open but not move or resize
     onDragEnd: (eventId: string, newTop: number, newHeight?: number, date?: Date) => void;
     onResizeEnd: (eventId: string, newTop: number, newHeight: number, date?: Date) => void;
     onPress: (eventId: string, originalEventId?: string, occurrenceIso?: string) => void;
@@ -35,6 +37,7 @@ export function DraggableEvent({
     left,
     width,
     isPast = false,
+    editable = true,
     onDragEnd,
     onResizeEnd,
     onPress,
@@ -47,14 +50,18 @@ export function DraggableEvent({
 
     const initialTopRef = useRef(initialTop);
     const initialHeightRef = useRef(height);
+    // The pan responders are created once, so they read this rather than the prop
+    const editableRef = useRef(editable);
+    editableRef.current = editable;
 
     const displayColor = event.color || '#1890ff';
     const hasGradient = event.gradientColors && event.gradientColors.length > 1;
 
     // Transparency logic
-    // Past events: 0.4 opacity
+    // Past events and events everyone declined: 0.4 opacity
     // Future/Current events: 0.85 opacity (slightly transparent to show overlaps)
-    const opacity = isPast ? 0.4 : 0.85;
+    const isDeclined = event.rsvpStatus === 'declined';
+    const opacity = isPast || isDeclined ? 0.4 : 0.85;
 
     const gradientColorsNormalized = (event.gradientColors || [displayColor, displayColor]).map(
         (c: string) => hexToRgba(c, opacity)
@@ -63,6 +70,7 @@ export function DraggableEvent({
 
     // Ensure text remains opaque and visible
     const textOnColor = '#FFFFFF';
+    const titleStyle = { color: textOnColor, textDecorationLine: isDeclined ? 'line-through' : 'none' } as const;
 
     const [currentTimes, setCurrentTimes] = useState({
         startTime: new Date(event.startTime),
@@ -100,12 +108,14 @@ export function DraggableEvent({
                 return Math.abs(gestureState.dx) > 5 || Math.abs(gestureState.dy) > 5;
             },
             onPanResponderGrant: () => {
+                if (!editableRef.current) return;
                 setIsDragging(true);
                 initialTopRef.current = currentTop;
                 pan.setOffset({ x: 0, y: 0 });
                 pan.setValue({ x: 0, y: 0 });
             },
             onPanResponderMove: (_, gestureState) => {
+                if (!editableRef.current) return;
                 const newTop = initialTopRef.current + gestureState.dy;
                 if (newTop >= 0 && newTop + currentHeight <= 24 * 60) {
                     pan.setValue({ x: 0, y: gestureState.dy });
@@ -120,6 +130,7 @@ export function DraggableEvent({
                     onPress(event.id, event.originalEventId, event.startTime.toISOString());
                     return;
                 }
+                if (!editableRef.current) return;
 
                 const finalY = initialTopRef.current + gestureState.dy;
                 const constrainedY = Math.max(0, Math.min(finalY, 24 * 60 - currentHeight));
@@ -210,15 +221,21 @@ export function DraggableEvent({
                     start={{ x: 0, y: 0 }}
                     end={{ x: 1, y: 0 }}
                     style={styles.gradient}>
-                    <Text style={{ color: textOnColor }}>{event.title}</Text>
+                    <Text style={titleStyle}>{event.title}</Text>
+                    <TimeZoneMarker timeZone={event.timeZone} startTime={event.startTime} color={textOnColor} />
                 </LinearGradient>
             ) : (
                 <View style={styles.padding}>
-                    <Text style={{ color: textOnColor }}>{event.title}</Text>
+                    <Text style={titleStyle}>{event.title}</Text>
+                    <TimeZoneMarker timeZone={event.timeZone} startTime={event.startTime} color={textOnColor} />
                 </View>
             )}
-            <View style={styles.resizeHandleTop} {...topResizePanResponder.panHandlers} />
-            <View style={styles.resizeHandleBottom} {...bottomResizePanResponder.panHandlers} />
+            {editable && (
+                <>
+                    <View style={styles.resizeHandleTop} {...topResizePanResponder.panHandlers} />
+                    <View style={styles.resizeHandleBottom} {...bottomResizePanResponder.panHandlers} />
+                </>
+            )}
         </Animated.View>
     );
 }
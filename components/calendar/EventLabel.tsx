@@ -3,6 +3,7 @@ import { getContrastingTextColor } from '@/utils/colorUtils';
 import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
 import { Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { TimeZoneMarker } from './TimeZoneMarker';
 
 interface EventLabelProps {
   title: string;
@@ -16,6 +17,8 @@ interface EventLabelProps {
   location?: string;
   person?: string;
   isRecurring?: boolean;
+  timeZone?: string;
+  isDeclined?: boolean; // Everyone declined: shown faded and struck through
   onPress?: (eventId: string, originalEventId?: string, occurrenceIso?: string) => void;
 }
 
@@ -31,6 +34,8 @@ export function EventLabel({
   location,
   person,
   isRecurring,
+  timeZone,
+  isDeclined,
   onPress
 }: EventLabelProps) {
   const handlePress = () => {
@@ -48,10 +53,11 @@ export function EventLabel({
 
   const content = (
     <View style={styles.titleRow}>
-      <Text style={[styles.text, { color: textColor, fontWeight: '500', textShadowColor: hasGradient ? 'rgba(0,0,0,0.5)' : 'transparent', textShadowOffset: { width: 0, height: 1 }, textShadowRadius: 2 }]} numberOfLines={1} ellipsizeMode="tail">
+      <Text style={[styles.text, isDeclined && styles.declinedText, { color: textColor, fontWeight: '500', textShadowColor: hasGradient ? 'rgba(0,0,0,0.5)' : 'transparent', textShadowOffset: { width: 0, height: 1 }, textShadowRadius: 2 }]} numberOfLines={1} ellipsizeMode="tail">
         {title}
       </Text>
       {isRecurring && <Ionicons name="repeat-outline" size={9} style={[styles.recurringIcon, { color: textColor }]} />}
+      <TimeZoneMarker timeZone={timeZone} startTime={startTime} color={textColor} compact />
     </View>
   );
 
@@ -65,7 +71,7 @@ export function EventLabel({
     <TouchableOpacity
       onPress={handlePress}
       activeOpacity={0.7}
-      style={styles.touchable}>
+      style={[styles.touchable, isDeclined && styles.declined]}>
       <DiagonalColorSplit
         colors={colorsToUse}
         angle={45} // Angle is ignored in SVG implementation but kept for API match
@@ -103,4 +109,10 @@ const styles = StyleSheet.create({
     flex: 1,
     flexShrink: 1,
   },
+  declined: {
+    opacity: 0.4,
+  },
+  declinedText: {
+    textDecorationLine: 'line-through',
+  },
 });
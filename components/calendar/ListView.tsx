@@ -2,6 +2,7 @@ import { useThemeColor } from '@/hooks/use-theme-color';
 import { MockEvent } from '@/utils/mockEvents';
 import React, { useEffect, useMemo, useRef } from 'react';
 import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { TimeZoneMarker } from './TimeZoneMarker';
 
 interface ListViewProps {
   events: MockEvent[];
@@ -119,6 +120,7 @@ export function ListView({ events, onEventPress }: ListViewProps) {
                   {event.startTime ? formatTime(event.startTime) : ''}
                   {event.endTime && ` - ${formatTime(event.endTime)}`}
                 </Text>
+                <TimeZoneMarker timeZone={event.timeZone} startTime={event.startTime} color={mutedText} />
                 {event.location && (
                   <Text style={[styles.eventLocation, { color: mutedText }]}>
                     📍 {event.location}
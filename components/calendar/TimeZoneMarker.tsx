@@ -0,0 +1,47 @@
+import { formatTimeInZone, formatTimeZoneLabel, isForeignTimeZone } from '@/utils/timezone';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface TimeZoneMarkerProps {
+  timeZone?: string;
+  startTime?: Date;
+  color: string;
+  compact?: boolean; // Icon only, for month cells
+}
+
+// Shown on events whose timezone differs from the device's, with the start time
+// on the event's own clock (e.g. "09:00 London")
+export function TimeZoneMarker({ timeZone, startTime, color, compact = false }: TimeZoneMarkerProps) {
+  if (!timeZone || !isForeignTimeZone(timeZone, startTime)) return null;
+
+  if (compact) {
+    return <Ionicons name="globe-outline" size={9} style={[styles.compactIcon, { color }]} />;
+  }
+
+  return (
+    <View style={styles.row}>
+      <Ionicons name="globe-outline" size={11} style={{ color }} />
+      <Text style={[styles.text, { color }]} numberOfLines={1}>
+        {startTime ? `${formatTimeInZone(startTime, timeZone)} ` : ''}
+        {formatTimeZoneLabel(timeZone)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+  },
+  text: {
+    fontSize: 11,
+  },
+  compactIcon: {
+    fontSize: 9,
+    marginLeft: 4,
+    flexShrink: 0,
+  },
+});
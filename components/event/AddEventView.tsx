@@ -4,7 +4,9 @@ import { useSelectedDate } from '@/contexts/SelectedDateContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
 import type { RecurrenceInput, ReminderInput } from '@/services/eventService';
 import { createEvent } from '@/services/eventService';
+import type { FreeSlot } from '@/services/findTimeService';
 import { trackLocationUsage } from '@/services/recentLocationsService';
+import { describeWeekday, formatWeekday, getMonthlyWeekday, parseWeekday } from '@/utils/rrule';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
@@ -22,6 +24,8 @@ import {
   View,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { EventConflictSheet, useEventConflictCheck } from './EventConflictSheet';
+import FindTimeModal from './FindTimeModal';
 import { LocationPicker } from './LocationPicker';
 import { MemberPicker, SelectedMembersDisplay } from './MemberPicker';
 import { WebDatePicker, WebTimePicker } from './WebDatePicker';
@@ -56,6 +60,7 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
   const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
   const [isAllDay, setIsAllDay] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const { confirmEventTime, sheetProps: conflictSheetProps } = useEventConflictCheck();
   const [travelTimeMinutes, setTravelTimeMinutes] = useState<number | null>(null);
   const [showTravelModal, setShowTravelModal] = useState(false);
   const [selectedDriverId, setSelectedDriverId] = useState<string | null>(null);
@@ -65,6 +70,7 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
   const [alerts, setAlerts] = useState<ReminderInput[]>([]);
   const [showAlertsModal, setShowAlertsModal] = useState(false);
   const [showRecurrenceModal, setShowRecurrenceModal] = useState(false);
+  const [showFindTimeModal, setShowFindTimeModal] = useState(false);
   const [recurrence, setRecurrence] = useState<RecurrenceInput>({
     isRecurring: false,
     frequency: null as any,
@@ -183,6 +189,9 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
     if (recurrence.frequency === 'weekly' && recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0) {
       return `${base} (${recurrence.daysOfWeek.join(',')})`;
     }
+    if (recurrence.frequency === 'monthly' && monthlyMode !== 'dayOfMonth') {
+      return `${base} (${describeWeekday(getMonthlyWeekday(startDate, monthlyMode === 'lastWeekday'))})`;
+    }
     if (recurrence.interval && recurrence.interval > 1) {
       return `${base} every ${recurrence.interval}`;
     }
@@ -231,11 +240,39 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
       setRecurrenceEndMode('never');
       return;
     }
+    setRecurrence((prev) => {
+      if (prev.frequency === freq) return { ...prev, isRecurring: true, interval: prev.interval || 1 };
+      // BY* parts mean something different under another frequency, so start afresh
+      return {
+        ...prev,
+        isRecurring: true,
+        frequency: freq,
+        interval: prev.interval || 1,
+        daysOfWeek: [],
+        daysOfMonth: [],
+        monthsOfYear: [],
+        weeksOfYear: [],
+        daysOfYear: [],
+        setPositions: [],
+      };
+    });
+  };
+
+  // Monthly recurrences repeat on the start date's day of month, or on its weekday
+  // counted from the start or end of the month (e.g. 2nd Tuesday, last Friday)
+  const monthlyMode: 'dayOfMonth' | 'nthWeekday' | 'lastWeekday' = (() => {
+    const ordinal = (recurrence.daysOfWeek || []).map(parseWeekday).find((d) => d?.n);
+    if (!ordinal) return 'dayOfMonth';
+    return ordinal.n! < 0 ? 'lastWeekday' : 'nthWeekday';
+  })();
+
+  const setMonthlyMode = (mode: typeof monthlyMode) => {
     setRecurrence((prev) => ({
       ...prev,
-      isRecurring: true,
-      frequency: freq,
-      interval: prev.interval || 1,
+      daysOfMonth: [],
+      setPositions: [],
+      daysOfWeek:
+        mode === 'dayOfMonth' ? [] : [formatWeekday(getMonthlyWeekday(startDate, mode === 'lastWeekday'))],
     }));
   };
 
@@ -336,15 +373,25 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
     setActivePicker(null);
   };
 
+  const handlePickFreeSlot = (slot: FreeSlot, contactIds: string[]) => {
+    setIsAllDay(false);
+    setStartDate(slot.startTime);
+    setEndDate(slot.endTime);
+    setSelectedMembers(contactIds);
+    setShowFindTimeModal(false);
+  };
+
 
   const buildRecurrencePayload = (): RecurrenceInput => {
     if (!recurrence.isRecurring) return { isRecurring: false };
     const freq = recurrence.frequency || 'daily';
     const interval = recurrence.interval && recurrence.interval > 0 ? recurrence.interval : 1;
+    const nonEmpty = <T,>(values?: T[]) => (values && values.length > 0 ? values : undefined);
+    // Follow the start date if it changed after the monthly weekday was picked
     const daysOfWeek =
-      recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0
-        ? recurrence.daysOfWeek
-        : undefined;
+      freq === 'monthly' && monthlyMode !== 'dayOfMonth'
+        ? [formatWeekday(getMonthlyWeekday(startDate, monthlyMode === 'lastWeekday'))]
+        : nonEmpty(recurrence.daysOfWeek);
     const count =
       recurrenceEndMode === 'afterCount' && recurrence.count && recurrence.count > 0
         ? recurrence.count
@@ -355,6 +402,11 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
       frequency: freq,
       interval,
       daysOfWeek,
+      daysOfMonth: nonEmpty(recurrence.daysOfMonth),
+      monthsOfYear: nonEmpty(recurrence.monthsOfYear),
+      weeksOfYear: nonEmpty(recurrence.weeksOfYear),
+      daysOfYear: nonEmpty(recurrence.daysOfYear),
+      setPositions: nonEmpty(recurrence.setPositions),
       count,
       endDate,
       weekStart: recurrence.weekStart || 'MO',
@@ -375,6 +427,16 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
     setIsLoading(true);
 
     try {
+      // A free event doesn't book anyone, so it can't clash
+      if (availability !== 'free') {
+        const saveAnyway = await confirmEventTime(currentFamily.id, {
+          startTime: startDate,
+          endTime: endDate,
+          contactIds: selectedMembers,
+        });
+        if (!saveAnyway) return;
+      }
+
       console.log('Creating event with participants:', selectedMembers);
 
       const recurrencePayload = buildRecurrencePayload();
@@ -497,6 +559,7 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
     clearSelectedDate,
     router,
     eventCache,
+    confirmEventTime,
   ]);
 
   // Expose the handler to parent component (only once, using ref to avoid loops)
@@ -648,6 +711,20 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
             </View>
           </View>
 
+          <TouchableOpacity
+            style={styles.fieldRow}
+            onPress={() => setShowFindTimeModal(true)}
+            disabled={isLoading}>
+            <Ionicons name="search" size={20} color={accent} />
+            <View style={styles.fieldContent}>
+              <Text style={[styles.fieldLabel, { color: textColor }]}>Find a Time</Text>
+            </View>
+            <View style={styles.fieldValue}>
+              <Text style={[styles.fieldValueText, { color: mutedText }]}>When everyone&apos;s free</Text>
+              <Ionicons name="chevron-forward" size={20} color={mutedText} />
+            </View>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[styles.fieldRow, styles.lastFieldRow]}
             onPress={() => setShowRecurrenceModal(true)}
@@ -985,6 +1062,28 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
                     </View>
                   )}
 
+                  {recurrence.frequency === 'monthly' && (
+                    <View style={styles.rowWrap}>
+                      {(['dayOfMonth', 'nthWeekday', 'lastWeekday'] as const).map((mode) => (
+                        <TouchableOpacity
+                          key={mode}
+                          style={[styles.chipButton, monthlyMode === mode && styles.chipButtonActive]}
+                          onPress={() => setMonthlyMode(mode)}>
+                          <Text
+                            style={[
+                              styles.chipButtonText,
+                              monthlyMode === mode && styles.chipButtonTextActive,
+                              { color: textColor },
+                            ]}>
+                            {mode === 'dayOfMonth'
+                              ? `Day ${startDate.getDate()}`
+                              : describeWeekday(getMonthlyWeekday(startDate, mode === 'lastWeekday'))}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+
                   <View style={[styles.optionRow, { marginTop: 8 }]}>
                     <Text style={[styles.optionText, { color: textColor }]}>Ends</Text>
                     <View style={styles.rowWrap}>
@@ -1246,6 +1345,15 @@ export function AddEventView({ onAddRef }: AddEventViewProps = {}) {
           </TouchableOpacity>
         </Modal>
       </ScrollView>
+
+      <EventConflictSheet {...conflictSheetProps} />
+      <FindTimeModal
+        visible={showFindTimeModal}
+        initialContactIds={selectedMembers}
+        initialDurationMinutes={Math.round((endDate.getTime() - startDate.getTime()) / 60000)}
+        onClose={() => setShowFindTimeModal(false)}
+        onPick={handlePickFreeSlot}
+      />
     </View>
   );
 }
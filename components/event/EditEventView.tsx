@@ -1,20 +1,31 @@
 import { getCacheKeysForEventDate, useEventCache } from '@/contexts/EventCacheContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { useFamily } from '@/contexts/FamilyContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { EventEditPermission } from '@/lib/supabase';
 import {
   createEvent,
   deleteEvent,
+  deleteEventOccurrence,
+  deleteFutureEventOccurrences,
   EventWithDetails,
   getEvent,
   getEventRemindersForUser,
   RecurrenceInput,
   ReminderInput,
+  resolveEventOccurrence,
   updateEvent,
+  updateEventOccurrence,
+  updateEventOccurrenceDrivers,
   updateEventParticipants,
   upsertEventReminders,
 } from '@/services/eventService';
 import { trackLocationUsage } from '@/services/recentLocationsService';
+import { describeWeekday, formatWeekday, getMonthlyWeekday, parseWeekday } from '@/utils/rrule';
 import { formatDisplayName } from '@/utils/colorUtils';
+import { canChangeEditPermission, EDIT_PERMISSION_LABELS } from '@/utils/eventPermissions';
+import { promptRecurringScope } from '@/utils/recurringScope';
+import { getEventTimeZone } from '@/utils/timezone';
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useFocusEffect } from '@react-navigation/native';
@@ -33,10 +44,32 @@ import {
   View
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { EventConflictSheet, useEventConflictCheck } from './EventConflictSheet';
 import { LocationPicker } from './LocationPicker';
 import { MemberPicker, SelectedMembersDisplay } from './MemberPicker';
 import { WebDatePicker, WebTimePicker } from './WebDatePicker';
 
+// Identifies what an edit could clash on: the times, the people and whether they're busy
+function getScheduleKey(start: Date, end: Date, memberIds: string[], availability: string): string {
+  return [start.getTime(), end.getTime(), availability, [...memberIds].sort().join(',')].join('|');
+}
+
+// Identifies the details a single occurrence can't override; changing any of them
+// has to be saved for this and future occurrences, or all of them
+function getSeriesKey(fields: {
+  notes: string;
+  url: string;
+  isAllDay: boolean;
+  memberIds: string[];
+  availability: string;
+  travelTimeMinutes: number | null;
+  alerts: ReminderInput[];
+  editPermission: EventEditPermission;
+  recurrence: RecurrenceInput;
+}): string {
+  return JSON.stringify({ ...fields, memberIds: [...fields.memberIds].sort() });
+}
+
 interface EditEventViewProps {
   eventId: string;
   occurrence?: string;
@@ -46,7 +79,8 @@ interface EditEventViewProps {
 export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEventViewProps) {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { currentFamily, contacts } = useFamily();
+  const { currentFamily, contacts, userRole, canEditEvent } = useFamily();
+  const { user } = useAuth();
   const eventCache = useEventCache();
   const backgroundColor = useThemeColor({}, 'background');
   const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
@@ -61,6 +95,10 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { confirmEventTime, sheetProps: conflictSheetProps } = useEventConflictCheck();
+  const loadedScheduleKey = React.useRef<string | null>(null);
+  const loadedSeriesKey = React.useRef<string | null>(null);
+  const loadedDriverId = React.useRef<string | null>(null);
 
   // Form state
   const [title, setTitle] = useState('');
@@ -75,10 +113,12 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
   const [travelTimeMinutes, setTravelTimeMinutes] = useState<number | null>(null);
   const [selectedDriverId, setSelectedDriverId] = useState<string | null>(null);
   const [alerts, setAlerts] = useState<ReminderInput[]>([]);
+  const [editPermission, setEditPermission] = useState<EventEditPermission>('family');
   const [showTravelModal, setShowTravelModal] = useState(false);
   const [showDriverModal, setShowDriverModal] = useState(false);
   const [showAlertsModal, setShowAlertsModal] = useState(false);
   const [showAvailabilityModal, setShowAvailabilityModal] = useState(false);
+  const [showEditPermissionModal, setShowEditPermissionModal] = useState(false);
   const [showRecurrenceModal, setShowRecurrenceModal] = useState(false);
   const [recurrence, setRecurrence] = useState<RecurrenceInput>({
     isRecurring: false,
@@ -106,7 +146,7 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
         // Personal calendar events cannot be edited; bail early but keep UI responsive
         if (eventId && eventId.startsWith('personal-')) {
           if (!isActive) return;
-          setError('Personal calendar events cannot be viewed in detail. They are read-only from your iOS calendar.');
+          setError('Personal calendar events cannot be viewed in detail. They are read-only from your device calendar.');
           setIsLoading(false);
           return;
         }
@@ -123,10 +163,20 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
           }
 
           if (data) {
+            // For an occurrence of a recurring event, start from its own (possibly overridden) details
+            const displayed = occurrence && data.is_recurring ? resolveEventOccurrence(data, new Date(occurrence)) : data;
+            const hasLocationOverride = displayed.location !== data.location;
+
             setEvent(data);
-            setTitle(data.title);
+            setTitle(displayed.title);
             // Reconstruct location object from structured fields
-            if (data.structured_location_address || data.location) {
+            if (hasLocationOverride) {
+              setLocation(
+                displayed.location
+                  ? { address: displayed.location, latitude: 0, longitude: 0, placeId: undefined }
+                  : null
+              );
+            } else if (data.structured_location_address || data.location) {
               setLocation({
                 address: data.structured_location_address || data.location || '',
                 title: data.structured_location_title || undefined,
@@ -142,23 +192,24 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
             setIsAllDay(data.is_all_day);
 
             // Use occurrence if provided, otherwise the event's base start/end
-            const baseStart = new Date(data.start_time);
-            const baseEnd = new Date(data.end_time);
-            const durationMs = baseEnd.getTime() - baseStart.getTime();
-
-            if (occurrence) {
-              const occStart = new Date(occurrence);
-              setStartDate(occStart);
-              setEndDate(new Date(occStart.getTime() + durationMs));
-            } else {
-              setStartDate(baseStart);
-              setEndDate(baseEnd);
+            let loadedStart = new Date(displayed.start_time);
+            let loadedEnd = new Date(displayed.end_time);
+            if (occurrence && !data.is_recurring) {
+              const durationMs = new Date(data.end_time).getTime() - new Date(data.start_time).getTime();
+              loadedStart = new Date(occurrence);
+              loadedEnd = new Date(loadedStart.getTime() + durationMs);
             }
+            setStartDate(loadedStart);
+            setEndDate(loadedEnd);
 
-            setAvailability((data.availability as any) === 'free' ? 'free' : 'busy');
+            const loadedAvailability = (data.availability as any) === 'free' ? 'free' : 'busy';
+            setAvailability(loadedAvailability);
             setTravelTimeMinutes(data.travel_time ?? null);
-            setSelectedDriverId(data.drop_off_driver_id || null);
-            setRecurrence({
+            // The occurrence's own driver, if it has one
+            loadedDriverId.current = displayed.drop_off_driver_id || null;
+            setSelectedDriverId(loadedDriverId.current);
+            setEditPermission(data.edit_permission || 'family');
+            const loadedRecurrence: RecurrenceInput = {
               isRecurring: data.is_recurring,
               frequency: (data.recurrence_frequency as any) || null,
               interval: data.recurrence_interval || 1,
@@ -172,24 +223,37 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
               endDate: data.recurrence_end_date ? new Date(data.recurrence_end_date) : undefined,
               weekStart: data.recurrence_week_start || 'MO',
               rule: data.recurrence_rule || undefined,
-            });
+            };
+            setRecurrence(loadedRecurrence);
             if (data.recurrence_end_date) setRecurrenceEndMode('onDate');
             if (data.recurrence_count) setRecurrenceEndMode('afterCount');
 
             // Set selected members from participants
             const participantIds = data.participants?.map(p => p.contact_id) || [];
             setSelectedMembers(participantIds);
+            loadedScheduleKey.current = getScheduleKey(loadedStart, loadedEnd, participantIds, loadedAvailability);
 
             // Load reminders for current user
             const { data: reminderData } = await getEventRemindersForUser(data.id);
+            const loadedAlerts = (reminderData || []).map((r) => ({
+              type: r.reminder_type,
+              value: r.reminder_value,
+              method: r.notification_method,
+            })) as ReminderInput[];
             if (reminderData) {
-              const mapped = reminderData.map((r) => ({
-                type: r.reminder_type,
-                value: r.reminder_value,
-                method: r.notification_method,
-              })) as ReminderInput[];
-              setAlerts(mapped);
+              setAlerts(loadedAlerts);
             }
+            loadedSeriesKey.current = getSeriesKey({
+              notes: data.notes || '',
+              url: data.url || '',
+              isAllDay: data.is_all_day,
+              memberIds: participantIds,
+              availability: loadedAvailability,
+              travelTimeMinutes: data.travel_time ?? null,
+              alerts: loadedAlerts,
+              editPermission: data.edit_permission || 'family',
+              recurrence: loadedRecurrence,
+            });
           }
         } catch (err) {
           if (!isActive) return;
@@ -208,6 +272,12 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
     }, [eventId, occurrence])
   );
 
+  const isEditable = !!event && canEditEvent(event.created_by, event.edit_permission);
+  // An occurrence opens with its own driver; the series keeps its driver unless it was changed here
+  const seriesDriverId =
+    selectedDriverId === loadedDriverId.current ? event?.drop_off_driver_id ?? null : selectedDriverId;
+  const canChangePermission = !!event && canChangeEditPermission(userRole, user?.id, event.created_by);
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-GB', {
       day: 'numeric',
@@ -230,6 +300,9 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
     if (recurrence.frequency === 'weekly' && recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0) {
       return `${base} (${recurrence.daysOfWeek.join(',')})`;
     }
+    if (recurrence.frequency === 'monthly' && monthlyMode !== 'dayOfMonth') {
+      return `${base} (${describeWeekday(getMonthlyWeekday(startDate, monthlyMode === 'lastWeekday'))})`;
+    }
     if (recurrence.interval && recurrence.interval > 1) {
       return `${base} every ${recurrence.interval}`;
     }
@@ -276,11 +349,39 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
       setRecurrenceEndMode('never');
       return;
     }
+    setRecurrence((prev) => {
+      if (prev.frequency === freq) return { ...prev, isRecurring: true, interval: prev.interval || 1 };
+      // BY* parts mean something different under another frequency, so start afresh
+      return {
+        ...prev,
+        isRecurring: true,
+        frequency: freq,
+        interval: prev.interval || 1,
+        daysOfWeek: [],
+        daysOfMonth: [],
+        monthsOfYear: [],
+        weeksOfYear: [],
+        daysOfYear: [],
+        setPositions: [],
+      };
+    });
+  };
+
+  // Monthly recurrences repeat on the start date's day of month, or on its weekday
+  // counted from the start or end of the month (e.g. 2nd Tuesday, last Friday)
+  const monthlyMode: 'dayOfMonth' | 'nthWeekday' | 'lastWeekday' = (() => {
+    const ordinal = (recurrence.daysOfWeek || []).map(parseWeekday).find((d) => d?.n);
+    if (!ordinal) return 'dayOfMonth';
+    return ordinal.n! < 0 ? 'lastWeekday' : 'nthWeekday';
+  })();
+
+  const setMonthlyMode = (mode: typeof monthlyMode) => {
     setRecurrence((prev) => ({
       ...prev,
-      isRecurring: true,
-      frequency: freq,
-      interval: prev.interval || 1,
+      daysOfMonth: [],
+      setPositions: [],
+      daysOfWeek:
+        mode === 'dayOfMonth' ? [] : [formatWeekday(getMonthlyWeekday(startDate, mode === 'lastWeekday'))],
     }));
   };
 
@@ -378,10 +479,12 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
     if (!recurrence.isRecurring) return { isRecurring: false };
     const freq = recurrence.frequency || 'daily';
     const interval = recurrence.interval && recurrence.interval > 0 ? recurrence.interval : 1;
+    const nonEmpty = <T,>(values?: T[]) => (values && values.length > 0 ? values : undefined);
+    // Follow the start date if it changed after the monthly weekday was picked
     const daysOfWeek =
-      recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0
-        ? recurrence.daysOfWeek
-        : undefined;
+      freq === 'monthly' && monthlyMode !== 'dayOfMonth'
+        ? [formatWeekday(getMonthlyWeekday(startDate, monthlyMode === 'lastWeekday'))]
+        : nonEmpty(recurrence.daysOfWeek);
     const count =
       recurrenceEndMode === 'afterCount' && recurrence.count && recurrence.count > 0
         ? recurrence.count
@@ -392,54 +495,17 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
       frequency: freq,
       interval,
       daysOfWeek,
+      daysOfMonth: nonEmpty(recurrence.daysOfMonth),
+      monthsOfYear: nonEmpty(recurrence.monthsOfYear),
+      weeksOfYear: nonEmpty(recurrence.weeksOfYear),
+      daysOfYear: nonEmpty(recurrence.daysOfYear),
+      setPositions: nonEmpty(recurrence.setPositions),
       count,
       endDate,
       weekStart: recurrence.weekStart || 'MO',
     };
   };
 
-  const buildRecurrenceFromExisting = (endDateOverride?: Date): RecurrenceInput => {
-    if (!event?.is_recurring) return { isRecurring: false };
-    return {
-      isRecurring: true,
-      frequency: (event.recurrence_frequency as any) || 'daily',
-      interval: event.recurrence_interval || 1,
-      daysOfWeek: event.recurrence_days_of_week || undefined,
-      daysOfMonth: event.recurrence_days_of_month || undefined,
-      monthsOfYear: event.recurrence_months_of_year || undefined,
-      weeksOfYear: event.recurrence_weeks_of_year || undefined,
-      daysOfYear: event.recurrence_days_of_year || undefined,
-      setPositions: event.recurrence_set_positions || undefined,
-      count: event.recurrence_count || undefined,
-      endDate: endDateOverride
-        ? endDateOverride
-        : event.recurrence_end_date
-          ? new Date(event.recurrence_end_date)
-          : undefined,
-      weekStart: event.recurrence_week_start || 'MO',
-    };
-  };
-
-  const getNextStart = (start: Date, freq?: string | null, interval?: number) => {
-    const intv = interval && interval > 0 ? interval : 1;
-    const next = new Date(start);
-    switch (freq) {
-      case 'weekly':
-        next.setDate(next.getDate() + 7 * intv);
-        break;
-      case 'monthly':
-        next.setMonth(next.getMonth() + intv);
-        break;
-      case 'yearly':
-        next.setFullYear(next.getFullYear() + intv);
-        break;
-      case 'daily':
-      default:
-        next.setDate(next.getDate() + intv);
-    }
-    return next;
-  };
-
   const saveAllOccurrences = async () => {
     const recurrencePayload = buildRecurrencePayload();
     const address = location?.address || undefined;
@@ -461,8 +527,9 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
       isAllDay,
       availability,
       travelTimeMinutes: travelTimeMinutes ?? undefined,
-      dropOffDriverId: selectedDriverId ?? undefined,
+      dropOffDriverId: seriesDriverId ?? undefined,
       recurrence: recurrencePayload,
+      editPermission: canChangePermission ? editPermission : undefined,
     });
     if (updateError) throw updateError;
 
@@ -497,13 +564,14 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
 
   const saveFutureOccurrences = async () => {
     if (!event || !currentFamily) throw new Error('Missing event or family');
-    const occurrenceStart = occurrence ? new Date(occurrence) : startDate;
-    const cutoff = new Date(occurrenceStart.getTime() - 1000);
+    // A moved occurrence is still cut at its original start
+    const occurrenceStart = occurrence
+      ? new Date(resolveEventOccurrence(event, new Date(occurrence)).occurrence_start_time || occurrence)
+      : startDate;
 
     // End original series before occurrence
-    await updateEvent(event.id, {
-      recurrence: buildRecurrenceFromExisting(cutoff),
-    });
+    const { error: endError } = await deleteFutureEventOccurrences(event, occurrenceStart);
+    if (endError) throw endError;
 
     // Create new recurring event for future occurrences with updated data
     const recurrencePayload = buildRecurrencePayload();
@@ -519,17 +587,20 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
         structuredLocationLatitude: location?.latitude ?? undefined,
         structuredLocationLongitude: location?.longitude ?? undefined,
         url: url.trim() || undefined,
-        startTime: occurrenceStart,
+        startTime: startDate,
         endTime: endDate,
         isAllDay,
+        timeZone: getEventTimeZone(event),
         categoryId: event.category_id || undefined,
         availability,
         travelTimeMinutes: travelTimeMinutes ?? undefined,
         isRecurring: recurrencePayload.isRecurring,
         recurrence: recurrencePayload,
-        dropOffDriverId: selectedDriverId ?? undefined,
+        dropOffDriverId: seriesDriverId ?? undefined,
         collectionDriverId: event.collection_driver_id ?? undefined,
         sameDriver: event.same_driver || false,
+        // Only someone who may change it picks a new one; the copy keeps the series' otherwise
+        editPermission: canChangePermission ? editPermission : event.edit_permission,
       },
       selectedMembers
     );
@@ -552,74 +623,52 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
   };
 
   const saveSingleOccurrence = async () => {
-    if (!event || !currentFamily) throw new Error('Missing event or family');
-    const occurrenceStart = occurrence ? new Date(occurrence) : startDate;
-    const cutoff = new Date(occurrenceStart.getTime() - 1000);
-    const durationMs = endDate.getTime() - startDate.getTime();
-
-    // End original series before this occurrence
-    await updateEvent(event.id, {
-      recurrence: buildRecurrenceFromExisting(cutoff),
+    if (!event || !occurrence) throw new Error('Missing event or occurrence');
+    const current = resolveEventOccurrence(event, new Date(occurrence));
+    const originalStart = new Date(current.occurrence_start_time || occurrence);
+    const seriesDurationMs = new Date(event.end_time).getTime() - new Date(event.start_time).getTime();
+    const originalEnd = new Date(originalStart.getTime() + seriesDurationMs);
+
+    // Per-occurrence overrides cover title, location, times and the drop-off driver;
+    // anything else changed here would be lost, so it has to go to more of the series
+    const seriesKey = getSeriesKey({
+      notes,
+      url,
+      isAllDay,
+      memberIds: selectedMembers,
+      availability,
+      travelTimeMinutes,
+      alerts,
+      editPermission,
+      recurrence,
     });
+    const clearsSeriesDriver = !selectedDriverId && !!event.drop_off_driver_id;
+    if (seriesKey !== loadedSeriesKey.current || clearsSeriesDriver) {
+      throw new Error(
+        'People, notes, alerts, availability, repeats and removing the driver apply to every occurrence. ' +
+          'Save those changes for this and future occurrences, or all occurrences.'
+      );
+    }
 
-    // Create future series to preserve occurrences after this one
-    const nextStart = getNextStart(occurrenceStart, event.recurrence_frequency as any, event.recurrence_interval);
-    const { data: futureEvent, error: futureError } = await createEvent(
-      currentFamily.id,
-      {
-        title: event.title,
-        description: event.description || undefined,
-        notes: event.notes || undefined,
-        location: event.structured_location_address || event.location || undefined,
-        structuredLocationTitle: event.structured_location_title || undefined,
-        structuredLocationAddress: event.structured_location_address || undefined,
-        structuredLocationLatitude: event.structured_location_latitude ?? undefined,
-        structuredLocationLongitude: event.structured_location_longitude ?? undefined,
-        url: event.url || undefined,
-        startTime: nextStart,
-        endTime: new Date(nextStart.getTime() + (new Date(event.end_time).getTime() - new Date(event.start_time).getTime())),
-        isAllDay: event.is_all_day,
-        categoryId: event.category_id || undefined,
-        availability: event.availability as any,
-        travelTimeMinutes: event.travel_time ?? undefined,
-        isRecurring: true,
-        recurrence: buildRecurrenceFromExisting(),
-        dropOffDriverId: event.drop_off_driver_id ?? undefined,
-        collectionDriverId: event.collection_driver_id ?? undefined,
-        sameDriver: event.same_driver || false,
-      },
-      event.participants?.map((p) => p.contact_id) || []
-    );
-    if (futureError) throw futureError;
+    // Only store what differs from the series so later series edits still flow through
+    const trimmedTitle = title.trim();
+    const seriesLocation = event.structured_location_address || event.location || '';
+    const address = location?.address || '';
+    const timesChanged =
+      startDate.getTime() !== originalStart.getTime() || endDate.getTime() !== originalEnd.getTime();
+
+    const { error: exceptionError } = await updateEventOccurrence(event.id, originalStart, {
+      title: trimmedTitle !== event.title ? trimmedTitle : null,
+      location: address !== seriesLocation ? address : null,
+      startTime: timesChanged ? startDate : null,
+      endTime: timesChanged ? endDate : null,
+    });
+    if (exceptionError) throw exceptionError;
 
-    // Create standalone edited occurrence
-    const { data: singleEvent, error: createError } = await createEvent(
-      currentFamily.id,
-      {
-        title: title.trim(),
-        description: event.description || undefined,
-        notes: notes.trim() || undefined,
-        location: location?.address || undefined,
-        structuredLocationTitle: location?.title || undefined,
-        structuredLocationAddress: location?.address || undefined,
-        structuredLocationLatitude: location?.latitude ?? undefined,
-        structuredLocationLongitude: location?.longitude ?? undefined,
-        url: url.trim() || undefined,
-        startTime: occurrenceStart,
-        endTime: new Date(occurrenceStart.getTime() + durationMs),
-        isAllDay,
-        categoryId: event.category_id || undefined,
-        availability,
-        travelTimeMinutes: travelTimeMinutes ?? undefined,
-        isRecurring: false,
-        recurrence: { isRecurring: false },
-        dropOffDriverId: selectedDriverId ?? undefined,
-        collectionDriverId: event.collection_driver_id ?? undefined,
-        sameDriver: event.same_driver || false,
-      },
-      selectedMembers
-    );
-    if (createError || !singleEvent) throw createError || new Error('Failed to create edited occurrence');
+    const { error: driverError } = await updateEventOccurrenceDrivers(event.id, originalStart, {
+      dropOffDriverId: selectedDriverId !== event.drop_off_driver_id ? selectedDriverId : null,
+    });
+    if (driverError) throw driverError;
 
     // Track location usage for recent locations
     if (location && !location.title && currentFamily) {
@@ -631,23 +680,21 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
       });
     }
 
-    const { error: reminderError } = await upsertEventReminders(singleEvent.id, alerts);
-    if (reminderError) console.error('Error updating reminders:', reminderError);
-
-    // Invalidate cache for old and new event dates
-    if (event) {
-      const oldDate = new Date(event.start_time);
-      const keysToInvalidate = [
-        ...getCacheKeysForEventDate(oldDate),
-        ...getCacheKeysForEventDate(occurrenceStart),
-      ];
-      eventCache.invalidateCache(keysToInvalidate);
-    }
+    // Invalidate cache for the original and new occurrence dates
+    eventCache.invalidateCache([
+      ...getCacheKeysForEventDate(originalStart),
+      ...getCacheKeysForEventDate(startDate),
+    ]);
 
-    router.replace(`/event/${singleEvent.id}`);
+    router.back();
   };
 
   const handleSave = useCallback(async () => {
+    if (!isEditable) {
+      showError('You do not have permission to edit this event');
+      return;
+    }
+
     if (!title.trim()) {
       showError('Please enter an event title');
       return;
@@ -656,63 +703,34 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
     setIsSaving(true);
 
     try {
+      // Only look for clashes when the time, the people or their availability changed
+      const scheduleChanged =
+        getScheduleKey(startDate, endDate, selectedMembers, availability) !== loadedScheduleKey.current;
+      if (currentFamily && availability !== 'free' && scheduleChanged) {
+        const attendeeIds = selectedMembers.filter(
+          (id) => event?.participants?.find((p) => p.contact_id === id)?.status !== 'declined'
+        );
+        const saveAnyway = await confirmEventTime(currentFamily.id, {
+          startTime: startDate,
+          endTime: endDate,
+          contactIds: attendeeIds,
+          excludeEventId: eventId,
+        });
+        if (!saveAnyway) return;
+      }
+
       // If recurring with a specific occurrence context, ask user which scope to edit
       if (event?.is_recurring && occurrence) {
-        const doSave = async (scope: 'single' | 'future' | 'all') => {
-          if (scope === 'single') await saveSingleOccurrence();
-          else if (scope === 'future') await saveFutureOccurrences();
-          else await saveAllOccurrences();
-        };
-
-        if (Platform.OS === 'web') {
-          // Button-like flow using confirms (no typing)
-          const single = window.confirm('Apply changes to this occurrence only?');
-          if (single) {
-            await doSave('single');
-            return;
-          }
-          const future = window.confirm('Apply to this and future occurrences? (Cancel = All occurrences)');
-          if (future) {
-            await doSave('future');
-            return;
-          }
-          await doSave('all');
-          return;
-        }
-
-        let selected: 'single' | 'future' | 'all' | null = null;
-        await new Promise<void>((resolve) => {
-          Alert.alert(
-            'Edit recurring event',
-            'Apply changes to this occurrence or this and future occurrences?',
-            [
-              { text: 'Cancel', style: 'cancel', onPress: () => resolve() },
-              {
-                text: 'This occurrence only',
-                onPress: async () => {
-                  selected = 'single';
-                  resolve();
-                },
-              },
-              {
-                text: 'This and future',
-                onPress: async () => {
-                  selected = 'future';
-                  resolve();
-                },
-              },
-              {
-                text: 'All occurrences',
-                onPress: async () => {
-                  selected = 'all';
-                  resolve();
-                },
-              },
-            ]
-          );
+        const scope = await promptRecurringScope({
+          title: 'Edit recurring event',
+          message: 'Apply changes to this occurrence or this and future occurrences?',
+          verb: 'Apply changes to',
         });
-        if (!selected) return;
-        await doSave(selected);
+        if (!scope) return;
+
+        if (scope === 'single') await saveSingleOccurrence();
+        else if (scope === 'future') await saveFutureOccurrences();
+        else await saveAllOccurrences();
         return;
       }
 
@@ -725,6 +743,7 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
       setIsSaving(false);
     }
   }, [
+    isEditable,
     title,
     event,
     occurrence,
@@ -733,11 +752,17 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
     isAllDay,
     availability,
     travelTimeMinutes,
+    notes,
+    url,
     recurrence,
     alerts,
     selectedMembers,
     selectedDriverId,
+    editPermission,
+    canChangePermission,
     router,
+    currentFamily,
+    confirmEventTime,
   ]);
 
   // Expose save handler to parent so header button can trigger it
@@ -773,13 +798,12 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
 
   const deleteFutureOccurrences = async () => {
     if (!event) return;
-    const occurrenceStart = occurrence ? new Date(occurrence) : startDate;
+    const occurrenceStart = occurrence
+      ? new Date(resolveEventOccurrence(event, new Date(occurrence)).occurrence_start_time || occurrence)
+      : startDate;
     setIsDeleting(true);
     try {
-      const cutoff = new Date(occurrenceStart.getTime() - 1000);
-      const { error } = await updateEvent(event.id, {
-        recurrence: buildRecurrenceFromExisting(cutoff),
-      });
+      const { error } = await deleteFutureEventOccurrences(event, occurrenceStart);
       if (error) throw error;
 
       // Invalidate cache for event date
@@ -798,85 +822,17 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
   };
 
   const deleteSingleOccurrence = async () => {
-    if (!event || !currentFamily) return;
-    const occurrenceStart = occurrence ? new Date(occurrence) : startDate;
+    if (!event || !occurrence) return;
+    const originalStart = new Date(
+      resolveEventOccurrence(event, new Date(occurrence)).occurrence_start_time || occurrence
+    );
     setIsDeleting(true);
     try {
-      const cutoff = new Date(occurrenceStart.getTime() - 1000);
-
-      // End original before occurrence
-      const { error: endError } = await updateEvent(event.id, {
-        recurrence: buildRecurrenceFromExisting(cutoff),
-      });
-      if (endError) throw endError;
-
-      // Create future series to preserve later occurrences
-      const nextStart = getNextStart(occurrenceStart, event.recurrence_frequency as any, event.recurrence_interval || 1);
-      const durationMs = new Date(event.end_time).getTime() - new Date(event.start_time).getTime();
-
-      const { data: futureEvent, error: futureError } = await createEvent(
-        currentFamily.id,
-        {
-          title: event.title,
-          description: event.description || undefined,
-          notes: event.notes || undefined,
-          location: event.structured_location_address || event.location || undefined,
-          structuredLocationTitle: event.structured_location_title || undefined,
-          structuredLocationAddress: event.structured_location_address || undefined,
-          structuredLocationLatitude: event.structured_location_latitude ?? undefined,
-          structuredLocationLongitude: event.structured_location_longitude ?? undefined,
-          url: event.url || undefined,
-          startTime: nextStart,
-          endTime: new Date(nextStart.getTime() + (new Date(event.end_time).getTime() - new Date(event.start_time).getTime())),
-          isAllDay: event.is_all_day,
-          categoryId: event.category_id || undefined,
-          availability: event.availability as any,
-          travelTimeMinutes: event.travel_time ?? undefined,
-          isRecurring: true,
-          recurrence: buildRecurrenceFromExisting(),
-          dropOffDriverId: event.drop_off_driver_id ?? undefined,
-          collectionDriverId: event.collection_driver_id ?? undefined,
-          sameDriver: event.same_driver || false,
-        },
-        event.participants?.map((p) => p.contact_id) || []
-      );
-      if (futureError) throw futureError;
-
-      // Create standalone edited occurrence
-      const { data: singleEvent, error: createError } = await createEvent(
-        currentFamily.id,
-        {
-          title: title.trim(),
-          description: event.description || undefined,
-          notes: notes.trim() || undefined,
-          location: location?.address || undefined,
-          structuredLocationTitle: location?.title || undefined,
-          structuredLocationAddress: location?.address || undefined,
-          structuredLocationLatitude: location?.latitude ?? undefined,
-          structuredLocationLongitude: location?.longitude ?? undefined,
-          url: url.trim() || undefined,
-          startTime: occurrenceStart,
-          endTime: new Date(occurrenceStart.getTime() + durationMs),
-          isAllDay,
-          categoryId: event.category_id || undefined,
-          availability,
-          travelTimeMinutes: travelTimeMinutes ?? undefined,
-          isRecurring: false,
-          recurrence: { isRecurring: false },
-          dropOffDriverId: selectedDriverId ?? undefined,
-          collectionDriverId: event.collection_driver_id ?? undefined,
-          sameDriver: event.same_driver || false,
-        },
-        selectedMembers
-      );
-      if (createError) throw createError;
+      const { error } = await deleteEventOccurrence(event.id, originalStart);
+      if (error) throw error;
 
-      // Invalidate cache for event date
-      if (event) {
-        const eventDate = new Date(event.start_time);
-        const keysToInvalidate = getCacheKeysForEventDate(eventDate);
-        eventCache.invalidateCache(keysToInvalidate);
-      }
+      // Invalidate cache for the occurrence date
+      eventCache.invalidateCache(getCacheKeysForEventDate(originalStart));
 
       router.replace('/');
     } catch (err) {
@@ -886,39 +842,17 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
     }
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     if (event?.is_recurring && occurrence) {
-      const perform = (scope: 'single' | 'future' | 'all') => {
-        if (scope === 'single') deleteSingleOccurrence();
-        else if (scope === 'future') deleteFutureOccurrences();
-        else deleteAllOccurrences();
-      };
-
-      if (Platform.OS === 'web') {
-        const single = window.confirm('Delete this occurrence only?');
-        if (single) {
-          perform('single');
-          return;
-        }
-        const future = window.confirm('Delete this and future occurrences? (Cancel = All occurrences)');
-        if (future) {
-          perform('future');
-          return;
-        }
-        perform('all');
-        return;
-      }
-
-      Alert.alert(
-        'Delete recurring event',
-        'Do you want to delete just this occurrence or this and future occurrences?',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          { text: 'This occurrence only', onPress: () => perform('single') },
-          { text: 'This and future', style: 'destructive', onPress: () => perform('future') },
-          { text: 'All occurrences', style: 'destructive', onPress: () => perform('all') },
-        ]
-      );
+      const scope = await promptRecurringScope({
+        title: 'Delete recurring event',
+        message: 'Do you want to delete just this occurrence or this and future occurrences?',
+        verb: 'Delete',
+        destructive: true,
+      });
+      if (scope === 'single') deleteSingleOccurrence();
+      else if (scope === 'future') deleteFutureOccurrences();
+      else if (scope === 'all') deleteAllOccurrences();
       return;
     }
 
@@ -968,11 +902,13 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
     );
   }
 
-  if (error || !event) {
+  if (error || !event || !isEditable) {
     return (
       <View style={[styles.container, styles.centerContent, { backgroundColor }]}>
         <Ionicons name="alert-circle" size={48} color="#FF3B30" />
-        <Text style={[styles.errorText, { color: mutedText }]}>{error || 'Event not found'}</Text>
+        <Text style={[styles.errorText, { color: mutedText }]}>
+          {error || (event ? 'You can view this event but not change it.' : 'Event not found')}
+        </Text>
         <TouchableOpacity style={[styles.retryButton, { backgroundColor: accent }]} onPress={() => router.back()}>
           <Text style={styles.retryButtonText}>Go Back</Text>
         </TouchableOpacity>
@@ -1300,7 +1236,7 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
           </TouchableOpacity>
 
           <TouchableOpacity
-            style={[styles.fieldRow, styles.lastFieldRow]}
+            style={[styles.fieldRow, !canChangePermission && styles.lastFieldRow]}
             onPress={() => setShowAvailabilityModal(true)}
             disabled={isLoading || isSaving}>
             <View style={styles.secondCardIconColumn}>
@@ -1316,6 +1252,26 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
               <Ionicons name="chevron-forward" size={20} color={mutedText} />
             </View>
           </TouchableOpacity>
+
+          {canChangePermission && (
+            <TouchableOpacity
+              style={[styles.fieldRow, styles.lastFieldRow]}
+              onPress={() => setShowEditPermissionModal(true)}
+              disabled={isLoading || isSaving}>
+              <View style={styles.secondCardIconColumn}>
+                <Ionicons name="lock-closed" size={20} color={mutedText} />
+              </View>
+              <View style={styles.labelColumn}>
+                <Text style={[styles.fieldLabel, { color: textColor }]}>Who Can Edit</Text>
+              </View>
+              <View style={styles.fieldValue}>
+                <Text style={[styles.fieldValueText, { color: textColor }]}>
+                  {EDIT_PERMISSION_LABELS[editPermission]}
+                </Text>
+                <Ionicons name="chevron-forward" size={20} color={mutedText} />
+              </View>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Notes Card */}
@@ -1492,6 +1448,28 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
                     </View>
                   )}
 
+                  {recurrence.frequency === 'monthly' && (
+                    <View style={styles.rowWrap}>
+                      {(['dayOfMonth', 'nthWeekday', 'lastWeekday'] as const).map((mode) => (
+                        <TouchableOpacity
+                          key={mode}
+                          style={[styles.chipButton, monthlyMode === mode && styles.chipButtonActive]}
+                          onPress={() => setMonthlyMode(mode)}>
+                          <Text
+                            style={[
+                              styles.chipButtonText,
+                              monthlyMode === mode && styles.chipButtonTextActive,
+                              { color: textColor },
+                            ]}>
+                            {mode === 'dayOfMonth'
+                              ? `Day ${startDate.getDate()}`
+                              : describeWeekday(getMonthlyWeekday(startDate, mode === 'lastWeekday'))}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+
                   <View style={[styles.optionRow, { marginTop: 8 }]}>
                     <Text style={[styles.optionText, { color: textColor }]}>Ends</Text>
                     <View style={styles.rowWrap}>
@@ -1754,7 +1732,50 @@ export function EditEventView({ eventId, occurrence, onRegisterSave }: EditEvent
             </TouchableOpacity>
           </TouchableOpacity>
         </Modal>
+
+        {/* Who Can Edit Modal */}
+        <Modal
+          transparent
+          visible={showEditPermissionModal}
+          animationType="fade"
+          onRequestClose={() => setShowEditPermissionModal(false)}>
+          <TouchableOpacity
+            style={styles.overlay}
+            activeOpacity={1}
+            onPress={() => setShowEditPermissionModal(false)}>
+            <TouchableOpacity
+              activeOpacity={1}
+              style={[styles.modalCard, { backgroundColor: cardColor }]}
+              onPress={(e) => e.stopPropagation()}>
+              <Text style={[styles.modalTitle, { color: textColor }]}>Who Can Edit</Text>
+              {(Object.keys(EDIT_PERMISSION_LABELS) as EventEditPermission[]).map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.optionRow,
+                    editPermission === value && styles.optionRowSelected,
+                  ]}
+                  onPress={() => {
+                    setEditPermission(value);
+                    setShowEditPermissionModal(false);
+                  }}>
+                  <Text style={[styles.optionText, { color: textColor }]}>
+                    {EDIT_PERMISSION_LABELS[value]}
+                  </Text>
+                  {editPermission === value && (
+                    <Ionicons name="checkmark" size={20} color={accent} />
+                  )}
+                </TouchableOpacity>
+              ))}
+              <Text style={[styles.permissionHint, { color: mutedText }]}>
+                Family owners and admins can always edit.
+              </Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </Modal>
       </ScrollView>
+
+      <EventConflictSheet {...conflictSheetProps} />
     </View>
   );
 }
@@ -2004,6 +2025,10 @@ const styles = StyleSheet.create({
     fontSize: 15,
     color: '#1D1D1F',
   },
+  permissionHint: {
+    fontSize: 13,
+    marginTop: 12,
+  },
   clearButton: {
     marginTop: 12,
     alignSelf: 'flex-start',
@@ -0,0 +1,193 @@
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { EventConflict, findEventConflicts } from '@/services/eventService';
+import { formatDisplayName } from '@/utils/colorUtils';
+import { formatTimeRange } from '@/utils/mockEvents';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useRef, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface EventConflictSheetProps {
+  conflicts: EventConflict[];
+  onSaveAnyway: () => void;
+  onPickAnotherTime: () => void;
+}
+
+export function EventConflictSheet({ conflicts, onSaveAnyway, onPickAnotherTime }: EventConflictSheetProps) {
+  const { contacts, currentFamily } = useFamily();
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const surfaceColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const mutedText = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const accent = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  const getName = (contactId: string) => {
+    const contact = contacts.find((c) => c.id === contactId);
+    return contact ? formatDisplayName(contact.first_name, contact.last_name, currentFamily?.name) : 'Someone';
+  };
+
+  return (
+    <Modal visible={conflicts.length > 0} transparent animationType="slide" onRequestClose={onPickAnotherTime}>
+      <View style={styles.overlay}>
+        <View style={[styles.sheet, { backgroundColor: cardColor }]}>
+          <View style={styles.titleRow}>
+            <Ionicons name="warning-outline" size={22} color="#FF9500" />
+            <Text style={[styles.title, { color: textColor }]}>Scheduling Conflict</Text>
+          </View>
+          <Text style={[styles.subtitle, { color: mutedText }]}>
+            {conflicts.length === 1
+              ? 'This time clashes with another event.'
+              : `This time clashes with ${conflicts.length} other events.`}
+          </Text>
+
+          <ScrollView style={styles.list}>
+            {conflicts.map((conflict) => (
+              <View
+                key={`${conflict.contactId}-${conflict.eventId}-${conflict.startTime.getTime()}`}
+                style={[styles.conflictRow, { backgroundColor: surfaceColor }]}>
+                <Text style={[styles.conflictPerson, { color: textColor }]}>{getName(conflict.contactId)}</Text>
+                <Text style={[styles.conflictTitle, { color: textColor }]} numberOfLines={1}>
+                  {conflict.title}
+                </Text>
+                <Text style={[styles.conflictTime, { color: mutedText }]}>
+                  {conflict.startTime.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}
+                  {' · '}
+                  {conflict.isAllDay ? 'All day' : formatTimeRange(conflict.startTime, conflict.endTime)}
+                  {conflict.isPersonalCalendar ? ' · Personal calendar' : ''}
+                </Text>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.actionButtonGhost, { borderColor: accent }]} onPress={onSaveAnyway}>
+              <Text style={[styles.actionGhostText, { color: accent }]}>Save Anyway</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, { backgroundColor: accent }]} onPress={onPickAnotherTime}>
+              <Text style={styles.actionText}>Pick Another Time</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/**
+ * Check an event's time for conflicts before saving it. `confirmEventTime` resolves to true
+ * when there are none or the user chooses to save anyway; render the sheet with `sheetProps`.
+ */
+export function useEventConflictCheck() {
+  const [conflicts, setConflicts] = useState<EventConflict[]>([]);
+  const resolverRef = useRef<((saveAnyway: boolean) => void) | null>(null);
+
+  const confirmEventTime = useCallback(
+    async (familyId: string, slot: Parameters<typeof findEventConflicts>[1]): Promise<boolean> => {
+      const { data, error } = await findEventConflicts(familyId, slot);
+      if (error) {
+        // Don't block saving because the check itself failed
+        console.error('Error checking for event conflicts:', error);
+        return true;
+      }
+      if (data.length === 0) return true;
+
+      return new Promise<boolean>((resolve) => {
+        resolverRef.current = resolve;
+        setConflicts(data);
+      });
+    },
+    []
+  );
+
+  const respond = (saveAnyway: boolean) => {
+    resolverRef.current?.(saveAnyway);
+    resolverRef.current = null;
+    setConflicts([]);
+  };
+
+  return {
+    confirmEventTime,
+    sheetProps: {
+      conflicts,
+      onSaveAnyway: () => respond(true),
+      onPickAnotherTime: () => respond(false),
+    },
+  };
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    maxHeight: '70%',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  conflictRow: {
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  conflictPerson: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  conflictTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  conflictTime: {
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  actionButtonGhost: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1.5,
+  },
+  actionGhostText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  actionText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,14 +1,15 @@
 import { useAppSettings } from '@/contexts/AppSettingsContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { getCacheKeysForEventDate, useEventCache } from '@/contexts/EventCacheContext';
 import { useFamily } from '@/contexts/FamilyContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { createEvent, deleteEvent, EventWithDetails, getEvent, updateEvent, updateEventParticipants } from '@/services/eventService';
+import { deleteEvent, deleteEventOccurrence, deleteFutureEventOccurrences, EventWithDetails, getEvent, resolveEventOccurrence, respondToEvent, RSVPStatus } from '@/services/eventService';
 import { FAMILY_EVENT_COLOR, normalizeColorForDisplay } from '@/utils/colorUtils';
 import { openInMaps } from '@/utils/maps';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useFocusEffect, useRouter } from 'expo-router';
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -25,13 +26,28 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 interface EventDetailViewProps {
   eventId: string;
   occurrence?: string;
+  onEditableChange?: (editable: boolean) => void; // Lets the screen hide its Edit button
 }
 
-export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
+const RSVP_OPTIONS: { status: Exclude<RSVPStatus, 'pending'>; label: string }[] = [
+  { status: 'accepted', label: 'Going' },
+  { status: 'maybe', label: 'Maybe' },
+  { status: 'declined', label: 'Not Going' },
+];
+
+const RSVP_STATUS_LABELS: Record<RSVPStatus, string> = {
+  accepted: 'Going',
+  maybe: 'Maybe',
+  declined: 'Not going',
+  pending: 'Not answered',
+};
+
+export function EventDetailView({ eventId, occurrence, onEditableChange }: EventDetailViewProps) {
   const insets = useSafeAreaInsets();
   const router = useRouter();
   const colorScheme = useColorScheme();
-  const { currentFamily } = useFamily();
+  const { currentFamily, canEditEvent } = useFamily();
+  const { user } = useAuth();
   const { settings } = useAppSettings();
   const eventCache = useEventCache();
   const backgroundColor = useThemeColor({}, 'background');
@@ -48,6 +64,7 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isResponding, setIsResponding] = useState(false);
 
   useFocusEffect(
     useCallback(() => {
@@ -61,7 +78,7 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
         if (eventId && eventId.startsWith('personal-')) {
           if (!isActive) return;
           console.log('Personal calendar event - cannot show details');
-          setError('Personal calendar events cannot be viewed in detail. They are read-only from your iOS calendar.');
+          setError('Personal calendar events cannot be viewed in detail. They are read-only from your device calendar.');
           setIsLoading(false);
           return;
         }
@@ -95,44 +112,11 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
     }, [eventId])
   );
 
-  const getRecurrencePayloadFromEvent = (source: EventWithDetails, endDateOverride?: Date) => ({
-    isRecurring: true,
-    frequency: source.recurrence_frequency || undefined,
-    interval: source.recurrence_interval || 1,
-    daysOfWeek: source.recurrence_days_of_week || undefined,
-    daysOfMonth: source.recurrence_days_of_month || undefined,
-    monthsOfYear: source.recurrence_months_of_year || undefined,
-    weeksOfYear: source.recurrence_weeks_of_year || undefined,
-    daysOfYear: source.recurrence_days_of_year || undefined,
-    setPositions: source.recurrence_set_positions || undefined,
-    count: source.recurrence_count || undefined,
-    endDate: endDateOverride
-      ? endDateOverride
-      : source.recurrence_end_date
-      ? new Date(source.recurrence_end_date)
-      : undefined,
-    weekStart: source.recurrence_week_start || undefined,
-  });
-
-  const getNextStart = (start: Date, freq?: string | null, interval?: number) => {
-    const intv = interval && interval > 0 ? interval : 1;
-    const next = new Date(start);
-    switch (freq) {
-      case 'weekly':
-        next.setDate(next.getDate() + 7 * intv);
-        break;
-      case 'monthly':
-        next.setMonth(next.getMonth() + intv);
-        break;
-      case 'yearly':
-        next.setFullYear(next.getFullYear() + intv);
-        break;
-      case 'daily':
-      default:
-        next.setDate(next.getDate() + intv);
-    }
-    return next;
-  };
+  const isEditable = !!event && canEditEvent(event.created_by, event.edit_permission);
+
+  useEffect(() => {
+    onEditableChange?.(isEditable);
+  }, [isEditable, onEditableChange]);
 
   const handleOpenLocation = async () => {
     if (!event || !event.location) return;
@@ -143,6 +127,34 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
     });
   };
 
+  const handleRespond = async (status: Exclude<RSVPStatus, 'pending'>) => {
+    const myParticipant = event?.participants?.find((p) => p.contact?.user_id === user?.id);
+    if (!event || !myParticipant || myParticipant.status === status) return;
+
+    setIsResponding(true);
+    const { error: respondError } = await respondToEvent(event.id, myParticipant.contact_id, status);
+    setIsResponding(false);
+
+    if (respondError) {
+      console.error('[EventDetailView] Error responding to event:', respondError);
+      const errorMsg = 'Failed to send your response. Please try again.';
+      if (Platform.OS === 'web') {
+        window.alert(errorMsg);
+      } else {
+        Alert.alert('Error', errorMsg);
+      }
+      return;
+    }
+
+    setEvent({
+      ...event,
+      participants: event.participants?.map((p) => (p.id === myParticipant.id ? { ...p, status } : p)),
+    });
+    eventCache.invalidateCache(getCacheKeysForEventDate(new Date(event.start_time)));
+    eventCache.refreshCache('today');
+    eventCache.refreshCache('upcoming');
+  };
+
   const performDeleteAll = async () => {
     console.log('[EventDetailView] Starting delete for event:', eventId);
     setIsDeleting(true);
@@ -202,7 +214,10 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
 
   const deleteFutureOccurrences = async () => {
     if (!event) return;
-    const occurrenceStart = occurrence ? new Date(occurrence) : null;
+    // A moved occurrence is still cut at its original start
+    const occurrenceStart = occurrence
+      ? new Date(resolveEventOccurrence(event, new Date(occurrence)).occurrence_start_time || occurrence)
+      : null;
     if (!occurrenceStart) {
       await performDeleteAll();
       return;
@@ -210,9 +225,7 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
     console.log('[EventDetailView] Deleting future occurrences from:', occurrenceStart.toISOString());
     setIsDeleting(true);
     try {
-      const cutoff = new Date(occurrenceStart.getTime() - 1000);
-      const recurrencePayload = getRecurrencePayloadFromEvent(event, cutoff);
-      const { error } = await updateEvent(event.id, { recurrence: recurrencePayload });
+      const { error } = await deleteFutureEventOccurrences(event, occurrenceStart);
       if (error) {
         console.error('[EventDetailView] Error deleting future occurrences:', error);
         throw error;
@@ -253,58 +266,21 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
   };
 
   const deleteSingleOccurrence = async () => {
-    if (!event || !currentFamily) return;
+    if (!event) return;
     const occurrenceStart = occurrence ? new Date(occurrence) : null;
     if (!occurrenceStart) {
       await performDeleteAll();
       return;
     }
-    console.log('[EventDetailView] Deleting single occurrence:', occurrenceStart.toISOString());
+    // The occurrence may have been moved; exceptions are keyed by its original start
+    const originalStart = new Date(resolveEventOccurrence(event, occurrenceStart).occurrence_start_time || occurrenceStart);
+    console.log('[EventDetailView] Deleting single occurrence:', originalStart.toISOString());
     setIsDeleting(true);
     try {
-      const cutoff = new Date(occurrenceStart.getTime() - 1000);
-      // End current series before the occurrence
-      const { error: endError } = await updateEvent(event.id, {
-        recurrence: getRecurrencePayloadFromEvent(event, cutoff),
-      });
-      if (endError) {
-        console.error('[EventDetailView] Error ending series:', endError);
-        throw endError;
-      }
-
-      // Create a future series starting after this occurrence to preserve future events
-      const nextStart = getNextStart(occurrenceStart, event.recurrence_frequency, event.recurrence_interval);
-      const durationMs = new Date(event.end_time).getTime() - new Date(event.start_time).getTime();
-      const { data: newFuture, error: futureError } = await createEvent(
-        currentFamily.id,
-        {
-          title: event.title,
-          description: event.description || undefined,
-          notes: event.notes || undefined,
-          location: event.location || undefined,
-          url: event.url || undefined,
-          startTime: nextStart,
-          endTime: new Date(nextStart.getTime() + durationMs),
-          isAllDay: event.is_all_day,
-          categoryId: event.category_id || undefined,
-          availability: event.availability,
-          travelTimeMinutes: event.travel_time || null,
-          isRecurring: true,
-          recurrence: getRecurrencePayloadFromEvent(event),
-          dropOffDriverId: event.drop_off_driver_id || null,
-          collectionDriverId: event.collection_driver_id || null,
-          sameDriver: event.same_driver || false,
-        },
-        event.participants?.map((p) => p.contact_id) || []
-      );
-      if (futureError) {
-        console.error('[EventDetailView] Error creating future series:', futureError);
-        throw futureError;
-      }
-
-      // Ensure participants are copied (createEvent already did via argument)
-      if (newFuture?.id && event.participants?.length) {
-        await updateEventParticipants(newFuture.id, event.participants.map((p) => p.contact_id));
+      const { error: deleteError } = await deleteEventOccurrence(event.id, originalStart);
+      if (deleteError) {
+        console.error('[EventDetailView] Error cancelling occurrence:', deleteError);
+        throw deleteError;
       }
 
       console.log('[EventDetailView] Single occurrence deleted, invalidating cache');
@@ -427,12 +403,10 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
     );
   }
 
-  const occurrenceStart = occurrence ? new Date(occurrence) : null;
-  const baseStart = new Date(event.start_time);
-  const baseEnd = new Date(event.end_time);
-  const durationMs = baseEnd.getTime() - baseStart.getTime();
-  const startTime = occurrenceStart || baseStart;
-  const endTime = occurrenceStart ? new Date(startTime.getTime() + durationMs) : baseEnd;
+  // For an occurrence of a recurring event, show its own (possibly overridden) details
+  const displayed = occurrence && event.is_recurring ? resolveEventOccurrence(event, new Date(occurrence)) : event;
+  const startTime = new Date(displayed.start_time);
+  const endTime = new Date(displayed.end_time);
   
   // Format date
   const dateOptions: Intl.DateTimeFormatOptions = {
@@ -466,9 +440,19 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
         if (!contact) return null;
         const initial = (contact.first_name || contact.last_name || '?').trim().charAt(0).toUpperCase() || '?';
         const color = contact.color || familyColor || '#6B7280';
-        return { id: contact.id, initial, color };
+        return { id: contact.id, initial, color, declined: p.status === 'declined' };
       })
-      .filter(Boolean) as { id: string; initial: string; color: string }[];
+      .filter(Boolean) as { id: string; initial: string; color: string; declined: boolean }[];
+  const myParticipant = event.participants?.find((p) => p.contact?.user_id === user?.id);
+  const isOrganizer = !!myParticipant?.is_organizer;
+  const responseCounts = (event.participants || []).reduce(
+    (counts, p) => ({ ...counts, [p.status]: (counts[p.status] || 0) + 1 }),
+    {} as Partial<Record<RSVPStatus, number>>
+  );
+  const responseSummary = (Object.keys(RSVP_STATUS_LABELS) as RSVPStatus[])
+    .filter((status) => responseCounts[status])
+    .map((status) => `${responseCounts[status]} ${RSVP_STATUS_LABELS[status].toLowerCase()}`)
+    .join(' · ');
   
   // Get availability display
   const availabilityDisplay = event.availability === 'busy' ? 'Busy' : 
@@ -480,8 +464,12 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
     event.is_recurring ? 'Repeats' : null,
     availabilityDisplay,
   ].filter(Boolean) as string[];
-  const titleInitial = event.title?.trim()?.charAt(0)?.toUpperCase() || 'E';
-  const hasLocation = !!(event.structured_location_address || event.location);
+  const titleInitial = displayed.title?.trim()?.charAt(0)?.toUpperCase() || 'E';
+  const hasLocationOverride = displayed.location !== event.location;
+  const locationText = hasLocationOverride
+    ? displayed.location
+    : event.structured_location_address || event.location;
+  const hasLocation = !!locationText;
   const heroPalette = {
     gradient: [surfaceColor, cardColor],
     stroke: borderColor,
@@ -556,7 +544,7 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
           ))}
         </View>
         <Text style={[styles.heroTitle, { color: textColor }]} numberOfLines={2}>
-          {event.title}
+          {displayed.title}
         </Text>
         <View style={styles.infoRow}>
           <Ionicons name="time-outline" size={18} color={heroPalette.accent} />
@@ -569,11 +557,11 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
             activeOpacity={0.8}>
             <Ionicons name="location" size={18} color={heroPalette.accent} />
             <View style={styles.locationTextContainer}>
-              {event.structured_location_title && (
+              {event.structured_location_title && !hasLocationOverride && (
                 <Text style={[styles.locationTitle, { color: heroPalette.accent }]}>{event.structured_location_title}</Text>
               )}
               <Text style={[styles.infoText, styles.linkText, { color: heroPalette.accent }]}>
-                {event.structured_location_address || event.location}
+                {locationText}
               </Text>
             </View>
             <Ionicons name="chevron-forward" size={18} color={heroPalette.accent} />
@@ -589,7 +577,9 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
               {participantAvatars.length > 0 ? (
                 <View style={styles.participantAvatarRow}>
                   {participantAvatars.map((p) => (
-                    <View key={p.id} style={[styles.participantAvatar, { backgroundColor: p.color }]}>
+                    <View
+                      key={p.id}
+                      style={[styles.participantAvatar, { backgroundColor: p.color }, p.declined && styles.declinedAvatar]}>
                       <Text style={[styles.participantAvatarText, { color: '#FFFFFF' }]}>{p.initial}</Text>
                     </View>
                   ))}
@@ -631,6 +621,53 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
 
       </LinearGradient>
 
+      {myParticipant && (
+        <View style={[styles.card, { backgroundColor: cardColor }]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="mail-open-outline" size={18} color={accent} />
+            <Text style={[styles.cardTitle, styles.sectionHeaderText, { color: textColor }]}>Your Response</Text>
+          </View>
+          <View style={styles.rsvpRow}>
+            {RSVP_OPTIONS.map(({ status, label }) => {
+              const selected = myParticipant.status === status;
+              return (
+                <TouchableOpacity
+                  key={status}
+                  style={[styles.rsvpButton, { borderColor: accent }, selected && { backgroundColor: accent }]}
+                  onPress={() => handleRespond(status)}
+                  disabled={isResponding}>
+                  <Text style={[styles.rsvpButtonText, { color: selected ? '#FFFFFF' : accent }]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {event.is_recurring && (
+            <Text style={[styles.rsvpHint, { color: mutedText }]}>Your answer applies to every occurrence.</Text>
+          )}
+        </View>
+      )}
+
+      {isOrganizer && (event.participants?.length || 0) > 1 && (
+        <View style={[styles.card, { backgroundColor: cardColor }]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="people-outline" size={18} color={accent} />
+            <Text style={[styles.cardTitle, styles.sectionHeaderText, { color: textColor }]}>Responses</Text>
+          </View>
+          <Text style={[styles.rsvpHint, styles.responseSummary, { color: mutedText }]}>{responseSummary}</Text>
+          {event.participants?.map((p) => (
+            <View key={p.id} style={[styles.responseRow, { borderBottomColor: surfaceColor }]}>
+              <View style={[styles.responseDot, { backgroundColor: p.contact?.color || familyColor }]} />
+              <Text style={[styles.responseName, { color: textColor }]} numberOfLines={1}>
+                {[p.contact?.first_name, p.contact?.last_name].filter(Boolean).join(' ')}
+              </Text>
+              <Text style={[styles.responseStatus, { color: p.status === 'accepted' ? textColor : mutedText }]}>
+                {RSVP_STATUS_LABELS[p.status]}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {event.notes && (
         <View style={[styles.card, { backgroundColor: cardColor }]}>
           <View style={styles.sectionHeader}>
@@ -644,7 +681,13 @@ export function EventDetailView({ eventId, occurrence }: EventDetailViewProps) {
       {renderChecklist()}
       {renderAttachments()}
 
-      {renderDeleteButton()}
+      {isEditable ? (
+        renderDeleteButton()
+      ) : (
+        <Text style={[styles.readOnlyText, { color: mutedText }]}>
+          You can view this event but not change it.
+        </Text>
+      )}
     </ScrollView>
   );
 
@@ -857,6 +900,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  readOnlyText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 8,
+  },
   notesText: {
     fontSize: 15,
     fontWeight: '400',
@@ -977,6 +1025,51 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '700',
   },
+  declinedAvatar: {
+    opacity: 0.35,
+  },
+  rsvpRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rsvpButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1.5,
+  },
+  rsvpButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rsvpHint: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  responseSummary: {
+    marginTop: 0,
+    marginBottom: 4,
+  },
+  responseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  responseDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  responseName: {
+    flex: 1,
+    fontSize: 15,
+  },
+  responseStatus: {
+    fontSize: 15,
+  },
   metaValue: {
     fontSize: 16,
     fontWeight: '600',
@@ -0,0 +1,396 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { ScheduleSettingsModal } from '@/components/ui/ScheduleSettingsModal';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { findFreeSlots, FreeSlot } from '@/services/findTimeService';
+import { getUserPreferences, updateScheduleTimes } from '@/services/userPreferencesService';
+import { formatTimeRange } from '@/utils/mockEvents';
+
+interface FindTimeModalProps {
+  visible: boolean;
+  initialContactIds: string[];
+  initialDurationMinutes: number;
+  onClose: () => void;
+  onPick: (slot: FreeSlot, contactIds: string[]) => void;
+}
+
+const DURATION_OPTIONS = [
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 hr' },
+  { minutes: 90, label: '1.5 hrs' },
+  { minutes: 120, label: '2 hrs' },
+  { minutes: 180, label: '3 hrs' },
+];
+
+const WINDOW_OPTIONS = [
+  { days: 7, label: 'Next 7 days' },
+  { days: 14, label: 'Next 2 weeks' },
+  { days: 30, label: 'Next month' },
+];
+
+const MAX_RESULTS = 20;
+
+export default function FindTimeModal({
+  visible,
+  initialContactIds,
+  initialDurationMinutes,
+  onClose,
+  onPick,
+}: FindTimeModalProps) {
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const { currentFamily, familyMembers } = useFamily();
+
+  const [contactIds, setContactIds] = useState<Set<string>>(new Set());
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [windowDays, setWindowDays] = useState(7);
+  const [dayStart, setDayStart] = useState('07:00:00');
+  const [dayEnd, setDayEnd] = useState('19:30:00');
+  const [hoursModalVisible, setHoursModalVisible] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [slots, setSlots] = useState<FreeSlot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const separatorColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  useEffect(() => {
+    if (!visible) return;
+    // Start from what's already filled in on the event
+    setContactIds(new Set(initialContactIds));
+    setDurationMinutes(
+      DURATION_OPTIONS.some((option) => option.minutes === initialDurationMinutes) ? initialDurationMinutes : 60
+    );
+    setSlots(null);
+    setError(null);
+  }, [visible, initialContactIds, initialDurationMinutes]);
+
+  useEffect(() => {
+    if (!visible || !user) return;
+    getUserPreferences(user.id).then(({ data }) => {
+      if (data) {
+        setDayStart(data.schedule_day_start);
+        setDayEnd(data.schedule_day_end);
+      }
+    });
+  }, [visible, user]);
+
+  const handleToggleContact = (contactId: string) => {
+    setContactIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(contactId)) next.delete(contactId);
+      else next.add(contactId);
+      return next;
+    });
+    setSlots(null);
+  };
+
+  const handleSaveHours = async (newStart: string, newEnd: string) => {
+    setDayStart(newStart);
+    setDayEnd(newEnd);
+    setSlots(null);
+    if (user) await updateScheduleTimes(user.id, newStart, newEnd);
+  };
+
+  const handleSearch = async () => {
+    if (!currentFamily || contactIds.size === 0) return;
+
+    const windowStart = new Date();
+    const windowEnd = new Date(windowStart);
+    windowEnd.setDate(windowEnd.getDate() + windowDays);
+    windowEnd.setHours(0, 0, 0, 0);
+
+    setSearching(true);
+    setError(null);
+    const { data, error: searchError } = await findFreeSlots(currentFamily.id, {
+      contactIds: Array.from(contactIds),
+      durationMinutes,
+      windowStart,
+      windowEnd,
+      dayStart,
+      dayEnd,
+      limit: MAX_RESULTS,
+    });
+    setSearching(false);
+
+    if (searchError) {
+      setError(searchError.message);
+      return;
+    }
+    setSlots(data);
+  };
+
+  const canSearch = contactIds.size > 0 && !searching;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: cardColor }]}>
+          <TouchableOpacity onPress={onClose} style={styles.cancelButton}>
+            <Text style={[styles.cancelText, { color: accentColor }]}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: textColor }]}>Find a Time</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+          showsVerticalScrollIndicator={false}>
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>Who</Text>
+          <View style={styles.chipRow}>
+            {familyMembers.map((member) => {
+              const selected = contactIds.has(member.contact_id);
+              const color = member.contact.color || accentColor;
+              return (
+                <TouchableOpacity
+                  key={member.contact_id}
+                  style={[styles.chip, { borderColor: color, backgroundColor: selected ? color : cardColor }]}
+                  onPress={() => handleToggleContact(member.contact_id)}>
+                  <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : textColor }]}>
+                    {member.contact.first_name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>How Long</Text>
+          <View style={styles.chipRow}>
+            {DURATION_OPTIONS.map((option) => {
+              const selected = durationMinutes === option.minutes;
+              return (
+                <TouchableOpacity
+                  key={option.minutes}
+                  style={[
+                    styles.chip,
+                    { borderColor: accentColor, backgroundColor: selected ? accentColor : cardColor },
+                  ]}
+                  onPress={() => {
+                    setDurationMinutes(option.minutes);
+                    setSlots(null);
+                  }}>
+                  <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : textColor }]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>When</Text>
+          <View style={styles.chipRow}>
+            {WINDOW_OPTIONS.map((option) => {
+              const selected = windowDays === option.days;
+              return (
+                <TouchableOpacity
+                  key={option.days}
+                  style={[
+                    styles.chip,
+                    { borderColor: accentColor, backgroundColor: selected ? accentColor : cardColor },
+                  ]}
+                  onPress={() => {
+                    setWindowDays(option.days);
+                    setSlots(null);
+                  }}>
+                  <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : textColor }]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.card, styles.hoursRow, { backgroundColor: cardColor }]}
+            onPress={() => setHoursModalVisible(true)}>
+            <View>
+              <Text style={[styles.rowTitle, { color: textColor }]}>Between</Text>
+              <Text style={[styles.rowSubtitle, { color: subTextColor }]}>
+                {dayStart.slice(0, 5)} – {dayEnd.slice(0, 5)} each day
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={subTextColor} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.searchButton, { backgroundColor: canSearch ? accentColor : separatorColor }]}
+            onPress={handleSearch}
+            disabled={!canSearch}>
+            {searching ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={[styles.searchButtonText, { color: canSearch ? '#FFFFFF' : subTextColor }]}>
+                Find Free Times
+              </Text>
+            )}
+          </TouchableOpacity>
+
+          {error && <Text style={[styles.message, { color: '#FF3B30' }]}>{error}</Text>}
+
+          {slots && slots.length === 0 && (
+            <Text style={[styles.message, { color: subTextColor }]}>
+              Nobody is free together for that long. Try a shorter event, a longer window or wider hours.
+            </Text>
+          )}
+
+          {slots && slots.length > 0 && (
+            <>
+              <Text style={[styles.sectionHeader, { color: subTextColor }]}>Everyone&apos;s Free</Text>
+              <View style={[styles.card, styles.slotCard, { backgroundColor: cardColor }]}>
+                {slots.map((slot, index) => (
+                  <React.Fragment key={slot.startTime.toISOString()}>
+                    {index > 0 && <View style={[styles.separator, { backgroundColor: separatorColor }]} />}
+                    <TouchableOpacity
+                      style={styles.slotRow}
+                      onPress={() => onPick(slot, Array.from(contactIds))}>
+                      <View>
+                        <Text style={[styles.rowTitle, { color: textColor }]}>
+                          {slot.startTime.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'short' })}
+                        </Text>
+                        <Text style={[styles.rowSubtitle, { color: subTextColor }]}>
+                          {formatTimeRange(slot.startTime, slot.endTime)}
+                        </Text>
+                      </View>
+                      <Ionicons name="add-circle-outline" size={22} color={accentColor} />
+                    </TouchableOpacity>
+                  </React.Fragment>
+                ))}
+              </View>
+            </>
+          )}
+        </ScrollView>
+      </View>
+
+      <ScheduleSettingsModal
+        visible={hoursModalVisible}
+        dayStart={dayStart}
+        dayEnd={dayEnd}
+        onClose={() => setHoursModalVisible(false)}
+        onSave={handleSaveHours}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  cancelText: {
+    fontSize: 17,
+    fontWeight: '400',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 56,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '400',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1.5,
+  },
+  chipText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  hoursRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  rowTitle: {
+    fontSize: 17,
+  },
+  rowSubtitle: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  searchButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  searchButtonText: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  message: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 16,
+    paddingHorizontal: 8,
+  },
+  slotCard: {
+    paddingVertical: 0,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  separator: {
+    height: 1,
+  },
+});
@@ -1,5 +1,5 @@
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { FamilyEvent, formatTimeRange, getCountdownText } from '@/utils/mockEvents';
+import { FamilyEvent, formatTimeRange, getCountdownText, getLeaveByText } from '@/utils/mockEvents';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import React from 'react';
@@ -15,6 +15,12 @@ interface EventCardProps {
   onLayout?: (event: any) => void;
 }
 
+const RSVP_LABELS: Partial<Record<NonNullable<FamilyEvent['rsvpStatus']>, string>> = {
+  pending: 'Not answered yet',
+  maybe: 'Maybe going',
+  declined: 'Not going',
+};
+
 export function EventCard({
   event,
   onPress,
@@ -33,6 +39,8 @@ export function EventCard({
   const isToday = event.startTime.toDateString() === today.toDateString();
   const countdown = getCountdownText(event.startTime);
   const timeRange = formatTimeRange(event.startTime, event.endTime);
+  const isDeclined = event.rsvpStatus === 'declined';
+  const rsvpLabel = event.rsvpStatus ? RSVP_LABELS[event.rsvpStatus] : undefined;
 
   const handlePress = () => {
     // Navigate to member detail view instead of event detail
@@ -49,11 +57,11 @@ export function EventCard({
 
   const CardContent = () => (
     <>
-      <View style={[styles.colorBar, { backgroundColor: event.color }]} />
-      <View style={styles.content}>
+      <View style={[styles.colorBar, { backgroundColor: event.color }, isDeclined && styles.declined]} />
+      <View style={[styles.content, isDeclined && styles.declined]}>
         <Text style={[styles.personName, { color: textColor }]}>{event.person}</Text>
         <View style={styles.titleRow}>
-          <Text style={[styles.title, { color: textColor }]}>
+          <Text style={[styles.title, { color: textColor }, isDeclined && styles.declinedTitle]}>
             {event.title}
           </Text>
           {event.isRecurring && (
@@ -70,7 +78,14 @@ export function EventCard({
             </Text>
           </View>
         )}
-        <Text style={[styles.countdown, { color: accent }]}>{countdown}</Text>
+        {rsvpLabel && <Text style={[styles.rsvp, { color: mutedText }]}>{rsvpLabel}</Text>}
+        {!isDeclined && event.leaveBy && event.startTime > today && (
+          <View style={styles.locationRow}>
+            <Ionicons name="car-outline" size={12} color={mutedText} />
+            <Text style={[styles.location, { color: mutedText }]}>{getLeaveByText(event.leaveBy)}</Text>
+          </View>
+        )}
+        {!isDeclined && <Text style={[styles.countdown, { color: accent }]}>{countdown}</Text>}
       </View>
     </>
   );
@@ -200,4 +215,15 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     marginTop: 4,
   },
+  rsvp: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  declined: {
+    opacity: 0.5,
+  },
+  declinedTitle: {
+    textDecorationLine: 'line-through',
+  },
 });
@@ -0,0 +1,119 @@
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { EventInvitation, RSVPStatus } from '@/services/eventService';
+import { formatTimeRange } from '@/utils/mockEvents';
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface EventInvitationsListProps {
+  invitations: EventInvitation[];
+  respondingEventId?: string | null;
+  onRespond: (invitation: EventInvitation, status: Exclude<RSVPStatus, 'pending'>) => void;
+  onEventPress?: (eventId: string, originalEventId?: string, occurrenceIso?: string) => void;
+}
+
+const RESPONSES: { status: Exclude<RSVPStatus, 'pending'>; label: string }[] = [
+  { status: 'accepted', label: 'Going' },
+  { status: 'maybe', label: 'Maybe' },
+  { status: 'declined', label: 'Not Going' },
+];
+
+export function EventInvitationsList({
+  invitations,
+  respondingEventId,
+  onRespond,
+  onEventPress,
+}: EventInvitationsListProps) {
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const mutedText = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const accent = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.headerTitle, { color: textColor }]}>Invitations</Text>
+      {invitations.map((invitation) => {
+        const { event } = invitation;
+        const eventId = event.original_event_id || event.id;
+        const startTime = new Date(event.start_time);
+        const organizer = event.participants?.find((p) => p.is_organizer)?.contact;
+        const isResponding = respondingEventId === eventId;
+
+        return (
+          <View key={eventId} style={[styles.card, { backgroundColor: cardColor }]}>
+            <TouchableOpacity
+              onPress={() => onEventPress?.(event.id, eventId, startTime.toISOString())}
+              activeOpacity={0.7}>
+              <Text style={[styles.title, { color: textColor }]} numberOfLines={1}>
+                {event.title}
+              </Text>
+              <Text style={[styles.details, { color: mutedText }]} numberOfLines={1}>
+                {startTime.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}
+                {' · '}
+                {event.is_all_day ? 'All day' : formatTimeRange(startTime, new Date(event.end_time))}
+                {organizer ? ` · from ${organizer.first_name}` : ''}
+              </Text>
+            </TouchableOpacity>
+            <View style={styles.responseRow}>
+              {isResponding ? (
+                <ActivityIndicator size="small" color={accent} />
+              ) : (
+                RESPONSES.map(({ status, label }) => (
+                  <TouchableOpacity
+                    key={status}
+                    style={[styles.responseButton, { borderColor: accent }]}
+                    onPress={() => onRespond(invitation, status)}>
+                    <Text style={[styles.responseText, { color: accent }]}>{label}</Text>
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  card: {
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  details: {
+    fontSize: 13,
+  },
+  responseRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  responseButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1.5,
+  },
+  responseText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,176 @@
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface FamilySwitcherSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  // Offer the merged "all my families" calendar as well
+  allowAll?: boolean;
+}
+
+export function FamilySwitcherSheet({ visible, onClose, allowAll = false }: FamilySwitcherSheetProps) {
+  const { families, currentFamily, setCurrentFamily, showAllFamilies, setShowAllFamilies, getFamilyColor } = useFamily();
+
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const separatorColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  const isAllSelected = allowAll && showAllFamilies;
+
+  const handleSelect = (familyId: string) => {
+    const family = families.find((f) => f.id === familyId);
+    setShowAllFamilies(false);
+    if (family && family.id !== currentFamily?.id) {
+      setCurrentFamily(family);
+    }
+    onClose();
+  };
+
+  const handleSelectAll = () => {
+    setShowAllFamilies(true);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} style={[styles.sheet, { backgroundColor: cardColor }]}>
+          <Text style={[styles.title, { color: textColor }]}>Switch Family</Text>
+          <ScrollView style={styles.list}>
+            {families.map((family, index) => (
+              <React.Fragment key={family.id}>
+                {index > 0 && <View style={[styles.separator, { backgroundColor: separatorColor }]} />}
+                <TouchableOpacity style={styles.row} onPress={() => handleSelect(family.id)}>
+                  <View style={[styles.colorDot, { backgroundColor: getFamilyColor(family.id) }]} />
+                  <Text style={[styles.rowTitle, { color: textColor }]} numberOfLines={1}>
+                    {family.name}
+                  </Text>
+                  {!isAllSelected && family.id === currentFamily?.id && (
+                    <Ionicons name="checkmark" size={20} color={accentColor} />
+                  )}
+                </TouchableOpacity>
+              </React.Fragment>
+            ))}
+            {allowAll && families.length > 1 && (
+              <>
+                <View style={[styles.separator, { backgroundColor: separatorColor }]} />
+                <TouchableOpacity style={styles.row} onPress={handleSelectAll}>
+                  <Ionicons name="layers-outline" size={16} color={subTextColor} />
+                  <View style={styles.rowText}>
+                    <Text style={[styles.rowTitle, { color: textColor }]}>All My Families</Text>
+                    <Text style={[styles.rowSubtitle, { color: subTextColor }]}>
+                      One calendar, coloured by family
+                    </Text>
+                  </View>
+                  {isAllSelected && <Ionicons name="checkmark" size={20} color={accentColor} />}
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+interface FamilySwitcherProps {
+  allowAll?: boolean;
+}
+
+// Current family's name, tappable to switch; nothing for members of a single family
+export function FamilySwitcher({ allowAll = false }: FamilySwitcherProps) {
+  const { families, currentFamily, showAllFamilies, getFamilyColor } = useFamily();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+
+  if (families.length < 2 || !currentFamily) {
+    return null;
+  }
+
+  const isAllSelected = allowAll && showAllFamilies;
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.trigger}
+        onPress={() => setIsOpen(true)}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+        {!isAllSelected && <View style={[styles.triggerDot, { backgroundColor: getFamilyColor(currentFamily.id) }]} />}
+        <Text style={[styles.triggerText, { color: subTextColor }]} numberOfLines={1}>
+          {isAllSelected ? 'All My Families' : currentFamily.name}
+        </Text>
+        <Ionicons name="chevron-down" size={14} color={subTextColor} />
+      </TouchableOpacity>
+      <FamilySwitcherSheet visible={isOpen} onClose={() => setIsOpen(false)} allowAll={allowAll} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    maxHeight: '70%',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 17,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  separator: {
+    height: 1,
+  },
+  colorDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+  },
+  trigger: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  triggerDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  triggerText: {
+    fontSize: 15,
+    fontWeight: '500',
+    maxWidth: 200,
+  },
+});
@@ -1,10 +1,11 @@
 import { useAppSettings } from '@/contexts/AppSettingsContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { useEventCache } from '@/contexts/EventCacheContext';
+import { getCacheKeysForEventDate, useEventCache } from '@/contexts/EventCacheContext';
 import { useFamily } from '@/contexts/FamilyContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { mapEventsToFamilyEvents } from '@/services/eventService';
+import { EventInvitation, getPendingInvitations, mapEventsToFamilyEvents, respondToEvent, RSVPStatus } from '@/services/eventService';
 import { createInvitation } from '@/services/familyService';
+import { getTravelTimes } from '@/services/leaveByService';
 import { FAMILY_EVENT_COLOR } from '@/utils/colorUtils';
 import { FamilyEvent, generateCurrentEvents, generateUpcomingEvents } from '@/utils/mockEvents';
 import { useFocusEffect } from '@react-navigation/native';
@@ -13,6 +14,7 @@ import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { ActionSheetIOS, ActivityIndicator, Alert, Modal, Platform, RefreshControl, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { CurrentEventsGrid } from './CurrentEventsGrid';
+import { EventInvitationsList } from './EventInvitationsList';
 import { UpcomingEventsList } from './UpcomingEventsList';
 
 export function FamilyView() {
@@ -39,6 +41,8 @@ export function FamilyView() {
 
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [respondingEventId, setRespondingEventId] = useState<string | null>(null);
+  const [travelTimes, setTravelTimes] = useState<Map<string, number>>(new Map());
 
   // Invitation state
   const [isInviteModalVisible, setIsInviteModalVisible] = useState(false);
@@ -69,6 +73,18 @@ export function FamilyView() {
   const isLoadingUpcoming = eventCache.isLoading('upcoming');
   const isLoading = isLoadingToday || isLoadingUpcoming;
 
+  // Travel times for the leave-by line, estimated where an event doesn't set one
+  useEffect(() => {
+    if (todayEvents.length === 0 && upcomingEvents.length === 0) return;
+    let cancelled = false;
+    getTravelTimes([...todayEvents, ...upcomingEvents]).then((times) => {
+      if (!cancelled) setTravelTimes(times);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [todayEvents, upcomingEvents]);
+
   // Debug logging
   useEffect(() => {
     console.log('[FamilyView] Events from cache:', {
@@ -113,13 +129,13 @@ export function FamilyView() {
     // Combine all events (regular + personal calendar) and sort by start time
     // Note: Personal calendar events are already included in today/upcoming caches
     let allEvents = [
-      ...(todayEvents.length > 0 ? mapEventsToFamilyEvents(todayEvents, familyMembers.map(m => m.contact), currentFamily.name, familyColor) : []),
-      ...(upcomingEvents.length > 0 ? mapEventsToFamilyEvents(upcomingEvents, familyMembers.map(m => m.contact), currentFamily.name, familyColor) : []),
+      ...(todayEvents.length > 0 ? mapEventsToFamilyEvents(todayEvents, familyMembers.map(m => m.contact), currentFamily.name, familyColor, travelTimes) : []),
+      ...(upcomingEvents.length > 0 ? mapEventsToFamilyEvents(upcomingEvents, familyMembers.map(m => m.contact), currentFamily.name, familyColor, travelTimes) : []),
     ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
 
-    // Filter out events that have already ended
+    // Filter out events that have already ended, and ones the person isn't going to
     const now = new Date();
-    allEvents = allEvents.filter(event => event.endTime > now);
+    allEvents = allEvents.filter(event => event.endTime > now && event.rsvpStatus !== 'declined');
 
     // Remove duplicates (events might appear in both today and upcoming)
     const seenIds = new Set<string>();
@@ -153,7 +169,34 @@ export function FamilyView() {
       currentEvents: Array.from(nextEventPerPerson.values()),
       processedUpcomingEvents: remainingEvents,
     };
-  }, [todayEvents, upcomingEvents, currentFamily, familyMembers, settings.eventsPerPerson, settings.familyCalendarColor]);
+  }, [todayEvents, upcomingEvents, travelTimes, currentFamily, familyMembers, settings.eventsPerPerson, settings.familyCalendarColor]);
+
+  // Events waiting on the signed-in user's answer
+  const invitations = useMemo(() => {
+    if (!user) return [];
+    const now = new Date();
+    return getPendingInvitations(
+      [...todayEvents, ...upcomingEvents].filter(event => new Date(event.end_time) > now),
+      user.id
+    );
+  }, [todayEvents, upcomingEvents, user]);
+
+  const handleRespond = async (invitation: EventInvitation, status: Exclude<RSVPStatus, 'pending'>) => {
+    const eventId = invitation.event.original_event_id || invitation.event.id;
+    setRespondingEventId(eventId);
+    const { error: respondError } = await respondToEvent(eventId, invitation.contactId, status);
+    if (respondError) {
+      console.error('Error responding to event:', respondError);
+      Alert.alert('Error', 'Failed to send your response. Please try again.');
+    } else {
+      eventCache.invalidateCache(getCacheKeysForEventDate(new Date(invitation.event.start_time)));
+      await Promise.all([
+        eventCache.refreshCache('today'),
+        eventCache.refreshCache('upcoming'),
+      ]);
+    }
+    setRespondingEventId(null);
+  };
 
   // Refresh events when screen comes into focus (e.g., after adding an event)
   useFocusEffect(
@@ -185,9 +228,9 @@ export function FamilyView() {
 
   const handleEventPress = (eventId: string, originalEventId?: string, occurrenceIso?: string) => {
     // Check if this is a personal calendar event (they can't be opened in detail view)
-    // Check eventId first (it has the "personal-" prefix), not originalEventId (which is just the iOS event ID)
+    // Check eventId first (it has the "personal-" prefix), not originalEventId (which is just the device event ID)
     if (eventId && eventId.startsWith('personal-')) {
-      // Personal calendar events are read-only from iOS, so we can't show details
+      // Personal calendar events are read-only from the device calendar, so we can't show details
       return;
     }
 
@@ -412,6 +455,13 @@ export function FamilyView() {
           </View>
         )}
 
+        <EventInvitationsList
+          invitations={invitations}
+          respondingEventId={respondingEventId}
+          onRespond={handleRespond}
+          onEventPress={handleEventPress}
+        />
+
         {currentEvents.length === 0 && processedUpcomingEvents.length === 0 ? (
           <View style={[styles.emptyContainer, { backgroundColor: emptyContainerBgColor }]}>
             <Text style={[styles.emptyTitle, { color: textColor }]}>No Events Yet</Text>
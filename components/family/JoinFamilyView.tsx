@@ -10,16 +10,24 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
-import { getNextAvailableColor } from '@/utils/colorUtils';
+import { useFamily } from '@/contexts/FamilyContext';
+import {
+  acceptInvitation,
+  getFamily,
+  getInvitationByToken,
+  joinFamilyWithLink,
+} from '@/services/familyService';
 
 export function JoinFamilyView() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
+  // Join links and QR codes open this screen with the code filled in
+  const { code } = useLocalSearchParams<{ code?: string }>();
   const { user, refreshUserContact } = useAuth();
-  const [inviteCode, setInviteCode] = useState('');
+  const { refreshFamilies, setCurrentFamily } = useFamily();
+  const [inviteCode, setInviteCode] = useState(code || '');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -42,102 +50,55 @@ export function JoinFamilyView() {
     setError(null);
 
     try {
-      // 1. Find the invitation by token
-      const { data: invitation, error: inviteError } = await supabase
-        .from('family_invitations')
-        .select('*, families(*)')
-        .eq('invitation_token', inviteCode.trim())
-        .eq('status', 'pending')
-        .gt('expires_at', new Date().toISOString())
-        .single();
-
-      if (inviteError || !invitation) {
-        setError('Invalid or expired invitation code. Please check and try again.');
-        return;
-      }
+      const token = inviteCode.trim();
+      const firstName = user.user_metadata?.first_name || 'User';
+      const lastName = user.user_metadata?.last_name || '';
 
-      // 2. Get existing colors in the family to assign a unique one
-      const { data: existingContacts } = await supabase
-        .from('contacts')
-        .select('color')
-        .eq('family_id', invitation.family_id);
+      // 1. The code is either an email invitation's token or a join link's
+      const { data: invitation } = await getInvitationByToken(token);
+      let familyId: string;
 
-      const usedColors = existingContacts?.map((c) => c.color) || [];
-      const newColor = getNextAvailableColor(usedColors);
-
-      // 3. Check if there's an existing contact to update or create new one
-      let contactId: string;
+      if (invitation) {
+        if (invitation.status !== 'pending') {
+          setError(invitation.status === 'expired'
+            ? 'This invitation has expired. Ask the family for a new one.'
+            : 'This invitation can no longer be used.');
+          return;
+        }
 
-      if (invitation.contact_id) {
-        // Update existing virtual contact
-        const { error: updateError } = await supabase
-          .from('contacts')
-          .update({
-            user_id: user.id,
-            is_virtual: false,
-            email: user.email,
-            invitation_accepted_at: new Date().toISOString(),
-            color: newColor,
-          })
-          .eq('id', invitation.contact_id);
+        // 2. Join the invitation's family, alongside any the user is already in
+        const { error: acceptError } = await acceptInvitation(
+          token,
+          invitation.first_name || firstName,
+          invitation.last_name || lastName
+        );
 
-        if (updateError) {
-          throw updateError;
+        if (acceptError) {
+          throw acceptError;
         }
-        contactId = invitation.contact_id;
+        familyId = invitation.family_id;
       } else {
-        // Create new contact
-        const firstName = invitation.first_name || user.user_metadata?.first_name || 'User';
-        const lastName = invitation.last_name || user.user_metadata?.last_name || '';
-
-        const { data: newContact, error: contactError } = await supabase
-          .from('contacts')
-          .insert({
-            family_id: invitation.family_id,
-            user_id: user.id,
-            first_name: firstName,
-            last_name: lastName,
-            email: user.email,
-            contact_type: 'family_member',
-            is_virtual: false,
-            color: newColor,
-            invitation_accepted_at: new Date().toISOString(),
-          })
-          .select()
-          .single();
+        // 2. A join link checks its own expiry and how often it's been used
+        const { data: joined, error: joinError } = await joinFamilyWithLink(token, firstName, lastName);
 
-        if (contactError) {
-          throw contactError;
+        if (joinError || !joined) {
+          // Codes that aren't even UUIDs fail the lookup with a syntax error
+          const message: string | undefined = joinError?.message;
+          setError(!message || message.includes('invalid input syntax')
+            ? 'Invalid invitation code. Please check and try again.'
+            : message);
+          return;
         }
-        contactId = newContact.id;
+        familyId = joined.familyId;
       }
 
-      // 4. Add as family member
-      const { error: memberError } = await supabase
-        .from('family_members')
-        .insert({
-          family_id: invitation.family_id,
-          contact_id: contactId,
-          role: invitation.role || 'member',
-          added_by: invitation.invited_by,
-        });
-
-      if (memberError) {
-        throw memberError;
-      }
-
-      // 5. Update invitation status
-      await supabase
-        .from('family_invitations')
-        .update({
-          status: 'accepted',
-          accepted_at: new Date().toISOString(),
-          accepted_by: user.id,
-        })
-        .eq('id', invitation.id);
-
-      // Refresh user contact data
+      // Refresh user contact data, and switch to the family just joined
       await refreshUserContact();
+      await refreshFamilies();
+      const { data: family } = await getFamily(familyId);
+      if (family) {
+        setCurrentFamily(family);
+      }
 
       // Navigate to main app
       router.replace('/(tabs)');
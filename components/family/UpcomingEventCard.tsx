@@ -1,5 +1,5 @@
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { FamilyEvent, formatTimeRange, getCountdownText } from '@/utils/mockEvents';
+import { FamilyEvent, formatTimeRange, getCountdownText, getLeaveByText } from '@/utils/mockEvents';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import React from 'react';
@@ -76,6 +76,12 @@ export function UpcomingEventCard({ event, onPress }: UpcomingEventCardProps) {
             </Text>
           </View>
         )}
+        {event.leaveBy && event.startTime > today && (
+          <View style={styles.locationRow}>
+            <Ionicons name="car-outline" size={12} color={mutedText} />
+            <Text style={[styles.location, { color: mutedText }]}>{getLeaveByText(event.leaveBy)}</Text>
+          </View>
+        )}
         <Text style={[styles.countdown, { color: accent }]}>{countdown}</Text>
       </View>
     </TouchableOpacity>
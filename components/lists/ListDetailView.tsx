@@ -0,0 +1,508 @@
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { FamilyList, ListItem } from '@/lib/supabase';
+import { listService } from '@/services/listService';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+interface ListDetailViewProps {
+  list: FamilyList;
+  // Local (optimistic) changes; realtime brings everyone else's
+  onChange: (list: FamilyList) => void;
+  onReload: () => Promise<void>;
+  onDeleted: () => void;
+  onBack: () => void;
+}
+
+export function ListDetailView({ list, onChange, onReload, onDeleted, onBack }: ListDetailViewProps) {
+  const insets = useSafeAreaInsets();
+  const { familyMembers } = useFamily();
+  const [newItemTitle, setNewItemTitle] = useState('');
+  const [editingItem, setEditingItem] = useState<ListItem | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editQuantity, setEditQuantity] = useState(1);
+  const [editAssigneeId, setEditAssigneeId] = useState<string | null>(null);
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const surfaceColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const separatorColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  const items = list.items || [];
+  // Still to do in the list's order, then what's been checked off
+  const openItems = items.filter((item) => !item.is_checked);
+  const checkedItems = items.filter((item) => item.is_checked);
+
+  useEffect(() => {
+    if (!editingItem) return;
+    setEditTitle(editingItem.title);
+    setEditQuantity(editingItem.quantity);
+    setEditAssigneeId(editingItem.assignee_contact_id);
+  }, [editingItem]);
+
+  const getContactName = (contactId: string | null) =>
+    contactId ? familyMembers.find((m) => m.contact_id === contactId)?.contact.first_name : undefined;
+
+  const replaceItem = (updated: ListItem) =>
+    onChange({ ...list, items: items.map((item) => (item.id === updated.id ? updated : item)) });
+
+  // Apply locally straight away; on failure, reload to undo it
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      Alert.alert('Error', failure);
+      await onReload();
+    }
+  };
+
+  const handleAddItem = async () => {
+    const title = newItemTitle.trim();
+    if (!title) return;
+    setNewItemTitle('');
+    await run(async () => {
+      const item = await listService.addListItem(list, { title });
+      onChange({ ...list, items: [...items, item] });
+    }, 'Failed to add the item.');
+  };
+
+  const handleToggle = (item: ListItem) => {
+    const isChecked = !item.is_checked;
+    replaceItem({ ...item, is_checked: isChecked, checked_at: isChecked ? new Date().toISOString() : null });
+    run(() => listService.toggleListItem(item.id, isChecked), 'Failed to update the item.');
+  };
+
+  const handleSaveItem = async () => {
+    if (!editingItem || !editTitle.trim()) return;
+    const updates = { title: editTitle.trim(), quantity: editQuantity, assignee_contact_id: editAssigneeId };
+    replaceItem({ ...editingItem, ...updates });
+    setEditingItem(null);
+    await run(() => listService.updateListItem(editingItem.id, updates), 'Failed to save the item.');
+  };
+
+  const handleDeleteItem = async () => {
+    if (!editingItem) return;
+    const itemId = editingItem.id;
+    onChange({ ...list, items: items.filter((item) => item.id !== itemId) });
+    setEditingItem(null);
+    await run(() => listService.deleteListItem(itemId), 'Failed to delete the item.');
+  };
+
+  const handleMoveItem = async (direction: -1 | 1) => {
+    if (!editingItem) return;
+    const index = openItems.findIndex((item) => item.id === editingItem.id);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= openItems.length) return;
+
+    const reordered = [...openItems];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const ordered = [...reordered, ...checkedItems].map((item, order) => ({ ...item, sort_order: order }));
+    onChange({ ...list, items: ordered });
+    await run(() => listService.reorderListItems(ordered.map((item) => item.id)), 'Failed to move the item.');
+  };
+
+  const handleClearChecked = () => {
+    Alert.alert('Clear Checked Items', `Remove ${checkedItems.length} checked items from "${list.title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => {
+          onChange({ ...list, items: openItems });
+          run(() => listService.clearCheckedItems(list.id), 'Failed to clear the list.');
+        },
+      },
+    ]);
+  };
+
+  const handleDeleteList = () => {
+    Alert.alert('Delete List', `Delete "${list.title}" and everything on it for the whole family?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await listService.deleteList(list.id);
+            onDeleted();
+          } catch (error) {
+            console.error('Error deleting list:', error);
+            Alert.alert('Error', 'Failed to delete the list.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderItem = (item: ListItem, index: number) => {
+    const assignee = getContactName(item.assignee_contact_id);
+    return (
+      <React.Fragment key={item.id}>
+        {index > 0 && <View style={[styles.separator, { backgroundColor: separatorColor }]} />}
+        <View style={styles.itemRow}>
+          <TouchableOpacity onPress={() => handleToggle(item)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons
+              name={item.is_checked ? 'checkmark-circle' : 'ellipse-outline'}
+              size={24}
+              color={item.is_checked ? '#34C759' : subTextColor}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.itemInfo} onPress={() => setEditingItem(item)}>
+            <Text
+              style={[
+                styles.itemTitle,
+                { color: item.is_checked ? subTextColor : textColor },
+                item.is_checked && styles.itemTitleChecked,
+              ]}
+              numberOfLines={2}>
+              {item.title}
+            </Text>
+            {assignee && <Text style={[styles.itemAssignee, { color: subTextColor }]}>{assignee}</Text>}
+          </TouchableOpacity>
+          {item.quantity > 1 && (
+            <View style={[styles.quantityBadge, { backgroundColor: surfaceColor }]}>
+              <Text style={[styles.quantityText, { color: textColor }]}>×{item.quantity}</Text>
+            </View>
+          )}
+        </View>
+      </React.Fragment>
+    );
+  };
+
+  const editingIndex = editingItem ? openItems.findIndex((item) => item.id === editingItem.id) : -1;
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { paddingTop: insets.top, backgroundColor }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: cardColor }]}>
+        <TouchableOpacity
+          style={[styles.headerButton, { backgroundColor: surfaceColor }]}
+          onPress={onBack}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Ionicons name="chevron-back" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: textColor }]} numberOfLines={1}>
+          {list.title}
+        </Text>
+        <TouchableOpacity
+          style={[styles.headerButton, { backgroundColor: surfaceColor }]}
+          onPress={handleDeleteList}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}>
+        <View style={[styles.card, { backgroundColor: cardColor }]}>
+          {openItems.length === 0 ? (
+            <Text style={[styles.emptyText, { color: subTextColor }]}>
+              {items.length === 0 ? 'Nothing on this list yet.' : 'Everything is checked off.'}
+            </Text>
+          ) : (
+            openItems.map(renderItem)
+          )}
+        </View>
+
+        {checkedItems.length > 0 && (
+          <>
+            <View style={styles.sectionRow}>
+              <Text style={[styles.sectionHeader, { color: subTextColor }]}>Checked</Text>
+              <TouchableOpacity onPress={handleClearChecked}>
+                <Text style={[styles.sectionAction, { color: accentColor }]}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={[styles.card, { backgroundColor: cardColor }]}>{checkedItems.map(renderItem)}</View>
+          </>
+        )}
+      </ScrollView>
+
+      {/* Add item */}
+      <View style={[styles.addBar, { backgroundColor: cardColor, paddingBottom: insets.bottom + 8 }]}>
+        <TextInput
+          style={[styles.addInput, { backgroundColor: surfaceColor, color: textColor }]}
+          value={newItemTitle}
+          onChangeText={setNewItemTitle}
+          placeholder="Add an item"
+          placeholderTextColor={subTextColor}
+          onSubmitEditing={handleAddItem}
+          returnKeyType="done"
+          blurOnSubmit={false}
+        />
+        <TouchableOpacity onPress={handleAddItem} disabled={!newItemTitle.trim()}>
+          <Ionicons name="add-circle" size={32} color={newItemTitle.trim() ? accentColor : subTextColor} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Edit item */}
+      <Modal visible={!!editingItem} transparent animationType="slide" onRequestClose={() => setEditingItem(null)}>
+        <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={() => setEditingItem(null)}>
+          <TouchableOpacity activeOpacity={1} style={[styles.sheet, { backgroundColor: cardColor }]}>
+            <TextInput
+              style={[styles.addInput, { backgroundColor: surfaceColor, color: textColor }]}
+              value={editTitle}
+              onChangeText={setEditTitle}
+              placeholder="Item"
+              placeholderTextColor={subTextColor}
+            />
+
+            <View style={styles.sheetRow}>
+              <Text style={[styles.sheetLabel, { color: textColor }]}>Quantity</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  onPress={() => setEditQuantity(Math.max(1, editQuantity - 1))}
+                  disabled={editQuantity <= 1}>
+                  <Ionicons name="remove-circle-outline" size={28} color={editQuantity > 1 ? accentColor : subTextColor} />
+                </TouchableOpacity>
+                <Text style={[styles.stepperValue, { color: textColor }]}>{editQuantity}</Text>
+                <TouchableOpacity onPress={() => setEditQuantity(editQuantity + 1)}>
+                  <Ionicons name="add-circle-outline" size={28} color={accentColor} />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <Text style={[styles.sheetLabel, { color: textColor }]}>Assigned to</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              <TouchableOpacity
+                style={[styles.chip, { backgroundColor: !editAssigneeId ? accentColor : surfaceColor }]}
+                onPress={() => setEditAssigneeId(null)}>
+                <Text style={[styles.chipText, { color: !editAssigneeId ? '#FFFFFF' : textColor }]}>Anyone</Text>
+              </TouchableOpacity>
+              {familyMembers.map((member) => {
+                const isSelected = editAssigneeId === member.contact_id;
+                return (
+                  <TouchableOpacity
+                    key={member.contact_id}
+                    style={[styles.chip, { backgroundColor: isSelected ? accentColor : surfaceColor }]}
+                    onPress={() => setEditAssigneeId(member.contact_id)}>
+                    <Text style={[styles.chipText, { color: isSelected ? '#FFFFFF' : textColor }]}>
+                      {member.contact.first_name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            {editingIndex !== -1 && openItems.length > 1 && (
+              <View style={styles.sheetRow}>
+                <Text style={[styles.sheetLabel, { color: textColor }]}>Order</Text>
+                <View style={styles.stepper}>
+                  <TouchableOpacity onPress={() => handleMoveItem(-1)} disabled={editingIndex === 0}>
+                    <Ionicons name="arrow-up-circle-outline" size={28} color={editingIndex > 0 ? accentColor : subTextColor} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleMoveItem(1)}
+                    disabled={editingIndex === openItems.length - 1}>
+                    <Ionicons
+                      name="arrow-down-circle-outline"
+                      size={28}
+                      color={editingIndex < openItems.length - 1 ? accentColor : subTextColor}
+                    />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.saveButton, { backgroundColor: editTitle.trim() ? accentColor : surfaceColor }]}
+              onPress={handleSaveItem}
+              disabled={!editTitle.trim()}>
+              <Text style={[styles.saveButtonText, !editTitle.trim() && { color: subTextColor }]}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.deleteButton} onPress={handleDeleteItem}>
+              <Text style={styles.deleteButtonText}>Delete Item</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+    gap: 12,
+  },
+  headerButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  card: {
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  separator: {
+    height: 1,
+  },
+  emptyText: {
+    fontSize: 15,
+    paddingVertical: 16,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 17,
+  },
+  itemTitleChecked: {
+    textDecorationLine: 'line-through',
+  },
+  itemAssignee: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  quantityBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  quantityText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 4,
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '400',
+    textTransform: 'uppercase',
+  },
+  sectionAction: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  addBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    gap: 8,
+  },
+  addInput: {
+    flex: 1,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  sheetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sheetLabel: {
+    fontSize: 17,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperValue: {
+    fontSize: 17,
+    fontWeight: '600',
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  saveButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  deleteButtonText: {
+    color: '#FF3B30',
+    fontSize: 17,
+  },
+});
@@ -0,0 +1,410 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { FamilyList, ListType, supabase } from '@/lib/supabase';
+import { listService } from '@/services/listService';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ListDetailView } from './ListDetailView';
+
+export const LIST_TYPES: { type: ListType; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { type: 'shopping', label: 'Shopping', icon: 'cart-outline' },
+  { type: 'packing', label: 'Packing', icon: 'briefcase-outline' },
+  { type: 'todo', label: 'To-Do', icon: 'checkbox-outline' },
+];
+
+export function getListTypeIcon(type: ListType): keyof typeof Ionicons.glyphMap {
+  return LIST_TYPES.find((t) => t.type === type)?.icon ?? 'list-outline';
+}
+
+export function ListsView() {
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const { currentFamily } = useFamily();
+
+  const [lists, setLists] = useState<FamilyList[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [isCreateVisible, setIsCreateVisible] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [newType, setNewType] = useState<ListType>('shopping');
+  const [isCreating, setIsCreating] = useState(false);
+  const reloadTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const surfaceColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  const loadLists = useCallback(async () => {
+    if (!currentFamily) return;
+    try {
+      setLists(await listService.getLists(currentFamily.id));
+    } catch (error) {
+      console.error('Error loading lists:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentFamily]);
+
+  useEffect(() => {
+    loadLists();
+  }, [loadLists]);
+
+  // Ids of the lists and items on screen, for matching deletions (see below)
+  const loadedIdsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    loadedIdsRef.current = new Set(lists.flatMap((list) => [list.id, ...(list.items || []).map((item) => item.id)]));
+  }, [lists]);
+
+  // Keep every device in step: any change to the family's lists or items reloads them
+  useEffect(() => {
+    if (!currentFamily) return;
+
+    const scheduleReload = () => {
+      // Bulk changes (clearing checked items, reordering) arrive as a burst
+      if (reloadTimeoutRef.current) clearTimeout(reloadTimeoutRef.current);
+      reloadTimeoutRef.current = setTimeout(loadLists, 100);
+    };
+
+    // Realtime doesn't deliver deletions to filtered subscriptions, and a deleted row
+    // only comes with its id, so deletions are heard unfiltered and matched here
+    const handleDelete = (payload: { old: { id?: string } }) => {
+      if (payload.old.id && loadedIdsRef.current.has(payload.old.id)) {
+        scheduleReload();
+      }
+    };
+
+    const channel = supabase
+      .channel(`lists:${currentFamily.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'family_lists',
+          filter: `family_id=eq.${currentFamily.id}`,
+        },
+        scheduleReload
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'list_items',
+          filter: `family_id=eq.${currentFamily.id}`,
+        },
+        scheduleReload
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'family_lists' }, handleDelete)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'list_items' }, handleDelete)
+      .subscribe();
+
+    return () => {
+      if (reloadTimeoutRef.current) clearTimeout(reloadTimeoutRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [currentFamily, loadLists]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadLists();
+    setIsRefreshing(false);
+  };
+
+  const handleCreateList = async () => {
+    if (!currentFamily || !newTitle.trim()) return;
+    setIsCreating(true);
+    try {
+      const list = await listService.createList({
+        family_id: currentFamily.id,
+        title: newTitle.trim(),
+        list_type: newType,
+        sort_order: lists.length,
+        created_by: user?.id ?? null,
+      });
+      setLists((prev) => [...prev, { ...list, items: [] }]);
+      setIsCreateVisible(false);
+      setNewTitle('');
+      setSelectedListId(list.id);
+    } catch (error) {
+      console.error('Error creating list:', error);
+      Alert.alert('Error', 'Failed to create the list.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const selectedList = lists.find((list) => list.id === selectedListId);
+  if (selectedList) {
+    return (
+      <ListDetailView
+        list={selectedList}
+        onChange={(updated) => setLists((prev) => prev.map((l) => (l.id === updated.id ? updated : l)))}
+        onReload={loadLists}
+        onDeleted={() => {
+          setSelectedListId(null);
+          setLists((prev) => prev.filter((l) => l.id !== selectedList.id));
+        }}
+        onBack={() => setSelectedListId(null)}
+      />
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: cardColor }]}>
+        <Text style={[styles.headerTitle, { color: textColor }]}>Lists</Text>
+        <TouchableOpacity
+          style={[styles.headerButton, { backgroundColor: surfaceColor }]}
+          onPress={() => setIsCreateVisible(true)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Ionicons name="add" size={24} color={accentColor} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+        showsVerticalScrollIndicator={false}>
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color={accentColor} />
+        ) : lists.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="list-outline" size={48} color={subTextColor} />
+            <Text style={[styles.emptyTitle, { color: textColor }]}>No lists yet</Text>
+            <Text style={[styles.emptyText, { color: subTextColor }]}>
+              Shopping, packing and to-do lists are shared with the whole family.
+            </Text>
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: accentColor }]}
+              onPress={() => setIsCreateVisible(true)}>
+              <Text style={styles.primaryButtonText}>New List</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          lists.map((list) => {
+            const items = list.items || [];
+            const remaining = items.filter((item) => !item.is_checked).length;
+            return (
+              <TouchableOpacity
+                key={list.id}
+                style={[styles.listCard, { backgroundColor: cardColor }]}
+                onPress={() => setSelectedListId(list.id)}
+                activeOpacity={0.7}>
+                <View style={[styles.listIcon, { backgroundColor: surfaceColor }]}>
+                  <Ionicons name={getListTypeIcon(list.list_type)} size={22} color={accentColor} />
+                </View>
+                <View style={styles.listInfo}>
+                  <Text style={[styles.listTitle, { color: textColor }]} numberOfLines={1}>
+                    {list.title}
+                  </Text>
+                  <Text style={[styles.listSubtitle, { color: subTextColor }]}>
+                    {items.length === 0
+                      ? 'Empty'
+                      : remaining === 0
+                        ? 'All done'
+                        : `${remaining} of ${items.length} left`}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={subTextColor} />
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+
+      {/* New list */}
+      <Modal
+        visible={isCreateVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsCreateVisible(false)}>
+        <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={() => setIsCreateVisible(false)}>
+          <TouchableOpacity activeOpacity={1} style={[styles.sheet, { backgroundColor: cardColor }]}>
+            <Text style={[styles.sheetTitle, { color: textColor }]}>New List</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: surfaceColor, color: textColor }]}
+              value={newTitle}
+              onChangeText={setNewTitle}
+              placeholder="List name"
+              placeholderTextColor={subTextColor}
+              autoFocus
+              onSubmitEditing={handleCreateList}
+              returnKeyType="done"
+            />
+            <View style={styles.typeRow}>
+              {LIST_TYPES.map(({ type, label, icon }) => {
+                const isSelected = newType === type;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.typeChip, { backgroundColor: isSelected ? accentColor : surfaceColor }]}
+                    onPress={() => setNewType(type)}>
+                    <Ionicons name={icon} size={16} color={isSelected ? '#FFFFFF' : textColor} />
+                    <Text style={[styles.typeChipText, { color: isSelected ? '#FFFFFF' : textColor }]}>{label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: newTitle.trim() ? accentColor : surfaceColor }]}
+              onPress={handleCreateList}
+              disabled={!newTitle.trim() || isCreating}>
+              {isCreating ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={[styles.primaryButtonText, !newTitle.trim() && { color: subTextColor }]}>Create</Text>
+              )}
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  headerButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 48,
+    paddingHorizontal: 24,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  listCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+  },
+  listIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  listSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  sheetTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  input: {
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  typeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    gap: 6,
+  },
+  typeChipText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignSelf: 'stretch',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+});
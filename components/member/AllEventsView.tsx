@@ -117,9 +117,9 @@ export function AllEventsView({ memberName }: AllEventsViewProps) {
 
   const handleEventPress = (eventId: string, originalEventId?: string, occurrenceIso?: string) => {
     // Check if this is a personal calendar event (they can't be opened in detail view)
-    // Check eventId first (it has the "personal-" prefix), not originalEventId (which is just the iOS event ID)
+    // Check eventId first (it has the "personal-" prefix), not originalEventId (which is just the device event ID)
     if (eventId && eventId.startsWith('personal-')) {
-      // Personal calendar events are read-only from iOS, so we can't show details
+      // Personal calendar events are read-only from the device calendar, so we can't show details
       return;
     }
 
@@ -0,0 +1,170 @@
+import { Contact } from '@/lib/supabase';
+import { ArrivalEvent, getArrivalHistory } from '@/services/arrivalAlertService';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, RefreshControl, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+interface ArrivalsViewProps {
+  contact?: Contact;
+}
+
+const formatDay = (date: Date) => {
+  const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long' });
+};
+
+export function ArrivalsView({ contact }: ArrivalsViewProps) {
+  const insets = useSafeAreaInsets();
+  const [arrivals, setArrivals] = useState<ArrivalEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadArrivals = useCallback(async () => {
+    if (!contact) return;
+    const { data, error } = await getArrivalHistory(contact.id);
+    if (error) {
+      console.error('Error loading arrivals:', error);
+    }
+    setArrivals(data || []);
+    setIsLoading(false);
+  }, [contact]);
+
+  useEffect(() => {
+    loadArrivals();
+  }, [loadArrivals]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadArrivals();
+    setIsRefreshing(false);
+  };
+
+  // Newest first, grouped by day
+  const days: { label: string; arrivals: ArrivalEvent[] }[] = [];
+  for (const arrival of arrivals) {
+    const label = formatDay(new Date(arrival.occurred_at));
+    const day = days[days.length - 1];
+    if (day?.label === label) day.arrivals.push(arrival);
+    else days.push({ label, arrivals: [arrival] });
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 20 }]}
+      showsVerticalScrollIndicator={false}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}>
+      {contact && !contact.arrival_alerts_enabled && (
+        <Text style={styles.hintText}>
+          Arrival alerts are off for {contact.first_name}. Turn on Share arrivals in their profile.
+        </Text>
+      )}
+      {isLoading && contact ? (
+        <ActivityIndicator style={styles.loading} color="#007AFF" />
+      ) : days.length === 0 ? (
+        <Text style={styles.emptyStateText}>No arrivals yet.</Text>
+      ) : (
+        days.map((day) => (
+          <View key={day.label} style={styles.daySection}>
+            <Text style={styles.sectionTitle}>{day.label}</Text>
+            <View style={styles.card}>
+              {day.arrivals.map((arrival, index) => (
+                <View key={arrival.id} style={[styles.row, index > 0 && styles.rowSeparator]}>
+                  <Ionicons
+                    name={arrival.kind === 'arrived' ? 'enter-outline' : 'exit-outline'}
+                    size={20}
+                    color={arrival.kind === 'arrived' ? '#34C759' : '#FF9500'}
+                  />
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowTitle} numberOfLines={1}>
+                      {arrival.kind === 'arrived' ? 'Arrived at' : 'Left'} {arrival.location_name || arrival.event_title}
+                    </Text>
+                    {arrival.location_name && (
+                      <Text style={styles.rowSubtitle} numberOfLines={1}>
+                        {arrival.event_title}
+                      </Text>
+                    )}
+                  </View>
+                  <Text style={styles.rowTime}>
+                    {new Date(arrival.occurred_at).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F7',
+  },
+  content: {
+    padding: 16,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  daySection: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  rowSeparator: {
+    borderTopWidth: 1,
+    borderTopColor: '#F5F5F7',
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1D1D1F',
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  rowTime: {
+    fontSize: 15,
+    color: '#8E8E93',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  emptyStateText: {
+    fontSize: 15,
+    fontWeight: '400',
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,269 @@
+import { Contact } from '@/lib/supabase';
+import {
+  addTabletChild,
+  getTabletChildren,
+  removeChildSignIn,
+  removeTabletChild,
+  setChildPin,
+} from '@/services/childAccountService';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface ChildSignInModalProps {
+  visible: boolean;
+  familyId: string;
+  contact: Contact;
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+}
+
+// Owners and admins give a child a PIN to sign in with on a shared tablet,
+// change it, or take the sign-in away again
+export function ChildSignInModal({ visible, familyId, contact, onClose, onChanged }: ChildSignInModalProps) {
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [showOnDevice, setShowOnDevice] = useState(true);
+  const [wasOnDevice, setWasOnDevice] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A child who can sign in is no longer a virtual contact
+  const hasSignIn = !contact.is_virtual;
+
+  useEffect(() => {
+    if (!visible) return;
+    setPin('');
+    setConfirmPin('');
+    getTabletChildren().then((children) => {
+      const onDevice = children.some((c) => c.contactId === contact.id);
+      setWasOnDevice(onDevice);
+      setShowOnDevice(hasSignIn ? onDevice : true);
+    });
+  }, [visible, contact.id, hasSignIn]);
+
+  const handleSave = async () => {
+    // Someone who already signs in can keep their PIN and only change this device
+    if (pin || !hasSignIn) {
+      if (!/^\d{4,6}$/.test(pin)) {
+        Alert.alert('Invalid PIN', 'The PIN must be 4 to 6 digits.');
+        return;
+      }
+      if (pin !== confirmPin) {
+        Alert.alert('PINs Don\'t Match', 'Please type the same PIN twice.');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      if (pin) {
+        const { error } = await setChildPin(familyId, contact.id, pin);
+        if (error) throw new Error(error);
+      }
+
+      if (showOnDevice) {
+        await addTabletChild(contact);
+      } else if (wasOnDevice) {
+        await removeTabletChild(contact.id);
+      }
+
+      await onChanged();
+      onClose();
+    } catch (err: any) {
+      console.error('Error setting up child sign-in:', err);
+      Alert.alert('Error', err.message || 'Failed to set up sign-in.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    Alert.alert(
+      'Remove Sign-In',
+      `${contact.first_name} will no longer be able to sign in. Their events and routines stay.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setIsSaving(true);
+            const { error } = await removeChildSignIn(familyId, contact.id);
+            setIsSaving(false);
+            if (error) {
+              Alert.alert('Error', error);
+              return;
+            }
+            await onChanged();
+            onClose();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>{hasSignIn ? 'Child Sign-In' : 'Set Up a PIN'}</Text>
+          <Text style={styles.modalSubtitle}>
+            {hasSignIn
+              ? `Change ${contact.first_name}'s PIN, or leave it blank to keep the current one.`
+              : `${contact.first_name} will sign in with this PIN and see only their own events and routines.`}
+          </Text>
+
+          <TextInput
+            style={styles.pinInput}
+            placeholder={hasSignIn ? 'New PIN' : 'PIN (4 to 6 digits)'}
+            placeholderTextColor="#8E8E93"
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={6}
+            value={pin}
+            onChangeText={setPin}
+            editable={!isSaving}
+          />
+          <TextInput
+            style={styles.pinInput}
+            placeholder="Type the PIN again"
+            placeholderTextColor="#8E8E93"
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={6}
+            value={confirmPin}
+            onChangeText={setConfirmPin}
+            editable={!isSaving}
+          />
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Show on this device&apos;s sign-in screen</Text>
+            <Switch
+              value={showOnDevice}
+              onValueChange={setShowOnDevice}
+              trackColor={{ false: '#E5E5E7', true: '#34C759' }}
+              thumbColor="#FFFFFF"
+              disabled={isSaving}
+            />
+          </View>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.cancelButton]}
+              onPress={onClose}
+              disabled={isSaving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.saveButton]}
+              onPress={handleSave}
+              disabled={isSaving}>
+              {isSaving ? (
+                <ActivityIndicator color="#FFF" size="small" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {hasSignIn && (
+            <TouchableOpacity style={styles.removeButton} onPress={handleRemove} disabled={isSaving}>
+              <Text style={styles.removeButtonText}>Remove Child Sign-In</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    width: '100%',
+    backgroundColor: '#FFF',
+    borderRadius: 16,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 12,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  modalSubtitle: {
+    fontSize: 15,
+    color: '#8E8E93',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  pinInput: {
+    backgroundColor: '#F5F5F7',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1D1D1F',
+    marginBottom: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+    marginBottom: 20,
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1D1D1F',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#F5F5F7',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF',
+  },
+  removeButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  removeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+});
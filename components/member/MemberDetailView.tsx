@@ -1,12 +1,16 @@
 import { SegmentedControl } from '@/components/ui/SegmentedControl';
+import { useAuth } from '@/contexts/AuthContext';
 import { useFamily } from '@/contexts/FamilyContext';
-import { createInvitation } from '@/services/familyService';
+import { FamilyRole } from '@/lib/supabase';
+import { createInvitation, updateMemberRole } from '@/services/familyService';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useMemo, useState } from 'react';
 import { ActivityIndicator, Alert, Modal, Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { AllEventsView } from './AllEventsView';
+import { ArrivalsView } from './ArrivalsView';
+import { ChildSignInModal } from './ChildSignInModal';
 import { FilofaxTab, FilofaxView } from './FilofaxTabs';
 import { ForMemberView } from './ForMemberView';
 import { ScheduleView } from './ScheduleView';
@@ -17,21 +21,34 @@ interface MemberDetailViewProps {
 
 const TAB_WIDTH = 48;
 
+type AssignableRole = Exclude<FamilyRole, 'owner'>;
+
+const ROLE_OPTIONS: { role: AssignableRole; label: string; description: string }[] = [
+  { role: 'admin', label: 'Admin', description: 'Can edit any event and manage members' },
+  { role: 'member', label: 'Member', description: 'Can edit events unless the organiser restricts them' },
+  { role: 'child', label: 'Child', description: 'Can view events, and only edit those open to everyone' },
+];
+
 const TAB_COLORS = {
   schedule: '#007AFF',
   'for-member': '#34C759',
   'all-events': '#FF9500',
+  arrivals: '#AF52DE',
 };
 
 export function MemberDetailView({ memberName }: MemberDetailViewProps) {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const params = useLocalSearchParams();
-  const { contacts, familyMembers, currentFamily, userRole } = useFamily();
+  const { contacts, familyMembers, currentFamily, userRole, refreshMembers, refreshContacts } = useFamily();
+  const { user } = useAuth();
   const [activeIndex, setActiveIndex] = useState(0);
+  const [isRoleModalVisible, setIsRoleModalVisible] = useState(false);
+  const [isSavingRole, setIsSavingRole] = useState(false);
   const [isInviteModalVisible, setIsInviteModalVisible] = useState(false);
   const [inviteEmail, setInviteEmail] = useState('');
   const [isSendingInvite, setIsSendingInvite] = useState(false);
+  const [isChildSignInVisible, setIsChildSignInVisible] = useState(false);
 
   // Find the contact for this member
   const memberContact = useMemo(() => {
@@ -63,6 +80,48 @@ export function MemberDetailView({ memberName }: MemberDetailViewProps) {
     return isVirtual && hasPermission;
   }, [memberContact, userRole]);
 
+  const membership = memberContact
+    ? familyMembers.find(m => m.contact_id === memberContact.id)
+    : undefined;
+
+  // Owners and admins set everyone else's role; the owner's own role doesn't change
+  const canChangeRole =
+    (userRole === 'owner' || userRole === 'admin') &&
+    !!membership &&
+    membership.role !== 'owner' &&
+    memberContact?.user_id !== user?.id;
+
+  const handleChangeRole = async (role: AssignableRole) => {
+    if (!currentFamily || !memberContact || membership?.role === role) {
+      setIsRoleModalVisible(false);
+      return;
+    }
+
+    setIsSavingRole(true);
+    try {
+      const { error } = await updateMemberRole(currentFamily.id, memberContact.id, role);
+      if (error) throw error;
+      await refreshMembers();
+      setIsRoleModalVisible(false);
+    } catch (err: any) {
+      console.error('Error updating role:', err);
+      Alert.alert('Error', err.message || 'Failed to update role.');
+    } finally {
+      setIsSavingRole(false);
+    }
+  };
+
+  // Children get a PIN for a shared tablet instead of an email invite
+  const openChildSignIn = () => {
+    setIsInviteModalVisible(false);
+    setIsRoleModalVisible(false);
+    setIsChildSignInVisible(true);
+  };
+
+  const handleChildSignInChanged = async () => {
+    await Promise.all([refreshMembers(), refreshContacts()]);
+  };
+
   // Handle auto-invite from navigation params
   React.useEffect(() => {
     if (params.autoInvite === 'true' && canInvite) {
@@ -108,6 +167,7 @@ export function MemberDetailView({ memberName }: MemberDetailViewProps) {
     { id: 'schedule', label: 'Schedule', color: TAB_COLORS.schedule },
     { id: 'all-events', label: 'All Events', color: TAB_COLORS['all-events'] },
     { id: 'for-member', label: `For ${memberName}`, color: TAB_COLORS['for-member'] },
+    { id: 'arrivals', label: 'Arrivals', color: TAB_COLORS.arrivals },
   ], [memberName]);
 
   const isWeb = Platform.OS === 'web';
@@ -115,6 +175,7 @@ export function MemberDetailView({ memberName }: MemberDetailViewProps) {
     <ScheduleView key="schedule" memberName={memberName} />,
     <AllEventsView key="all-events" memberName={memberName} />,
     <ForMemberView key="for-member" memberName={memberName} />,
+    <ArrivalsView key="arrivals" contact={memberContact} />,
   ];
 
   return (
@@ -138,9 +199,67 @@ export function MemberDetailView({ memberName }: MemberDetailViewProps) {
               <Ionicons name="person-add-outline" size={24} color="#007AFF" />
             </TouchableOpacity>
           )}
+          {!canInvite && canChangeRole && (
+            <TouchableOpacity
+              onPress={() => setIsRoleModalVisible(true)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Ionicons name="shield-outline" size={24} color="#007AFF" />
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
+      {/* Role Modal */}
+      <Modal
+        visible={isRoleModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsRoleModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Role</Text>
+            <Text style={styles.modalSubtitle}>
+              Choose what {memberName} can change in the family calendar.
+            </Text>
+
+            {ROLE_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.role}
+                style={styles.roleRow}
+                onPress={() => handleChangeRole(option.role)}
+                disabled={isSavingRole}>
+                <View style={styles.roleText}>
+                  <Text style={styles.roleLabel}>{option.label}</Text>
+                  <Text style={styles.roleDescription}>{option.description}</Text>
+                </View>
+                {(membership?.role || 'member') === option.role && (
+                  <Ionicons name="checkmark" size={20} color="#007AFF" />
+                )}
+              </TouchableOpacity>
+            ))}
+
+            {membership?.role === 'child' && (
+              <TouchableOpacity style={styles.linkButton} onPress={openChildSignIn} disabled={isSavingRole}>
+                <Text style={styles.linkButtonText}>
+                  {memberContact?.is_virtual ? 'Set Up a PIN' : 'Child Sign-In'}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={[styles.modalButton, styles.cancelButton, styles.roleCancelButton]}
+              onPress={() => setIsRoleModalVisible(false)}
+              disabled={isSavingRole}>
+              {isSavingRole ? (
+                <ActivityIndicator color="#8E8E93" size="small" />
+              ) : (
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
       {/* Invite Modal */}
       <Modal
         visible={isInviteModalVisible}
@@ -184,10 +303,24 @@ export function MemberDetailView({ memberName }: MemberDetailViewProps) {
                 )}
               </TouchableOpacity>
             </View>
+
+            <TouchableOpacity style={styles.linkButton} onPress={openChildSignIn} disabled={isSendingInvite}>
+              <Text style={styles.linkButtonText}>Set up a PIN for a child instead</Text>
+            </TouchableOpacity>
           </View>
         </View>
       </Modal>
 
+      {currentFamily && memberContact && (
+        <ChildSignInModal
+          visible={isChildSignInVisible}
+          familyId={currentFamily.id}
+          contact={memberContact}
+          onClose={() => setIsChildSignInVisible(false)}
+          onChanged={handleChildSignInChanged}
+        />
+      )}
+
       {isWeb ? (
         /* Filofax content for Web */
         <FilofaxView
@@ -323,6 +456,39 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFF',
   },
+  roleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  roleText: {
+    flex: 1,
+  },
+  roleLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  roleDescription: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  linkButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  roleCancelButton: {
+    flex: 0,
+    marginTop: 12,
+  },
   mobileContainer: {
     flex: 1,
   },
@@ -122,10 +122,10 @@ export function ScheduleView({ memberName }: ScheduleViewProps) {
     const dayKey = `day:${selectedDate.getFullYear()}-${(selectedDate.getMonth() + 1).toString().padStart(2, '0')}-${selectedDate.getDate().toString().padStart(2, '0')}`;
     const rawEvents = eventCache.getEvents(dayKey);
 
-    // Filter events for this member
+    // Filter events for this member (ones they declined don't keep them busy)
     const filtered = rawEvents.filter(event => {
       return event.participants?.some(participant => {
-        if (!participant.contact) return false;
+        if (!participant.contact || participant.status === 'declined') return false;
         const displayName = formatDisplayName(
           participant.contact.first_name,
           participant.contact.last_name,
@@ -411,9 +411,9 @@ export function ScheduleView({ memberName }: ScheduleViewProps) {
 
   const handleEventPress = (eventId: string, originalEventId?: string, occurrenceIso?: string) => {
     // Check if this is a personal calendar event (they can't be opened in detail view)
-    // Check eventId first (it has the "personal-" prefix), not originalEventId (which is just the iOS event ID)
+    // Check eventId first (it has the "personal-" prefix), not originalEventId (which is just the device event ID)
     if (eventId && eventId.startsWith('personal-')) {
-      // Personal calendar events are read-only from iOS, so we can't show details
+      // Personal calendar events are read-only from the device calendar, so we can't show details
       return;
     }
 
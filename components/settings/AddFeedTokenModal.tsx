@@ -0,0 +1,391 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { Contact, EventCategory, FamilyMember } from '@/lib/supabase';
+import { getEventCategories } from '@/services/eventService';
+import { getFamilyMembers } from '@/services/familyService';
+import {
+  CalendarFeedToken,
+  createCalendarFeedToken,
+  FEED_PRIVACY_LABELS,
+  FeedPrivacy,
+} from '@/services/calendarFeedService';
+
+interface AddFeedTokenModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onFeedCreated: (feed: CalendarFeedToken) => void;
+}
+
+const PRIVACY_OPTIONS: FeedPrivacy[] = ['full', 'titles_only', 'busy'];
+
+type MemberWithContact = FamilyMember & { contact: Contact };
+
+export default function AddFeedTokenModal({
+  visible,
+  onClose,
+  onFeedCreated,
+}: AddFeedTokenModalProps) {
+  const insets = useSafeAreaInsets();
+  const { currentFamily, families, familyMembers, getFamilyColor } = useFamily();
+
+  const [name, setName] = useState('');
+  // The current family, plus any others merged into the same link
+  const [selectedFamilyIds, setSelectedFamilyIds] = useState<string[]>([]);
+  const [otherMembers, setOtherMembers] = useState<Record<string, MemberWithContact[]>>({});
+  const [categories, setCategories] = useState<EventCategory[]>([]);
+  const [selectedContactIds, setSelectedContactIds] = useState<Set<string>>(new Set());
+  const [selectedCategoryIds, setSelectedCategoryIds] = useState<Set<string>>(new Set());
+  const [privacy, setPrivacy] = useState<FeedPrivacy>('full');
+  const [saving, setSaving] = useState(false);
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const separatorColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  useEffect(() => {
+    if (visible && currentFamily) {
+      setSelectedFamilyIds([currentFamily.id]);
+    } else {
+      // Reset state when modal closes
+      setName('');
+      setSelectedFamilyIds([]);
+      setOtherMembers({});
+      setSelectedContactIds(new Set());
+      setSelectedCategoryIds(new Set());
+      setPrivacy('full');
+    }
+  }, [visible, currentFamily]);
+
+  // Members and categories of every family in the link
+  useEffect(() => {
+    if (!visible || !currentFamily || selectedFamilyIds.length === 0) return;
+    let cancelled = false;
+
+    Promise.all(selectedFamilyIds.map((id) => getEventCategories(id))).then((results) => {
+      if (!cancelled) setCategories(results.flatMap(({ data }) => data || []));
+    });
+
+    const others = selectedFamilyIds.filter((id) => id !== currentFamily.id);
+    Promise.all(others.map((id) => getFamilyMembers(id))).then((results) => {
+      if (cancelled) return;
+      const byFamily: Record<string, MemberWithContact[]> = {};
+      others.forEach((id, index) => {
+        byFamily[id] = results[index].data || [];
+      });
+      setOtherMembers(byFamily);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, currentFamily, selectedFamilyIds]);
+
+  const memberGroups = selectedFamilyIds.map((familyId) => ({
+    familyId,
+    name: families.find((f) => f.id === familyId)?.name || '',
+    members: familyId === currentFamily?.id ? familyMembers : otherMembers[familyId] || [],
+  }));
+
+  const toggleFamily = (familyId: string) => {
+    // The link always covers the family it's created in
+    if (familyId === currentFamily?.id) return;
+    setSelectedFamilyIds((prev) =>
+      prev.includes(familyId) ? prev.filter((id) => id !== familyId) : [...prev, familyId]
+    );
+  };
+
+  const toggle = (set: Set<string>, id: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    update(next);
+  };
+
+  const canSave = name.trim().length > 0 && !saving;
+
+  const handleDone = async () => {
+    if (!currentFamily || !canSave) return;
+
+    // Drop picks from families taken back out of the link
+    const shownContactIds = new Set(memberGroups.flatMap((group) => group.members.map((m) => m.contact_id)));
+    const shownCategoryIds = new Set(categories.map((category) => category.id));
+
+    setSaving(true);
+    const { data, error } = await createCalendarFeedToken(currentFamily.id, {
+      name,
+      familyIds: selectedFamilyIds,
+      contactIds: Array.from(selectedContactIds).filter((id) => shownContactIds.has(id)),
+      categoryIds: Array.from(selectedCategoryIds).filter((id) => shownCategoryIds.has(id)),
+      privacy,
+    });
+    setSaving(false);
+
+    if (error || !data) {
+      console.error('Error creating feed token:', error);
+      Alert.alert('Error', 'Failed to create the calendar link.');
+      return;
+    }
+    onFeedCreated(data);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: cardColor }]}>
+          <TouchableOpacity onPress={onClose} style={styles.cancelButton}>
+            <Text style={[styles.cancelText, { color: accentColor }]}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: textColor }]}>New Filtered Link</Text>
+          <TouchableOpacity onPress={handleDone} style={styles.doneButton} disabled={!canSave}>
+            {saving ? (
+              <ActivityIndicator size="small" color={accentColor} />
+            ) : (
+              <Text style={[styles.doneText, { color: canSave ? accentColor : subTextColor }]}>
+                Create
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}>
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>Name</Text>
+          <View style={[styles.card, { backgroundColor: cardColor }]}>
+            <TextInput
+              style={[styles.nameInput, { color: textColor }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Grandma - Emma's events"
+              placeholderTextColor={subTextColor}
+            />
+          </View>
+
+          {families.length > 1 && (
+            <>
+              <Text style={[styles.sectionHeader, { color: subTextColor }]}>Families</Text>
+              <Text style={[styles.sectionHint, { color: subTextColor }]}>
+                Merge other families&apos; events into the same calendar.
+              </Text>
+              <View style={styles.chipRow}>
+                {families.map((family) => {
+                  const selected = selectedFamilyIds.includes(family.id);
+                  const color = getFamilyColor(family.id);
+                  return (
+                    <TouchableOpacity
+                      key={family.id}
+                      style={[
+                        styles.chip,
+                        { borderColor: color, backgroundColor: selected ? color : cardColor },
+                      ]}
+                      onPress={() => toggleFamily(family.id)}
+                      disabled={family.id === currentFamily?.id}>
+                      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : textColor }]}>
+                        {family.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>Members</Text>
+          <Text style={[styles.sectionHint, { color: subTextColor }]}>
+            Only events involving the selected members. Select none to include everyone.
+          </Text>
+          {memberGroups.map((group) => (
+            <React.Fragment key={group.familyId}>
+              {memberGroups.length > 1 && (
+                <Text style={[styles.sectionHint, { color: textColor }]}>{group.name}</Text>
+              )}
+              <View style={styles.chipRow}>
+                {group.members.map((member) => {
+                  const selected = selectedContactIds.has(member.contact_id);
+                  const color = member.contact.color || accentColor;
+                  return (
+                    <TouchableOpacity
+                      key={member.contact_id}
+                      style={[
+                        styles.chip,
+                        { borderColor: color, backgroundColor: selected ? color : cardColor },
+                      ]}
+                      onPress={() => toggle(selectedContactIds, member.contact_id, setSelectedContactIds)}>
+                      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : textColor }]}>
+                        {member.contact.first_name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </React.Fragment>
+          ))}
+
+          {categories.length > 0 && (
+            <>
+              <Text style={[styles.sectionHeader, { color: subTextColor }]}>Categories</Text>
+              <Text style={[styles.sectionHint, { color: subTextColor }]}>
+                Select none to include every category.
+              </Text>
+              <View style={styles.chipRow}>
+                {categories.map((category) => {
+                  const selected = selectedCategoryIds.has(category.id);
+                  return (
+                    <TouchableOpacity
+                      key={category.id}
+                      style={[
+                        styles.chip,
+                        { borderColor: category.color, backgroundColor: selected ? category.color : cardColor },
+                      ]}
+                      onPress={() => toggle(selectedCategoryIds, category.id, setSelectedCategoryIds)}>
+                      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : textColor }]}>
+                        {category.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>Privacy</Text>
+          <View style={[styles.card, styles.optionCard, { backgroundColor: cardColor }]}>
+            {PRIVACY_OPTIONS.map((option, index) => (
+              <React.Fragment key={option}>
+                <TouchableOpacity style={styles.optionRow} onPress={() => setPrivacy(option)}>
+                  <Text style={[styles.optionText, { color: textColor }]}>
+                    {FEED_PRIVACY_LABELS[option]}
+                  </Text>
+                  {privacy === option && <Ionicons name="checkmark" size={20} color={accentColor} />}
+                </TouchableOpacity>
+                {index < PRIVACY_OPTIONS.length - 1 && (
+                  <View style={[styles.separator, { backgroundColor: separatorColor }]} />
+                )}
+              </React.Fragment>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  cancelText: {
+    fontSize: 17,
+    fontWeight: '400',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  doneButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  doneText: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '400',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  sectionHint: {
+    fontSize: 13,
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  optionCard: {
+    paddingVertical: 0,
+  },
+  nameInput: {
+    fontSize: 17,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1.5,
+  },
+  chipText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+  },
+  optionText: {
+    fontSize: 17,
+  },
+  separator: {
+    height: 1,
+  },
+});
@@ -7,7 +7,6 @@ import {
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
-  Platform,
   Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -19,7 +18,8 @@ import {
   getDeviceCalendars,
   requestCalendarPermissions,
   getCalendarPermissionStatus,
-  IOSCalendar,
+  DeviceCalendar,
+  isCalendarSupported,
 } from '@/services/calendarImportService';
 import {
   getPersonalCalendars,
@@ -33,7 +33,7 @@ interface AddPersonalCalendarModalProps {
 }
 
 interface GroupedCalendars {
-  [sourceName: string]: IOSCalendar[];
+  [sourceName: string]: DeviceCalendar[];
 }
 
 export default function AddPersonalCalendarModal({
@@ -45,7 +45,7 @@ export default function AddPersonalCalendarModal({
   const { user } = useAuth();
   const { currentFamily } = useFamily();
 
-  const [availableCalendars, setAvailableCalendars] = useState<IOSCalendar[]>([]);
+  const [availableCalendars, setAvailableCalendars] = useState<DeviceCalendar[]>([]);
   const [addedCalendarIds, setAddedCalendarIds] = useState<Set<string>>(new Set());
   const [selectedCalendarIds, setSelectedCalendarIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
@@ -69,7 +69,7 @@ export default function AddPersonalCalendarModal({
   }, [visible]);
 
   const loadCalendars = async () => {
-    if (Platform.OS !== 'ios') {
+    if (!isCalendarSupported()) {
       setLoading(false);
       return;
     }
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { addSubscribedCalendar } from '@/services/personalCalendarService';
+import { MEMBER_COLORS } from '@/utils/colorUtils';
+
+interface AddSubscribedCalendarModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onCalendarAdded: () => void;
+}
+
+export default function AddSubscribedCalendarModal({
+  visible,
+  onClose,
+  onCalendarAdded,
+}: AddSubscribedCalendarModalProps) {
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const { currentFamily } = useFamily();
+
+  const [url, setUrl] = useState('');
+  const [title, setTitle] = useState('');
+  const [color, setColor] = useState<string>(MEMBER_COLORS[5]);
+  const [saving, setSaving] = useState(false);
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const separatorColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  useEffect(() => {
+    if (!visible) {
+      // Reset state when modal closes
+      setUrl('');
+      setTitle('');
+      setColor(MEMBER_COLORS[5]);
+    }
+  }, [visible]);
+
+  const canSave = url.trim().length > 0 && !saving;
+
+  const handleSubscribe = async () => {
+    if (!user || !currentFamily || !canSave) return;
+
+    setSaving(true);
+    const { error } = await addSubscribedCalendar(user.id, currentFamily.id, { url, title, color });
+    setSaving(false);
+
+    if (error) {
+      Alert.alert('Could Not Subscribe', error.message || 'Failed to add the calendar.');
+      return;
+    }
+    onCalendarAdded();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: cardColor }]}>
+          <TouchableOpacity onPress={onClose} style={styles.cancelButton}>
+            <Text style={[styles.cancelText, { color: accentColor }]}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: textColor }]}>Subscribe</Text>
+          <TouchableOpacity onPress={handleSubscribe} style={styles.doneButton} disabled={!canSave}>
+            {saving ? (
+              <ActivityIndicator size="small" color={accentColor} />
+            ) : (
+              <Text style={[styles.doneText, { color: canSave ? accentColor : subTextColor }]}>
+                Add
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}>
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>Calendar Address</Text>
+          <View style={[styles.card, { backgroundColor: cardColor }]}>
+            <TextInput
+              style={[styles.input, { color: textColor }]}
+              value={url}
+              onChangeText={setUrl}
+              placeholder="webcal://example.com/calendar.ics"
+              placeholderTextColor={subTextColor}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          </View>
+          <Text style={[styles.sectionHint, { color: subTextColor }]}>
+            School, club and sports calendars usually offer an iCal or webcal link. Events are
+            refreshed every hour and are read-only.
+          </Text>
+
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>Name</Text>
+          <View style={[styles.card, { backgroundColor: cardColor }]}>
+            <TextInput
+              style={[styles.input, { color: textColor }]}
+              value={title}
+              onChangeText={setTitle}
+              placeholder="Use the calendar's own name"
+              placeholderTextColor={subTextColor}
+            />
+          </View>
+
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>Color</Text>
+          <View style={[styles.card, styles.colorRow, { backgroundColor: cardColor }]}>
+            {MEMBER_COLORS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.colorSwatch,
+                  { backgroundColor: option, borderColor: color === option ? textColor : separatorColor },
+                ]}
+                onPress={() => setColor(option)}>
+                {color === option && <Ionicons name="checkmark" size={16} color="#FFFFFF" />}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  cancelText: {
+    fontSize: 17,
+    fontWeight: '400',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  doneButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  doneText: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '400',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  sectionHint: {
+    fontSize: 13,
+    marginTop: -8,
+    marginBottom: 16,
+    paddingHorizontal: 4,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  input: {
+    fontSize: 17,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  colorSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
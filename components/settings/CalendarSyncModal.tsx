@@ -0,0 +1,488 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getDeviceCalendars } from '@/services/calendarImportService';
+import {
+  CalendarSyncLogEntry,
+  getCalendarSyncLog,
+  getSyncConflicts,
+  resolveSyncConflict,
+  SYNC_CONFLICT_POLICY_LABELS,
+  SyncConflict,
+  SyncConflictPolicy,
+  SyncFields,
+  syncPersonalCalendar,
+} from '@/services/calendarSyncService';
+import { PersonalCalendar, updatePersonalCalendar } from '@/services/personalCalendarService';
+
+interface CalendarSyncModalProps {
+  visible: boolean;
+  calendar: PersonalCalendar | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const POLICY_OPTIONS: SyncConflictPolicy[] = ['last_writer_wins', 'ask'];
+
+const LOG_ACTION_LABELS: Record<CalendarSyncLogEntry['action'], string> = {
+  created: 'Added',
+  updated: 'Updated',
+  deleted: 'Removed',
+  conflict: 'Conflict',
+  error: 'Failed',
+};
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function describeVersion(fields: SyncFields): string {
+  const when = fields.allDay
+    ? new Date(fields.startDate).toLocaleDateString([], { month: 'short', day: 'numeric' })
+    : formatDateTime(fields.startDate);
+  return [fields.title, when, fields.location].filter(Boolean).join(' · ');
+}
+
+export default function CalendarSyncModal({
+  visible,
+  calendar,
+  onClose,
+  onChanged,
+}: CalendarSyncModalProps) {
+  const insets = useSafeAreaInsets();
+  const { currentFamily, familyMembers } = useFamily();
+
+  const [enabled, setEnabled] = useState(false);
+  const [contactIds, setContactIds] = useState<Set<string>>(new Set());
+  const [policy, setPolicy] = useState<SyncConflictPolicy>('last_writer_wins');
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [log, setLog] = useState<CalendarSyncLogEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const separatorColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  const loadActivity = useCallback(async () => {
+    if (!calendar) return;
+    const [{ data: conflictData }, { data: logData }] = await Promise.all([
+      getSyncConflicts(calendar.id),
+      getCalendarSyncLog(calendar.id),
+    ]);
+    setConflicts(conflictData || []);
+    setLog(logData || []);
+  }, [calendar]);
+
+  useEffect(() => {
+    if (visible && calendar) {
+      setEnabled(calendar.sync_enabled);
+      setContactIds(new Set(calendar.sync_contact_ids || []));
+      setPolicy(calendar.sync_conflict_policy);
+      loadActivity();
+    }
+  }, [visible, calendar, loadActivity]);
+
+  if (!calendar) return null;
+
+  const save = async (updates: Parameters<typeof updatePersonalCalendar>[1]) => {
+    const { error } = await updatePersonalCalendar(calendar.id, updates);
+    if (error) {
+      Alert.alert('Error', 'Failed to save sync settings');
+      return false;
+    }
+    onChanged();
+    return true;
+  };
+
+  const handleToggleEnabled = async (value: boolean) => {
+    if (value) {
+      // Family events are written into the calendar, so it has to accept new events
+      const { data: deviceCalendars } = await getDeviceCalendars();
+      const deviceCalendar = deviceCalendars?.find((c) => c.id === calendar.calendar_id);
+      if (deviceCalendar && !deviceCalendar.allowsModifications) {
+        Alert.alert('Read-Only Calendar', 'Choose a calendar you can add events to, or create one in the Calendar app.');
+        return;
+      }
+    }
+    setEnabled(value);
+    if (!(await save({ sync_enabled: value }))) setEnabled(!value);
+  };
+
+  const handleToggleContact = async (contactId: string) => {
+    const next = new Set(contactIds);
+    if (next.has(contactId)) {
+      next.delete(contactId);
+    } else {
+      next.add(contactId);
+    }
+    setContactIds(next);
+    await save({ sync_contact_ids: next.size ? Array.from(next) : null });
+  };
+
+  const handleSelectPolicy = async (option: SyncConflictPolicy) => {
+    setPolicy(option);
+    await save({ sync_conflict_policy: option });
+  };
+
+  const handleSyncNow = async () => {
+    if (!currentFamily) return;
+    setSyncing(true);
+    const result = await syncPersonalCalendar(
+      { ...calendar, sync_enabled: enabled, sync_conflict_policy: policy },
+      currentFamily.id
+    );
+    setSyncing(false);
+    if (result.errors.length) {
+      Alert.alert('Sync Finished With Errors', result.errors.slice(0, 3).join('\n'));
+    }
+    onChanged();
+    loadActivity();
+  };
+
+  const handleResolve = async (conflict: SyncConflict, keep: 'app' | 'device') => {
+    if (!currentFamily) return;
+    setSyncing(true);
+    const { error } = await resolveSyncConflict(calendar, currentFamily.id, conflict.linkId, keep);
+    setSyncing(false);
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to resolve the conflict');
+    }
+    loadActivity();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: cardColor }]}>
+          <View style={styles.headerButton} />
+          <Text style={[styles.headerTitle, { color: textColor }]} numberOfLines={1}>
+            {calendar.calendar_title}
+          </Text>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Text style={[styles.doneText, { color: accentColor }]}>Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+          showsVerticalScrollIndicator={false}>
+          <View style={[styles.card, styles.row, { backgroundColor: cardColor }]}>
+            <View style={styles.rowText}>
+              <Text style={[styles.rowTitle, { color: textColor }]}>Sync Family Events</Text>
+              <Text style={[styles.rowSubtitle, { color: subTextColor }]}>
+                Family events are added to this calendar, and changes made there come back to
+                FamilyCal.
+              </Text>
+            </View>
+            <Switch
+              value={enabled}
+              onValueChange={handleToggleEnabled}
+              trackColor={{ false: separatorColor, true: '#34C759' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          {enabled && (
+            <>
+              <Text style={[styles.sectionHeader, { color: subTextColor }]}>Members</Text>
+              <Text style={[styles.sectionHint, { color: subTextColor }]}>
+                Only events involving the selected members. Select none to sync everyone&apos;s events.
+              </Text>
+              <View style={styles.chipRow}>
+                {familyMembers.map((member) => {
+                  const selected = contactIds.has(member.contact_id);
+                  const color = member.contact.color || accentColor;
+                  return (
+                    <TouchableOpacity
+                      key={member.contact_id}
+                      style={[styles.chip, { borderColor: color, backgroundColor: selected ? color : cardColor }]}
+                      onPress={() => handleToggleContact(member.contact_id)}>
+                      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : textColor }]}>
+                        {member.contact.first_name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <Text style={[styles.sectionHeader, { color: subTextColor }]}>When Both Change</Text>
+              <View style={[styles.card, styles.optionCard, { backgroundColor: cardColor }]}>
+                {POLICY_OPTIONS.map((option, index) => (
+                  <React.Fragment key={option}>
+                    <TouchableOpacity style={styles.optionRow} onPress={() => handleSelectPolicy(option)}>
+                      <Text style={[styles.rowTitle, { color: textColor }]}>
+                        {SYNC_CONFLICT_POLICY_LABELS[option]}
+                      </Text>
+                      {policy === option && <Ionicons name="checkmark" size={20} color={accentColor} />}
+                    </TouchableOpacity>
+                    {index < POLICY_OPTIONS.length - 1 && (
+                      <View style={[styles.separator, { backgroundColor: separatorColor }]} />
+                    )}
+                  </React.Fragment>
+                ))}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.syncButton, { backgroundColor: accentColor }]}
+                onPress={handleSyncNow}
+                disabled={syncing}>
+                {syncing ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.syncButtonText}>Sync Now</Text>
+                )}
+              </TouchableOpacity>
+              {calendar.last_synced_at && (
+                <Text style={[styles.sectionHint, styles.centered, { color: subTextColor }]}>
+                  Last synced {formatDateTime(calendar.last_synced_at)}
+                </Text>
+              )}
+            </>
+          )}
+
+          {conflicts.length > 0 && (
+            <>
+              <Text style={[styles.sectionHeader, { color: subTextColor }]}>Needs Your Decision</Text>
+              {conflicts.map((conflict) => (
+                <View key={conflict.linkId} style={[styles.card, { backgroundColor: cardColor }]}>
+                  <Text style={[styles.rowSubtitle, { color: subTextColor }]}>FamilyCal</Text>
+                  <Text style={[styles.rowTitle, { color: textColor }]}>{describeVersion(conflict.app)}</Text>
+                  <Text style={[styles.rowSubtitle, styles.versionLabel, { color: subTextColor }]}>
+                    {calendar.calendar_title}
+                  </Text>
+                  <Text style={[styles.rowTitle, { color: textColor }]}>{describeVersion(conflict.device)}</Text>
+                  <View style={styles.resolveRow}>
+                    <TouchableOpacity
+                      style={[styles.resolveButton, { borderColor: accentColor }]}
+                      onPress={() => handleResolve(conflict, 'app')}
+                      disabled={syncing}>
+                      <Text style={[styles.resolveText, { color: accentColor }]}>Keep FamilyCal</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.resolveButton, { borderColor: accentColor }]}
+                      onPress={() => handleResolve(conflict, 'device')}
+                      disabled={syncing}>
+                      <Text style={[styles.resolveText, { color: accentColor }]}>Keep Calendar</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </>
+          )}
+
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>Sync Log</Text>
+          <View style={[styles.card, styles.optionCard, { backgroundColor: cardColor }]}>
+            {log.length === 0 ? (
+              <Text style={[styles.emptyText, { color: subTextColor }]}>Nothing synced yet</Text>
+            ) : (
+              log.map((entry, index) => (
+                <React.Fragment key={entry.id}>
+                  <View style={styles.logRow}>
+                    <Ionicons
+                      name={
+                        entry.action === 'error' || entry.action === 'conflict'
+                          ? 'alert-circle-outline'
+                          : entry.direction === 'to_device'
+                            ? 'arrow-down-circle-outline'
+                            : 'arrow-up-circle-outline'
+                      }
+                      size={20}
+                      color={entry.action === 'error' ? '#FF3B30' : subTextColor}
+                    />
+                    <View style={styles.rowText}>
+                      <Text style={[styles.logTitle, { color: textColor }]} numberOfLines={1}>
+                        {LOG_ACTION_LABELS[entry.action]}
+                        {entry.event_title ? ` "${entry.event_title}"` : ''}
+                        {entry.direction === 'to_device' ? ' on this calendar' : ' in FamilyCal'}
+                      </Text>
+                      <Text style={[styles.rowSubtitle, { color: subTextColor }]} numberOfLines={2}>
+                        {formatDateTime(entry.created_at)}
+                        {entry.message ? ` · ${entry.message}` : ''}
+                      </Text>
+                    </View>
+                  </View>
+                  {index < log.length - 1 && (
+                    <View style={[styles.separator, { backgroundColor: separatorColor }]} />
+                  )}
+                </React.Fragment>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+  },
+  headerButton: {
+    minWidth: 50,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+    alignItems: 'flex-end',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  doneText: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '400',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  sectionHint: {
+    fontSize: 13,
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  centered: {
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  optionCard: {
+    paddingVertical: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 17,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  versionLabel: {
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1.5,
+  },
+  chipText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+  },
+  separator: {
+    height: 1,
+  },
+  syncButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  syncButtonText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  resolveRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  resolveButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1.5,
+  },
+  resolveText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  logTitle: {
+    fontSize: 15,
+  },
+  emptyText: {
+    fontSize: 15,
+    paddingVertical: 14,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { Contact } from '@/lib/supabase';
+import { getCalendarFeedUrl } from '@/services/calendarFeedService';
+import { DRIVER_LEG_LABELS, getDriverFeedToken, RotaLeg } from '@/services/driverRotaService';
+
+interface DriverAgendaModalProps {
+  visible: boolean;
+  driver: Contact | null;
+  legs: RotaLeg[]; // The driver's lifts this week
+  onClose: () => void;
+}
+
+export default function DriverAgendaModal({ visible, driver, legs, onClose }: DriverAgendaModalProps) {
+  const insets = useSafeAreaInsets();
+  const { currentFamily } = useFamily();
+  const [sharing, setSharing] = useState(false);
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const separatorColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  const handleShare = async () => {
+    if (!driver || !currentFamily) return;
+
+    setSharing(true);
+    const { data: feed, error } = await getDriverFeedToken(currentFamily.id, driver);
+    setSharing(false);
+
+    if (error || !feed) {
+      console.error('Error creating driver feed:', error);
+      Alert.alert('Error', 'Failed to create the link.');
+      return;
+    }
+
+    const webcal = getCalendarFeedUrl(feed.token).replace('https://', 'webcal://');
+    try {
+      await Share.share({
+        message: `${driver.first_name}, here are the lifts you're giving for the ${currentFamily.name} family: ${webcal}`,
+        url: webcal,
+      });
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: cardColor }]}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Text style={[styles.headerButtonText, { color: accentColor }]}>Close</Text>
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: textColor }]}>{driver?.first_name ?? 'Driver'}</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+          showsVerticalScrollIndicator={false}>
+          <Text style={[styles.sectionHeader, { color: subTextColor }]}>This Week</Text>
+          <View style={[styles.card, { backgroundColor: cardColor }]}>
+            {legs.length === 0 ? (
+              <Text style={[styles.emptyText, { color: subTextColor }]}>No lifts this week.</Text>
+            ) : (
+              legs.map((leg, index) => (
+                <React.Fragment key={leg.key}>
+                  {index > 0 && <View style={[styles.separator, { backgroundColor: separatorColor }]} />}
+                  <View style={styles.row}>
+                    <Text style={[styles.rowTitle, { color: textColor }]} numberOfLines={1}>
+                      {DRIVER_LEG_LABELS[leg.leg]}: {leg.event.title}
+                    </Text>
+                    <Text style={[styles.rowSubtitle, { color: subTextColor }]} numberOfLines={1}>
+                      {leg.time.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}
+                      {' · '}
+                      {leg.time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {leg.event.location ? ` · ${leg.event.location}` : ''}
+                    </Text>
+                  </View>
+                </React.Fragment>
+              ))
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.shareButton, { backgroundColor: accentColor }]}
+            onPress={handleShare}
+            disabled={sharing}>
+            {sharing ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.shareButtonText}>Share Agenda Link</Text>
+            )}
+          </TouchableOpacity>
+          <Text style={[styles.sectionHint, { color: subTextColor }]}>
+            A read-only calendar link with just {driver?.first_name ?? 'this driver'}&apos;s lifts and where to go,
+            kept up to date as the rota changes. Revoke it from Shared Calendars.
+          </Text>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+  },
+  headerButton: {
+    minWidth: 56,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  headerButtonText: {
+    fontSize: 17,
+    fontWeight: '400',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '400',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  sectionHint: {
+    fontSize: 13,
+    paddingHorizontal: 4,
+  },
+  card: {
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  row: {
+    paddingVertical: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 15,
+    paddingVertical: 16,
+  },
+  separator: {
+    height: 1,
+  },
+  shareButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  shareButtonText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { Contact } from '@/lib/supabase';
+
+interface DriverPickerModalProps {
+  visible: boolean;
+  title: string;
+  drivers: Contact[];
+  selectedId?: string | null;
+  // Pick several drivers, confirmed with confirmLabel, instead of a single one
+  multiSelect?: boolean;
+  confirmLabel?: string;
+  onSelect: (driverIds: string[]) => void;
+  onClose: () => void;
+}
+
+export default function DriverPickerModal({
+  visible,
+  title,
+  drivers,
+  selectedId,
+  multiSelect = false,
+  confirmLabel = 'Done',
+  onSelect,
+  onClose,
+}: DriverPickerModalProps) {
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const separatorColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  useEffect(() => {
+    // Offer everyone by default when sharing lifts out
+    if (visible && multiSelect) setChecked(new Set(drivers.map((d) => d.id)));
+  }, [visible, multiSelect, drivers]);
+
+  const handlePress = (driverId: string | null) => {
+    if (!multiSelect) {
+      onSelect(driverId ? [driverId] : []);
+      return;
+    }
+    if (!driverId) return;
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (next.has(driverId)) next.delete(driverId);
+      else next.add(driverId);
+      return next;
+    });
+  };
+
+  const isSelected = (driverId: string) => (multiSelect ? checked.has(driverId) : selectedId === driverId);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} style={[styles.sheet, { backgroundColor: cardColor }]}>
+          <Text style={[styles.title, { color: textColor }]}>{title}</Text>
+          <ScrollView style={styles.list}>
+            {drivers.map((driver, index) => (
+              <React.Fragment key={driver.id}>
+                {index > 0 && <View style={[styles.separator, { backgroundColor: separatorColor }]} />}
+                <TouchableOpacity style={styles.row} onPress={() => handlePress(driver.id)}>
+                  <View>
+                    <Text style={[styles.rowTitle, { color: textColor }]}>
+                      {driver.first_name} {driver.last_name || ''}
+                    </Text>
+                    {driver.contact_type === 'external_driver' && (
+                      <Text style={[styles.rowSubtitle, { color: subTextColor }]}>Driver</Text>
+                    )}
+                  </View>
+                  {isSelected(driver.id) && <Ionicons name="checkmark" size={20} color={accentColor} />}
+                </TouchableOpacity>
+              </React.Fragment>
+            ))}
+            {!multiSelect && (
+              <>
+                <View style={[styles.separator, { backgroundColor: separatorColor }]} />
+                <TouchableOpacity style={styles.row} onPress={() => handlePress(null)}>
+                  <Text style={[styles.rowTitle, { color: subTextColor }]}>Unassigned</Text>
+                  {!selectedId && <Ionicons name="checkmark" size={20} color={accentColor} />}
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+          {multiSelect && (
+            <TouchableOpacity
+              style={[styles.confirmButton, { backgroundColor: checked.size > 0 ? accentColor : separatorColor }]}
+              onPress={() => onSelect(drivers.filter((d) => checked.has(d.id)).map((d) => d.id))}
+              disabled={checked.size === 0}>
+              <Text style={[styles.confirmText, { color: checked.size > 0 ? '#FFFFFF' : subTextColor }]}>
+                {confirmLabel}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    maxHeight: '70%',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+  },
+  rowTitle: {
+    fontSize: 17,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  separator: {
+    height: 1,
+  },
+  confirmButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  confirmText: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+});
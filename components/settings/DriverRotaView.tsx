@@ -0,0 +1,612 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { getCacheKeysForEventDate, useEventCache } from '@/contexts/EventCacheContext';
+import { useFamily } from '@/contexts/FamilyContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { Contact } from '@/lib/supabase';
+import { getDriverOptions } from '@/services/contactService';
+import {
+  assignDrivers,
+  DRIVER_LEG_LABELS,
+  DriverLeg,
+  getDriverAgenda,
+  getRotaWeek,
+  getWeekStart,
+  planFairRotation,
+  RotaLeg,
+  setNeedsTransport,
+} from '@/services/driverRotaService';
+import { EventWithDetails } from '@/services/eventService';
+import { formatTimeRange } from '@/utils/mockEvents';
+import DriverAgendaModal from './DriverAgendaModal';
+import DriverPickerModal from './DriverPickerModal';
+
+const LEG_ICONS: Record<DriverLeg, keyof typeof Ionicons.glyphMap> = {
+  drop_off: 'arrow-forward-circle-outline',
+  collection: 'arrow-back-circle-outline',
+  both: 'swap-horizontal-outline',
+};
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'short' });
+
+const formatClock = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export function DriverRotaView() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { currentFamily, contacts } = useFamily();
+  const eventCache = useEventCache();
+
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [legs, setLegs] = useState<RotaLeg[]>([]);
+  const [otherEvents, setOtherEvents] = useState<EventWithDetails[]>([]);
+  const [drivers, setDrivers] = useState<Contact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [pickerLeg, setPickerLeg] = useState<RotaLeg | null>(null);
+  const [bulkPickerVisible, setBulkPickerVisible] = useState(false);
+  const [shareOutVisible, setShareOutVisible] = useState(false);
+  const [agendaDriver, setAgendaDriver] = useState<Contact | null>(null);
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+  const subTextColor = useThemeColor({ light: '#8E8E93', dark: '#9EA0A6' }, 'text');
+  const surfaceColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const separatorColor = useThemeColor({ light: '#F5F5F7', dark: '#2C2C2E' }, 'background');
+  const accentColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  const loadWeek = useCallback(async () => {
+    if (!currentFamily) return;
+    setLoading(true);
+    const { data, error } = await getRotaWeek(currentFamily.id, weekStart);
+    setLoading(false);
+    if (error || !data) {
+      console.error('Error loading driver rota:', error);
+      return;
+    }
+    setLegs(data.legs);
+    setOtherEvents(data.otherEvents);
+  }, [currentFamily, weekStart]);
+
+  useEffect(() => {
+    loadWeek();
+  }, [loadWeek]);
+
+  useEffect(() => {
+    if (!currentFamily) return;
+    getDriverOptions(currentFamily.id).then(({ data, error }) => {
+      if (error) console.error('Error loading drivers:', error);
+      setDrivers(data || []);
+    });
+  }, [currentFamily]);
+
+  const unassignedCount = legs.filter((leg) => !leg.driverId).length;
+
+  // Legs of the same occurrence together, grouped by day
+  const days = useMemo(() => {
+    const byDay = new Map<string, { date: Date; events: { event: EventWithDetails; legs: RotaLeg[] }[] }>();
+    for (const leg of legs) {
+      const start = new Date(leg.event.start_time);
+      const dayKey = start.toDateString();
+      if (!byDay.has(dayKey)) byDay.set(dayKey, { date: start, events: [] });
+      const day = byDay.get(dayKey)!;
+      const group = day.events.find((e) => e.event.id === leg.event.id);
+      if (group) group.legs.push(leg);
+      else day.events.push({ event: leg.event, legs: [leg] });
+    }
+    return Array.from(byDay.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+  }, [legs]);
+
+  const getContactName = (contactId: string | null) => {
+    if (!contactId) return null;
+    const contact = contacts.find((c) => c.id === contactId) || drivers.find((d) => d.id === contactId);
+    return contact?.first_name ?? 'Unknown';
+  };
+
+  const changeWeek = (weeks: number) => {
+    const next = new Date(weekStart);
+    next.setDate(next.getDate() + weeks * 7);
+    setWeekStart(next);
+    setSelecting(false);
+    setSelectedKeys(new Set());
+  };
+
+  const weekLabel = () => {
+    const end = new Date(weekStart);
+    end.setDate(end.getDate() + 6);
+    const format = (date: Date) => date.toLocaleDateString([], { day: 'numeric', month: 'short' });
+    return `${format(weekStart)} – ${format(end)}`;
+  };
+
+  const saveAssignments = async (assignments: { leg: RotaLeg; driverId: string | null }[]) => {
+    if (assignments.length === 0) return;
+    setSaving(true);
+    const { error } = await assignDrivers(assignments);
+    setSaving(false);
+    if (error) {
+      Alert.alert('Error', 'Some lifts could not be assigned. Please try again.');
+    }
+    eventCache.invalidateCache(
+      assignments.flatMap(({ leg }) => getCacheKeysForEventDate(new Date(leg.event.start_time)))
+    );
+    await loadWeek();
+  };
+
+  const handlePickDriver = async (driverIds: string[]) => {
+    const leg = pickerLeg;
+    setPickerLeg(null);
+    if (!leg) return;
+    await saveAssignments([{ leg, driverId: driverIds[0] ?? null }]);
+  };
+
+  const handleBulkAssign = async (driverIds: string[]) => {
+    setBulkPickerVisible(false);
+    const selected = legs.filter((leg) => selectedKeys.has(leg.key));
+    await saveAssignments(selected.map((leg) => ({ leg, driverId: driverIds[0] ?? null })));
+    setSelecting(false);
+    setSelectedKeys(new Set());
+  };
+
+  const handleShareOut = (driverIds: string[]) => {
+    setShareOutVisible(false);
+    const plan = planFairRotation(legs, driverIds);
+    if (plan.size === 0) {
+      Alert.alert('Nothing to Share Out', 'Every lift already has a driver, or nobody is free for the rest.');
+      return;
+    }
+
+    const assignments = legs
+      .filter((leg) => plan.has(leg.key))
+      .map((leg) => ({ leg, driverId: plan.get(leg.key)! }));
+    const counts = driverIds
+      .map((id) => ({ name: getContactName(id), count: assignments.filter((a) => a.driverId === id).length }))
+      .filter((entry) => entry.count > 0)
+      .map((entry) => `${entry.name}: ${entry.count}`)
+      .join('\n');
+
+    Alert.alert('Share Out Lifts', `Assign ${assignments.length} lifts?\n\n${counts}`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Assign', onPress: () => saveAssignments(assignments) },
+    ]);
+  };
+
+  const handleLegPress = (leg: RotaLeg) => {
+    if (!selecting) {
+      setPickerLeg(leg);
+      return;
+    }
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(leg.key)) next.delete(leg.key);
+      else next.add(leg.key);
+      return next;
+    });
+  };
+
+  const handleSetNeedsTransport = async (event: EventWithDetails, needed: boolean) => {
+    const apply = async () => {
+      setSaving(true);
+      const { error } = await setNeedsTransport(event, needed);
+      setSaving(false);
+      if (error) {
+        Alert.alert('Error', 'Failed to update the event.');
+        return;
+      }
+      eventCache.invalidateCache(getCacheKeysForEventDate(new Date(event.start_time)));
+      await loadWeek();
+    };
+
+    if (needed) {
+      await apply();
+      return;
+    }
+    Alert.alert(
+      'No Lift Needed',
+      event.is_recurring
+        ? `Take every "${event.title}" off the rota? Its drivers will be cleared.`
+        : `Take "${event.title}" off the rota? Its drivers will be cleared.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: apply },
+      ]
+    );
+  };
+
+  const renderLeg = (leg: RotaLeg) => {
+    const driverName = getContactName(leg.driverId);
+    const isSelected = selectedKeys.has(leg.key);
+    return (
+      <TouchableOpacity key={leg.key} style={styles.legRow} onPress={() => handleLegPress(leg)} disabled={saving}>
+        {selecting && (
+          <Ionicons
+            name={isSelected ? 'checkmark-circle' : 'ellipse-outline'}
+            size={22}
+            color={isSelected ? accentColor : subTextColor}
+            style={styles.legCheck}
+          />
+        )}
+        <Ionicons name={LEG_ICONS[leg.leg]} size={20} color={subTextColor} />
+        <Text style={[styles.legLabel, { color: textColor }]}>
+          {DRIVER_LEG_LABELS[leg.leg]} · {formatClock(leg.time)}
+        </Text>
+        <Text style={[styles.legDriver, { color: driverName ? textColor : '#FF9500' }]}>
+          {driverName ?? 'Unassigned'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: cardColor }]}>
+        <Text style={[styles.headerTitle, { color: textColor }]}>Driver Rota</Text>
+        <TouchableOpacity
+          style={[styles.closeButton, { backgroundColor: surfaceColor }]}
+          onPress={() => router.back()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Ionicons name="close" size={24} color={textColor} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.weekBar}>
+        <TouchableOpacity onPress={() => changeWeek(-1)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Ionicons name="chevron-back" size={24} color={accentColor} />
+        </TouchableOpacity>
+        <Text style={[styles.weekLabel, { color: textColor }]}>{weekLabel()}</Text>
+        <TouchableOpacity onPress={() => changeWeek(1)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Ionicons name="chevron-forward" size={24} color={accentColor} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 80 }]}
+        showsVerticalScrollIndicator={false}>
+        <View style={[styles.card, styles.summaryCard, { backgroundColor: cardColor }]}>
+          <View>
+            <Text style={[styles.summaryTitle, { color: textColor }]}>
+              {legs.length} {legs.length === 1 ? 'lift' : 'lifts'}
+            </Text>
+            <Text style={[styles.summarySubtitle, { color: unassignedCount > 0 ? '#FF9500' : subTextColor }]}>
+              {unassignedCount > 0 ? `${unassignedCount} without a driver` : 'Everything is covered'}
+            </Text>
+          </View>
+          <View style={styles.summaryActions}>
+            <TouchableOpacity
+              style={[styles.smallButton, { backgroundColor: surfaceColor }]}
+              onPress={() => {
+                setSelecting(!selecting);
+                setSelectedKeys(new Set());
+              }}
+              disabled={legs.length === 0}>
+              <Text style={[styles.smallButtonText, { color: accentColor }]}>{selecting ? 'Cancel' : 'Select'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.smallButton, { backgroundColor: surfaceColor }]}
+              onPress={() => setShareOutVisible(true)}
+              disabled={unassignedCount === 0 || drivers.length === 0}>
+              <Text
+                style={[
+                  styles.smallButtonText,
+                  { color: unassignedCount > 0 && drivers.length > 0 ? accentColor : subTextColor },
+                ]}>
+                Share Out
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} color={accentColor} />
+        ) : days.length === 0 ? (
+          <Text style={[styles.emptyText, { color: subTextColor }]}>No lifts needed this week.</Text>
+        ) : (
+          days.map((day) => (
+            <View key={day.date.toDateString()}>
+              <Text style={[styles.sectionHeader, { color: subTextColor }]}>{formatDay(day.date)}</Text>
+              {day.events.map(({ event, legs: eventLegs }) => (
+                <View key={event.id} style={[styles.card, { backgroundColor: cardColor }]}>
+                  <View style={styles.eventHeader}>
+                    <View style={styles.eventInfo}>
+                      <Text style={[styles.eventTitle, { color: textColor }]} numberOfLines={1}>
+                        {event.title}
+                      </Text>
+                      <Text style={[styles.eventDetails, { color: subTextColor }]} numberOfLines={1}>
+                        {formatTimeRange(new Date(event.start_time), new Date(event.end_time))}
+                        {event.location ? ` · ${event.location}` : ''}
+                      </Text>
+                      {!!event.participants?.length && (
+                        <Text style={[styles.eventDetails, { color: subTextColor }]} numberOfLines={1}>
+                          {event.participants.map((p) => p.contact?.first_name).filter(Boolean).join(', ')}
+                        </Text>
+                      )}
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => handleSetNeedsTransport(event, false)}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                      <Ionicons name="close-circle-outline" size={22} color={subTextColor} />
+                    </TouchableOpacity>
+                  </View>
+                  <View style={[styles.separator, { backgroundColor: separatorColor }]} />
+                  {eventLegs.map(renderLeg)}
+                </View>
+              ))}
+            </View>
+          ))
+        )}
+
+        {drivers.length > 0 && (
+          <>
+            <Text style={[styles.sectionHeader, { color: subTextColor }]}>Drivers</Text>
+            <View style={[styles.card, { backgroundColor: cardColor }]}>
+              {drivers.map((driver, index) => {
+                const count = getDriverAgenda(legs, driver.id).length;
+                return (
+                  <React.Fragment key={driver.id}>
+                    {index > 0 && <View style={[styles.separator, { backgroundColor: separatorColor }]} />}
+                    <TouchableOpacity style={styles.driverRow} onPress={() => setAgendaDriver(driver)}>
+                      <Text style={[styles.driverName, { color: textColor }]}>{driver.first_name}</Text>
+                      <Text style={[styles.driverCount, { color: subTextColor }]}>
+                        {count} {count === 1 ? 'lift' : 'lifts'}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={20} color={subTextColor} />
+                    </TouchableOpacity>
+                  </React.Fragment>
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        {otherEvents.length > 0 && (
+          <>
+            <Text style={[styles.sectionHeader, { color: subTextColor }]}>Need a Lift?</Text>
+            <View style={[styles.card, { backgroundColor: cardColor }]}>
+              {otherEvents.map((event, index) => (
+                <React.Fragment key={event.id}>
+                  {index > 0 && <View style={[styles.separator, { backgroundColor: separatorColor }]} />}
+                  <View style={styles.driverRow}>
+                    <View style={styles.eventInfo}>
+                      <Text style={[styles.driverName, { color: textColor }]} numberOfLines={1}>
+                        {event.title}
+                      </Text>
+                      <Text style={[styles.eventDetails, { color: subTextColor }]} numberOfLines={1}>
+                        {new Date(event.start_time).toLocaleDateString([], { weekday: 'short' })}{' '}
+                        {formatTimeRange(new Date(event.start_time), new Date(event.end_time))}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => handleSetNeedsTransport(event, true)}
+                      disabled={saving}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                      <Ionicons name="add-circle-outline" size={24} color={accentColor} />
+                    </TouchableOpacity>
+                  </View>
+                </React.Fragment>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      {selecting && selectedKeys.size > 0 && (
+        <View style={[styles.bottomBar, { paddingBottom: insets.bottom + 12, backgroundColor: cardColor }]}>
+          <TouchableOpacity
+            style={[styles.assignButton, { backgroundColor: accentColor }]}
+            onPress={() => setBulkPickerVisible(true)}
+            disabled={saving}>
+            <Text style={styles.assignButtonText}>
+              Assign {selectedKeys.size} {selectedKeys.size === 1 ? 'Lift' : 'Lifts'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <DriverPickerModal
+        visible={!!pickerLeg}
+        title={pickerLeg ? `${DRIVER_LEG_LABELS[pickerLeg.leg]}: ${pickerLeg.event.title}` : ''}
+        drivers={drivers}
+        selectedId={pickerLeg?.driverId}
+        onSelect={handlePickDriver}
+        onClose={() => setPickerLeg(null)}
+      />
+      <DriverPickerModal
+        visible={bulkPickerVisible}
+        title={`Driver for ${selectedKeys.size} ${selectedKeys.size === 1 ? 'lift' : 'lifts'}`}
+        drivers={drivers}
+        onSelect={handleBulkAssign}
+        onClose={() => setBulkPickerVisible(false)}
+      />
+      <DriverPickerModal
+        visible={shareOutVisible}
+        title="Share lifts out between"
+        drivers={drivers}
+        multiSelect
+        confirmLabel="Share Out"
+        onSelect={handleShareOut}
+        onClose={() => setShareOutVisible(false)}
+      />
+      <DriverAgendaModal
+        visible={!!agendaDriver}
+        driver={agendaDriver}
+        legs={agendaDriver ? getDriverAgenda(legs, agendaDriver.id) : []}
+        onClose={() => setAgendaDriver(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  weekLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '400',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  card: {
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  summaryTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  summarySubtitle: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  summaryActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  smallButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  smallButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  loading: {
+    marginTop: 32,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  eventDetails: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  separator: {
+    height: 1,
+  },
+  legRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 8,
+  },
+  legCheck: {
+    marginRight: 4,
+  },
+  legLabel: {
+    flex: 1,
+    fontSize: 15,
+  },
+  legDriver: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  driverRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    gap: 8,
+  },
+  driverName: {
+    flex: 1,
+    fontSize: 17,
+  },
+  driverCount: {
+    fontSize: 15,
+  },
+  bottomBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  assignButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  assignButtonText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+});
@@ -8,6 +8,7 @@ import {
   ActivityIndicator,
   Platform,
   Alert,
+  Switch,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -20,12 +21,24 @@ import {
   getDeviceCalendars,
   getCalendarEvents,
   importCalendarEvents,
-  IOSCalendar,
-  IOSEvent,
+  importICSEvents,
+  pickICSFile,
+  ICSFile,
+  ImportResult,
+  DeviceCalendar,
+  DeviceEvent,
 } from '@/services/calendarImportService';
 
 type ImportTarget = 'family' | string; // 'family' or contact ID
 
+interface PreviewEvent {
+  key: string;
+  title: string;
+  startDate: Date;
+  allDay: boolean;
+  isRecurring: boolean;
+}
+
 export default function ImportCalendarsView() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
@@ -36,14 +49,18 @@ export default function ImportCalendarsView() {
   const [checkingPermission, setCheckingPermission] = useState(true);
 
   // Calendars state
-  const [calendars, setCalendars] = useState<IOSCalendar[]>([]);
+  const [calendars, setCalendars] = useState<DeviceCalendar[]>([]);
   const [selectedCalendarId, setSelectedCalendarId] = useState<string | null>(null);
   const [loadingCalendars, setLoadingCalendars] = useState(false);
 
   // Events state
-  const [events, setEvents] = useState<IOSEvent[]>([]);
+  const [events, setEvents] = useState<DeviceEvent[]>([]);
   const [loadingEvents, setLoadingEvents] = useState(false);
 
+  // .ics file state (an alternative to a device calendar)
+  const [icsFile, setIcsFile] = useState<ICSFile | null>(null);
+  const [pickingFile, setPickingFile] = useState(false);
+
   // Import target
   const [importTarget, setImportTarget] = useState<ImportTarget>('family');
   const [showTargetPicker, setShowTargetPicker] = useState(false);
@@ -56,6 +73,9 @@ export default function ImportCalendarsView() {
     return date;
   });
 
+  // Delete events imported earlier that are gone from the source
+  const [removeMissing, setRemoveMissing] = useState(false);
+
   // Import state
   const [importing, setImporting] = useState(false);
   const [importProgress, setImportProgress] = useState({ current: 0, total: 0 });
@@ -66,6 +86,11 @@ export default function ImportCalendarsView() {
   }, []);
 
   const checkPermissions = async () => {
+    if (!isCalendarSupported()) {
+      setCheckingPermission(false);
+      return;
+    }
+
     setCheckingPermission(true);
     const { granted } = await getCalendarPermissionStatus();
     setPermissionGranted(granted);
@@ -105,6 +130,7 @@ export default function ImportCalendarsView() {
 
   const handleSelectCalendar = async (calendarId: string) => {
     setSelectedCalendarId(calendarId);
+    setIcsFile(null);
     setLoadingEvents(true);
 
     const { data, error } = await getCalendarEvents(calendarId, startDate, endDate);
@@ -118,6 +144,40 @@ export default function ImportCalendarsView() {
     setLoadingEvents(false);
   };
 
+  const handlePickFile = async () => {
+    setPickingFile(true);
+    const { data, error } = await pickICSFile();
+    setPickingFile(false);
+
+    if (error) {
+      Alert.alert('Error', error);
+    } else if (data) {
+      setIcsFile(data);
+      setSelectedCalendarId(null);
+      setEvents([]);
+    }
+  };
+
+  // Events shown before importing; a file's changed occurrences travel with their series
+  const previewEvents: PreviewEvent[] = icsFile
+    ? icsFile.calendar.events
+        .filter((event) => !event.recurrenceId && !event.cancelled)
+        .map((event, index) => ({
+          key: `${event.uid}-${index}`,
+          title: event.title,
+          startDate: event.start,
+          allDay: event.allDay,
+          isRecurring: !!event.rrule,
+        }))
+    : events.map((event, index) => ({
+        key: `${event.id}-${index}`,
+        title: event.title,
+        startDate: event.startDate,
+        allDay: event.allDay,
+        isRecurring: !!event.recurrenceRule,
+      }));
+  const hasSource = !!selectedCalendarId || !!icsFile;
+
   const getTargetLabel = (): string => {
     if (importTarget === 'family') {
       return 'All Family Members';
@@ -136,12 +196,12 @@ export default function ImportCalendarsView() {
   };
 
   const handleImport = async () => {
-    if (!selectedCalendarId || !currentFamily) {
+    if (!hasSource || !currentFamily) {
       Alert.alert('Error', 'Please select a calendar to import');
       return;
     }
 
-    if (events.length === 0) {
+    if (previewEvents.length === 0) {
       Alert.alert('No Events', 'No events found in the selected date range');
       return;
     }
@@ -153,105 +213,49 @@ export default function ImportCalendarsView() {
     }
 
     setImporting(true);
-    setImportProgress({ current: 0, total: events.length });
-
-    const result = await importCalendarEvents(
-      selectedCalendarId,
-      startDate,
-      endDate,
-      currentFamily.id,
-      participantIds,
-      (current, total) => {
-        setImportProgress({ current, total });
-      }
-    );
+    setImportProgress({ current: 0, total: previewEvents.length });
+
+    const onProgress = (current: number, total: number) => {
+      setImportProgress({ current, total });
+    };
+    const result = icsFile
+      ? await importICSEvents(icsFile, currentFamily.id, participantIds, onProgress, { removeMissing })
+      : await importCalendarEvents(
+          selectedCalendarId!,
+          startDate,
+          endDate,
+          currentFamily.id,
+          participantIds,
+          onProgress,
+          { removeMissing }
+        );
 
     setImporting(false);
 
     if (result.success) {
       Alert.alert(
         'Import Complete',
-        `Successfully imported ${result.imported} events.`,
+        describeImportResult(result),
         [{ text: 'OK', onPress: () => router.back() }]
       );
     } else {
       Alert.alert(
         'Import Finished',
-        `Imported ${result.imported} events, ${result.failed} failed.\n\n${result.errors.slice(0, 3).join('\n')}`,
+        `${describeImportResult(result)} ${result.failed} failed.\n\n${result.errors.slice(0, 3).join('\n')}`,
         [{ text: 'OK' }]
       );
     }
   };
 
-  // Platform not supported
-  if (!isCalendarSupported()) {
-    return (
-      <View style={[styles.container, { paddingTop: insets.top }]}>
-        <View style={styles.header}>
-          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Ionicons name="close" size={28} color="#1D1D1F" />
-          </TouchableOpacity>
-          <Text style={styles.headerTitle}>Import Calendars</Text>
-          <View style={styles.backButton} />
-        </View>
-        <View style={styles.centeredContent}>
-          <Ionicons name="calendar-outline" size={64} color="#8E8E93" />
-          <Text style={styles.unsupportedText}>
-            Calendar import is only available on iOS devices.
-          </Text>
-        </View>
-      </View>
-    );
-  }
-
-  // Checking permissions
-  if (checkingPermission) {
-    return (
-      <View style={[styles.container, { paddingTop: insets.top }]}>
-        <View style={styles.header}>
-          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Ionicons name="close" size={28} color="#1D1D1F" />
-          </TouchableOpacity>
-          <Text style={styles.headerTitle}>Import Calendars</Text>
-          <View style={styles.backButton} />
-        </View>
-        <View style={styles.centeredContent}>
-          <ActivityIndicator size="large" color="#007AFF" />
-          <Text style={styles.loadingText}>Checking permissions...</Text>
-        </View>
-      </View>
-    );
-  }
-
-  // Permission not granted
-  if (!permissionGranted) {
-    return (
-      <View style={[styles.container, { paddingTop: insets.top }]}>
-        <View style={styles.header}>
-          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Ionicons name="close" size={28} color="#1D1D1F" />
-          </TouchableOpacity>
-          <Text style={styles.headerTitle}>Import Calendars</Text>
-          <View style={styles.backButton} />
-        </View>
-        <View style={styles.centeredContent}>
-          <Ionicons name="calendar-outline" size={64} color="#007AFF" />
-          <Text style={styles.permissionTitle}>Calendar Access Required</Text>
-          <Text style={styles.permissionText}>
-            To import events from your iOS calendar, FamilyCal needs permission to access your calendars.
-          </Text>
-          <TouchableOpacity 
-            style={styles.permissionButton}
-            onPress={handleRequestPermissions}
-          >
-            <Text style={styles.permissionButtonText}>Grant Access</Text>
-          </TouchableOpacity>
-        </View>
-      </View>
-    );
-  }
-
-  const selectedCalendar = calendars.find(c => c.id === selectedCalendarId);
+  const describeImportResult = (result: ImportResult): string => {
+    const parts = [
+      `${result.created} added`,
+      result.updated > 0 && `${result.updated} updated`,
+      result.skipped > 0 && `${result.skipped} already up to date`,
+      result.removed > 0 && `${result.removed} removed`,
+    ].filter(Boolean);
+    return `${parts.join(', ')}.`;
+  };
 
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
@@ -263,11 +267,11 @@ export default function ImportCalendarsView() {
         <TouchableOpacity 
           onPress={handleImport} 
           style={styles.importButton}
-          disabled={!selectedCalendarId || importing || events.length === 0}
+          disabled={!hasSource || importing || previewEvents.length === 0}
         >
           <Text style={[
             styles.importButtonText,
-            (!selectedCalendarId || importing || events.length === 0) && styles.importButtonTextDisabled
+            (!hasSource || importing || previewEvents.length === 0) && styles.importButtonTextDisabled
           ]}>
             Import
           </Text>
@@ -278,7 +282,25 @@ export default function ImportCalendarsView() {
         {/* Calendar Selection */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Select Calendar</Text>
-          {loadingCalendars ? (
+          {!isCalendarSupported() ? (
+            <Text style={styles.noEventsText}>
+              Device calendars can only be imported in the iOS and Android apps. You can import an .ics file instead.
+            </Text>
+          ) : checkingPermission ? (
+            <ActivityIndicator size="small" color="#007AFF" style={styles.loader} />
+          ) : !permissionGranted ? (
+            <View style={styles.permissionCard}>
+              <Text style={styles.permissionText}>
+                To import events from your device calendar, FamilyCal needs permission to access your calendars.
+              </Text>
+              <TouchableOpacity 
+                style={styles.permissionButton}
+                onPress={handleRequestPermissions}
+              >
+                <Text style={styles.permissionButtonText}>Grant Access</Text>
+              </TouchableOpacity>
+            </View>
+          ) : loadingCalendars ? (
             <ActivityIndicator size="small" color="#007AFF" style={styles.loader} />
           ) : (
             <View style={styles.calendarList}>
@@ -305,33 +327,60 @@ export default function ImportCalendarsView() {
           )}
         </View>
 
+        {/* File Selection */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Or Import a File</Text>
+          <View style={styles.calendarList}>
+            <TouchableOpacity
+              style={[styles.calendarItem, icsFile && styles.calendarItemSelected]}
+              onPress={handlePickFile}
+              disabled={pickingFile}
+            >
+              <Ionicons name="document-text-outline" size={20} color="#007AFF" style={styles.fileIcon} />
+              <View style={styles.calendarInfo}>
+                <Text style={styles.calendarTitle}>{icsFile ? icsFile.name : 'Choose .ics File'}</Text>
+                <Text style={styles.calendarSource}>
+                  {icsFile ? 'Tap to choose a different file' : 'Exported from Google, Outlook or another calendar'}
+                </Text>
+              </View>
+              {pickingFile ? (
+                <ActivityIndicator size="small" color="#007AFF" />
+              ) : icsFile ? (
+                <Ionicons name="checkmark-circle" size={24} color="#007AFF" />
+              ) : null}
+            </TouchableOpacity>
+          </View>
+        </View>
+
         {/* Events Preview */}
-        {selectedCalendarId && (
+        {hasSource && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>
-              Events to Import {loadingEvents ? '' : `(${events.length})`}
-            </Text>
-            <Text style={styles.dateRange}>
-              {startDate.toLocaleDateString()} - {endDate.toLocaleDateString()}
+              Events to Import {loadingEvents ? '' : `(${previewEvents.length})`}
             </Text>
+            {!icsFile && (
+              <Text style={styles.dateRange}>
+                {startDate.toLocaleDateString()} - {endDate.toLocaleDateString()}
+              </Text>
+            )}
             {loadingEvents ? (
               <ActivityIndicator size="small" color="#007AFF" style={styles.loader} />
-            ) : events.length === 0 ? (
+            ) : previewEvents.length === 0 ? (
               <Text style={styles.noEventsText}>No events found in this date range</Text>
             ) : (
               <View style={styles.eventsPreview}>
-                {events.slice(0, 5).map((event, index) => (
-                  <View key={`${event.id}-${index}`} style={styles.eventPreviewItem}>
+                {previewEvents.slice(0, 5).map((event) => (
+                  <View key={event.key} style={styles.eventPreviewItem}>
                     <Text style={styles.eventTitle} numberOfLines={1}>{event.title}</Text>
                     <Text style={styles.eventDate}>
                       {event.startDate.toLocaleDateString()} 
                       {!event.allDay && ` ${event.startDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
-                      {event.recurrenceRule && ' (Recurring)'}
+                      {event.isRecurring && ' (Recurring)'}
                     </Text>
                   </View>
                 ))}
-                {events.length > 5 && (
-                  <Text style={styles.moreEvents}>+{events.length - 5} more events</Text>
+                {previewEvents.length > 5 && (
+                  <Text style={styles.moreEvents}>+{previewEvents.length - 5} more events</Text>
                 )}
               </View>
             )}
@@ -339,7 +388,7 @@ export default function ImportCalendarsView() {
         )}
 
         {/* Import Target */}
-        {selectedCalendarId && events.length > 0 && (
+        {hasSource && previewEvents.length > 0 && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Import To</Text>
             <TouchableOpacity
@@ -404,6 +453,23 @@ export default function ImportCalendarsView() {
           </View>
         )}
 
+        {/* Re-import Options */}
+        {hasSource && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Options</Text>
+            <View style={styles.optionRow}>
+              <View style={styles.calendarInfo}>
+                <Text style={styles.targetLabel}>Remove Deleted Events</Text>
+                <Text style={styles.calendarSource}>
+                  Events imported earlier that are no longer in this calendar are deleted. Events already
+                  imported are updated, never duplicated.
+                </Text>
+              </View>
+              <Switch value={removeMissing} onValueChange={setRemoveMissing} />
+            </View>
+          </View>
+        )}
+
       </ScrollView>
 
       {/* Import Progress Overlay */}
@@ -484,36 +550,18 @@ const styles = StyleSheet.create({
   contentContainer: {
     padding: 16,
   },
-  centeredContent: {
-    flex: 1,
-    justifyContent: 'center',
+  permissionCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
     alignItems: 'center',
-    padding: 32,
-  },
-  unsupportedText: {
-    fontSize: 16,
-    color: '#8E8E93',
-    textAlign: 'center',
-    marginTop: 16,
-  },
-  loadingText: {
-    fontSize: 16,
-    color: '#8E8E93',
-    marginTop: 16,
-  },
-  permissionTitle: {
-    fontSize: 20,
-    fontWeight: '600',
-    color: '#1D1D1F',
-    marginTop: 24,
-    marginBottom: 12,
   },
   permissionText: {
-    fontSize: 16,
+    fontSize: 15,
     color: '#8E8E93',
     textAlign: 'center',
-    marginBottom: 24,
-    lineHeight: 24,
+    marginBottom: 16,
+    lineHeight: 22,
   },
   permissionButton: {
     backgroundColor: '#007AFF',
@@ -554,6 +602,9 @@ const styles = StyleSheet.create({
   calendarItemSelected: {
     backgroundColor: '#F0F8FF',
   },
+  fileIcon: {
+    marginRight: 12,
+  },
   calendarColor: {
     width: 16,
     height: 16,
@@ -620,6 +671,14 @@ const styles = StyleSheet.create({
     padding: 14,
     borderRadius: 12,
   },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 14,
+    borderRadius: 12,
+    gap: 12,
+  },
   targetLabel: {
     fontSize: 16,
     color: '#1D1D1F',
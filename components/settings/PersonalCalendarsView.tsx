@@ -7,7 +7,6 @@ import {
   TouchableOpacity,
   Switch,
   ActivityIndicator,
-  Platform,
   Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -20,9 +19,14 @@ import {
   getPersonalCalendars,
   updatePersonalCalendar,
   deletePersonalCalendar,
+  refreshSubscribedCalendar,
   PersonalCalendar,
 } from '@/services/personalCalendarService';
+import { isCalendarSupported } from '@/services/calendarImportService';
+import { isSyncSupported } from '@/services/calendarSyncService';
 import AddPersonalCalendarModal from './AddPersonalCalendarModal';
+import AddSubscribedCalendarModal from './AddSubscribedCalendarModal';
+import CalendarSyncModal from './CalendarSyncModal';
 
 export default function PersonalCalendarsView() {
   const insets = useSafeAreaInsets();
@@ -33,6 +37,8 @@ export default function PersonalCalendarsView() {
   const [calendars, setCalendars] = useState<PersonalCalendar[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showSubscribeModal, setShowSubscribeModal] = useState(false);
+  const [syncCalendarId, setSyncCalendarId] = useState<string | null>(null);
   const [updatingCalendarId, setUpdatingCalendarId] = useState<string | null>(null);
 
   const backgroundColor = useThemeColor({}, 'background');
@@ -105,31 +111,41 @@ export default function PersonalCalendarsView() {
     );
   };
 
+  const handleRefresh = async (calendar: PersonalCalendar) => {
+    setUpdatingCalendarId(calendar.id);
+    const { error } = await refreshSubscribedCalendar(calendar, true);
+    if (error) {
+      Alert.alert('Refresh Failed', error);
+    }
+    await loadCalendars();
+    setUpdatingCalendarId(null);
+  };
+
   const handleCalendarAdded = () => {
     setShowAddModal(false);
+    setShowSubscribeModal(false);
     loadCalendars();
   };
 
-  // Platform not supported
-  if (Platform.OS !== 'ios') {
-    return (
-      <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
-        <View style={[styles.header, { backgroundColor: cardColor }]}>
-          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Ionicons name="chevron-back" size={24} color={textColor} />
-          </TouchableOpacity>
-          <Text style={[styles.headerTitle, { color: textColor }]}>Personal Calendars</Text>
-          <View style={styles.backButton} />
-        </View>
-        <View style={styles.centeredContent}>
-          <Ionicons name="calendar-outline" size={64} color={subTextColor} />
-          <Text style={[styles.unsupportedText, { color: subTextColor }]}>
-            Personal calendars are only available on iOS devices.
-          </Text>
-        </View>
-      </View>
-    );
-  }
+  const getCalendarStatus = (calendar: PersonalCalendar): string => {
+    const familyView = `Family view ${calendar.show_in_family_view ? 'on' : 'off'}`;
+    if (calendar.calendar_type !== 'subscription') {
+      // Device calendars are only readable on the phone they live on
+      if (!isCalendarSupported()) return `${familyView} · Phone only`;
+      return calendar.sync_enabled ? `${familyView} · Sync on` : familyView;
+    }
+    if (calendar.last_refresh_error) {
+      return `${familyView} · Update failed`;
+    }
+    return calendar.last_refreshed_at
+      ? `${familyView} · Updated ${new Date(calendar.last_refreshed_at).toLocaleString([], {
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+        })}`
+      : familyView;
+  };
 
   return (
     <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
@@ -187,14 +203,44 @@ export default function PersonalCalendarsView() {
 
                   {/* Calendar Info */}
                   <View style={styles.calendarInfo}>
-                    <Text style={[styles.calendarTitle, { color: textColor }]}>
-                      {calendar.calendar_title}
-                    </Text>
-                    <Text style={[styles.familyViewStatus, { color: subTextColor }]}>
-                      Family view {calendar.show_in_family_view ? 'on' : 'off'}
+                    <View style={styles.calendarTitleRow}>
+                      {calendar.calendar_type === 'subscription' && (
+                        <Ionicons name="link" size={15} color={subTextColor} />
+                      )}
+                      <Text style={[styles.calendarTitle, { color: textColor }]} numberOfLines={1}>
+                        {calendar.calendar_title}
+                      </Text>
+                    </View>
+                    <Text style={[styles.familyViewStatus, { color: subTextColor }]} numberOfLines={1}>
+                      {getCalendarStatus(calendar)}
                     </Text>
                   </View>
 
+                  {/* Refresh Button (subscriptions) */}
+                  {calendar.calendar_type === 'subscription' && (
+                    <TouchableOpacity
+                      onPress={() => handleRefresh(calendar)}
+                      disabled={updatingCalendarId === calendar.id}
+                      style={styles.deleteButton}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                      <Ionicons name="refresh" size={20} color={subTextColor} />
+                    </TouchableOpacity>
+                  )}
+
+                  {/* Sync Button (device calendars) */}
+                  {calendar.calendar_type !== 'subscription' && isSyncSupported() && (
+                    <TouchableOpacity
+                      onPress={() => setSyncCalendarId(calendar.id)}
+                      style={styles.deleteButton}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                      <Ionicons
+                        name="sync"
+                        size={20}
+                        color={calendar.sync_enabled ? '#34C759' : subTextColor}
+                      />
+                    </TouchableOpacity>
+                  )}
+
                   {/* Toggle Switch */}
                   <Switch
                     value={calendar.show_in_family_view}
@@ -221,13 +267,25 @@ export default function PersonalCalendarsView() {
           </View>
         )}
 
-        {/* Add Calendar Button */}
+        {/* Add Calendar Button (device calendars need the iOS or Android app) */}
+        {isCalendarSupported() && (
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: cardColor, borderColor: separatorColor }]}
+            onPress={() => setShowAddModal(true)}>
+            <Ionicons name="add" size={20} color={subTextColor} />
+            <Text style={[styles.addButtonText, { color: subTextColor }]}>
+              Add Personal Calendar
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Subscribe Button */}
         <TouchableOpacity
           style={[styles.addButton, { backgroundColor: cardColor, borderColor: separatorColor }]}
-          onPress={() => setShowAddModal(true)}>
-          <Ionicons name="add" size={20} color={subTextColor} />
+          onPress={() => setShowSubscribeModal(true)}>
+          <Ionicons name="link" size={20} color={subTextColor} />
           <Text style={[styles.addButtonText, { color: subTextColor }]}>
-            Add Personal Calendar
+            Subscribe to Calendar URL
           </Text>
         </TouchableOpacity>
       </ScrollView>
@@ -238,6 +296,21 @@ export default function PersonalCalendarsView() {
         onClose={() => setShowAddModal(false)}
         onCalendarAdded={handleCalendarAdded}
       />
+
+      {/* Subscribe Modal */}
+      <AddSubscribedCalendarModal
+        visible={showSubscribeModal}
+        onClose={() => setShowSubscribeModal(false)}
+        onCalendarAdded={handleCalendarAdded}
+      />
+
+      {/* Sync Modal */}
+      <CalendarSyncModal
+        visible={syncCalendarId !== null}
+        calendar={calendars.find((c) => c.id === syncCalendarId) ?? null}
+        onClose={() => setSyncCalendarId(null)}
+        onChanged={loadCalendars}
+      />
     </View>
   );
 }
@@ -329,10 +402,16 @@ const styles = StyleSheet.create({
   calendarInfo: {
     flex: 1,
   },
+  calendarTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 2,
+  },
   calendarTitle: {
+    flexShrink: 1,
     fontSize: 17,
     fontWeight: '400',
-    marginBottom: 2,
   },
   familyViewStatus: {
     fontSize: 15,
@@ -357,20 +436,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderStyle: 'dashed',
     gap: 8,
+    marginBottom: 12,
   },
   addButtonText: {
     fontSize: 17,
     fontWeight: '400',
   },
-  centeredContent: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 32,
-  },
-  unsupportedText: {
-    fontSize: 16,
-    textAlign: 'center',
-    marginTop: 16,
-  },
 });
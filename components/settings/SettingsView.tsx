@@ -1,5 +1,9 @@
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { getCalendarPermissionStatus, requestCalendarPermissions } from '@/services/calendarImportService';
+import {
+  getCalendarPermissionStatus,
+  isCalendarSupported,
+  requestCalendarPermissions,
+} from '@/services/calendarImportService';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
@@ -8,7 +12,6 @@ import { useFamily } from '@/contexts/FamilyContext';
 import {
   Alert,
   Linking,
-  Platform,
   ScrollView,
   StyleSheet,
   Text,
@@ -99,7 +102,7 @@ export function SettingsView() {
   }, []);
 
   const checkPermission = async () => {
-    if (Platform.OS === 'ios') {
+    if (isCalendarSupported()) {
       const { status } = await getCalendarPermissionStatus();
       setCalendarPermissionStatus(status);
     } else {
@@ -108,10 +111,10 @@ export function SettingsView() {
   };
 
   const handleCalendarPermissionPress = async () => {
-    if (Platform.OS !== 'ios') return;
+    if (!isCalendarSupported()) return;
 
     if (calendarPermissionStatus === 'granted') {
-      Alert.alert('Calendar Access', 'You have granted access to your iOS calendar.');
+      Alert.alert('Calendar Access', 'You have granted access to your calendars.');
     } else if (calendarPermissionStatus === 'denied' || calendarPermissionStatus === 'blocked') {
       Alert.alert(
         'Permission Denied',
@@ -225,22 +228,23 @@ export function SettingsView() {
             iconColor={textColor}
           />
           <View style={[styles.separator, { backgroundColor: separatorColor }]} />
-          <SettingsItem icon="car-outline" label="Drivers" iconColor={textColor} />
+          <SettingsItem
+            icon="car-outline"
+            label="Drivers"
+            onPress={() => router.push('/settings/driver-rota')}
+            iconColor={textColor}
+          />
           <View style={[styles.separator, { backgroundColor: separatorColor }]} />
           <SettingsItem icon="sparkles-outline" label="Widgets" iconColor={textColor} />
           <View style={[styles.separator, { backgroundColor: separatorColor }]} />
           <SettingsItem icon="attach-outline" label="Attachments" iconColor={textColor} />
-          {Platform.OS === 'ios' && (
-            <>
-              <View style={[styles.separator, { backgroundColor: separatorColor }]} />
-              <SettingsItem
-                icon="download-outline"
-                label="Import Calendars"
-                onPress={() => router.push('/settings/import-calendars')}
-                iconColor={textColor}
-              />
-            </>
-          )}
+          <View style={[styles.separator, { backgroundColor: separatorColor }]} />
+          <SettingsItem
+            icon="download-outline"
+            label="Import Calendars"
+            onPress={() => router.push('/settings/import-calendars')}
+            iconColor={textColor}
+          />
         </View>
 
         {/* Family Section - Only show if user doesn't have a family */}
@@ -262,7 +266,7 @@ export function SettingsView() {
         {/* More Section */}
         <Text style={[styles.sectionHeader, { color: subTextColor }]}>More</Text>
         <View style={[styles.card, { backgroundColor: cardColor }]}>
-          {Platform.OS === 'ios' && (
+          {isCalendarSupported() && (
             <SettingsItem
               icon="calendar-outline"
               label="Calendar Access"
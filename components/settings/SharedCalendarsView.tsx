@@ -1,6 +1,17 @@
 import { useAuth } from '@/contexts/AuthContext';
+import { useFamily } from '@/contexts/FamilyContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { supabase } from '@/lib/supabase';
+import {
+    CalendarFeedToken,
+    FEED_PRIVACY_LABELS,
+    getCalendarFeedTokens,
+    getCalendarFeedUrl,
+    getCalendarToken,
+    regenerateCalendarFeedToken,
+    regenerateCalendarToken,
+    revokeCalendarFeedToken,
+    updateCalendarTokenFamilies,
+} from '@/services/calendarFeedService';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { useRouter } from 'expo-router';
@@ -16,13 +27,19 @@ import {
     View,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import AddFeedTokenModal from './AddFeedTokenModal';
 
 export function SharedCalendarsView() {
     const router = useRouter();
     const insets = useSafeAreaInsets();
     const { user } = useAuth();
+    const { currentFamily, families, familyMembers, contacts, getFamilyColor } = useFamily();
     const [calendarToken, setCalendarToken] = useState<string | null>(null);
+    // Families the whole-family link covers; null = all of them
+    const [tokenFamilyIds, setTokenFamilyIds] = useState<string[] | null>(null);
     const [loadingToken, setLoadingToken] = useState(false);
+    const [feeds, setFeeds] = useState<CalendarFeedToken[]>([]);
+    const [showAddFeed, setShowAddFeed] = useState(false);
 
     const backgroundColor = useThemeColor({}, 'background');
     const cardColor = useThemeColor({ light: '#FFFFFF', dark: '#1E1E1E' }, 'background');
@@ -36,14 +53,11 @@ export function SharedCalendarsView() {
         if (!user) return;
         setLoadingToken(true);
         try {
-            const { data, error } = await supabase
-                .from('user_preferences')
-                .select('calendar_token')
-                .eq('user_id', user.id)
-                .single();
+            const { data, error } = await getCalendarToken();
 
             if (error) throw error;
-            setCalendarToken(data?.calendar_token || null);
+            setCalendarToken(data?.token || null);
+            setTokenFamilyIds(data?.familyIds || null);
         } catch (e) {
             console.error('Error fetching calendar token:', e);
         } finally {
@@ -55,6 +69,20 @@ export function SharedCalendarsView() {
         fetchCalendarToken();
     }, [fetchCalendarToken]);
 
+    const fetchFeeds = useCallback(async () => {
+        if (!currentFamily) return;
+        const { data, error } = await getCalendarFeedTokens(currentFamily.id);
+        if (error) {
+            console.error('Error fetching feed tokens:', error);
+            return;
+        }
+        setFeeds(data || []);
+    }, [currentFamily]);
+
+    useEffect(() => {
+        fetchFeeds();
+    }, [fetchFeeds]);
+
     const handleRegenerateToken = async () => {
         if (!user) return;
 
@@ -69,8 +97,7 @@ export function SharedCalendarsView() {
                     onPress: async () => {
                         setLoadingToken(true);
                         try {
-                            const { data, error } = await supabase
-                                .rpc('regenerate_calendar_token', { p_user_id: user.id });
+                            const { data, error } = await regenerateCalendarToken(tokenFamilyIds);
 
                             if (error) throw error;
                             setCalendarToken(data);
@@ -87,9 +114,25 @@ export function SharedCalendarsView() {
         );
     };
 
-    const calendarUrl = calendarToken
-        ? `https://${process.env.EXPO_PUBLIC_SUPABASE_URL?.split('//')[1].split('.')[0]}.supabase.co/functions/v1/calendar-feed?user_id=${user?.id}&token=${calendarToken}`
-        : '';
+    const isTokenFamilySelected = (familyId: string) => !tokenFamilyIds || tokenFamilyIds.includes(familyId);
+
+    // The link keeps working; subscribers pick up the change on their next refresh
+    const handleToggleTokenFamily = async (familyId: string) => {
+        const selected = families.map(f => f.id).filter(id => isTokenFamilySelected(id) !== (id === familyId));
+        if (selected.length === 0) return;
+        const next = selected.length === families.length ? null : selected;
+
+        const previous = tokenFamilyIds;
+        setTokenFamilyIds(next);
+        const { error } = await updateCalendarTokenFamilies(next);
+        if (error) {
+            console.error('Error updating calendar link families:', error);
+            Alert.alert('Error', 'Failed to update the link.');
+            setTokenFamilyIds(previous);
+        }
+    };
+
+    const calendarUrl = calendarToken && user ? getCalendarFeedUrl(calendarToken, user.id) : '';
 
     const webcalUrl = calendarUrl.replace('https://', 'webcal://');
 
@@ -111,6 +154,92 @@ export function SharedCalendarsView() {
         }
     };
 
+    const handleCopyFeed = async (feed: CalendarFeedToken) => {
+        await Clipboard.setStringAsync(getCalendarFeedUrl(feed.token));
+        Alert.alert('Copied', `Link for "${feed.name}" copied to clipboard.`);
+    };
+
+    const handleShareFeed = async (feed: CalendarFeedToken) => {
+        const webcal = getCalendarFeedUrl(feed.token).replace('https://', 'webcal://');
+        try {
+            await Share.share({
+                message: `Subscribe to ${feed.name} on FamilyCal: ${webcal}`,
+                url: webcal,
+            });
+        } catch (e) {
+            console.error(e);
+        }
+    };
+
+    const handleRegenerateFeed = (feed: CalendarFeedToken) => {
+        Alert.alert(
+            'Regenerate Link',
+            `Anyone subscribed to "${feed.name}" will stop receiving updates until you send them the new link. Continue?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Regenerate',
+                    style: 'destructive',
+                    onPress: async () => {
+                        const { data, error } = await regenerateCalendarFeedToken(feed.id);
+                        if (error || !data) {
+                            console.error('Error regenerating feed token:', error);
+                            Alert.alert('Error', 'Failed to regenerate link.');
+                            return;
+                        }
+                        setFeeds(prev => prev.map(f => (f.id === feed.id ? { ...f, token: data, last_accessed_at: null } : f)));
+                        Alert.alert('Success', 'A new link has been generated.');
+                    }
+                }
+            ]
+        );
+    };
+
+    const handleRevokeFeed = (feed: CalendarFeedToken) => {
+        Alert.alert(
+            'Revoke Link',
+            `"${feed.name}" will stop working for everyone who has it. Continue?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Revoke',
+                    style: 'destructive',
+                    onPress: async () => {
+                        const { error } = await revokeCalendarFeedToken(feed.id);
+                        if (error) {
+                            console.error('Error revoking feed token:', error);
+                            Alert.alert('Error', 'Failed to revoke link.');
+                            return;
+                        }
+                        setFeeds(prev => prev.filter(f => f.id !== feed.id));
+                    }
+                }
+            ]
+        );
+    };
+
+    // e.g. "Emma, Jack · Hide notes & location"
+    const describeFeed = (feed: CalendarFeedToken): string => {
+        if (feed.family_ids && feed.family_ids.length > 1) {
+            const names = families.filter(f => feed.family_ids!.includes(f.id)).map(f => f.name).join(' & ');
+            return `${names} · ${describeFeed({ ...feed, family_ids: null })}`;
+        }
+        if (feed.driver_contact_id) {
+            const driver = contacts.find(c => c.id === feed.driver_contact_id);
+            return `Lifts driven by ${driver?.first_name ?? 'a driver'}`;
+        }
+        const members = feed.contact_ids
+            ? familyMembers
+                .filter(m => feed.contact_ids!.includes(m.contact_id))
+                .map(m => m.contact.first_name)
+                .join(', ')
+            : 'Everyone';
+        const categories = feed.category_ids
+            ? ` · ${feed.category_ids.length} ${feed.category_ids.length === 1 ? 'category' : 'categories'}`
+            : '';
+        return `${members || 'No members'}${categories} · ${FEED_PRIVACY_LABELS[feed.privacy]}`;
+    };
+
     return (
         <View style={[styles.container, { paddingTop: insets.top, backgroundColor }]}>
             {/* Header */}
@@ -183,6 +312,29 @@ export function SharedCalendarsView() {
                                     <Text style={[styles.actionButtonText, { color: accentColor }]}>Share</Text>
                                 </TouchableOpacity>
                             </View>
+                            {families.length > 1 && (
+                                <>
+                                    <Text style={[styles.syncSubtitle, { color: subTextColor, marginTop: 16, marginBottom: 8 }]}>
+                                        Families in this calendar
+                                    </Text>
+                                    <View style={styles.chipRow}>
+                                        {families.map(family => {
+                                            const selected = isTokenFamilySelected(family.id);
+                                            const color = getFamilyColor(family.id);
+                                            return (
+                                                <TouchableOpacity
+                                                    key={family.id}
+                                                    style={[styles.chip, { borderColor: color, backgroundColor: selected ? color : cardColor }]}
+                                                    onPress={() => handleToggleTokenFamily(family.id)}>
+                                                    <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : textColor }]}>
+                                                        {family.name}
+                                                    </Text>
+                                                </TouchableOpacity>
+                                            );
+                                        })}
+                                    </View>
+                                </>
+                            )}
                             <View style={[styles.separator, { backgroundColor: separatorColor, marginVertical: 16 }]} />
                             <TouchableOpacity style={styles.regenerateButton} onPress={handleRegenerateToken}>
                                 <Text style={styles.regenerateButtonText}>Regenerate Secret Link</Text>
@@ -197,6 +349,51 @@ export function SharedCalendarsView() {
                     )}
                 </View>
 
+                <Text style={[styles.sectionHeader, { color: subTextColor }]}>Filtered Links</Text>
+                <View style={[styles.card, { backgroundColor: cardColor }]}>
+                    <Text style={[styles.syncSubtitle, { color: subTextColor }]}>
+                        Share only some members&apos; events, or hide details, e.g. a link for grandparents with just one child&apos;s activities.
+                    </Text>
+
+                    {feeds.map(feed => (
+                        <View key={feed.id}>
+                            <View style={[styles.separator, { backgroundColor: separatorColor, marginVertical: 12 }]} />
+                            <Text style={[styles.syncLabel, { color: textColor }]}>{feed.name}</Text>
+                            <Text style={[styles.syncSubtitle, { color: subTextColor }]}>{describeFeed(feed)}</Text>
+                            <View style={[styles.actionButtonsRow, { marginTop: 12 }]}>
+                                <TouchableOpacity
+                                    style={[styles.actionButton, { backgroundColor: surfaceColor }]}
+                                    onPress={() => handleCopyFeed(feed)}
+                                >
+                                    <Ionicons name="copy-outline" size={18} color={accentColor} />
+                                    <Text style={[styles.actionButtonText, { color: accentColor }]}>Copy</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={[styles.actionButton, { backgroundColor: surfaceColor }]}
+                                    onPress={() => handleShareFeed(feed)}
+                                >
+                                    <Ionicons name="share-outline" size={18} color={accentColor} />
+                                    <Text style={[styles.actionButtonText, { color: accentColor }]}>Share</Text>
+                                </TouchableOpacity>
+                            </View>
+                            <View style={styles.feedManageRow}>
+                                <TouchableOpacity style={styles.regenerateButton} onPress={() => handleRegenerateFeed(feed)}>
+                                    <Text style={styles.regenerateButtonText}>Regenerate</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity style={styles.regenerateButton} onPress={() => handleRevokeFeed(feed)}>
+                                    <Text style={styles.regenerateButtonText}>Revoke</Text>
+                                </TouchableOpacity>
+                            </View>
+                        </View>
+                    ))}
+
+                    <View style={[styles.separator, { backgroundColor: separatorColor, marginVertical: 12 }]} />
+                    <TouchableOpacity style={styles.addFeedButton} onPress={() => setShowAddFeed(true)}>
+                        <Ionicons name="add-circle-outline" size={20} color={accentColor} />
+                        <Text style={[styles.actionButtonText, { color: accentColor }]}>New Filtered Link</Text>
+                    </TouchableOpacity>
+                </View>
+
                 <Text style={[styles.instructionsHeader, { color: subTextColor }]}>How to subscribe</Text>
                 <View style={[styles.card, { backgroundColor: cardColor }]}>
                     <Text style={[styles.instructionStep, { color: textColor }]}>1. Copy your secret link above.</Text>
@@ -205,6 +402,15 @@ export function SharedCalendarsView() {
                     <Text style={[styles.instructionStep, { color: textColor }]}>4. Paste the link and save.</Text>
                 </View>
             </ScrollView>
+
+            <AddFeedTokenModal
+                visible={showAddFeed}
+                onClose={() => setShowAddFeed(false)}
+                onFeedCreated={(feed) => {
+                    setFeeds(prev => [...prev, feed]);
+                    setShowAddFeed(false);
+                }}
+            />
         </View>
     );
 }
@@ -332,6 +538,18 @@ const styles = StyleSheet.create({
         fontSize: 15,
         fontWeight: '500',
     },
+    feedManageRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        marginTop: 12,
+    },
+    addFeedButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 4,
+    },
     generateButton: {
         alignItems: 'center',
         paddingVertical: 12,
@@ -343,6 +561,21 @@ const styles = StyleSheet.create({
         fontSize: 16,
         fontWeight: '600',
     },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1.5,
+    },
+    chipText: {
+        fontSize: 15,
+        fontWeight: '500',
+    },
     instructionStep: {
         fontSize: 15,
         lineHeight: 24,
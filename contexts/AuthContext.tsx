@@ -1,4 +1,9 @@
 import { Contact, supabase } from '@/lib/supabase';
+import { stopArrivalGeofences } from '@/services/arrivalAlertService';
+import { requestChildSignIn } from '@/services/childAccountService';
+import { cancelLocalReminders } from '@/services/localReminderService';
+import { registerPushToken, unregisterPushToken } from '@/services/pushNotificationService';
+import { recordDeviceTimeZone } from '@/services/userPreferencesService';
 import { AuthError, Session, User } from '@supabase/supabase-js';
 import * as Linking from 'expo-linking';
 import * as WebBrowser from 'expo-web-browser';
@@ -15,6 +20,7 @@ interface AuthContextType {
   isLoading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signInWithGoogle: () => Promise<{ error: Error | null }>;
+  signInChild: (contactId: string, pin: string) => Promise<{ error: string | null }>;
   signUp: (
     email: string,
     password: string,
@@ -107,6 +113,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
+  // Register this device for reminder push notifications once signed in, and
+  // note its zone for the reminders and feeds the server renders
+  useEffect(() => {
+    if (user?.id) {
+      registerPushToken();
+      recordDeviceTimeZone(user.id);
+    }
+  }, [user?.id]);
+
   // Listen for AppState changes to handle Supabase auto-refresh
   useEffect(() => {
     const handleAppStateChange = (state: string) => {
@@ -132,6 +147,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return { error };
   };
 
+  // Children on a shared tablet sign in with a PIN; the child-accounts function
+  // checks it and hands back a one-time token that becomes the session
+  const signInChild = async (contactId: string, pin: string) => {
+    const { data: tokenHash, error } = await requestChildSignIn(contactId, pin);
+    if (error || !tokenHash) {
+      return { error: error || 'Could not sign in' };
+    }
+
+    const { error: otpError } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: 'magiclink' });
+    return { error: otpError ? otpError.message : null };
+  };
+
   const signInWithGoogle = async () => {
     try {
       // Get the redirect URL for the current platform
@@ -245,6 +272,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = async () => {
     try {
+      await cancelLocalReminders();
+      await stopArrivalGeofences();
+      // Must run while still signed in: RLS only lets users delete their own tokens
+      await unregisterPushToken();
       const { error } = await supabase.auth.signOut();
       if (error) {
         console.error('Error signing out:', error);
@@ -269,6 +300,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         signIn,
         signInWithGoogle,
+        signInChild,
         signUp,
         signOut,
         refreshUserContact,
@@ -1,6 +1,9 @@
 import { Contact, EventParticipant, supabase } from '@/lib/supabase';
-import { getUserContactForFamily } from '@/services/contactService';
+import { getUserContactForFamily, getUserContacts } from '@/services/contactService';
+import { syncPersonalCalendars } from '@/services/calendarSyncService';
 import { EventWithDetails, getEventsForDateRange, getEventsForMonth, getTodayEvents, getUpcomingEvents } from '@/services/eventService';
+import { syncArrivalGeofences } from '@/services/arrivalAlertService';
+import { syncLocalReminders } from '@/services/localReminderService';
 import { getPersonalCalendarEventsForUser, PersonalCalendarEvent } from '@/services/personalCalendarService';
 import * as SecureStore from 'expo-secure-store';
 import React, { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react';
@@ -147,7 +150,7 @@ async function convertPersonalCalendarEventToEventWithDetails(
     // We'll create a modified contact object with the calendar color for this event
     const contactWithCalendarColor: Contact = {
       ...userContact,
-      color: calendarColor, // Use the iOS calendar color
+      color: calendarColor, // Use the personal calendar color
     };
 
     participants.push({
@@ -192,6 +195,7 @@ async function convertPersonalCalendarEventToEventWithDetails(
     drop_off_driver_id: null,
     collection_driver_id: null,
     same_driver: false,
+    needs_transport: false,
     is_recurring: false,
     recurrence_rule: null,
     recurrence_frequency: null,
@@ -205,6 +209,9 @@ async function convertPersonalCalendarEventToEventWithDetails(
     recurrence_count: null,
     recurrence_end_date: null,
     recurrence_week_start: 'MO',
+    source_calendar_id: null,
+    external_event_id: null,
+    external_signature: null,
     created_at: personalEvent.startDate.toISOString(),
     updated_at: personalEvent.startDate.toISOString(),
     category: undefined,
@@ -215,7 +222,7 @@ async function convertPersonalCalendarEventToEventWithDetails(
 }
 
 export function EventCacheProvider({ children }: { children: ReactNode }) {
-  const { currentFamily } = useFamily();
+  const { currentFamily, familyMembers, families } = useFamily();
   const { settings } = useAppSettings();
   const { user } = useAuth();
   const [cache, setCache] = useState<{ [key: string]: CacheEntry }>({});
@@ -225,24 +232,33 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
   const fetchingRef = useRef<Set<string>>(new Set()); // Track keys currently being fetched
   const fetchStartTimeRef = useRef<{ [key: string]: number }>({}); // Track when fetches started
   const cacheLoadedRef = useRef<boolean>(false); // Track if cache has been loaded from storage
+  const calendarSyncRef = useRef<boolean>(false); // Track if a device calendar sync is running
+  const familyIdRef = useRef<string | null>(null); // The family the cache currently holds
 
   // Keep ref in sync with state
   useEffect(() => {
     cacheRef.current = cache;
   }, [cache]);
 
-  // Load cache from storage on mount and when family changes
+  // Load cache from storage on mount and when family changes. Switching family starts
+  // from an empty cache so nothing from the previous family is shown, refetched or
+  // saved under the new family's key.
   useEffect(() => {
+    familyIdRef.current = currentFamily?.id ?? null;
+    setCache({});
+    cacheRef.current = {};
+    fetchingRef.current.clear();
+    fetchStartTimeRef.current = {};
+    cacheLoadedRef.current = false;
     if (!currentFamily) {
-      setCache({});
-      cacheLoadedRef.current = false;
       return;
     }
 
     async function loadCache() {
       if (!currentFamily) return;
+      const familyId = currentFamily.id;
       try {
-        const storageKey = getStorageKey(currentFamily.id);
+        const storageKey = getStorageKey(familyId);
         let raw: string | null = null;
 
         if (Platform.OS === 'web') {
@@ -251,6 +267,9 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
           raw = await SecureStore.getItemAsync(storageKey);
         }
 
+        // Switched again while reading
+        if (familyIdRef.current !== familyId) return;
+
         if (raw) {
           const loaded = deserializeCache(raw);
           const cleaned = cleanOldCacheEntries(loaded);
@@ -283,7 +302,9 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
         console.warn('Failed to load event cache:', err);
       } finally {
         // Mark cache as loaded so auto-fetch can proceed
-        cacheLoadedRef.current = true;
+        if (familyIdRef.current === familyId) {
+          cacheLoadedRef.current = true;
+        }
       }
     }
 
@@ -359,6 +380,8 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
       }
     }
 
+    const familyId = currentFamily.id;
+
     // Immediately mark as fetching before any async operations
     fetchingRef.current.add(key);
     fetchStartTimeRef.current[key] = Date.now();
@@ -430,8 +453,8 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
         }
       }
 
-      // On iOS, also fetch personal calendar events
-      if (Platform.OS === 'ios' && user && startDate && endDate) {
+      // Also fetch personal calendar events (device calendars are skipped where unreadable)
+      if (user && startDate && endDate) {
         try {
           const { data: personalEvents, error: personalError } = await getPersonalCalendarEventsForUser(
             user.id,
@@ -450,13 +473,13 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
                   event,
                   user.id,
                   currentFamily.id,
-                  event.calendarColor // Pass the iOS calendar color
+                  event.calendarColor // Pass the personal calendar color
                 )
               )
             );
             // Combine with Supabase events
             events = [...events, ...convertedPersonalEvents];
-            console.log(`[EventCache] Added ${personalEvents.length} iOS calendar events to ${key}`);
+            console.log(`[EventCache] Added ${personalEvents.length} personal calendar events to ${key}`);
           } else if (personalError) {
             console.warn(`[EventCache] Error fetching personal calendar events:`, personalError);
           }
@@ -465,6 +488,10 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
           // Continue with Supabase events even if personal calendar fetch fails
         }
       }
+      // The family was switched while fetching; these events belong to the old one
+      if (familyIdRef.current !== familyId) {
+        return;
+      }
       setCache(prev => ({
         ...prev,
         [key]: {
@@ -477,6 +504,9 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
       delete fetchStartTimeRef.current[key]; // Clear fetch start time
     } catch (err) {
       console.error(`[EventCache] Error fetching events for key ${key}:`, err);
+      if (familyIdRef.current !== familyId) {
+        return;
+      }
       // Keep stale cache if available, but mark as not loading
       setCache(prev => ({
         ...prev,
@@ -702,6 +732,45 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
           }, 100);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'event_exceptions',
+        },
+        (payload) => {
+          console.log('Event exception change detected:', payload.eventType);
+
+          // Exceptions cancel or move individual occurrences of a recurring event,
+          // which can affect any cached range
+          invalidateCache();
+
+          setTimeout(() => {
+            fetchEventsForKey('today', true);
+            fetchEventsForKey('upcoming', true);
+          }, 100);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'event_reminders',
+          ...(user?.id ? { filter: `user_id=eq.${user.id}` } : {}),
+        },
+        (payload) => {
+          console.log('Event reminder change detected:', payload.eventType);
+
+          // Reminders are embedded in the upcoming events, which drive local notifications
+          invalidateCache(['upcoming']);
+
+          setTimeout(() => {
+            fetchEventsForKey('upcoming', true);
+          }, 100);
+        }
+      )
       .subscribe((status) => {
         console.log('Realtime subscription status:', status);
       });
@@ -714,7 +783,57 @@ export function EventCacheProvider({ children }: { children: ReactNode }) {
         realtimeSubscriptionRef.current = null;
       }
     };
-  }, [currentFamily?.id, invalidateCache, fetchEventsForKey]);
+  }, [currentFamily?.id, user?.id, invalidateCache, fetchEventsForKey]);
+
+  // Keep on-device reminder notifications in step with the upcoming events. Any change
+  // (invalidateCache, realtime, refetch) replaces this entry, which reschedules them;
+  // reminders for deleted events or occurrences are cancelled.
+  const upcomingEntry = cache['upcoming'];
+  // The signed-in user's contact here; arrival alerts are switched on per contact
+  const ownContact = familyMembers.find((member) => member.contact.user_id === user?.id)?.contact ?? null;
+  useEffect(() => {
+    if (!user?.id || !upcomingEntry || upcomingEntry.isLoading) {
+      return;
+    }
+
+    // The device covers all of the user's families, not just the one on screen:
+    // send-reminders leaves every reminder up to the synced horizon to it, and the
+    // user arrives at other families' events too. The other families are fetched here.
+    let cancelled = false;
+    const otherFamilies = families.filter((family) => family.id !== currentFamily?.id);
+    Promise.all([
+      Promise.all(otherFamilies.map((family) => getUpcomingEvents(family.id))),
+      getUserContacts(user.id),
+    ]).then(([results, contactsResult]) => {
+      // Syncing a partial set would cancel the missing families' reminders
+      if (cancelled || contactsResult.error || results.some((result) => result.error)) {
+        return;
+      }
+      const events = [...upcomingEntry.events, ...results.flatMap((result) => result.data ?? [])];
+      const ownContacts = contactsResult.data ?? [];
+      // The lifts they're driving, as any of their contacts
+      syncLocalReminders(events, user.id, ownContacts.map((contact) => contact.id));
+      // Geofences follow the same events, for each family they've opted in to arrival alerts in
+      syncArrivalGeofences(events, ownContacts);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [upcomingEntry, user?.id, families, currentFamily?.id, ownContact]);
+
+  // Two-way device calendar sync runs on the same triggers (including coming back to
+  // the foreground, after edits in the Calendar app). Edits it pulls in change events,
+  // which refreshes this entry once more; that run finds nothing left to do.
+  useEffect(() => {
+    if (!user?.id || !currentFamily?.id || !upcomingEntry || upcomingEntry.isLoading || calendarSyncRef.current) {
+      return;
+    }
+    calendarSyncRef.current = true;
+    syncPersonalCalendars(user.id, currentFamily.id).finally(() => {
+      calendarSyncRef.current = false;
+    });
+  }, [upcomingEntry, user?.id, currentFamily?.id]);
 
   // Set up background refresh interval
   useEffect(() => {
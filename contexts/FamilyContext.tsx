@@ -1,5 +1,8 @@
-import { Contact, Family, FamilyMember } from '@/lib/supabase';
+import { Contact, EventEditPermission, Family, FamilyMember, FamilyRole } from '@/lib/supabase';
 import { getFamilyContacts, getFamilyMembers, getUserFamilies } from '@/services/familyService';
+import { MEMBER_COLORS } from '@/utils/colorUtils';
+import { canEditEvent as canEditEventForRole } from '@/utils/eventPermissions';
+import * as SecureStore from 'expo-secure-store';
 import React, { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
 import { AppState, Platform } from 'react-native';
 import { useAuth } from './AuthContext';
@@ -16,6 +19,13 @@ interface FamilyContextType {
   // All user's families
   families: Family[];
 
+  // Merged "all my families" calendar (only meaningful with more than one family)
+  showAllFamilies: boolean;
+  setShowAllFamilies: (value: boolean) => void;
+
+  // Colour identifying a family in the merged calendar and the switcher
+  getFamilyColor: (familyId: string) => string;
+
   // Family members with contacts
   familyMembers: FamilyMemberWithContact[];
 
@@ -38,26 +48,70 @@ interface FamilyContextType {
   getContactById: (id: string) => Contact | undefined;
 
   // Get user's role in current family
-  userRole: 'owner' | 'admin' | 'member' | null;
+  userRole: FamilyRole | null;
+
+  // Whether the user can edit, move or delete a current-family event
+  canEditEvent: (createdBy?: string | null, editPermission?: EventEditPermission | null) => boolean;
 }
 
 const FamilyContext = createContext<FamilyContextType | undefined>(undefined);
 
+// The family last selected on this device, restored on the next launch
+const CURRENT_FAMILY_KEY = 'familycal_current_family_id';
+
+async function loadStoredFamilyId(): Promise<string | null> {
+  try {
+    if (Platform.OS === 'web') {
+      return window.localStorage.getItem(CURRENT_FAMILY_KEY);
+    }
+    return await SecureStore.getItemAsync(CURRENT_FAMILY_KEY);
+  } catch (e) {
+    console.warn('Failed to load selected family', e);
+    return null;
+  }
+}
+
+async function storeFamilyId(familyId: string | null): Promise<void> {
+  try {
+    if (Platform.OS === 'web') {
+      if (familyId) window.localStorage.setItem(CURRENT_FAMILY_KEY, familyId);
+      else window.localStorage.removeItem(CURRENT_FAMILY_KEY);
+    } else if (familyId) {
+      await SecureStore.setItemAsync(CURRENT_FAMILY_KEY, familyId);
+    } else {
+      await SecureStore.deleteItemAsync(CURRENT_FAMILY_KEY);
+    }
+  } catch (e) {
+    console.warn('Failed to save selected family', e);
+  }
+}
+
 export function FamilyProvider({ children }: { children: ReactNode }) {
   const { user, userContact, isLoading: isAuthLoading } = useAuth();
 
-  const [currentFamily, setCurrentFamily] = useState<Family | null>(null);
+  const [currentFamily, setCurrentFamilyState] = useState<Family | null>(null);
   const [families, setFamilies] = useState<Family[]>([]);
+  const [showAllFamilies, setShowAllFamilies] = useState(false);
   const [familyMembers, setFamilyMembers] = useState<FamilyMemberWithContact[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingMembers, setIsLoadingMembers] = useState(false);
 
+  // Select a family (remembered on this device). Signing out clears the selection
+  // in memory only, so the same user comes back to the same family.
+  const setCurrentFamily = useCallback((family: Family | null) => {
+    setCurrentFamilyState(family);
+    if (family) {
+      storeFamilyId(family.id);
+    }
+  }, []);
+
   // Fetch user's families
   const refreshFamilies = useCallback(async () => {
     if (!user) {
       setFamilies([]);
-      setCurrentFamily(null);
+      setCurrentFamilyState(null);
+      setShowAllFamilies(false);
       setIsLoading(false);
       return;
     }
@@ -69,18 +123,26 @@ export function FamilyProvider({ children }: { children: ReactNode }) {
       if (error) {
         console.error('Error fetching families:', error);
         setFamilies([]);
-        setCurrentFamily(null);
+        setCurrentFamilyState(null);
       } else if (data) {
-        setFamilies(data);
+        // Oldest first, so the order (and each family's colour) stays put
+        const sorted = [...data].sort((a, b) => a.created_at.localeCompare(b.created_at));
+        setFamilies(sorted);
+        if (sorted.length < 2) {
+          setShowAllFamilies(false);
+        }
 
-        // Auto-select first family if none selected
-        if (!currentFamily && data.length > 0) {
-          setCurrentFamily(data[0]);
+        if (!currentFamily && sorted.length > 0) {
+          // Restore the family last used on this device, else the first one
+          const storedId = await loadStoredFamilyId();
+          setCurrentFamilyState(sorted.find(f => f.id === storedId) || sorted[0]);
         } else if (currentFamily) {
-          // Verify current family still exists
-          const stillExists = data.find(f => f.id === currentFamily.id);
-          if (!stillExists) {
-            setCurrentFamily(data[0] || null);
+          // Verify current family still exists, and pick up any changes to it (e.g. a rename)
+          const latest = sorted.find(f => f.id === currentFamily.id);
+          if (!latest) {
+            setCurrentFamily(sorted[0] || null);
+          } else if (latest.updated_at !== currentFamily.updated_at) {
+            setCurrentFamilyState(latest);
           }
         }
       }
@@ -143,13 +205,16 @@ export function FamilyProvider({ children }: { children: ReactNode }) {
     }
   }, [user, isAuthLoading]);
 
-  // Effect: Fetch members when family changes
+  // Effect: Fetch members when family changes. Clear the previous family's first, so
+  // nothing pairs them with the new family's events while they load.
   useEffect(() => {
+    setFamilyMembers([]);
+    setContacts([]);
     if (currentFamily) {
       refreshMembers();
       refreshContacts();
     }
-  }, [currentFamily]);
+  }, [currentFamily?.id]);
 
   // Refresh data when app comes back into focus (web and native)
   useEffect(() => {
@@ -222,9 +287,21 @@ export function FamilyProvider({ children }: { children: ReactNode }) {
       familyMembersCount: familyMembers.length
     });
 
-    return membership?.role || null;
+    // Memberships from before roles were required count as 'member'
+    return membership ? membership.role || 'member' : null;
   }, [user, userContact, familyMembers, currentFamily]);
 
+  const canEditEvent = useCallback(
+    (createdBy?: string | null, editPermission?: EventEditPermission | null) =>
+      canEditEventForRole(userRole, user?.id, createdBy, editPermission),
+    [userRole, user]
+  );
+
+  const getFamilyColor = useCallback((familyId: string): string => {
+    const index = families.findIndex(f => f.id === familyId);
+    return MEMBER_COLORS[Math.max(0, index) % MEMBER_COLORS.length];
+  }, [families]);
+
   const hasFamily = families.length > 0;
 
   return (
@@ -233,6 +310,9 @@ export function FamilyProvider({ children }: { children: ReactNode }) {
         currentFamily,
         setCurrentFamily,
         families,
+        showAllFamilies,
+        setShowAllFamilies,
+        getFamilyColor,
         familyMembers,
         contacts,
         isLoading,
@@ -243,6 +323,7 @@ export function FamilyProvider({ children }: { children: ReactNode }) {
         hasFamily,
         getContactById,
         userRole,
+        canEditEvent,
       }}>
       {children}
     </FamilyContext.Provider>
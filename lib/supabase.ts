@@ -84,15 +84,19 @@ export interface Contact {
   invitation_sent_at: string | null;
   invitation_accepted_at: string | null;
   routines_enabled: boolean;
+  arrival_alerts_enabled: boolean; // Consent to share arrivals at and departures from event locations
   created_at: string;
   updated_at: string;
 }
 
+// Children can view the calendar but only edit events that allow it (see utils/eventPermissions.ts)
+export type FamilyRole = 'owner' | 'admin' | 'member' | 'child';
+
 export interface FamilyMember {
   id: string;
   family_id: string;
   contact_id: string;
-  role: 'owner' | 'admin' | 'member' | null;
+  role: FamilyRole | null;
   joined_at: string;
   added_by: string | null;
   contact?: Contact;
@@ -118,6 +122,19 @@ export interface FamilyInvitation {
   updated_at: string;
 }
 
+export interface FamilyJoinLink {
+  id: string;
+  family_id: string;
+  created_by: string;
+  token: string;
+  max_uses: number;
+  use_count: number;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface EventCategory {
   id: string;
   family_id: string;
@@ -126,6 +143,9 @@ export interface EventCategory {
   created_at: string;
 }
 
+// family: anyone in the family; adults: children can view but not edit; organiser: only whoever created it
+export type EventEditPermission = 'family' | 'adults' | 'organiser';
+
 export interface Event {
   id: string;
   family_id: string;
@@ -155,6 +175,8 @@ export interface Event {
   drop_off_driver_id: string | null;
   collection_driver_id: string | null;
   same_driver: boolean;
+  needs_transport: boolean; // Shown on the driver rota even before a driver is assigned
+  edit_permission: EventEditPermission; // Who besides the organiser (created_by) and admins can edit
   is_recurring: boolean;
   recurrence_rule: string | null;
   recurrence_frequency: 'daily' | 'weekly' | 'monthly' | 'yearly' | null;
@@ -168,6 +190,9 @@ export interface Event {
   recurrence_count: number | null;
   recurrence_end_date: string | null;
   recurrence_week_start: string;
+  source_calendar_id: string | null; // Set on imported events
+  external_event_id: string | null;
+  external_signature: string | null;
   created_at: string;
   updated_at: string;
   category?: EventCategory;
@@ -209,6 +234,7 @@ export interface EventException {
   start_time: string | null;
   end_time: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 export interface UserPreferences {
@@ -221,6 +247,9 @@ export interface UserPreferences {
   default_maps_app?: 'apple' | 'google' | 'waze';
   appearance?: 'light' | 'dark' | 'system';
   family_calendar_color?: string;
+  calendar_token?: string | null;
+  calendar_token_family_ids?: string[] | null; // null = every family the user belongs to
+  timezone?: string | null; // Zone of the device the user last opened the app on
   created_at: string;
   updated_at: string;
 }
@@ -263,3 +292,31 @@ export interface RoutineCompletion {
   completion_date: string;
   created_at: string;
 }
+
+export type ListType = 'shopping' | 'packing' | 'todo';
+
+export interface FamilyList {
+  id: string;
+  family_id: string;
+  title: string;
+  list_type: ListType;
+  sort_order: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  items?: ListItem[];
+}
+
+export interface ListItem {
+  id: string;
+  list_id: string;
+  family_id: string; // Copied from the list so realtime can filter by family
+  title: string;
+  quantity: number;
+  is_checked: boolean;
+  checked_at: string | null;
+  assignee_contact_id: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,71 @@
+-- Arrival and departure alerts. A member who has opted in has their device watch
+-- the locations of their current events; crossing a geofence records a row here,
+-- and the notify-arrival edge function pushes it to the rest of the family.
+
+-- Consent, set per member from their profile. Their device still has to grant
+-- background location before anything is recorded.
+ALTER TABLE contacts
+    ADD COLUMN IF NOT EXISTS arrival_alerts_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS arrival_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+    contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    -- Kept so the history still reads right after the event is edited or deleted
+    event_title TEXT NOT NULL,
+    location_name TEXT,
+    kind TEXT NOT NULL CHECK (kind IN ('arrived', 'left')),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_arrival_events_contact_id ON arrival_events(contact_id, occurred_at DESC);
+
+ALTER TABLE arrival_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Family members can view arrivals" ON arrival_events
+    FOR SELECT USING (
+        family_id IN (
+            SELECT fm.family_id FROM family_members fm
+            JOIN contacts c ON c.id = fm.contact_id
+            WHERE c.user_id = auth.uid()
+        )
+    );
+
+-- Only a member's own device records their arrivals, and only with consent. The
+-- row has to be for that contact's family, and for an event in it.
+DROP POLICY IF EXISTS "Members can record own arrivals" ON arrival_events;
+CREATE POLICY "Members can record own arrivals" ON arrival_events
+    FOR INSERT WITH CHECK (
+        contact_id IN (
+            SELECT id FROM contacts
+            WHERE user_id = auth.uid() AND arrival_alerts_enabled
+        )
+        AND family_id = (SELECT c.family_id FROM contacts c WHERE c.id = arrival_events.contact_id)
+        AND (
+            event_id IS NULL
+            OR event_id IN (SELECT e.id FROM events e WHERE e.family_id = arrival_events.family_id)
+        )
+    );
+
+-- Push each new arrival to the family (requires the pg_net extension).
+-- Replace the project ref and service role key; the function rejects other callers.
+--
+-- CREATE OR REPLACE FUNCTION notify_arrival() RETURNS trigger AS $$
+-- BEGIN
+--     PERFORM net.http_post(
+--         url := 'https://<project-ref>.supabase.co/functions/v1/notify-arrival',
+--         headers := jsonb_build_object(
+--             'Content-Type', 'application/json',
+--             'Authorization', 'Bearer <service-role-key>'
+--         ),
+--         body := jsonb_build_object('record', row_to_json(NEW))
+--     );
+--     RETURN NEW;
+-- END;
+-- $$ LANGUAGE plpgsql SECURITY DEFINER;
+--
+-- CREATE TRIGGER on_arrival_event_insert
+--     AFTER INSERT ON arrival_events
+--     FOR EACH ROW EXECUTE FUNCTION notify_arrival();
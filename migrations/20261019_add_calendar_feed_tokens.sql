@@ -0,0 +1,73 @@
+-- Named calendar feed tokens, each scoped to a subset of the family's events.
+-- The original user_preferences.calendar_token keeps serving the whole family.
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    token UUID NOT NULL UNIQUE DEFAULT uuid_generate_v4(),
+    -- NULL means no restriction; otherwise events with any of these participants/categories
+    contact_ids UUID[],
+    category_ids UUID[],
+    -- full: everything; titles_only: no description or location; busy: times only
+    privacy TEXT NOT NULL DEFAULT 'full' CHECK (privacy IN ('full', 'titles_only', 'busy')),
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_user_id ON calendar_feed_tokens(user_id);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own feed tokens" ON calendar_feed_tokens
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create feed tokens for their families" ON calendar_feed_tokens
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid() AND
+        family_id IN (
+            SELECT fm.family_id FROM family_members fm
+            JOIN contacts c ON c.id = fm.contact_id
+            WHERE c.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update own feed tokens" ON calendar_feed_tokens
+    FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can revoke own feed tokens" ON calendar_feed_tokens
+    FOR DELETE USING (user_id = auth.uid());
+
+CREATE TRIGGER update_calendar_feed_tokens_updated_at
+    BEFORE UPDATE ON calendar_feed_tokens
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Replace a feed token's secret, invalidating links already handed out
+CREATE OR REPLACE FUNCTION regenerate_calendar_feed_token(p_token_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_new_token UUID;
+BEGIN
+    v_new_token := uuid_generate_v4();
+
+    UPDATE calendar_feed_tokens
+    SET token = v_new_token,
+        last_accessed_at = NULL,
+        updated_at = NOW()
+    WHERE id = p_token_id
+      AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Feed token not found';
+    END IF;
+
+    RETURN v_new_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION regenerate_calendar_feed_token(UUID) TO authenticated;
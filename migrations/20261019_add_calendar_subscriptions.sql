@@ -0,0 +1,19 @@
+-- Personal calendars can also be subscriptions to an external ICS URL (webcal/https),
+-- fetched through the fetch-ics edge function and shown as read-only overlays.
+-- calendar_id holds the device calendar id for device calendars and the URL for subscriptions.
+
+ALTER TABLE personal_calendars
+    ADD COLUMN IF NOT EXISTS calendar_type TEXT NOT NULL DEFAULT 'device'
+        CHECK (calendar_type IN ('device', 'subscription')),
+    ADD COLUMN IF NOT EXISTS subscription_url TEXT,
+    ADD COLUMN IF NOT EXISTS refresh_interval_minutes INTEGER NOT NULL DEFAULT 60
+        CHECK (refresh_interval_minutes >= 15),
+    ADD COLUMN IF NOT EXISTS last_refreshed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS last_refresh_error TEXT;
+
+ALTER TABLE personal_calendars
+    DROP CONSTRAINT IF EXISTS personal_calendars_subscription_url_check;
+
+ALTER TABLE personal_calendars
+    ADD CONSTRAINT personal_calendars_subscription_url_check
+        CHECK (calendar_type <> 'subscription' OR subscription_url IS NOT NULL);
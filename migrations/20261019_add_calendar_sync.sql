@@ -0,0 +1,67 @@
+-- Two-way sync between family events and a device calendar, opted into per
+-- personal calendar. Family events for the chosen members are written into the
+-- device calendar; edits made there flow back. See services/calendarSyncService.ts.
+
+ALTER TABLE personal_calendars
+    ADD COLUMN IF NOT EXISTS sync_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    -- NULL means events of every member
+    ADD COLUMN IF NOT EXISTS sync_contact_ids UUID[],
+    -- last_writer_wins: the side changed most recently wins; ask: the user decides
+    ADD COLUMN IF NOT EXISTS sync_conflict_policy TEXT NOT NULL DEFAULT 'last_writer_wins'
+        CHECK (sync_conflict_policy IN ('last_writer_wins', 'ask')),
+    ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMP WITH TIME ZONE;
+
+-- One row per event occurrence written to a device calendar
+CREATE TABLE IF NOT EXISTS calendar_sync_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    personal_calendar_id UUID NOT NULL REFERENCES personal_calendars(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Nulled when the event is deleted, so the device copy can be removed on the next sync
+    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    -- Original start of a recurring event's occurrence; '' for one-off events
+    occurrence_key TEXT NOT NULL DEFAULT '',
+    device_event_id TEXT NOT NULL,
+    -- Fingerprint of the fields both sides agreed on at the last sync
+    synced_signature TEXT NOT NULL,
+    synced_start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- Set when both sides changed and the calendar's policy is 'ask': the device's version
+    conflict_device_version JSONB,
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_sync_links_occurrence
+    ON calendar_sync_links(personal_calendar_id, event_id, occurrence_key);
+CREATE INDEX IF NOT EXISTS idx_calendar_sync_links_calendar ON calendar_sync_links(personal_calendar_id);
+
+ALTER TABLE calendar_sync_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own sync links" ON calendar_sync_links
+    FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- What each sync did, shown to the user
+CREATE TABLE IF NOT EXISTS calendar_sync_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    personal_calendar_id UUID NOT NULL REFERENCES personal_calendars(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    event_title TEXT,
+    direction TEXT NOT NULL CHECK (direction IN ('to_device', 'from_device')),
+    action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted', 'conflict', 'error')),
+    message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_sync_log_calendar
+    ON calendar_sync_log(personal_calendar_id, created_at DESC);
+
+ALTER TABLE calendar_sync_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own sync log" ON calendar_sync_log
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can write own sync log" ON calendar_sync_log
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can clear own sync log" ON calendar_sync_log
+    FOR DELETE USING (user_id = auth.uid());
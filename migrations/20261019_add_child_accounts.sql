@@ -0,0 +1,147 @@
+-- Child accounts: children sign in on a shared tablet with a PIN (through the
+-- child-accounts edge function) and get a restricted view of the family. They
+-- see only their own events and routines, can tick off their routine items and
+-- can't change routines or contacts. Events follow their edit_permission like
+-- anyone else's: a child can change the ones they see that are open to everyone
+-- in the family, and none marked for adults or the organiser only (see
+-- 20261019_restrict_child_access.sql). Builds on the 'child' role and
+-- family_role() from 20261019_add_event_permissions.sql.
+
+-- One row per child with sign-in. Only the edge function (service role) reads or
+-- writes it, so there are no client policies.
+CREATE TABLE IF NOT EXISTS child_accounts (
+    contact_id UUID PRIMARY KEY REFERENCES contacts(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    pin_hash TEXT NOT NULL,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    last_sign_in_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE child_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_child_accounts_updated_at BEFORE UPDATE ON child_accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Count a PIN attempt before the PIN is checked, in one statement so guesses sent
+-- in parallel can't all read the same count. Returns FALSE while the account is
+-- locked. The count is only cleared by a correct PIN or a new one from a parent.
+-- Every p_max_attempts wrong PINs lock the account, each lockout four times
+-- longer than the last, and after p_max_lockouts of them it stays locked until a
+-- parent sets a new PIN.
+DROP FUNCTION IF EXISTS count_child_pin_attempt(UUID, INTEGER, INTERVAL);
+CREATE OR REPLACE FUNCTION count_child_pin_attempt(
+    p_contact_id UUID,
+    p_max_attempts INTEGER,
+    p_lockout INTERVAL,
+    p_max_lockouts INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE child_accounts
+    SET failed_attempts = failed_attempts + 1,
+        locked_until = CASE
+            WHEN failed_attempts + 1 >= p_max_attempts * p_max_lockouts THEN 'infinity'::TIMESTAMPTZ
+            WHEN (failed_attempts + 1) % p_max_attempts = 0
+                THEN NOW() + p_lockout * power(4, (failed_attempts + 1) / p_max_attempts - 1)
+            ELSE locked_until
+        END
+    WHERE contact_id = p_contact_id
+      AND (locked_until IS NULL OR locked_until <= NOW());
+
+    RETURN FOUND;
+END;
+$$;
+
+-- Only the edge function (service role) counts attempts
+REVOKE EXECUTE ON FUNCTION count_child_pin_attempt(UUID, INTEGER, INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- A child sees events they're on, and family events nobody in particular is on.
+-- SECURITY DEFINER so the events policy can look at participants without the
+-- participants policy looking back at events.
+CREATE OR REPLACE FUNCTION is_own_or_family_event(p_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT NOT EXISTS (
+        SELECT 1 FROM event_participants ep WHERE ep.event_id = p_event_id
+    ) OR EXISTS (
+        SELECT 1 FROM event_participants ep
+        JOIN contacts c ON c.id = ep.contact_id
+        WHERE ep.event_id = p_event_id AND c.user_id = auth.uid()
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_own_or_family_event(UUID) TO authenticated;
+
+DROP POLICY IF EXISTS "Users can view family events" ON events;
+CREATE POLICY "Users can view family events" ON events
+    FOR SELECT USING (
+        family_role(family_id) IN ('owner', 'admin', 'member') OR
+        (family_role(family_id) = 'child' AND is_own_or_family_event(id))
+    );
+
+-- Children keep their hands off other people's contact details
+DROP POLICY IF EXISTS "Users can manage family contacts" ON contacts;
+CREATE POLICY "Users can manage family contacts" ON contacts
+    FOR ALL USING (family_role(family_id) IN ('owner', 'admin', 'member'));
+
+-- Routines: children see the family's shared routines and their own, and only
+-- tick items off; setting routines up is for the grown-ups
+DROP POLICY IF EXISTS "Users can view family routines" ON routines;
+CREATE POLICY "Users can view family routines" ON routines
+    FOR SELECT USING (
+        family_role(family_id) IN ('owner', 'admin', 'member') OR
+        (
+            family_role(family_id) = 'child' AND (
+                contact_id IS NULL OR
+                contact_id IN (SELECT c.id FROM contacts c WHERE c.user_id = auth.uid())
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can manage routines" ON routines;
+CREATE POLICY "Users can manage routines" ON routines
+    FOR ALL USING (family_role(family_id) IN ('owner', 'admin', 'member'));
+
+-- Items and completions follow whichever routines the user can see
+DROP POLICY IF EXISTS "Users can view routine items" ON routine_items;
+CREATE POLICY "Users can view routine items" ON routine_items
+    FOR SELECT USING (routine_id IN (SELECT r.id FROM routines r));
+
+DROP POLICY IF EXISTS "Users can manage routine items" ON routine_items;
+CREATE POLICY "Users can manage routine items" ON routine_items
+    FOR ALL USING (
+        routine_id IN (
+            SELECT r.id FROM routines r WHERE family_role(r.family_id) IN ('owner', 'admin', 'member')
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can view routine completions" ON routine_completions;
+CREATE POLICY "Users can view routine completions" ON routine_completions
+    FOR SELECT USING (item_id IN (SELECT ri.id FROM routine_items ri));
+
+DROP POLICY IF EXISTS "Users can manage routine completions" ON routine_completions;
+CREATE POLICY "Users can manage routine completions" ON routine_completions
+    FOR ALL USING (
+        item_id IN (
+            SELECT ri.id FROM routine_items ri
+            JOIN routines r ON r.id = ri.routine_id
+            WHERE family_role(r.family_id) IN ('owner', 'admin', 'member')
+        )
+    );
+
+DROP POLICY IF EXISTS "Children can tick off their routine items" ON routine_completions;
+CREATE POLICY "Children can tick off their routine items" ON routine_completions
+    FOR ALL USING (
+        contact_id IN (SELECT c.id FROM contacts c WHERE c.user_id = auth.uid()) AND
+        item_id IN (SELECT ri.id FROM routine_items ri)
+    );
@@ -0,0 +1,15 @@
+-- Weekly driver rota. Events can be marked as needing a lift before anyone is
+-- assigned, single occurrences of a recurring event can have their own drivers,
+-- and a feed token can serve one driver's lifts to someone outside the family.
+
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS needs_transport BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- NULL keeps the series' driver for that leg
+ALTER TABLE event_exceptions
+    ADD COLUMN IF NOT EXISTS drop_off_driver_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS collection_driver_id UUID REFERENCES contacts(id) ON DELETE SET NULL;
+
+-- Set for a driver's agenda: only the lifts this contact gives, with locations but no notes
+ALTER TABLE calendar_feed_tokens
+    ADD COLUMN IF NOT EXISTS driver_contact_id UUID REFERENCES contacts(id) ON DELETE CASCADE;
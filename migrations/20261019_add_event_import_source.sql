@@ -0,0 +1,15 @@
+-- Imported events remember where they came from, so re-running an import updates
+-- them instead of creating duplicates.
+--   source_calendar_id: device calendar id, or 'ics:<name>' for .ics files
+--   external_event_id:  the source's event id (iOS event id / ICS UID)
+--   external_signature: fingerprint of the source fields at the last import, to
+--                       tell changed source events from unchanged ones
+
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS source_calendar_id TEXT,
+    ADD COLUMN IF NOT EXISTS external_event_id TEXT,
+    ADD COLUMN IF NOT EXISTS external_signature TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_import_source
+    ON events(family_id, source_calendar_id, external_event_id)
+    WHERE source_calendar_id IS NOT NULL AND external_event_id IS NOT NULL;
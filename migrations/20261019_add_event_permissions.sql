@@ -0,0 +1,165 @@
+-- Who can change family events. Owners and admins can edit and delete anything;
+-- members can edit any event unless its organiser restricted it; children can
+-- only edit events they organised or that are left open to the whole family.
+-- Mirrored client-side by utils/eventPermissions.ts.
+
+-- Children are family members with a restricted role
+ALTER TABLE family_members DROP CONSTRAINT IF EXISTS family_members_role_check;
+ALTER TABLE family_members
+    ADD CONSTRAINT family_members_role_check CHECK (role IN ('owner', 'admin', 'member', 'child'));
+
+ALTER TABLE family_invitations DROP CONSTRAINT IF EXISTS family_invitations_role_check;
+ALTER TABLE family_invitations
+    ADD CONSTRAINT family_invitations_role_check CHECK (role IN ('admin', 'member', 'child'));
+
+-- Per-event restriction, chosen by the organiser (created_by):
+--   family    - anyone in the family, children included
+--   adults    - children can view but not edit
+--   organiser - only the organiser (and owners/admins)
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS edit_permission TEXT NOT NULL DEFAULT 'family'
+        CHECK (edit_permission IN ('family', 'adults', 'organiser'));
+
+-- The signed-in user's role in a family, NULL if they aren't in it.
+-- Memberships from before roles were required count as 'member'.
+CREATE OR REPLACE FUNCTION family_role(p_family_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT COALESCE(fm.role, 'member')
+    FROM family_members fm
+    JOIN contacts c ON c.id = fm.contact_id
+    WHERE c.user_id = auth.uid() AND fm.family_id = p_family_id
+    ORDER BY CASE fm.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 WHEN 'child' THEN 3 ELSE 2 END
+    LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_event(p_family_id UUID, p_created_by UUID, p_edit_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_role TEXT := family_role(p_family_id);
+BEGIN
+    IF v_role IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    IF v_role IN ('owner', 'admin') OR p_created_by = auth.uid() THEN
+        RETURN TRUE;
+    END IF;
+
+    IF p_edit_permission = 'organiser' THEN
+        RETURN FALSE;
+    END IF;
+
+    RETURN v_role <> 'child' OR p_edit_permission = 'family';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION family_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_event(UUID, UUID, TEXT) TO authenticated;
+
+-- Events are created as the signed-in user
+DROP POLICY IF EXISTS "Users can create events" ON events;
+CREATE POLICY "Users can create events" ON events
+    FOR INSERT WITH CHECK (
+        created_by = auth.uid() AND
+        family_role(family_id) IS NOT NULL
+    );
+
+-- The check runs against the new row too, so an event can't be moved to a
+-- family, or locked down in a way, the user couldn't edit afterwards
+DROP POLICY IF EXISTS "Users can update their family events" ON events;
+CREATE POLICY "Users can update their family events" ON events
+    FOR UPDATE
+    USING (can_edit_event(family_id, created_by, edit_permission))
+    WITH CHECK (can_edit_event(family_id, created_by, edit_permission));
+
+DROP POLICY IF EXISTS "Users can delete their family events" ON events;
+CREATE POLICY "Users can delete their family events" ON events
+    FOR DELETE USING (can_edit_event(family_id, created_by, edit_permission));
+
+-- Only the organiser or an owner/admin can change who may edit, or hand the event to someone else
+CREATE OR REPLACE FUNCTION guard_event_permission_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (NEW.edit_permission IS DISTINCT FROM OLD.edit_permission OR NEW.created_by IS DISTINCT FROM OLD.created_by)
+        AND auth.uid() IS NOT NULL
+        AND OLD.created_by IS DISTINCT FROM auth.uid()
+        AND COALESCE(family_role(OLD.family_id), '') NOT IN ('owner', 'admin')
+    THEN
+        RAISE EXCEPTION 'Only the organiser can change who can edit this event';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_event_permission_changes ON events;
+CREATE TRIGGER guard_event_permission_changes BEFORE UPDATE ON events
+    FOR EACH ROW EXECUTE FUNCTION guard_event_permission_changes();
+
+-- Occurrence overrides and cancellations follow the parent event
+DROP POLICY IF EXISTS "Users can manage event exceptions" ON event_exceptions;
+CREATE POLICY "Users can view event exceptions" ON event_exceptions
+    FOR SELECT USING (
+        event_id IN (
+            SELECT e.id FROM events e WHERE e.family_id IN (
+                SELECT fm.family_id
+                FROM family_members fm
+                JOIN contacts c ON c.id = fm.contact_id
+                WHERE c.user_id = auth.uid()
+            )
+        )
+    );
+
+CREATE POLICY "Users can manage event exceptions" ON event_exceptions
+    FOR ALL USING (
+        event_id IN (
+            SELECT e.id FROM events e WHERE can_edit_event(e.family_id, e.created_by, e.edit_permission)
+        )
+    );
+
+-- So does the guest list, except that everyone can answer their own invitation
+DROP POLICY IF EXISTS "Users can manage event participants" ON event_participants;
+CREATE POLICY "Users can manage event participants" ON event_participants
+    FOR ALL USING (
+        event_id IN (
+            SELECT e.id FROM events e WHERE can_edit_event(e.family_id, e.created_by, e.edit_permission)
+        )
+    );
+
+CREATE POLICY "Users can respond to their invitations" ON event_participants
+    FOR UPDATE USING (
+        contact_id IN (SELECT c.id FROM contacts c WHERE c.user_id = auth.uid())
+    );
+
+-- Answering only changes the answer: someone who can't edit the event can't move
+-- their row to another event (or change anything else about it) along the way
+CREATE OR REPLACE FUNCTION guard_participant_responses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (to_jsonb(NEW) - 'status' - 'responded_at' - 'updated_at')
+            IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'responded_at' - 'updated_at')
+        AND NOT EXISTS (
+            SELECT 1 FROM events e
+            WHERE e.id = OLD.event_id AND can_edit_event(e.family_id, e.created_by, e.edit_permission)
+        )
+    THEN
+        RAISE EXCEPTION 'Only the answer to an invitation can be changed';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_participant_responses ON event_participants;
+CREATE TRIGGER guard_participant_responses BEFORE UPDATE ON event_participants
+    FOR EACH ROW EXECUTE FUNCTION guard_participant_responses();
@@ -0,0 +1,14 @@
+-- When an occurrence override last changed. Overrides are upserted in place, so
+-- created_at only says when the occurrence was first changed; the calendar feed's
+-- DTSTAMP/LAST-MODIFIED, the reminder sender's check for stale local reminders and
+-- device calendar sync all need the latest change.
+
+ALTER TABLE event_exceptions
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Existing overrides haven't been changed since we can tell
+UPDATE event_exceptions SET updated_at = created_at WHERE created_at IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_event_exceptions_updated_at ON event_exceptions;
+CREATE TRIGGER update_event_exceptions_updated_at BEFORE UPDATE ON event_exceptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
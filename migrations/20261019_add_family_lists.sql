@@ -0,0 +1,93 @@
+-- Shared family lists (shopping, packing, to-do) and their items. Both tables are
+-- published to realtime so every device sees changes as they're made.
+
+CREATE TABLE IF NOT EXISTS family_lists (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    list_type TEXT NOT NULL DEFAULT 'todo' CHECK (list_type IN ('shopping', 'packing', 'todo')),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS list_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    list_id UUID NOT NULL REFERENCES family_lists(id) ON DELETE CASCADE,
+    -- Copied from the list so realtime subscriptions can filter by family
+    family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    is_checked BOOLEAN NOT NULL DEFAULT FALSE,
+    checked_at TIMESTAMP WITH TIME ZONE,
+    assignee_contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_lists_family_id ON family_lists(family_id);
+CREATE INDEX IF NOT EXISTS idx_list_items_list_id ON list_items(list_id);
+CREATE INDEX IF NOT EXISTS idx_list_items_family_id ON list_items(family_id);
+
+ALTER TABLE family_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view family lists" ON family_lists
+    FOR SELECT USING (
+        family_id IN (
+            SELECT fm.family_id
+            FROM family_members fm
+            JOIN contacts c ON c.id = fm.contact_id
+            WHERE c.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can manage family lists" ON family_lists
+    FOR ALL USING (
+        family_id IN (
+            SELECT fm.family_id
+            FROM family_members fm
+            JOIN contacts c ON c.id = fm.contact_id
+            WHERE c.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can view list items" ON list_items
+    FOR SELECT USING (
+        family_id IN (
+            SELECT fm.family_id
+            FROM family_members fm
+            JOIN contacts c ON c.id = fm.contact_id
+            WHERE c.user_id = auth.uid()
+        )
+    );
+
+-- The item's family must be its list's family, so nobody can slip items into another family's list
+CREATE POLICY "Users can manage list items" ON list_items
+    FOR ALL USING (
+        family_id IN (
+            SELECT fm.family_id
+            FROM family_members fm
+            JOIN contacts c ON c.id = fm.contact_id
+            WHERE c.user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        list_id IN (SELECT l.id FROM family_lists l WHERE l.family_id = list_items.family_id) AND
+        family_id IN (
+            SELECT fm.family_id
+            FROM family_members fm
+            JOIN contacts c ON c.id = fm.contact_id
+            WHERE c.user_id = auth.uid()
+        )
+    );
+
+CREATE TRIGGER update_family_lists_updated_at BEFORE UPDATE ON family_lists
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_list_items_updated_at BEFORE UPDATE ON list_items
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE family_lists, list_items;
@@ -0,0 +1,84 @@
+-- Family scope for calendar feeds, for users who belong to more than one family.
+-- A feed can cover several of its owner's families, merged into one calendar;
+-- the calendar-feed function only ever serves families the owner still belongs to.
+
+-- The whole-family link: NULL covers every family the user belongs to
+ALTER TABLE user_preferences
+    ADD COLUMN IF NOT EXISTS calendar_token_family_ids UUID[];
+
+-- Named feeds: NULL covers just the family the feed was created in (family_id)
+ALTER TABLE calendar_feed_tokens
+    ADD COLUMN IF NOT EXISTS family_ids UUID[];
+
+-- A feed's families must all be the owner's
+CREATE OR REPLACE FUNCTION is_member_of_families(p_user_id UUID, p_family_ids UUID[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT NOT EXISTS (
+        SELECT 1 FROM unnest(p_family_ids) AS f(family_id)
+        WHERE f.family_id NOT IN (
+            SELECT fm.family_id FROM family_members fm
+            JOIN contacts c ON c.id = fm.contact_id
+            WHERE c.user_id = p_user_id
+        )
+    );
+$$;
+
+DROP POLICY IF EXISTS "Users can create feed tokens for their families" ON calendar_feed_tokens;
+CREATE POLICY "Users can create feed tokens for their families" ON calendar_feed_tokens
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid() AND
+        is_member_of_families(auth.uid(), ARRAY[family_id]) AND
+        (family_ids IS NULL OR is_member_of_families(auth.uid(), family_ids))
+    );
+
+DROP POLICY IF EXISTS "Users can update own feed tokens" ON calendar_feed_tokens;
+CREATE POLICY "Users can update own feed tokens" ON calendar_feed_tokens
+    FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (
+        user_id = auth.uid() AND
+        (family_ids IS NULL OR is_member_of_families(auth.uid(), family_ids))
+    );
+
+-- Regenerating the whole-family link now takes its family scope, and only for
+-- the signed-in user (the old version would mint a token for any user id)
+DROP FUNCTION IF EXISTS regenerate_calendar_token(UUID);
+
+CREATE OR REPLACE FUNCTION regenerate_calendar_token(p_user_id UUID, p_family_ids UUID[] DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_new_token UUID;
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Not allowed';
+    END IF;
+
+    IF p_family_ids IS NOT NULL AND (
+        cardinality(p_family_ids) = 0 OR NOT is_member_of_families(p_user_id, p_family_ids)
+    ) THEN
+        RAISE EXCEPTION 'Not a member of every family';
+    END IF;
+
+    -- Ensure the row exists in user_preferences
+    INSERT INTO user_preferences (user_id)
+    VALUES (p_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    v_new_token := uuid_generate_v4();
+
+    UPDATE user_preferences
+    SET calendar_token = v_new_token,
+        calendar_token_family_ids = p_family_ids,
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+
+    RETURN v_new_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION regenerate_calendar_token(UUID, UUID[]) TO authenticated;
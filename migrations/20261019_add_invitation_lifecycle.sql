@@ -0,0 +1,326 @@
+-- Invitation lifecycle: stale invitations expire on the server, invitations can
+-- be resent (with a new token and expiry), declined or accepted only while
+-- they're pending, and families can share a multi-use join link / QR code
+-- instead of inviting everyone by email.
+
+-- 1. Expiry. Pending invitations past expires_at are marked expired every hour,
+-- and whenever one is looked up (see get_invitation_by_token below).
+CREATE OR REPLACE FUNCTION expire_stale_invitations()
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+    WITH expired AS (
+        UPDATE family_invitations
+        SET status = 'expired'
+        WHERE status = 'pending' AND expires_at < NOW()
+        RETURNING 1
+    )
+    SELECT COUNT(*)::INTEGER FROM expired;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'expire-invitations',
+    '0 * * * *',
+    $$SELECT expire_stale_invitations()$$
+);
+
+-- 2. Look an invitation up by its token, whatever its status, with the family it's
+-- for. SECURITY DEFINER because the person holding the link may not be signed in
+-- yet, and isn't a member of the family until they accept; the token is the secret.
+CREATE OR REPLACE FUNCTION get_invitation_by_token(p_token UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    UPDATE family_invitations
+    SET status = 'expired'
+    WHERE invitation_token = p_token AND status = 'pending' AND expires_at < NOW();
+
+    SELECT to_jsonb(fi) || jsonb_build_object('family', to_jsonb(f))
+    INTO v_result
+    FROM family_invitations fi
+    JOIN families f ON f.id = fi.family_id
+    WHERE fi.invitation_token = p_token;
+
+    RETURN v_result;
+END;
+$$;
+
+-- 3. Declining only needs the token, so it works from the link without an account
+CREATE OR REPLACE FUNCTION decline_invitation(p_token UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE family_invitations
+    SET status = 'declined', declined_at = NOW()
+    WHERE invitation_token = p_token AND status = 'pending' AND expires_at >= NOW();
+
+    RETURN FOUND;
+END;
+$$;
+
+-- 4. Resending gives the invitation a new token (so the old link stops working)
+-- and a fresh expiry, and reopens it if it had expired or been declined. Cancelled
+-- invitations stay cancelled.
+CREATE OR REPLACE FUNCTION resend_invitation(p_invitation_id UUID)
+RETURNS family_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_invitation family_invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO v_invitation FROM family_invitations WHERE id = p_invitation_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    IF COALESCE(family_role(v_invitation.family_id), '') NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'Only family owners and admins can resend invitations';
+    END IF;
+
+    IF v_invitation.status = 'accepted' THEN
+        RAISE EXCEPTION 'This invitation has already been accepted';
+    END IF;
+
+    -- Cancelled invitations are gone from the family's list; invite them again instead
+    IF v_invitation.status NOT IN ('pending', 'expired', 'declined') THEN
+        RAISE EXCEPTION 'This invitation can no longer be resent';
+    END IF;
+
+    -- Only one invitation per person can be open at a time
+    IF v_invitation.status <> 'pending' AND EXISTS (
+        SELECT 1 FROM family_invitations
+        WHERE family_id = v_invitation.family_id
+          AND email = v_invitation.email
+          AND status = 'pending'
+          AND id <> p_invitation_id
+    ) THEN
+        RAISE EXCEPTION 'There is already an open invitation for %', v_invitation.email;
+    END IF;
+
+    UPDATE family_invitations
+    SET invitation_token = uuid_generate_v4(),
+        expires_at = NOW() + INTERVAL '7 days',
+        status = 'pending',
+        declined_at = NULL
+    WHERE id = p_invitation_id
+    RETURNING * INTO v_invitation;
+
+    RETURN v_invitation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_invitation_by_token(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION decline_invitation(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION resend_invitation(UUID) TO authenticated;
+
+-- A new token means a new email, through the same function that sends the first
+-- one (add_invitation_trigger.sql)
+DROP TRIGGER IF EXISTS trigger_on_invitation_resent ON public.family_invitations;
+CREATE TRIGGER trigger_on_invitation_resent
+AFTER UPDATE OF invitation_token ON public.family_invitations
+FOR EACH ROW
+WHEN (OLD.invitation_token IS DISTINCT FROM NEW.invitation_token)
+EXECUTE FUNCTION public.on_invitation_created();
+
+-- 5. Join links: one link (or QR code) anyone can use to join as a member, until
+-- it has been used max_uses times, expires or is revoked
+CREATE TABLE IF NOT EXISTS family_join_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    token UUID NOT NULL UNIQUE DEFAULT uuid_generate_v4(),
+    max_uses INTEGER NOT NULL DEFAULT 5 CHECK (max_uses > 0),
+    use_count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() + INTERVAL '7 days'),
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_join_links_family_id ON family_join_links(family_id);
+
+ALTER TABLE family_join_links ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_family_join_links_updated_at ON family_join_links;
+CREATE TRIGGER update_family_join_links_updated_at BEFORE UPDATE ON family_join_links
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Like invitations, links are for owners and admins to hand out
+DROP POLICY IF EXISTS "Admins can manage join links" ON family_join_links;
+CREATE POLICY "Admins can manage join links" ON family_join_links
+    FOR ALL
+    USING (family_role(family_id) IN ('owner', 'admin'))
+    WITH CHECK (created_by = auth.uid() AND family_role(family_id) IN ('owner', 'admin'));
+
+-- Join the signed-in user to a link's family. The link row is locked so two
+-- people joining at once can't both take the last use. Joining a family the
+-- user is already in doesn't use the link up.
+CREATE OR REPLACE FUNCTION join_family_with_link(p_token UUID, p_first_name TEXT, p_last_name TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_link family_join_links%ROWTYPE;
+    v_email TEXT := auth.jwt() ->> 'email';
+    v_contact_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to join a family';
+    END IF;
+
+    SELECT * INTO v_link FROM family_join_links WHERE token = p_token FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invalid invitation code. Please check and try again.';
+    END IF;
+    IF v_link.revoked_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This join link has been turned off';
+    END IF;
+    IF v_link.expires_at < NOW() THEN
+        RAISE EXCEPTION 'This join link has expired';
+    END IF;
+
+    SELECT c.id INTO v_contact_id
+    FROM contacts c
+    JOIN family_members fm ON fm.contact_id = c.id
+    WHERE c.family_id = v_link.family_id AND c.user_id = auth.uid()
+    LIMIT 1;
+
+    IF v_contact_id IS NOT NULL THEN
+        RETURN jsonb_build_object('family_id', v_link.family_id, 'contact_id', v_contact_id);
+    END IF;
+
+    IF v_link.use_count >= v_link.max_uses THEN
+        RAISE EXCEPTION 'This join link has already been used the maximum number of times';
+    END IF;
+
+    -- Someone the family already added by email becomes that contact
+    SELECT c.id INTO v_contact_id
+    FROM contacts c
+    WHERE c.family_id = v_link.family_id AND c.user_id IS NULL AND c.email = v_email
+    LIMIT 1;
+
+    IF v_contact_id IS NOT NULL THEN
+        UPDATE contacts
+        SET user_id = auth.uid(), is_virtual = FALSE, invitation_accepted_at = NOW()
+        WHERE id = v_contact_id;
+    ELSE
+        INSERT INTO contacts (family_id, user_id, first_name, last_name, email, contact_type, is_virtual, invitation_accepted_at)
+        VALUES (
+            v_link.family_id,
+            auth.uid(),
+            COALESCE(NULLIF(TRIM(p_first_name), ''), 'Member'),
+            NULLIF(TRIM(p_last_name), ''),
+            v_email,
+            'family_member',
+            FALSE,
+            NOW()
+        )
+        RETURNING id INTO v_contact_id;
+    END IF;
+
+    INSERT INTO family_members (family_id, contact_id, role, added_by)
+    VALUES (v_link.family_id, v_contact_id, 'member', v_link.created_by)
+    ON CONFLICT (family_id, contact_id) DO NOTHING;
+
+    UPDATE family_join_links SET use_count = use_count + 1 WHERE id = v_link.id;
+
+    RETURN jsonb_build_object('family_id', v_link.family_id, 'contact_id', v_contact_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_family_with_link(UUID, TEXT, TEXT) TO authenticated;
+
+-- 6. Accepting an invitation, by its token, only while it's pending and in date.
+-- The signed-in user becomes the contact it was sent for (or a new one) with the
+-- role it offers. Like join links, this runs as one locked transaction on the server.
+CREATE OR REPLACE FUNCTION accept_family_invitation(p_token UUID, p_first_name TEXT, p_last_name TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_invitation family_invitations%ROWTYPE;
+    v_email TEXT := auth.jwt() ->> 'email';
+    v_contact_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to accept an invitation';
+    END IF;
+
+    SELECT * INTO v_invitation FROM family_invitations WHERE invitation_token = p_token FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+    IF v_invitation.status = 'pending' AND v_invitation.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'This invitation has expired';
+    END IF;
+    IF v_invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'This invitation can no longer be used';
+    END IF;
+
+    -- Already in the family (e.g. joined another way); the invitation is still used up
+    SELECT c.id INTO v_contact_id
+    FROM contacts c
+    WHERE c.family_id = v_invitation.family_id AND c.user_id = auth.uid()
+    LIMIT 1;
+
+    -- Otherwise the virtual contact the invitation was sent for, in this family only
+    IF v_contact_id IS NULL AND v_invitation.contact_id IS NOT NULL THEN
+        UPDATE contacts
+        SET user_id = auth.uid(), is_virtual = FALSE, email = v_email, invitation_accepted_at = NOW()
+        WHERE id = v_invitation.contact_id AND family_id = v_invitation.family_id AND user_id IS NULL
+        RETURNING id INTO v_contact_id;
+    END IF;
+
+    IF v_contact_id IS NULL THEN
+        INSERT INTO contacts (family_id, user_id, first_name, last_name, email, contact_type, is_virtual, invitation_accepted_at)
+        VALUES (
+            v_invitation.family_id,
+            auth.uid(),
+            COALESCE(NULLIF(TRIM(p_first_name), ''), v_invitation.first_name, 'Member'),
+            COALESCE(NULLIF(TRIM(p_last_name), ''), v_invitation.last_name, ''),
+            v_email,
+            'family_member',
+            FALSE,
+            NOW()
+        )
+        RETURNING id INTO v_contact_id;
+    END IF;
+
+    INSERT INTO family_members (family_id, contact_id, role, added_by)
+    VALUES (v_invitation.family_id, v_contact_id, COALESCE(v_invitation.role, 'member'), v_invitation.invited_by)
+    ON CONFLICT (family_id, contact_id) DO NOTHING;
+
+    UPDATE family_invitations
+    SET status = 'accepted', accepted_at = NOW(), accepted_by = auth.uid()
+    WHERE id = v_invitation.id;
+
+    RETURN jsonb_build_object('family_id', v_invitation.family_id, 'contact_id', v_contact_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_family_invitation(UUID, TEXT, TEXT) TO authenticated;
+
+-- Invitees accept through accept_family_invitation, so only the family can
+-- update its invitations directly
+DROP POLICY IF EXISTS "Users can update invitations" ON family_invitations;
+CREATE POLICY "Users can update invitations" ON family_invitations
+    FOR UPDATE USING (
+        family_id IN (
+            SELECT fm.family_id
+            FROM family_members fm
+            JOIN contacts c ON c.id = fm.contact_id
+            WHERE c.user_id = auth.uid()
+        )
+    );
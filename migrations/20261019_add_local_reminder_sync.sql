@@ -0,0 +1,38 @@
+-- Devices schedule local notifications for their user's reminders (offline fallback).
+-- Each device records how far ahead it has scheduled them and when it last synced,
+-- so send-reminders can skip pushing a reminder the device already holds.
+
+ALTER TABLE push_tokens
+    ADD COLUMN IF NOT EXISTS local_reminders_synced_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS local_reminders_until TIMESTAMP WITH TIME ZONE;
+
+-- Register this device's token for the signed-in user. A token stays with the
+-- device, so on a shared device it can still belong to whoever signed in before;
+-- their update policy wouldn't let the new user take it over, so this does, and
+-- drops the previous user's local reminder coverage with it.
+CREATE OR REPLACE FUNCTION claim_push_token(p_token TEXT, p_platform TEXT, p_device_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    INSERT INTO push_tokens (user_id, token, platform, device_name)
+    VALUES (auth.uid(), p_token, p_platform, p_device_name)
+    ON CONFLICT (token) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        platform = EXCLUDED.platform,
+        device_name = EXCLUDED.device_name,
+        local_reminders_synced_at = CASE
+            WHEN push_tokens.user_id = EXCLUDED.user_id THEN push_tokens.local_reminders_synced_at
+        END,
+        local_reminders_until = CASE
+            WHEN push_tokens.user_id = EXCLUDED.user_id THEN push_tokens.local_reminders_until
+        END;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_push_token(TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,77 @@
+-- Reminder delivery: device push tokens and a per-occurrence delivery log
+-- used by the send-reminders edge function
+
+-- Expo push tokens, one row per device
+CREATE TABLE IF NOT EXISTS push_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    platform TEXT NOT NULL CHECK (platform IN ('ios', 'android', 'web')),
+    device_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user_id ON push_tokens(user_id);
+
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push tokens" ON push_tokens
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can register own push tokens" ON push_tokens
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own push tokens" ON push_tokens
+    FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own push tokens" ON push_tokens
+    FOR DELETE USING (user_id = auth.uid());
+
+CREATE TRIGGER update_push_tokens_updated_at
+    BEFORE UPDATE ON push_tokens
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per reminder, occurrence and channel. The unique key lets the edge
+-- function claim a delivery before sending, so overlapping runs never double-send.
+-- occurrence_start is the occurrence's original start (event_exceptions.exception_date
+-- for recurring events, events.start_time otherwise).
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    reminder_id UUID NOT NULL REFERENCES event_reminders(id) ON DELETE CASCADE,
+    occurrence_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    channel TEXT NOT NULL CHECK (channel IN ('push', 'email')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (reminder_id, occurrence_start, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_reminder_id ON reminder_deliveries(reminder_id);
+
+-- Written only by the edge function (service role); users may read their own history
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reminder deliveries" ON reminder_deliveries
+    FOR SELECT USING (
+        reminder_id IN (SELECT id FROM event_reminders WHERE user_id = auth.uid())
+    );
+
+-- Schedule the edge function every minute (requires the pg_cron and pg_net extensions).
+-- Replace the project ref and service role key; the function rejects other callers.
+--
+-- SELECT cron.schedule(
+--     'send-reminders',
+--     '* * * * *',
+--     $$
+--     SELECT net.http_post(
+--         url := 'https://<project-ref>.supabase.co/functions/v1/send-reminders',
+--         headers := jsonb_build_object(
+--             'Content-Type', 'application/json',
+--             'Authorization', 'Bearer <service-role-key>'
+--         ),
+--         body := '{}'::jsonb
+--     );
+--     $$
+-- );
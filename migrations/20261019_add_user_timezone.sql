@@ -0,0 +1,8 @@
+-- The zone of the device each user last opened the app on.
+-- Events written before events recorded a zone carry the column default 'UTC' but
+-- were entered on the user's own clock. The app reads those in the device zone, so
+-- the calendar-feed and send-reminders functions read them in this one
+-- (resolveEventTimeZone in supabase/functions/_shared/rrule.ts is the shared rule).
+
+ALTER TABLE user_preferences
+    ADD COLUMN IF NOT EXISTS timezone TEXT;
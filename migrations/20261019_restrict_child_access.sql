@@ -0,0 +1,84 @@
+-- Closes the gaps 20261019_add_child_accounts.sql left around events a child
+-- can't see, and keeps children from handing the family calendar out as a feed.
+-- Runs after the event permission, child account and feed migrations.
+
+-- 1. Occurrence overrides carry their own titles and notes, so children only see
+-- them for events they can see
+DROP POLICY IF EXISTS "Users can view event exceptions" ON event_exceptions;
+CREATE POLICY "Users can view event exceptions" ON event_exceptions
+    FOR SELECT USING (
+        event_id IN (
+            SELECT e.id FROM events e
+            WHERE family_role(e.family_id) IN ('owner', 'admin', 'member')
+        ) OR
+        event_id IN (
+            SELECT e.id FROM events e
+            WHERE family_role(e.family_id) = 'child' AND is_own_or_family_event(e.id)
+        )
+    );
+
+-- 2. A child can change events open to everyone in the family (see can_edit_event),
+-- but only the ones they can see
+DROP POLICY IF EXISTS "Users can update their family events" ON events;
+CREATE POLICY "Users can update their family events" ON events
+    FOR UPDATE
+    USING (
+        can_edit_event(family_id, created_by, edit_permission) AND
+        (family_role(family_id) <> 'child' OR is_own_or_family_event(id))
+    )
+    WITH CHECK (can_edit_event(family_id, created_by, edit_permission));
+
+DROP POLICY IF EXISTS "Users can delete their family events" ON events;
+CREATE POLICY "Users can delete their family events" ON events
+    FOR DELETE USING (
+        can_edit_event(family_id, created_by, edit_permission) AND
+        (family_role(family_id) <> 'child' OR is_own_or_family_event(id))
+    );
+
+DROP POLICY IF EXISTS "Users can manage event exceptions" ON event_exceptions;
+CREATE POLICY "Users can manage event exceptions" ON event_exceptions
+    FOR ALL USING (
+        event_id IN (
+            SELECT e.id FROM events e
+            WHERE can_edit_event(e.family_id, e.created_by, e.edit_permission) AND
+                (family_role(e.family_id) <> 'child' OR is_own_or_family_event(e.id))
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can manage event participants" ON event_participants;
+CREATE POLICY "Users can manage event participants" ON event_participants
+    FOR ALL USING (
+        event_id IN (
+            SELECT e.id FROM events e
+            WHERE can_edit_event(e.family_id, e.created_by, e.edit_permission) AND
+                (family_role(e.family_id) <> 'child' OR is_own_or_family_event(e.id))
+        )
+    );
+
+-- 3. Feeds are served with the service role, past every policy above, so children
+-- can't create them. calendar-feed also skips families where the owner is a child,
+-- which covers the whole-family user_preferences.calendar_token.
+DROP POLICY IF EXISTS "Users can create feed tokens for their families" ON calendar_feed_tokens;
+CREATE POLICY "Users can create feed tokens for their families" ON calendar_feed_tokens
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid() AND
+        is_member_of_families(auth.uid(), ARRAY[family_id]) AND
+        (family_ids IS NULL OR is_member_of_families(auth.uid(), family_ids)) AND
+        family_role(family_id) <> 'child' AND
+        NOT EXISTS (
+            SELECT 1 FROM unnest(COALESCE(family_ids, ARRAY[]::UUID[])) AS f(id)
+            WHERE family_role(f.id) = 'child'
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can update own feed tokens" ON calendar_feed_tokens;
+CREATE POLICY "Users can update own feed tokens" ON calendar_feed_tokens
+    FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (
+        user_id = auth.uid() AND
+        (family_ids IS NULL OR is_member_of_families(auth.uid(), family_ids)) AND
+        family_role(family_id) <> 'child' AND
+        NOT EXISTS (
+            SELECT 1 FROM unnest(COALESCE(family_ids, ARRAY[]::UUID[])) AS f(id)
+            WHERE family_role(f.id) = 'child'
+        )
+    );
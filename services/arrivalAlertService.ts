@@ -0,0 +1,233 @@
+/**
+ * Arrival Alert Service
+ *
+ * Opt-in geofencing around the locations of a member's events. While a member
+ * has arrival alerts turned on in a family, their own device watches the
+ * locations of their upcoming events in that family; arriving at or leaving one while it's on records an
+ * arrival_events row, which the notify-arrival edge function pushes to the rest
+ * of the family.
+ *
+ * The background task is defined when this module is first imported, which has
+ * to happen at startup (EventCacheContext imports it).
+ */
+
+import { Contact, supabase } from '@/lib/supabase';
+import { EventWithDetails, getAttendingParticipants } from '@/services/eventService';
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+
+export type ArrivalKind = 'arrived' | 'left';
+
+export interface ArrivalEvent {
+  id: string;
+  family_id: string;
+  contact_id: string;
+  event_id: string | null;
+  event_title: string;
+  location_name: string | null;
+  kind: ArrivalKind;
+  occurred_at: string;
+  created_at: string;
+}
+
+const GEOFENCE_TASK = 'arrival-geofences';
+const MAX_REGIONS = 20; // iOS monitors at most 20 regions per app
+const DEFAULT_RADIUS_M = 150;
+const MIN_RADIUS_M = 100; // Smaller regions fire unreliably
+const LOOKAHEAD_MS = 24 * 60 * 60 * 1000;
+// Crossings only count from a little before an event starts until a little after it ends
+const WINDOW_BEFORE_MS = 60 * 60 * 1000;
+const WINDOW_AFTER_MS = 30 * 60 * 1000;
+
+// Region identifiers carry everything the task (which runs without the app's state) needs:
+// the event, the contact arriving and the occurrence's times: `${eventId}|${contactId}|${start}|${end}`.
+// The family is the event's own.
+function regionIdentifier(event: EventWithDetails, contactId: string): string {
+  return `${event.original_event_id || event.id}|${contactId}|${event.start_time}|${event.end_time}`;
+}
+
+async function recordCrossing(region: Location.LocationRegion, eventType: Location.GeofencingEventType) {
+  const [eventId, contactId, start, end] = (region.identifier || '').split('|');
+  if (!eventId || !contactId || !start || !end) return;
+
+  const now = Date.now();
+  if (now < new Date(start).getTime() - WINDOW_BEFORE_MS || now > new Date(end).getTime() + WINDOW_AFTER_MS) {
+    return;
+  }
+
+  const kind: ArrivalKind = eventType === Location.GeofencingEventType.Enter ? 'arrived' : 'left';
+
+  // Regions can report the same crossing more than once
+  const { data: last } = await supabase
+    .from('arrival_events')
+    .select('kind')
+    .eq('contact_id', contactId)
+    .eq('event_id', eventId)
+    .gte('occurred_at', new Date(new Date(start).getTime() - WINDOW_BEFORE_MS).toISOString())
+    .order('occurred_at', { ascending: false })
+    .limit(1);
+  if (last?.[0]?.kind === kind) return;
+
+  const { data: event } = await supabase
+    .from('events')
+    .select('family_id, title, location, structured_location_title')
+    .eq('id', eventId)
+    .single();
+  if (!event) return;
+
+  const { error } = await supabase.from('arrival_events').insert({
+    family_id: event.family_id,
+    contact_id: contactId,
+    event_id: eventId,
+    event_title: event.title,
+    location_name: event.structured_location_title || event.location || null,
+    kind,
+  });
+  if (error) {
+    console.error('Error recording arrival:', error);
+  }
+}
+
+if (Platform.OS !== 'web') {
+  TaskManager.defineTask<{ eventType: Location.GeofencingEventType; region: Location.LocationRegion }>(
+    GEOFENCE_TASK,
+    async ({ data, error }) => {
+      if (error) {
+        console.error('Geofencing error:', error);
+        return;
+      }
+      try {
+        await recordCrossing(data.region, data.eventType);
+      } catch (err) {
+        console.error('Error handling geofence crossing:', err);
+      }
+    }
+  );
+}
+
+async function stopWatching(): Promise<void> {
+  if (await Location.hasStartedGeofencingAsync(GEOFENCE_TASK)) {
+    await Location.stopGeofencingAsync(GEOFENCE_TASK);
+  }
+}
+
+/**
+ * Ask for the background location access geofencing needs. Only the member
+ * being watched can grant it, on their own device.
+ */
+export async function requestArrivalAlertPermission(): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    return false;
+  }
+
+  const foreground = await Location.requestForegroundPermissionsAsync();
+  if (foreground.status !== 'granted') {
+    return false;
+  }
+  const background = await Location.requestBackgroundPermissionsAsync();
+  return background.status === 'granted';
+}
+
+/**
+ * Watch the locations of the signed-in member's events over the next day, in
+ * every family where their contact (one of ownContacts) has opted in, or stop
+ * watching if they haven't opted in anywhere (or have refused background
+ * location). Called whenever the upcoming events change.
+ */
+export async function syncArrivalGeofences(
+  events: EventWithDetails[],
+  ownContacts: Contact[]
+): Promise<{ error: Error | null }> {
+  if (Platform.OS === 'web') {
+    return { error: null };
+  }
+
+  try {
+    const watchedContacts = new Map(
+      ownContacts.filter((contact) => contact.arrival_alerts_enabled).map((contact) => [contact.family_id, contact.id])
+    );
+    if (watchedContacts.size === 0) {
+      await stopWatching();
+      return { error: null };
+    }
+
+    // The first time after opting in, the member's device asks for itself
+    const permission = await Location.getBackgroundPermissionsAsync();
+    const granted =
+      permission.status === 'granted' ||
+      (permission.status === 'undetermined' && permission.canAskAgain && (await requestArrivalAlertPermission()));
+    if (!granted) {
+      await stopWatching();
+      return { error: null };
+    }
+
+    const now = Date.now();
+    const regions: Location.LocationRegion[] = events
+      .filter(
+        (event) =>
+          !event.is_all_day &&
+          event.structured_location_latitude != null &&
+          event.structured_location_longitude != null &&
+          new Date(event.end_time).getTime() + WINDOW_AFTER_MS > now &&
+          new Date(event.start_time).getTime() < now + LOOKAHEAD_MS &&
+          getAttendingParticipants(event.participants).some((p) => p.contact_id === watchedContacts.get(event.family_id))
+      )
+      .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+      .slice(0, MAX_REGIONS)
+      .map((event) => ({
+        identifier: regionIdentifier(event, watchedContacts.get(event.family_id)!),
+        latitude: event.structured_location_latitude!,
+        longitude: event.structured_location_longitude!,
+        radius: Math.max(MIN_RADIUS_M, event.structured_location_radius || DEFAULT_RADIUS_M),
+        notifyOnEnter: true,
+        notifyOnExit: true,
+      }));
+
+    if (regions.length === 0) {
+      await stopWatching();
+      return { error: null };
+    }
+
+    // Replaces whatever regions were being watched before
+    await Location.startGeofencingAsync(GEOFENCE_TASK, regions);
+    return { error: null };
+  } catch (err) {
+    console.error('Error updating arrival geofences:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Stop watching on this device (e.g. on sign-out)
+ */
+export async function stopArrivalGeofences(): Promise<{ error: Error | null }> {
+  if (Platform.OS === 'web') {
+    return { error: null };
+  }
+
+  try {
+    await stopWatching();
+    return { error: null };
+  } catch (err) {
+    console.error('Error stopping arrival geofences:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * A member's recent arrivals and departures, newest first
+ */
+export async function getArrivalHistory(
+  contactId: string,
+  limit: number = 50
+): Promise<{ data: ArrivalEvent[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('arrival_events')
+    .select('*')
+    .eq('contact_id', contactId)
+    .order('occurred_at', { ascending: false })
+    .limit(limit);
+
+  return { data, error };
+}
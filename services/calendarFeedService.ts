@@ -0,0 +1,199 @@
+/**
+ * Calendar Feed Service
+ *
+ * Manages named ICS feed tokens. Each token serves a subset of the family's
+ * events (by participant and category) at a chosen privacy level, through the
+ * calendar-feed edge function. A token can cover several of the user's
+ * families, merged into one calendar.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export type FeedPrivacy = 'full' | 'titles_only' | 'busy';
+
+export interface CalendarFeedToken {
+  id: string;
+  user_id: string;
+  family_id: string; // The family it was created in
+  family_ids: string[] | null; // Families it covers; null = just family_id
+  name: string;
+  token: string;
+  contact_ids: string[] | null; // null = every member
+  category_ids: string[] | null; // null = every category
+  privacy: FeedPrivacy;
+  driver_contact_id: string | null; // Set for a driver's agenda of lifts
+  last_accessed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateCalendarFeedTokenInput = {
+  name: string;
+  familyIds?: string[]; // Other than just the family it's created in
+
+  contactIds?: string[];
+  categoryIds?: string[];
+  privacy?: FeedPrivacy;
+  driverContactId?: string;
+};
+
+export const FEED_PRIVACY_LABELS: Record<FeedPrivacy, string> = {
+  full: 'Full details',
+  titles_only: 'Hide notes & location',
+  busy: 'Busy times only',
+};
+
+/**
+ * HTTPS URL of the calendar-feed edge function for a token. Named tokens are
+ * looked up by token alone; the legacy whole-family token also needs the user id.
+ */
+export function getCalendarFeedUrl(token: string, userId?: string): string {
+  const projectRef = process.env.EXPO_PUBLIC_SUPABASE_URL?.split('//')[1].split('.')[0];
+  const params = userId ? `user_id=${userId}&token=${token}` : `token=${token}`;
+  return `https://${projectRef}.supabase.co/functions/v1/calendar-feed?${params}`;
+}
+
+/**
+ * Get the current user's feed tokens covering a family
+ */
+export async function getCalendarFeedTokens(
+  familyId: string
+): Promise<{ data: CalendarFeedToken[] | null; error: any }> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: new Error('Not authenticated') };
+  }
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('*')
+    .eq('user_id', user.id)
+    .or(`family_id.eq.${familyId},family_ids.cs.{${familyId}}`)
+    .order('created_at');
+
+  return { data, error };
+}
+
+/**
+ * Mint a new named feed token. Empty contact/category lists mean no restriction.
+ */
+export async function createCalendarFeedToken(
+  familyId: string,
+  input: CreateCalendarFeedTokenInput
+): Promise<{ data: CalendarFeedToken | null; error: any }> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: new Error('Not authenticated') };
+  }
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .insert({
+      user_id: user.id,
+      family_id: familyId,
+      family_ids: input.familyIds && input.familyIds.length > 1 ? input.familyIds : null,
+      name: input.name.trim(),
+      contact_ids: input.contactIds?.length ? input.contactIds : null,
+      category_ids: input.categoryIds?.length ? input.categoryIds : null,
+      privacy: input.privacy || 'full',
+      driver_contact_id: input.driverContactId || null,
+    })
+    .select()
+    .single();
+
+  return { data, error };
+}
+
+/**
+ * Get the whole-family link's token and the families it covers (null = all of them)
+ */
+export async function getCalendarToken(): Promise<{
+  data: { token: string | null; familyIds: string[] | null } | null;
+  error: any;
+}> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: new Error('Not authenticated') };
+  }
+
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('calendar_token, calendar_token_family_ids')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    return { data: null, error };
+  }
+  return {
+    data: { token: data?.calendar_token ?? null, familyIds: data?.calendar_token_family_ids ?? null },
+    error: null,
+  };
+}
+
+/**
+ * Replace the whole-family link's token, covering the given families (null = all
+ * of the user's families); the old link stops working
+ */
+export async function regenerateCalendarToken(
+  familyIds: string[] | null
+): Promise<{ data: string | null; error: any }> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: new Error('Not authenticated') };
+  }
+
+  const { data, error } = await supabase.rpc('regenerate_calendar_token', {
+    p_user_id: user.id,
+    p_family_ids: familyIds,
+  });
+
+  return { data, error };
+}
+
+/**
+ * Change which families the whole-family link covers, keeping the link itself
+ */
+export async function updateCalendarTokenFamilies(familyIds: string[] | null): Promise<{ error: any }> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: new Error('Not authenticated') };
+  }
+
+  const { error } = await supabase
+    .from('user_preferences')
+    .update({ calendar_token_family_ids: familyIds })
+    .eq('user_id', user.id);
+
+  return { error };
+}
+
+/**
+ * Replace a feed token's secret; links already shared stop working
+ */
+export async function regenerateCalendarFeedToken(
+  tokenId: string
+): Promise<{ data: string | null; error: any }> {
+  const { data, error } = await supabase.rpc('regenerate_calendar_feed_token', {
+    p_token_id: tokenId,
+  });
+
+  return { data, error };
+}
+
+/**
+ * Revoke a feed token
+ */
+export async function revokeCalendarFeedToken(tokenId: string): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .delete()
+    .eq('id', tokenId);
+
+  return { error };
+}
@@ -1,8 +1,14 @@
 import { Platform } from 'react-native';
 import * as Calendar from 'expo-calendar';
-
-// Types for iOS calendar data
-export interface IOSCalendar {
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { supabase } from '@/lib/supabase';
+import type { RecurrenceInput } from './eventService';
+import { ICSCalendar, ICSEvent, parseICS } from '@/utils/ics';
+import { expandRRule, parseWeekday, RRuleOptions, RRuleWeekday } from '@/utils/rrule';
+
+// Types for device calendar data (iOS Calendar and the Android calendar provider)
+export interface DeviceCalendar {
   id: string;
   title: string;
   color: string;
@@ -14,18 +20,20 @@ export interface IOSCalendar {
   type: string;
 }
 
-export interface IOSEvent {
-  id: string;
+export interface DeviceEvent {
+  id: string; // Shared by every occurrence of a recurring event
   title: string;
   startDate: Date;
   endDate: Date;
   allDay: boolean;
   location?: string;
   notes?: string;
-  recurrenceRule?: IOSRecurrenceRule;
+  recurrenceRule?: DeviceRecurrenceRule;
+  // Android: the recurring event this row modifies one occurrence of
+  originalId?: string;
 }
 
-export interface IOSRecurrenceRule {
+export interface DeviceRecurrenceRule {
   frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
   interval?: number;
   endDate?: Date;
@@ -40,12 +48,55 @@ export interface IOSRecurrenceRule {
 
 export interface ImportResult {
   success: boolean;
-  imported: number;
+  created: number;
+  updated: number; // Changed at the source since the last import
+  skipped: number; // Unchanged since the last import
+  removed: number; // Deleted because they're gone from the source
   failed: number;
   errors: string[];
 }
 
-// Day of week mapping: iOS uses 1-7 (Sunday-Saturday), app uses 'SU'-'SA'
+export interface ImportOptions {
+  removeMissing?: boolean; // Delete previously imported events no longer in the source
+}
+
+// A picked .ics file
+export interface ICSFile {
+  name: string;
+  calendar: ICSCalendar;
+}
+
+type ImportedEventData = {
+  title: string;
+  notes?: string;
+  location?: string;
+  startTime: Date;
+  endTime: Date;
+  isAllDay?: boolean;
+  timeZone?: string;
+  isRecurring?: boolean;
+  recurrence?: RecurrenceInput;
+};
+
+// One source event, ready to be created or updated
+interface ImportItem {
+  externalId: string;
+  data: ImportedEventData;
+  signature: string;
+  // Saves the source's per-occurrence exceptions on the imported series
+  applyExceptions?: (eventId: string) => Promise<string[]>;
+}
+
+// A previously imported event, as stored
+interface ImportedEventRow {
+  id: string;
+  external_event_id: string;
+  external_signature: string | null;
+  start_time: string;
+  is_recurring: boolean;
+}
+
+// Day of week mapping: expo-calendar uses 1-7 (Sunday-Saturday), app uses 'SU'-'SA'
 const DAY_OF_WEEK_MAP: { [key: number]: string } = {
   1: 'SU',
   2: 'MO',
@@ -60,7 +111,7 @@ const DAY_OF_WEEK_MAP: { [key: number]: string } = {
  * Check if the platform supports calendar access
  */
 export function isCalendarSupported(): boolean {
-  return Platform.OS === 'ios';
+  return Platform.OS === 'ios' || Platform.OS === 'android';
 }
 
 /**
@@ -113,27 +164,30 @@ export async function getCalendarPermissionStatus(): Promise<{
  * Get all available calendars from the device
  */
 export async function getDeviceCalendars(): Promise<{
-  data: IOSCalendar[] | null;
+  data: DeviceCalendar[] | null;
   error: string | null;
 }> {
   if (!isCalendarSupported()) {
-    return { data: null, error: 'Calendar access is only supported on iOS' };
+    return { data: null, error: 'Calendar access is only supported on iOS and Android' };
   }
 
   try {
     const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
-    
-    const mappedCalendars: IOSCalendar[] = calendars.map((cal) => ({
-      id: cal.id,
-      title: cal.title,
-      color: cal.color || '#007AFF',
-      source: {
-        name: cal.source?.name || 'Unknown',
-        type: cal.source?.type || 'unknown',
-      },
-      allowsModifications: cal.allowsModifications ?? true,
-      type: cal.type || 'local',
-    }));
+
+    // Android also lists calendars the user has hidden or stopped syncing
+    const mappedCalendars: DeviceCalendar[] = calendars
+      .filter((cal) => cal.isVisible !== false)
+      .map((cal) => ({
+        id: cal.id,
+        title: cal.title,
+        color: cal.color || '#007AFF',
+        source: {
+          name: cal.source?.name || 'Unknown',
+          type: cal.source?.type || 'unknown',
+        },
+        allowsModifications: cal.allowsModifications ?? true,
+        type: cal.type || 'local',
+      }));
 
     return { data: mappedCalendars, error: null };
   } catch (error: any) {
@@ -150,11 +204,11 @@ export async function getCalendarEvents(
   startDate: Date,
   endDate: Date
 ): Promise<{
-  data: IOSEvent[] | null;
+  data: DeviceEvent[] | null;
   error: string | null;
 }> {
   if (!isCalendarSupported()) {
-    return { data: null, error: 'Calendar access is only supported on iOS' };
+    return { data: null, error: 'Calendar access is only supported on iOS and Android' };
   }
 
   try {
@@ -164,16 +218,25 @@ export async function getCalendarEvents(
       endDate
     );
 
-    const mappedEvents: IOSEvent[] = events.map((event) => ({
-      id: event.id,
-      title: event.title || 'Untitled Event',
-      startDate: new Date(event.startDate),
-      endDate: new Date(event.endDate),
-      allDay: event.allDay ?? false,
-      location: event.location || undefined,
-      notes: event.notes || undefined,
-      recurrenceRule: mapRecurrenceRule(event.recurrenceRule),
-    }));
+    const mappedEvents: DeviceEvent[] = events.map((event) => {
+      const allDay = event.allDay ?? false;
+      const { startDate: start, endDate: end } =
+        allDay && Platform.OS === 'android'
+          ? getAndroidAllDayDates(new Date(event.startDate), new Date(event.endDate))
+          : { startDate: new Date(event.startDate), endDate: new Date(event.endDate) };
+
+      return {
+        id: event.id,
+        title: event.title || 'Untitled Event',
+        startDate: start,
+        endDate: end,
+        allDay,
+        location: event.location || undefined,
+        notes: event.notes || undefined,
+        recurrenceRule: mapRecurrenceRule(event.recurrenceRule),
+        originalId: event.originalId || undefined,
+      };
+    });
 
     return { data: mappedEvents, error: null };
   } catch (error: any) {
@@ -183,17 +246,31 @@ export async function getCalendarEvents(
 }
 
 /**
- * Map iOS recurrence rule to our format
+ * Android stores all-day events at UTC midnight with an exclusive end; read them as
+ * local days ending a second before midnight, the way iOS reports them
  */
-function mapRecurrenceRule(rule: any): IOSRecurrenceRule | undefined {
+function getAndroidAllDayDates(start: Date, end: Date): { startDate: Date; endDate: Date } {
+  const toLocalDay = (date: Date) =>
+    new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const startDate = toLocalDay(start);
+  const endDate = new Date(Math.max(toLocalDay(end).getTime() - 1000, startDate.getTime()));
+  return { startDate, endDate };
+}
+
+/**
+ * Map a device recurrence rule to our format. On Android expo-calendar splits the
+ * provider's RRULE string itself and keeps only FREQ, INTERVAL and sometimes
+ * COUNT; the rest is recovered from the occurrences in getDeviceImportItems.
+ */
+function mapRecurrenceRule(rule: any): DeviceRecurrenceRule | undefined {
   if (!rule) return undefined;
 
-  const mapped: IOSRecurrenceRule = {
-    frequency: rule.frequency?.toLowerCase() as IOSRecurrenceRule['frequency'],
+  const mapped: DeviceRecurrenceRule = {
+    frequency: rule.frequency?.toLowerCase() as DeviceRecurrenceRule['frequency'],
   };
 
   if (rule.interval) mapped.interval = rule.interval;
-  if (rule.endDate) mapped.endDate = new Date(rule.endDate);
+  if (rule.endDate && !isNaN(new Date(rule.endDate).getTime())) mapped.endDate = new Date(rule.endDate);
   if (rule.occurrence) mapped.occurrence = rule.occurrence;
   if (rule.daysOfTheWeek) mapped.daysOfTheWeek = rule.daysOfTheWeek;
   if (rule.daysOfTheMonth) mapped.daysOfTheMonth = rule.daysOfTheMonth;
@@ -206,18 +283,25 @@ function mapRecurrenceRule(rule: any): IOSRecurrenceRule | undefined {
 }
 
 /**
- * Convert iOS days of week to app format
+ * Convert device days of week to app format
  */
 function convertDaysOfWeek(daysOfTheWeek?: { dayOfTheWeek: number; weekNumber?: number }[]): string[] | undefined {
   if (!daysOfTheWeek || daysOfTheWeek.length === 0) return undefined;
   
+  // weekNumber is the ordinal within the month/year (e.g. 2 = 2nd, -1 = last), as in RRULE BYDAY
   return daysOfTheWeek
-    .map((d) => DAY_OF_WEEK_MAP[d.dayOfTheWeek])
+    .map((d) => {
+      const code = DAY_OF_WEEK_MAP[d.dayOfTheWeek];
+      if (!code) return undefined;
+      return d.weekNumber ? `${d.weekNumber}${code}` : code;
+    })
     .filter((d): d is string => d !== undefined);
 }
 
 /**
- * Import events from iOS calendar to the app
+ * Import events from a device calendar to the app. Events imported before from the
+ * same calendar are matched by their device id: changed ones are updated, unchanged
+ * ones skipped, and with removeMissing, ones deleted on the device are removed.
  */
 export async function importCalendarEvents(
   calendarId: string,
@@ -225,110 +309,465 @@ export async function importCalendarEvents(
   endDate: Date,
   familyId: string,
   participantIds: string[], // Contact IDs to assign to events
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  options: ImportOptions = {}
 ): Promise<ImportResult> {
-  const result: ImportResult = {
-    success: false,
-    imported: 0,
-    failed: 0,
-    errors: [],
-  };
-
-  // Fetch events from iOS calendar
+  // Fetch events from the device calendar
   const { data: events, error } = await getCalendarEvents(calendarId, startDate, endDate);
 
   if (error || !events) {
-    result.errors.push(error || 'Failed to fetch events');
-    return result;
+    return { ...emptyImportResult(), errors: [error || 'Failed to fetch events'] };
   }
 
-  const total = events.length;
+  // Only events that could have shown up in this range count as deleted when missing
+  const wasInRange = (row: ImportedEventRow) => {
+    const start = new Date(row.start_time).getTime();
+    return start < endDate.getTime() && (row.is_recurring || start >= startDate.getTime());
+  };
 
-  // Dynamically import createEvent to avoid circular dependency
-  const { createEvent } = await import('./eventService');
+  return syncImportedEvents(
+    calendarId,
+    getDeviceImportItems(events, endDate),
+    familyId,
+    participantIds,
+    options.removeMissing ? wasInRange : null,
+    onProgress
+  );
+}
 
-  for (let i = 0; i < events.length; i++) {
-    const iosEvent = events[i];
-    
-    try {
-      // Map iOS event to app event format
-      const eventData = mapIOSEventToAppEvent(iosEvent);
-      
-      // Create event in Supabase
-      const { error: createError } = await createEvent(
-        familyId,
-        eventData,
-        participantIds.length > 0 ? participantIds : undefined
-      );
-
-      if (createError) {
-        result.failed++;
-        result.errors.push(`Failed to import "${iosEvent.title}": ${createError.message || 'Unknown error'}`);
-      } else {
-        result.imported++;
-      }
-    } catch (err: any) {
-      result.failed++;
-      result.errors.push(`Error importing "${iosEvent.title}": ${err.message || 'Unknown error'}`);
+/**
+ * Recurring device events come back once per occurrence; each series is imported
+ * once, from its first occurrence in the range
+ */
+function getDeviceImportItems(events: DeviceEvent[], rangeEnd: Date): ImportItem[] {
+  const items: ImportItem[] = [];
+  const occurrencesById = new Map<string, DeviceEvent[]>();
+
+  const sorted = [...events].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  for (const deviceEvent of sorted) {
+    const occurrences = occurrencesById.get(deviceEvent.id);
+    if (occurrences) {
+      occurrences.push(deviceEvent);
+    } else {
+      occurrencesById.set(deviceEvent.id, [deviceEvent]);
     }
+  }
 
-    // Report progress
-    if (onProgress) {
-      onProgress(i + 1, total);
+  for (const [id, occurrences] of occurrencesById) {
+    const first = occurrences[0];
+    // Android keeps a moved or edited occurrence as its own event; like on iOS, the
+    // series is imported as its rule describes it
+    if (first.originalId && occurrencesById.has(first.originalId)) continue;
+
+    const recurrenceRule = first.recurrenceRule
+      ? withOccurrenceWeekdays(first.recurrenceRule, occurrences)
+      : undefined;
+
+    // An Android rule that doesn't reproduce the occurrences lost parts in translation,
+    // so they're imported one by one rather than as a series with the wrong dates
+    if (
+      recurrenceRule &&
+      Platform.OS === 'android' &&
+      !ruleMatchesOccurrences(recurrenceRule, occurrences, rangeEnd)
+    ) {
+      for (const occurrence of occurrences) {
+        const data = mapDeviceEventToAppEvent({ ...occurrence, recurrenceRule: undefined });
+        items.push({
+          externalId: `${id}|${occurrence.startDate.toISOString()}`,
+          data,
+          signature: getSignature([
+            data.title,
+            data.notes,
+            data.location,
+            data.isAllDay,
+            occurrence.startDate.toISOString(),
+            occurrence.endDate.toISOString(),
+          ]),
+        });
+      }
+      continue;
     }
+
+    const data = mapDeviceEventToAppEvent({ ...first, recurrenceRule });
+    const timing = recurrenceRule
+      ? // The anchor occurrence moves as the range does, so a series is compared by its shape
+        [
+          first.startDate.toTimeString().slice(0, 5),
+          first.endDate.getTime() - first.startDate.getTime(),
+          JSON.stringify(recurrenceRule),
+        ]
+      : [first.startDate.toISOString(), first.endDate.toISOString()];
+
+    items.push({
+      externalId: id,
+      data,
+      signature: getSignature([data.title, data.notes, data.location, data.isAllDay, ...timing]),
+    });
   }
+  return items;
+}
 
-  result.success = result.failed === 0;
-  return result;
+/**
+ * A weekly rule without weekdays repeats on its first day only. Android's rules
+ * always arrive without them, so when the occurrences fall on several weekdays
+ * those are the rule's.
+ */
+function withOccurrenceWeekdays(rule: DeviceRecurrenceRule, occurrences: DeviceEvent[]): DeviceRecurrenceRule {
+  if (rule.frequency !== 'weekly' || rule.daysOfTheWeek?.length) return rule;
+
+  const weekdays = Array.from(new Set(occurrences.map((o) => o.startDate.getDay()))).sort();
+  if (weekdays.length < 2) return rule;
+  return { ...rule, daysOfTheWeek: weekdays.map((day) => ({ dayOfTheWeek: day + 1 })) };
 }
 
 /**
- * Map iOS event to app event format
+ * Whether a series starting at the first occurrence would produce exactly the
+ * occurrences the device returned
  */
-function mapIOSEventToAppEvent(iosEvent: IOSEvent): {
-  title: string;
-  notes?: string;
-  location?: string;
-  startTime: Date;
-  endTime: Date;
-  isAllDay?: boolean;
-  isRecurring?: boolean;
-  recurrenceFrequency?: 'daily' | 'weekly' | 'monthly' | 'yearly';
-  recurrenceInterval?: number;
-  recurrenceDaysOfWeek?: string[];
-  recurrenceEndDate?: Date;
-} {
-  const eventData: ReturnType<typeof mapIOSEventToAppEvent> = {
-    title: iosEvent.title,
-    startTime: iosEvent.startDate,
-    endTime: iosEvent.endDate,
-    isAllDay: iosEvent.allDay,
+function ruleMatchesOccurrences(
+  rule: DeviceRecurrenceRule,
+  occurrences: DeviceEvent[],
+  rangeEnd: Date
+): boolean {
+  const byDay = (convertDaysOfWeek(rule.daysOfTheWeek) || [])
+    .map(parseWeekday)
+    .filter((d): d is RRuleWeekday => d !== null);
+  const options: RRuleOptions = {
+    freq: rule.frequency.toUpperCase() as RRuleOptions['freq'],
+    interval: rule.interval || 1,
+    count: rule.occurrence,
+    until: rule.endDate,
+    byDay: byDay.length ? byDay : undefined,
+    byMonthDay: rule.daysOfTheMonth,
+    byMonth: rule.monthsOfTheYear,
+    byWeekNo: rule.weeksOfTheYear,
+    byYearDay: rule.daysOfTheYear,
+    bySetPos: rule.setPositions,
+    wkst: 'MO',
   };
 
-  if (iosEvent.notes) eventData.notes = iosEvent.notes;
-  if (iosEvent.location) eventData.location = iosEvent.location;
+  const first = occurrences[0].startDate;
+  const expected = expandRRule(options, first, first, rangeEnd, occurrences.length + 1);
+  return (
+    expected.length === occurrences.length &&
+    expected.every((start, i) => start.getTime() === occurrences[i].startDate.getTime())
+  );
+}
 
-  // Map recurrence rule
-  if (iosEvent.recurrenceRule) {
-    const rule = iosEvent.recurrenceRule;
+/**
+ * Map device event to app event format
+ */
+function mapDeviceEventToAppEvent(deviceEvent: DeviceEvent): ImportedEventData {
+  const eventData: ImportedEventData = {
+    title: deviceEvent.title,
+    startTime: deviceEvent.startDate,
+    endTime: deviceEvent.endDate,
+    isAllDay: deviceEvent.allDay,
+  };
+
+  if (deviceEvent.notes) eventData.notes = deviceEvent.notes;
+  if (deviceEvent.location) eventData.location = deviceEvent.location;
+
+  // Map recurrence rule (createEvent derives the RRULE string from these fields)
+  if (deviceEvent.recurrenceRule && deviceEvent.recurrenceRule.frequency) {
+    const rule = deviceEvent.recurrenceRule;
     eventData.isRecurring = true;
-    
-    if (rule.frequency) {
-      eventData.recurrenceFrequency = rule.frequency;
+    eventData.recurrence = {
+      isRecurring: true,
+      frequency: rule.frequency,
+      interval: rule.interval || 1,
+      daysOfWeek: convertDaysOfWeek(rule.daysOfTheWeek),
+      daysOfMonth: rule.daysOfTheMonth,
+      monthsOfYear: rule.monthsOfTheYear,
+      weeksOfYear: rule.weeksOfTheYear,
+      daysOfYear: rule.daysOfTheYear,
+      setPositions: rule.setPositions,
+      count: rule.occurrence,
+      endDate: rule.endDate,
+    };
+  }
+
+  return eventData;
+}
+
+/**
+ * Let the user pick an .ics file and parse it
+ */
+export async function pickICSFile(): Promise<{
+  data: ICSFile | null;
+  error: string | null;
+}> {
+  try {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['text/calendar', 'text/x-vcalendar', 'application/ics', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets?.length) {
+      return { data: null, error: null };
     }
-    
-    if (rule.interval) {
-      eventData.recurrenceInterval = rule.interval;
+
+    const asset = result.assets[0];
+    // On web the picker hands back a browser File; natively, a file:// URI
+    const content = asset.file ? await asset.file.text() : await new File(asset.uri).text();
+    const calendar = parseICS(content);
+
+    if (calendar.events.length === 0) {
+      return { data: null, error: 'No events found in this file' };
     }
-    
-    if (rule.daysOfTheWeek) {
-      eventData.recurrenceDaysOfWeek = convertDaysOfWeek(rule.daysOfTheWeek);
+
+    return { data: { name: calendar.name || asset.name, calendar }, error: null };
+  } catch (error: any) {
+    console.error('Error reading calendar file:', error);
+    return { data: null, error: error.message || 'Failed to read calendar file' };
+  }
+}
+
+/**
+ * Import the events of a parsed .ics file. Each series is created with its RRULE;
+ * its EXDATEs and RECURRENCE-ID overrides become occurrence exceptions. Events are
+ * matched to earlier imports of a file with the same calendar name by UID.
+ */
+export async function importICSEvents(
+  file: ICSFile,
+  familyId: string,
+  participantIds: string[], // Contact IDs to assign to events
+  onProgress?: (current: number, total: number) => void,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  // Dynamically import eventService to avoid circular dependency
+  const { deleteEventOccurrence, getRecurrenceInputFromRule, updateEventOccurrence } =
+    await import('./eventService');
+
+  // Overrides are applied with their series; ones without a series in the file stand alone
+  const { events } = file.calendar;
+  const masterUids = new Set(events.filter((e) => !e.recurrenceId && e.rrule).map((e) => e.uid));
+  const overridesByUid = new Map<string, ICSEvent[]>();
+  const items: ImportItem[] = [];
+
+  for (const event of events) {
+    if (event.recurrenceId && masterUids.has(event.uid)) {
+      overridesByUid.set(event.uid, [...(overridesByUid.get(event.uid) || []), event]);
     }
-    
-    if (rule.endDate) {
-      eventData.recurrenceEndDate = rule.endDate;
+  }
+
+  for (const event of events) {
+    if (event.cancelled || (event.recurrenceId && masterUids.has(event.uid))) continue;
+
+    const overrides = overridesByUid.get(event.uid) || [];
+    const recurrence =
+      event.rrule && event.rule && !event.recurrenceId
+        ? getRecurrenceInputFromRule(event.rule, event.timeZone)
+        : null;
+    const time = (date?: Date) => date?.toISOString();
+
+    items.push({
+      externalId: event.recurrenceId ? `${event.uid}|${time(event.recurrenceId)}` : event.uid,
+      data: {
+        title: event.title,
+        notes: event.description,
+        location: event.location,
+        startTime: event.start,
+        endTime: event.end,
+        isAllDay: event.allDay,
+        timeZone: event.timeZone,
+        isRecurring: !!recurrence,
+        recurrence: recurrence || undefined,
+      },
+      signature: getSignature([
+        event.title,
+        event.description,
+        event.location,
+        event.allDay,
+        time(event.start),
+        time(event.end),
+        event.timeZone,
+        recurrence ? event.rule : null,
+        ...event.exdates.map(time).sort(),
+        ...overrides
+          .map((o) => [time(o.recurrenceId), o.cancelled, o.title, o.location, time(o.start), time(o.end)].join('~'))
+          .sort(),
+      ]),
+      applyExceptions: recurrence
+        ? (eventId) =>
+            importICSExceptions(eventId, event, overrides, { deleteEventOccurrence, updateEventOccurrence })
+        : undefined,
+    });
+  }
+
+  return syncImportedEvents(
+    `ics:${file.name}`,
+    items,
+    familyId,
+    participantIds,
+    // The file is the whole source, so anything imported from it before and now missing was removed
+    options.removeMissing ? () => true : null,
+    onProgress
+  );
+}
+
+/**
+ * Save a series' EXDATEs and overridden occurrences as event exceptions
+ */
+async function importICSExceptions(
+  eventId: string,
+  series: ICSEvent,
+  overrides: ICSEvent[],
+  service: Pick<typeof import('./eventService'), 'deleteEventOccurrence' | 'updateEventOccurrence'>
+): Promise<string[]> {
+  const errors: string[] = [];
+
+  for (const exdate of series.exdates) {
+    const { error } = await service.deleteEventOccurrence(eventId, exdate);
+    if (error) errors.push(`Failed to skip an occurrence of "${series.title}": ${error.message || 'Unknown error'}`);
+  }
+
+  for (const override of overrides) {
+    const occurrenceStart = override.recurrenceId!;
+    const { error } = override.cancelled
+      ? await service.deleteEventOccurrence(eventId, occurrenceStart)
+      : await service.updateEventOccurrence(eventId, occurrenceStart, {
+          title: override.title !== series.title ? override.title : null,
+          location: override.location !== series.location ? override.location || null : null,
+          startTime: override.start,
+          endTime: override.end,
+        });
+    if (error) errors.push(`Failed to import a changed occurrence of "${series.title}": ${error.message || 'Unknown error'}`);
+  }
+
+  return errors;
+}
+
+function emptyImportResult(): ImportResult {
+  return { success: false, created: 0, updated: 0, skipped: 0, removed: 0, failed: 0, errors: [] };
+}
+
+// Short fingerprint (FNV-1a) of the source fields that an import copies
+function getSignature(values: unknown[]): string {
+  const text = JSON.stringify(values);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Bring a family's events from one source in line with the source's current events.
+ * New events are created for participantIds; existing ones keep their participants.
+ * With isRemovable, earlier imports it accepts that are missing from items are deleted.
+ */
+async function syncImportedEvents(
+  sourceCalendarId: string,
+  items: ImportItem[],
+  familyId: string,
+  participantIds: string[],
+  isRemovable: ((row: ImportedEventRow) => boolean) | null,
+  onProgress?: (current: number, total: number) => void
+): Promise<ImportResult> {
+  const result = emptyImportResult();
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from('events')
+    .select('id, external_event_id, external_signature, start_time, is_recurring')
+    .eq('family_id', familyId)
+    .eq('source_calendar_id', sourceCalendarId)
+    .not('external_event_id', 'is', null);
+
+  if (existingError) {
+    result.errors.push(`Failed to check earlier imports: ${existingError.message}`);
+    return result;
+  }
+
+  const existing = new Map<string, ImportedEventRow>(
+    ((existingRows || []) as ImportedEventRow[]).map((row) => [row.external_event_id, row])
+  );
+  const total = items.length;
+
+  // Dynamically import eventService to avoid circular dependency
+  const { createEvent, deleteEvent, updateEvent } = await import('./eventService');
+
+  for (let i = 0; i < items.length; i++) {
+    const { externalId, data, signature, applyExceptions } = items[i];
+    const row = existing.get(externalId);
+
+    try {
+      if (row && row.external_signature === signature) {
+        result.skipped++;
+      } else if (row) {
+        const { error: updateError } = await updateEvent(row.id, {
+          title: data.title,
+          notes: data.notes ?? '',
+          location: data.location ?? '',
+          startTime: data.startTime,
+          endTime: data.endTime,
+          isAllDay: data.isAllDay ?? false,
+          ...(data.timeZone ? { timeZone: data.timeZone } : {}),
+          recurrence: data.recurrence || { isRecurring: false },
+          externalSignature: signature,
+        });
+
+        if (updateError) {
+          result.failed++;
+          result.errors.push(`Failed to update "${data.title}": ${updateError.message || 'Unknown error'}`);
+        } else {
+          result.updated++;
+          if (applyExceptions) {
+            // The source's exceptions replace the ones saved by the last import
+            await supabase.from('event_exceptions').delete().eq('event_id', row.id);
+            result.errors.push(...(await applyExceptions(row.id)));
+          }
+        }
+      } else {
+        const { data: created, error: createError } = await createEvent(
+          familyId,
+          {
+            ...data,
+            sourceCalendarId,
+            externalEventId: externalId,
+            externalSignature: signature,
+          },
+          participantIds.length > 0 ? participantIds : undefined
+        );
+
+        if (createError || !created) {
+          result.failed++;
+          result.errors.push(`Failed to import "${data.title}": ${createError?.message || 'Unknown error'}`);
+        } else {
+          result.created++;
+          if (applyExceptions) {
+            result.errors.push(...(await applyExceptions(created.id)));
+          }
+        }
+      }
+    } catch (err: any) {
+      result.failed++;
+      result.errors.push(`Error importing "${data.title}": ${err.message || 'Unknown error'}`);
+    }
+
+    existing.delete(externalId);
+
+    // Report progress
+    if (onProgress) {
+      onProgress(i + 1, total);
     }
   }
 
-  return eventData;
+  // Whatever is left wasn't in the source this time
+  if (isRemovable) {
+    for (const row of existing.values()) {
+      if (!isRemovable(row)) continue;
+      const { error: deleteError } = await deleteEvent(row.id);
+      if (deleteError) {
+        result.failed++;
+        result.errors.push(`Failed to remove a deleted event: ${deleteError.message || 'Unknown error'}`);
+      } else {
+        result.removed++;
+      }
+    }
+  }
+
+  result.success = result.failed === 0;
+  return result;
 }
@@ -0,0 +1,551 @@
+import { Platform } from 'react-native';
+import * as Calendar from 'expo-calendar';
+import { supabase } from '@/lib/supabase';
+import {
+  EventWithDetails,
+  getEventsForDateRange,
+  updateEvent,
+  updateEventOccurrence,
+} from '@/services/eventService';
+import { getPersonalCalendars, PersonalCalendar } from '@/services/personalCalendarService';
+import { getEventTimeZone } from '@/utils/timezone';
+
+// Two-way sync between family events and a device calendar (opt-in per personal
+// calendar). Each occurrence in the sync window is written to the device calendar
+// as a one-off event and linked through calendar_sync_links; edits made on the
+// device flow back as event updates or occurrence overrides. FamilyCal decides
+// which events exist: a copy deleted on the device is written again.
+
+export type SyncConflictPolicy = 'last_writer_wins' | 'ask';
+
+export const SYNC_CONFLICT_POLICY_LABELS: Record<SyncConflictPolicy, string> = {
+  last_writer_wins: 'Most recent change wins',
+  ask: 'Ask me',
+};
+
+export interface CalendarSyncLogEntry {
+  id: string;
+  personal_calendar_id: string;
+  user_id: string;
+  event_id: string | null;
+  event_title: string | null;
+  direction: 'to_device' | 'from_device';
+  action: 'created' | 'updated' | 'deleted' | 'conflict' | 'error';
+  message: string | null;
+  created_at: string;
+}
+
+// The fields kept in step on both sides
+export interface SyncFields {
+  title: string;
+  location: string;
+  notes: string;
+  startDate: string;
+  endDate: string;
+  allDay: boolean;
+}
+
+export interface SyncConflict {
+  linkId: string;
+  eventId: string | null;
+  app: SyncFields;
+  device: SyncFields;
+}
+
+export interface SyncResult {
+  toDevice: number;
+  fromDevice: number;
+  conflicts: number;
+  errors: string[];
+}
+
+interface SyncLink {
+  id: string;
+  personal_calendar_id: string;
+  event_id: string | null;
+  occurrence_key: string;
+  device_event_id: string;
+  synced_signature: string;
+  synced_start_time: string;
+  conflict_device_version: {
+    device: SyncFields;
+    app: SyncFields;
+    deviceSignature: string;
+    appSignature: string;
+  } | null;
+}
+
+interface AppItem {
+  key: string;
+  eventId: string;
+  occurrenceKey: string; // '' for one-off events
+  event: EventWithDetails;
+  fields: SyncFields;
+  modifiedAt: number;
+}
+
+const WINDOW_PAST_MS = 7 * 24 * 60 * 60 * 1000;
+const WINDOW_FUTURE_MS = 90 * 24 * 60 * 60 * 1000;
+const LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const linkKey = (eventId: string, occurrenceKey: string) => `${eventId}|${occurrenceKey}`;
+
+/**
+ * Fingerprint of the synced fields. All-day events compare by local date, since
+ * the device and the app store their end times differently.
+ */
+function getSignature(fields: SyncFields): string {
+  const day = (iso: string) => new Date(iso).toDateString();
+  return JSON.stringify([
+    fields.title.trim(),
+    fields.location.trim(),
+    fields.notes.trim(),
+    fields.allDay,
+    fields.allDay ? day(fields.startDate) : new Date(fields.startDate).toISOString(),
+    fields.allDay ? day(fields.endDate) : new Date(fields.endDate).toISOString(),
+  ]);
+}
+
+function getAppItem(event: EventWithDetails): AppItem {
+  const eventId = event.original_event_id || event.id;
+  const occurrenceKey = event.occurrence_start_time || '';
+  // An overridden occurrence changed when its exception was saved
+  const exception = event.exceptions?.find(
+    (e) => occurrenceKey && new Date(e.exception_date).getTime() === new Date(occurrenceKey).getTime()
+  );
+  return {
+    key: linkKey(eventId, occurrenceKey),
+    eventId,
+    occurrenceKey,
+    event,
+    fields: {
+      title: event.title,
+      location: event.location || '',
+      notes: event.notes || '',
+      startDate: event.start_time,
+      endDate: event.end_time,
+      allDay: event.is_all_day,
+    },
+    modifiedAt: Math.max(
+      new Date(event.updated_at).getTime(),
+      exception ? new Date(exception.updated_at).getTime() : 0
+    ),
+  };
+}
+
+function getDeviceFields(event: Calendar.Event): SyncFields {
+  return {
+    title: event.title || '',
+    location: event.location || '',
+    notes: event.notes || '',
+    startDate: new Date(event.startDate).toISOString(),
+    endDate: new Date(event.endDate).toISOString(),
+    allDay: event.allDay ?? false,
+  };
+}
+
+async function writeToDevice(
+  calendarId: string,
+  deviceEventId: string | null,
+  item: AppItem
+): Promise<string> {
+  const details = {
+    title: item.fields.title,
+    location: item.fields.location,
+    notes: item.fields.notes,
+    startDate: new Date(item.fields.startDate),
+    endDate: new Date(item.fields.endDate),
+    allDay: item.fields.allDay,
+    timeZone: getEventTimeZone(item.event),
+  };
+  if (deviceEventId) {
+    await Calendar.updateEventAsync(deviceEventId, details);
+    return deviceEventId;
+  }
+  return Calendar.createEventAsync(calendarId, details);
+}
+
+// Resolves the device changes that couldn't be applied, so they can be logged
+async function writeToApp(item: AppItem, fields: SyncFields): Promise<{ error: any; notApplied: string[] }> {
+  if (item.occurrenceKey) {
+    // Device edits to one occurrence become an override. Notes and all-day belong to
+    // the series, so changes to those stay on the device.
+    const notApplied: string[] = [];
+    if (fields.notes.trim() !== item.fields.notes.trim()) notApplied.push('notes');
+    if (fields.allDay !== item.fields.allDay) notApplied.push('all-day');
+
+    const { error } = await updateEventOccurrence(item.eventId, new Date(item.occurrenceKey), {
+      title: fields.title,
+      location: fields.location || null,
+      startTime: new Date(fields.startDate),
+      endTime: new Date(fields.endDate),
+    });
+    return { error, notApplied };
+  }
+
+  const { error } = await updateEvent(item.eventId, {
+    title: fields.title,
+    location: fields.location,
+    notes: fields.notes,
+    startTime: new Date(fields.startDate),
+    endTime: new Date(fields.endDate),
+    isAllDay: fields.allDay,
+  });
+  return { error, notApplied: [] };
+}
+
+async function getDeviceEvent(id: string): Promise<Calendar.Event | null> {
+  try {
+    return await Calendar.getEventAsync(id);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether this device can sync. Android's calendar provider reports no modification
+ * times for last-writer-wins, so sync is iOS only for now.
+ */
+export function isSyncSupported(): boolean {
+  return Platform.OS === 'ios';
+}
+
+/**
+ * Run one sync of a personal calendar with sync enabled. Elsewhere than on iOS this
+ * does nothing.
+ */
+export async function syncPersonalCalendar(
+  calendar: PersonalCalendar,
+  familyId: string
+): Promise<SyncResult> {
+  const result: SyncResult = { toDevice: 0, fromDevice: 0, conflicts: 0, errors: [] };
+  if (!isSyncSupported() || calendar.calendar_type !== 'device' || !calendar.sync_enabled) {
+    return result;
+  }
+
+  const log: Omit<CalendarSyncLogEntry, 'id' | 'created_at'>[] = [];
+  const addLog = (
+    item: { eventId: string | null; title: string | null },
+    direction: CalendarSyncLogEntry['direction'],
+    action: CalendarSyncLogEntry['action'],
+    message: string | null = null
+  ) => {
+    log.push({
+      personal_calendar_id: calendar.id,
+      user_id: calendar.user_id,
+      event_id: item.eventId,
+      event_title: item.title,
+      direction,
+      action,
+      message,
+    });
+    if (action === 'error' && message) result.errors.push(message);
+  };
+
+  try {
+    const now = Date.now();
+    const rangeStart = new Date(now - WINDOW_PAST_MS);
+    const rangeEnd = new Date(now + WINDOW_FUTURE_MS);
+
+    const { data: events, error: eventsError } = await getEventsForDateRange(familyId, rangeStart, rangeEnd);
+    if (eventsError || !events) {
+      result.errors.push('Failed to load family events');
+      return result;
+    }
+
+    const contactIds = calendar.sync_contact_ids?.length ? new Set(calendar.sync_contact_ids) : null;
+    const appItems = new Map<string, AppItem>();
+    for (const event of events) {
+      if (event.status === 'cancelled') continue;
+      if (contactIds && !event.participants?.some((p) => contactIds.has(p.contact_id))) continue;
+      const item = getAppItem(event);
+      appItems.set(item.key, item);
+    }
+
+    const deviceEvents = await Calendar.getEventsAsync([calendar.calendar_id], rangeStart, rangeEnd);
+    const deviceById = new Map(deviceEvents.map((e) => [e.id, e]));
+
+    const { data: linkRows, error: linksError } = await supabase
+      .from('calendar_sync_links')
+      .select('*')
+      .eq('personal_calendar_id', calendar.id);
+    if (linksError) {
+      result.errors.push('Failed to load sync state');
+      return result;
+    }
+
+    const handled = new Set<string>();
+    const saveLink = async (link: SyncLink, fields: SyncFields, deviceEventId: string = link.device_event_id) => {
+      const { error } = await supabase
+        .from('calendar_sync_links')
+        .update({
+          device_event_id: deviceEventId,
+          synced_signature: getSignature(fields),
+          synced_start_time: fields.startDate,
+          conflict_device_version: null,
+          synced_at: new Date().toISOString(),
+        })
+        .eq('id', link.id);
+      if (error) console.error('Error saving sync link:', error);
+    };
+
+    for (const link of (linkRows || []) as SyncLink[]) {
+      const item = link.event_id ? appItems.get(linkKey(link.event_id, link.occurrence_key)) : undefined;
+
+      if (!item) {
+        // Deleted or cancelled in FamilyCal, or no longer for a synced member. Copies that
+        // have simply aged out of the window are left on the device.
+        const inWindow = new Date(link.synced_start_time).getTime() >= rangeStart.getTime();
+        if (!link.event_id || inWindow) {
+          try {
+            if (deviceById.has(link.device_event_id) || (await getDeviceEvent(link.device_event_id))) {
+              await Calendar.deleteEventAsync(link.device_event_id);
+            }
+            addLog({ eventId: link.event_id, title: null }, 'to_device', 'deleted');
+            result.toDevice++;
+          } catch (err: any) {
+            addLog({ eventId: link.event_id, title: null }, 'to_device', 'error', err.message || 'Failed to delete');
+            continue;
+          }
+        }
+        await supabase.from('calendar_sync_links').delete().eq('id', link.id);
+        continue;
+      }
+
+      handled.add(item.key);
+      const logItem = { eventId: item.eventId, title: item.fields.title };
+
+      if (link.conflict_device_version) {
+        result.conflicts++;
+        continue;
+      }
+
+      const device = deviceById.get(link.device_event_id) || (await getDeviceEvent(link.device_event_id));
+      if (!device) {
+        // Deleted on the device; FamilyCal still has it, so it's written again
+        try {
+          const deviceEventId = await writeToDevice(calendar.calendar_id, null, item);
+          await saveLink(link, item.fields, deviceEventId);
+          addLog(logItem, 'to_device', 'created', 'Deleted on the device; added back');
+          result.toDevice++;
+        } catch (err: any) {
+          addLog(logItem, 'to_device', 'error', err.message || 'Failed to write event');
+        }
+        continue;
+      }
+
+      const deviceFields = getDeviceFields(device);
+      const appSignature = getSignature(item.fields);
+      const deviceSignature = getSignature(deviceFields);
+      const appChanged = appSignature !== link.synced_signature;
+      const deviceChanged = deviceSignature !== link.synced_signature;
+      if (!appChanged && !deviceChanged) continue;
+
+      let winner: 'app' | 'device' = deviceChanged ? 'device' : 'app';
+      if (appChanged && deviceChanged && appSignature !== deviceSignature) {
+        if (calendar.sync_conflict_policy === 'ask') {
+          await supabase
+            .from('calendar_sync_links')
+            .update({
+              conflict_device_version: { device: deviceFields, app: item.fields, deviceSignature, appSignature },
+            })
+            .eq('id', link.id);
+          addLog(logItem, 'from_device', 'conflict', 'Changed in both places');
+          result.conflicts++;
+          continue;
+        }
+        const deviceModifiedAt = device.lastModifiedDate ? new Date(device.lastModifiedDate).getTime() : 0;
+        winner = deviceModifiedAt > item.modifiedAt ? 'device' : 'app';
+      }
+
+      if (winner === 'device') {
+        if (appSignature !== deviceSignature) {
+          const { error, notApplied } = await writeToApp(item, deviceFields);
+          if (error) {
+            addLog(logItem, 'from_device', 'error', error.message || 'Failed to update event');
+            continue;
+          }
+          addLog(
+            { ...logItem, title: deviceFields.title },
+            'from_device',
+            'updated',
+            notApplied.length > 0
+              ? `Changes to ${notApplied.join(' and ')} apply to the whole series, so they weren't copied from one occurrence`
+              : null
+          );
+          result.fromDevice++;
+        }
+        await saveLink(link, deviceFields);
+      } else {
+        try {
+          await writeToDevice(calendar.calendar_id, link.device_event_id, item);
+          await saveLink(link, item.fields);
+          addLog(logItem, 'to_device', 'updated');
+          result.toDevice++;
+        } catch (err: any) {
+          addLog(logItem, 'to_device', 'error', err.message || 'Failed to update device event');
+        }
+      }
+    }
+
+    // Events not on the device yet
+    for (const item of appItems.values()) {
+      if (handled.has(item.key)) continue;
+      const logItem = { eventId: item.eventId, title: item.fields.title };
+      try {
+        const deviceEventId = await writeToDevice(calendar.calendar_id, null, item);
+        const { error } = await supabase.from('calendar_sync_links').insert({
+          personal_calendar_id: calendar.id,
+          user_id: calendar.user_id,
+          event_id: item.eventId,
+          occurrence_key: item.occurrenceKey,
+          device_event_id: deviceEventId,
+          synced_signature: getSignature(item.fields),
+          synced_start_time: item.fields.startDate,
+        });
+        if (error) {
+          // Without a link the copy would be duplicated next time
+          await Calendar.deleteEventAsync(deviceEventId);
+          throw error;
+        }
+        addLog(logItem, 'to_device', 'created');
+        result.toDevice++;
+      } catch (err: any) {
+        addLog(logItem, 'to_device', 'error', err.message || 'Failed to write event');
+      }
+    }
+
+    await supabase
+      .from('personal_calendars')
+      .update({ last_synced_at: new Date().toISOString() })
+      .eq('id', calendar.id);
+  } catch (error: any) {
+    console.error('Error in syncPersonalCalendar:', error);
+    addLog({ eventId: null, title: null }, 'to_device', 'error', error.message || 'Sync failed');
+  } finally {
+    if (log.length > 0) {
+      const { error } = await supabase.from('calendar_sync_log').insert(log);
+      if (error) console.error('Error writing sync log:', error);
+    }
+    await supabase
+      .from('calendar_sync_log')
+      .delete()
+      .eq('personal_calendar_id', calendar.id)
+      .lt('created_at', new Date(Date.now() - LOG_RETENTION_MS).toISOString());
+  }
+
+  return result;
+}
+
+/**
+ * Sync every personal calendar the user has turned sync on for
+ */
+export async function syncPersonalCalendars(
+  userId: string,
+  familyId: string
+): Promise<{ error: Error | null }> {
+  if (!isSyncSupported()) {
+    return { error: null };
+  }
+
+  try {
+    const { status } = await Calendar.getCalendarPermissionsAsync();
+    if (status !== 'granted') {
+      return { error: null };
+    }
+
+    const { data: calendars, error } = await getPersonalCalendars(userId, familyId);
+    if (error || !calendars) {
+      return { error: error || new Error('Failed to load calendars') };
+    }
+
+    for (const calendar of calendars.filter((c) => c.sync_enabled)) {
+      await syncPersonalCalendar(calendar, familyId);
+    }
+    return { error: null };
+  } catch (err) {
+    console.error('Error syncing calendars:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Recent sync activity for a calendar, newest first
+ */
+export async function getCalendarSyncLog(
+  personalCalendarId: string,
+  limit: number = 100
+): Promise<{ data: CalendarSyncLogEntry[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('calendar_sync_log')
+    .select('*')
+    .eq('personal_calendar_id', personalCalendarId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  return { data, error };
+}
+
+/**
+ * Events changed on both sides that are waiting for the user (policy 'ask')
+ */
+export async function getSyncConflicts(
+  personalCalendarId: string
+): Promise<{ data: SyncConflict[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('calendar_sync_links')
+    .select('*')
+    .eq('personal_calendar_id', personalCalendarId)
+    .not('conflict_device_version', 'is', null);
+
+  if (error || !data) {
+    return { data: null, error };
+  }
+
+  return {
+    data: (data as SyncLink[]).map((link) => ({
+      linkId: link.id,
+      eventId: link.event_id,
+      app: link.conflict_device_version!.app,
+      device: link.conflict_device_version!.device,
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Settle a conflict by keeping one side's version. The sync baseline is set to the
+ * losing side, so the next sync copies the kept version across.
+ */
+export async function resolveSyncConflict(
+  calendar: PersonalCalendar,
+  familyId: string,
+  linkId: string,
+  keep: 'app' | 'device'
+): Promise<{ error: any }> {
+  const { data: link, error: linkError } = await supabase
+    .from('calendar_sync_links')
+    .select('*')
+    .eq('id', linkId)
+    .single();
+
+  if (linkError || !link?.conflict_device_version) {
+    return { error: linkError || new Error('Conflict already resolved') };
+  }
+
+  const conflict = (link as SyncLink).conflict_device_version!;
+  const { error } = await supabase
+    .from('calendar_sync_links')
+    .update({
+      synced_signature: keep === 'app' ? conflict.deviceSignature : conflict.appSignature,
+      conflict_device_version: null,
+    })
+    .eq('id', linkId);
+
+  if (error) {
+    return { error };
+  }
+
+  const { errors } = await syncPersonalCalendar(calendar, familyId);
+  return { error: errors.length ? new Error(errors[0]) : null };
+}
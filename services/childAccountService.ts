@@ -0,0 +1,113 @@
+import { Contact, supabase } from '@/lib/supabase';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+// Children sign in with a PIN through the child-accounts edge function, which
+// also lets family owners and admins set those PINs up. The PIN never leaves
+// the function; what comes back is a one-time token for supabase.auth.verifyOtp.
+
+// Children whose faces a shared tablet shows on its sign-in screen
+const TABLET_CHILDREN_KEY = 'familycal_tablet_children';
+
+export interface TabletChild {
+  contactId: string;
+  firstName: string;
+  color: string | null;
+  avatarUrl: string | null;
+}
+
+async function invokeChildAccounts(body: Record<string, string>): Promise<{ data: any; error: string | null }> {
+  try {
+    const { data, error } = await supabase.functions.invoke('child-accounts', { body });
+
+    if (error) {
+      // The function explains what went wrong in its JSON body
+      const errorBody = await error.context?.json?.().catch(() => null);
+      return { data: null, error: errorBody?.error || error.message || 'Something went wrong' };
+    }
+
+    return { data, error: null };
+  } catch (error: any) {
+    console.error('Error calling child-accounts:', error);
+    return { data: null, error: error.message || 'Something went wrong' };
+  }
+}
+
+/**
+ * Give a child contact a PIN sign-in, or change their PIN. The contact becomes a
+ * family member with the 'child' role.
+ */
+export async function setChildPin(
+  familyId: string,
+  contactId: string,
+  pin: string
+): Promise<{ error: string | null }> {
+  const { error } = await invokeChildAccounts({ action: 'set-pin', familyId, contactId, pin });
+  return { error };
+}
+
+/**
+ * Take a child's sign-in away. They stay in the family as a contact, events and
+ * routines included.
+ */
+export async function removeChildSignIn(familyId: string, contactId: string): Promise<{ error: string | null }> {
+  const { error } = await invokeChildAccounts({ action: 'remove', familyId, contactId });
+  if (!error) {
+    await removeTabletChild(contactId);
+  }
+  return { error };
+}
+
+/**
+ * Check a child's PIN. Resolves the token hash that signs them in.
+ */
+export async function requestChildSignIn(
+  contactId: string,
+  pin: string
+): Promise<{ data: string | null; error: string | null }> {
+  const { data, error } = await invokeChildAccounts({ action: 'sign-in', contactId, pin });
+  return { data: data?.tokenHash ?? null, error };
+}
+
+export async function getTabletChildren(): Promise<TabletChild[]> {
+  try {
+    const raw = Platform.OS === 'web'
+      ? window.localStorage.getItem(TABLET_CHILDREN_KEY)
+      : await SecureStore.getItemAsync(TABLET_CHILDREN_KEY);
+    return raw ? (JSON.parse(raw) as TabletChild[]) : [];
+  } catch (e) {
+    console.warn('Failed to load tablet children', e);
+    return [];
+  }
+}
+
+async function storeTabletChildren(children: TabletChild[]): Promise<void> {
+  const raw = JSON.stringify(children);
+  if (Platform.OS === 'web') {
+    window.localStorage.setItem(TABLET_CHILDREN_KEY, raw);
+  } else {
+    await SecureStore.setItemAsync(TABLET_CHILDREN_KEY, raw);
+  }
+}
+
+/**
+ * Show a child on this device's sign-in screen (or refresh their name and colour)
+ */
+export async function addTabletChild(contact: Contact): Promise<void> {
+  const children = await getTabletChildren();
+  const child: TabletChild = {
+    contactId: contact.id,
+    firstName: contact.first_name,
+    color: contact.color,
+    avatarUrl: contact.avatar_url,
+  };
+  const index = children.findIndex((c) => c.contactId === contact.id);
+  if (index === -1) children.push(child);
+  else children[index] = child;
+  await storeTabletChildren(children);
+}
+
+export async function removeTabletChild(contactId: string): Promise<void> {
+  const children = await getTabletChildren();
+  await storeTabletChildren(children.filter((c) => c.contactId !== contactId));
+}
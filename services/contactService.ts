@@ -32,6 +32,16 @@ export async function getUserContactForFamily(
   return { data: data && data.length > 0 ? data[0] : null, error: null };
 }
 
+// Get the user's contact records across all of their families
+export async function getUserContacts(userId: string): Promise<{ data: Contact[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('*')
+    .eq('user_id', userId);
+
+  return { data, error };
+}
+
 // Create a new contact (virtual family member or external contact)
 export async function createContact(
   familyId: string,
@@ -141,6 +151,7 @@ export async function updateContact(
   if (updates.notes !== undefined) updateData.notes = updates.notes;
   if (updates.color !== undefined) updateData.color = updates.color;
   if (updates.routines_enabled !== undefined) updateData.routines_enabled = updates.routines_enabled;
+  if (updates.arrival_alerts_enabled !== undefined) updateData.arrival_alerts_enabled = updates.arrival_alerts_enabled;
 
   const { data, error } = await supabase
     .from('contacts')
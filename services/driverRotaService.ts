@@ -0,0 +1,214 @@
+/**
+ * Driver Rota Service
+ *
+ * Lifts to and from events for a week: which events need transport, who drives
+ * each leg, sharing unassigned legs out fairly, and each driver's agenda. A
+ * driver's agenda can be shared as a read-only calendar-feed link.
+ */
+
+import { Contact } from '@/lib/supabase';
+import {
+  CalendarFeedToken,
+  createCalendarFeedToken,
+  getCalendarFeedTokens,
+} from './calendarFeedService';
+import {
+  EventWithDetails,
+  getEventsForDateRange,
+  updateEvent,
+  updateEventOccurrenceDrivers,
+} from './eventService';
+
+// 'both' is the single leg of an event where one driver does drop-off and pick-up
+export type DriverLeg = 'drop_off' | 'collection' | 'both';
+
+export const DRIVER_LEG_LABELS: Record<DriverLeg, string> = {
+  drop_off: 'Drop-off',
+  collection: 'Pick-up',
+  both: 'Drop-off & pick-up',
+};
+
+export interface RotaLeg {
+  key: string; // Unique per occurrence and leg
+  event: EventWithDetails;
+  leg: DriverLeg;
+  time: Date; // When the driver is needed: the start for drop-off, the end for pick-up
+  driverId: string | null;
+}
+
+export interface RotaWeek {
+  legs: RotaLeg[];
+  // Events with a location that nobody has said need a lift
+  otherEvents: EventWithDetails[];
+}
+
+// Legs of two lifts closer together than this can't be driven by the same person
+const LEG_CLASH_MINUTES = 30;
+
+export function getWeekStart(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  // Weeks run Monday to Sunday
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+export function needsTransport(event: EventWithDetails): boolean {
+  return event.needs_transport || !!event.drop_off_driver_id || !!event.collection_driver_id;
+}
+
+export function getEventLegs(event: EventWithDetails): RotaLeg[] {
+  const start = new Date(event.start_time);
+  if (event.same_driver) {
+    return [{ key: `${event.id}|both`, event, leg: 'both', time: start, driverId: event.drop_off_driver_id }];
+  }
+  return [
+    { key: `${event.id}|drop_off`, event, leg: 'drop_off', time: start, driverId: event.drop_off_driver_id },
+    {
+      key: `${event.id}|collection`,
+      event,
+      leg: 'collection',
+      time: new Date(event.end_time),
+      driverId: event.collection_driver_id,
+    },
+  ];
+}
+
+/**
+ * Legs needing a driver in the week starting at weekStart, recurring events
+ * expanded to their occurrences
+ */
+export async function getRotaWeek(
+  familyId: string,
+  weekStart: Date
+): Promise<{ data: RotaWeek | null; error: any }> {
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 7);
+
+  const { data: events, error } = await getEventsForDateRange(familyId, weekStart, weekEnd);
+  if (error || !events) {
+    return { data: null, error };
+  }
+
+  const legs: RotaLeg[] = [];
+  const otherEvents: EventWithDetails[] = [];
+  for (const event of events) {
+    if (needsTransport(event)) {
+      legs.push(...getEventLegs(event));
+    } else if (event.location && !event.is_all_day) {
+      otherEvents.push(event);
+    }
+  }
+  legs.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  return { data: { legs, otherEvents }, error: null };
+}
+
+/**
+ * Assign (or clear) the driver of one leg. An occurrence of a recurring event
+ * gets its own driver; clearing it falls back to the series' driver.
+ */
+export async function assignDriver(leg: RotaLeg, driverId: string | null): Promise<{ error: any }> {
+  const { event } = leg;
+  // A shared leg is stored as the drop-off driver; pick-up follows it
+  const drivers = leg.leg === 'collection' ? { collectionDriverId: driverId } : { dropOffDriverId: driverId };
+
+  if (event.original_event_id && event.occurrence_start_time) {
+    return updateEventOccurrenceDrivers(event.original_event_id, new Date(event.occurrence_start_time), drivers);
+  }
+
+  const { error } = await updateEvent(event.id, { ...drivers, needsTransport: true });
+  return { error };
+}
+
+export async function assignDrivers(
+  assignments: { leg: RotaLeg; driverId: string | null }[]
+): Promise<{ error: any }> {
+  for (const { leg, driverId } of assignments) {
+    const { error } = await assignDriver(leg, driverId);
+    if (error) {
+      console.error('Error assigning driver:', error);
+      return { error };
+    }
+  }
+  return { error: null };
+}
+
+// Mark an event (every occurrence of a recurring one) as needing a lift, or take
+// it off the rota along with its drivers
+export async function setNeedsTransport(event: EventWithDetails, needed: boolean): Promise<{ error: any }> {
+  const { error } = await updateEvent(
+    event.original_event_id || event.id,
+    needed ? { needsTransport: true } : { needsTransport: false, dropOffDriverId: null, collectionDriverId: null }
+  );
+  return { error };
+}
+
+/**
+ * Share the unassigned legs out among drivers. Each leg goes to whoever has the
+ * fewest lifts so far (counting ones already assigned), skipping drivers who
+ * already have a leg within half an hour; ties go to whoever drove least recently.
+ * Returns the planned driver per leg key.
+ */
+export function planFairRotation(legs: RotaLeg[], driverIds: string[]): Map<string, string> {
+  const plan = new Map<string, string>();
+  const counts = new Map(driverIds.map((id) => [id, 0]));
+  const lastDriven = new Map(driverIds.map((id, index) => [id, -driverIds.length + index]));
+  const busyTimes = new Map<string, number[]>(driverIds.map((id) => [id, []]));
+
+  const sorted = [...legs].sort((a, b) => a.time.getTime() - b.time.getTime());
+  sorted.forEach((leg, index) => {
+    if (!leg.driverId || !counts.has(leg.driverId)) return;
+    counts.set(leg.driverId, counts.get(leg.driverId)! + 1);
+    lastDriven.set(leg.driverId, index);
+    busyTimes.get(leg.driverId)!.push(leg.time.getTime());
+  });
+
+  const clashMs = LEG_CLASH_MINUTES * 60 * 1000;
+  sorted.forEach((leg, index) => {
+    if (leg.driverId) return;
+
+    const candidates = driverIds.filter(
+      (id) => !busyTimes.get(id)!.some((time) => Math.abs(time - leg.time.getTime()) < clashMs)
+    );
+    if (candidates.length === 0) return;
+
+    candidates.sort(
+      (a, b) => counts.get(a)! - counts.get(b)! || lastDriven.get(a)! - lastDriven.get(b)!
+    );
+    const driverId = candidates[0];
+    plan.set(leg.key, driverId);
+    counts.set(driverId, counts.get(driverId)! + 1);
+    lastDriven.set(driverId, index);
+    busyTimes.get(driverId)!.push(leg.time.getTime());
+  });
+
+  return plan;
+}
+
+export function getDriverAgenda(legs: RotaLeg[], driverId: string): RotaLeg[] {
+  return legs.filter((leg) => leg.driverId === driverId);
+}
+
+/**
+ * The read-only feed link of a driver's lifts, created the first time it's shared
+ */
+export async function getDriverFeedToken(
+  familyId: string,
+  driver: Contact
+): Promise<{ data: CalendarFeedToken | null; error: any }> {
+  const { data: tokens, error } = await getCalendarFeedTokens(familyId);
+  if (error) {
+    return { data: null, error };
+  }
+
+  const existing = tokens?.find((token) => token.driver_contact_id === driver.id);
+  if (existing) {
+    return { data: existing, error: null };
+  }
+
+  return createCalendarFeedToken(familyId, {
+    name: `Lifts for ${driver.first_name}`,
+    driverContactId: driver.id,
+  });
+}
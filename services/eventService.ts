@@ -1,10 +1,27 @@
-import { supabase, Event, EventParticipant, EventCategory, Contact } from '@/lib/supabase';
+import { supabase, Event, EventParticipant, EventCategory, Contact, FamilyRole } from '@/lib/supabase';
 import { getEventColor, formatDisplayName, FAMILY_EVENT_COLOR, normalizeColorForDisplay } from '@/utils/colorUtils';
+import { canChangeEditPermission } from '@/utils/eventPermissions';
 import { FamilyEvent } from '@/utils/mockEvents';
+import {
+  expandRRule,
+  formatRRule,
+  getRuleOptions,
+  parseRRule,
+  parseWeekday,
+  RRuleOptions,
+  RRuleWeekday,
+  WeekdayCode,
+  WEEKDAY_CODES,
+  zonedWallClock,
+} from '@/utils/rrule';
+import { getDeviceTimeZone, getEventTimeZone } from '@/utils/timezone';
+import { getLeaveByTime } from './leaveByService';
 
 export interface EventWithDetails extends Event {
   // When expanding recurrences client-side we preserve the original id here
   original_event_id?: string;
+  // Unmodified start of an expanded occurrence (matches event_exceptions.exception_date)
+  occurrence_start_time?: string;
   category?: EventCategory;
   participants?: (EventParticipant & { contact: Contact })[];
   reminders?: EventReminder[];
@@ -21,7 +38,11 @@ export interface EventException {
   location: string | null;
   start_time: string | null;
   end_time: string | null;
+  // Drivers for this occurrence only; null keeps the series' driver
+  drop_off_driver_id: string | null;
+  collection_driver_id: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 export interface EventReminder {
@@ -57,12 +78,28 @@ export type RecurrenceInput = {
   rule?: string;
 };
 
-// Get events for a specific date range
+export type RSVPStatus = EventParticipant['status'];
+
+// An event the signed-in user has been invited to and not answered yet
+export interface EventInvitation {
+  event: EventWithDetails;
+  contactId: string; // The user's participant contact
+}
+
+// Get events for a specific date range. One-off events are the ones starting in it,
+// or with includeOngoing any that overlap it (e.g. already running when it begins).
 export async function getEventsForDateRange(
   familyId: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  includeOngoing: boolean = false
 ): Promise<{ data: EventWithDetails[] | null; error: any }> {
+  const from = startDate.toISOString();
+  const to = endDate.toISOString();
+  const oneOffFilter = includeOngoing
+    ? `and(start_time.lt.${to},end_time.gt.${from})`
+    : `and(start_time.gte.${from},start_time.lt.${to})`;
+
   const { data, error } = await supabase
     .from('events')
     .select(`
@@ -71,10 +108,11 @@ export async function getEventsForDateRange(
       participants:event_participants(
         *,
         contact:contacts(*)
-      )
+      ),
+      exceptions:event_exceptions(*)
     `)
     .eq('family_id', familyId)
-    .or(`is_recurring.eq.true,and(start_time.gte.${startDate.toISOString()},start_time.lt.${endDate.toISOString()})`)
+    .or(`is_recurring.eq.true,${oneOffFilter}`)
     .order('start_time');
 
   if (error) {
@@ -131,7 +169,9 @@ export async function getUpcomingEvents(
       participants:event_participants(
         *,
         contact:contacts(*)
-      )
+      ),
+      exceptions:event_exceptions(*),
+      reminders:event_reminders(*)
     `)
     .eq('family_id', familyId)
     .order('start_time');
@@ -227,7 +267,8 @@ export async function getEvent(eventId: string): Promise<{
         *,
         contact:contacts(*)
       ),
-      reminders:event_reminders(*)
+      reminders:event_reminders(*),
+      exceptions:event_exceptions(*)
     `)
     .eq('id', eventId)
     .single();
@@ -251,6 +292,7 @@ export async function createEvent(
     startTime: Date;
     endTime: Date;
     isAllDay?: boolean;
+    timeZone?: string; // IANA zone the event is anchored to; defaults to the device's
     categoryId?: string;
     availability?: Event['availability'];
     travelTimeMinutes?: number;
@@ -263,6 +305,10 @@ export async function createEvent(
     dropOffDriverId?: string;
     collectionDriverId?: string;
     sameDriver?: boolean;
+    editPermission?: Event['edit_permission'];
+    sourceCalendarId?: string; // Where an imported event came from (see calendarImportService)
+    externalEventId?: string;
+    externalSignature?: string;
   },
   participantContactIds?: string[],
   reminders?: ReminderInput[]
@@ -273,7 +319,8 @@ export async function createEvent(
     return { data: null, error: new Error('Not authenticated') };
   }
 
-  const recurrence = eventData.recurrence || {};
+  const timeZone = eventData.timeZone || getDeviceTimeZone();
+  const recurrence = withRecurrenceRule(eventData.recurrence || {}, eventData.isAllDay, timeZone);
   const normalizedRecurrence = {
     ...recurrence,
     isRecurring: recurrence.isRecurring ?? false,
@@ -299,6 +346,7 @@ export async function createEvent(
     start_time: eventData.startTime.toISOString(),
     end_time: eventData.endTime.toISOString(),
     is_all_day: eventData.isAllDay ?? false,
+    timezone: timeZone,
     category_id: eventData.categoryId || null,
     availability: eventData.availability || 'busy',
     travel_time: eventData.travelTimeMinutes ?? null,
@@ -341,6 +389,10 @@ export async function createEvent(
     drop_off_driver_id: eventData.dropOffDriverId || null,
     collection_driver_id: eventData.collectionDriverId || null,
     same_driver: eventData.sameDriver ?? false,
+    edit_permission: eventData.editPermission || 'family',
+    source_calendar_id: eventData.sourceCalendarId || null,
+    external_event_id: eventData.externalEventId || null,
+    external_signature: eventData.externalSignature || null,
   };
 
   // Only set recurrence_interval if it's not null (let DB default handle null case)
@@ -516,10 +568,11 @@ export async function createEvent(
 
   // Add participants
   if (participantsToAdd.length > 0) {
+    const statuses = await getInvitationStatuses(participantsToAdd, user.id);
     const participants = participantsToAdd.map((contactId, index) => ({
       event_id: event.id,
       contact_id: contactId,
-      status: 'accepted' as const,
+      status: statuses.get(contactId) || 'accepted',
       is_organizer: index === 0, // First participant (creator) is organizer
     }));
 
@@ -586,6 +639,7 @@ export async function updateEvent(
     startTime: Date;
     endTime: Date;
     isAllDay: boolean;
+    timeZone: string;
     categoryId: string;
     availability: Event['availability'];
     status: Event['status'];
@@ -598,6 +652,9 @@ export async function updateEvent(
     dropOffDriverId: string | null;
     collectionDriverId: string | null;
     sameDriver: boolean;
+    needsTransport: boolean;
+    editPermission: Event['edit_permission'];
+    externalSignature: string;
   }>
 ): Promise<{ data: Event | null; error: any }> {
   const updateData: any = {};
@@ -614,6 +671,7 @@ export async function updateEvent(
   if (updates.startTime !== undefined) updateData.start_time = updates.startTime.toISOString();
   if (updates.endTime !== undefined) updateData.end_time = updates.endTime.toISOString();
   if (updates.isAllDay !== undefined) updateData.is_all_day = updates.isAllDay;
+  if (updates.timeZone !== undefined) updateData.timezone = updates.timeZone;
   if (updates.categoryId !== undefined) updateData.category_id = updates.categoryId;
   if (updates.availability !== undefined) updateData.availability = updates.availability;
   if (updates.status !== undefined) updateData.status = updates.status;
@@ -623,7 +681,24 @@ export async function updateEvent(
   if (updates.startLocationLatitude !== undefined) updateData.start_location_latitude = updates.startLocationLatitude;
   if (updates.startLocationLongitude !== undefined) updateData.start_location_longitude = updates.startLocationLongitude;
   if (updates.recurrence !== undefined) {
-    const r = updates.recurrence || {};
+    // The rule is written on the event's own clock (and as dates for all-day events),
+    // so whatever of those isn't changing comes from the stored row
+    let isAllDay = updates.isAllDay;
+    let timeZone = updates.timeZone;
+    if (isAllDay === undefined || timeZone === undefined) {
+      const { data: stored, error: storedError } = await supabase
+        .from('events')
+        .select('is_all_day, timezone')
+        .eq('id', eventId)
+        .single();
+      if (storedError || !stored) {
+        return { data: null, error: storedError || new Error('Event not found') };
+      }
+      isAllDay = isAllDay ?? stored.is_all_day;
+      timeZone = timeZone ?? getEventTimeZone(stored);
+    }
+
+    const r = withRecurrenceRule(updates.recurrence || {}, isAllDay, timeZone);
     const normalizedRecurrence = {
       ...r,
       isRecurring: r.isRecurring ?? false,
@@ -668,6 +743,9 @@ export async function updateEvent(
   if (updates.dropOffDriverId !== undefined) updateData.drop_off_driver_id = updates.dropOffDriverId;
   if (updates.collectionDriverId !== undefined) updateData.collection_driver_id = updates.collectionDriverId;
   if (updates.sameDriver !== undefined) updateData.same_driver = updates.sameDriver;
+  if (updates.needsTransport !== undefined) updateData.needs_transport = updates.needsTransport;
+  if (updates.editPermission !== undefined) updateData.edit_permission = updates.editPermission;
+  if (updates.externalSignature !== undefined) updateData.external_signature = updates.externalSignature;
 
   const { data, error } = await supabase
     .from('events')
@@ -681,36 +759,412 @@ export async function updateEvent(
 
 // Delete an event
 export async function deleteEvent(eventId: string): Promise<{ error: any }> {
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from('events')
     .delete()
-    .eq('id', eventId);
+    .eq('id', eventId)
+    .select('id');
+
+  // RLS hides rows the user can't delete rather than failing, so nothing deleted means not allowed
+  if (!error && (!data || data.length === 0)) {
+    return { error: new Error('You do not have permission to delete this event') };
+  }
+
+  return { error };
+}
+
+// Scope of a change made from a single occurrence of a recurring event
+export type RecurringEditScope = 'single' | 'future' | 'all';
+
+export type OccurrenceOverrides = {
+  title?: string | null;
+  description?: string | null;
+  location?: string | null;
+  startTime?: Date | null;
+  endTime?: Date | null;
+};
+
+// Override a single occurrence of a recurring event (stored as an event_exceptions row)
+// occurrenceStart is the occurrence's original, unmodified start time. Only the fields
+// passed are written; the occurrence's other overrides are left alone, and null clears one.
+export async function updateEventOccurrence(
+  eventId: string,
+  occurrenceStart: Date,
+  overrides: OccurrenceOverrides
+): Promise<{ data: EventException | null; error: any }> {
+  const row: Record<string, unknown> = {
+    event_id: eventId,
+    exception_date: occurrenceStart.toISOString(),
+    is_deleted: false,
+  };
+  if (overrides.title !== undefined) row.title = overrides.title;
+  if (overrides.description !== undefined) row.description = overrides.description;
+  if (overrides.location !== undefined) row.location = overrides.location;
+  if (overrides.startTime !== undefined) row.start_time = overrides.startTime ? overrides.startTime.toISOString() : null;
+  if (overrides.endTime !== undefined) row.end_time = overrides.endTime ? overrides.endTime.toISOString() : null;
+
+  const { data, error } = await supabase
+    .from('event_exceptions')
+    .upsert(row, { onConflict: 'event_id,exception_date' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[updateEventOccurrence] Error saving exception:', error);
+  }
+
+  return { data: data as EventException | null, error };
+}
+
+// Set the drivers of a single occurrence, leaving its other overrides alone
+export async function updateEventOccurrenceDrivers(
+  eventId: string,
+  occurrenceStart: Date,
+  drivers: { dropOffDriverId?: string | null; collectionDriverId?: string | null }
+): Promise<{ error: any }> {
+  const row: Record<string, unknown> = {
+    event_id: eventId,
+    exception_date: occurrenceStart.toISOString(),
+    is_deleted: false,
+  };
+  if (drivers.dropOffDriverId !== undefined) row.drop_off_driver_id = drivers.dropOffDriverId;
+  if (drivers.collectionDriverId !== undefined) row.collection_driver_id = drivers.collectionDriverId;
+
+  const { error } = await supabase
+    .from('event_exceptions')
+    .upsert(row, { onConflict: 'event_id,exception_date' });
+
+  if (error) {
+    console.error('[updateEventOccurrenceDrivers] Error saving exception:', error);
+  }
 
   return { error };
 }
 
-// Update event participants
+// Cancel a single occurrence of a recurring event
+export async function deleteEventOccurrence(
+  eventId: string,
+  occurrenceStart: Date
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('event_exceptions')
+    .upsert(
+      {
+        event_id: eventId,
+        exception_date: occurrenceStart.toISOString(),
+        is_deleted: true,
+        title: null,
+        description: null,
+        location: null,
+        start_time: null,
+        end_time: null,
+      },
+      { onConflict: 'event_id,exception_date' }
+    );
+
+  if (error) {
+    console.error('[deleteEventOccurrence] Error saving exception:', error);
+  }
+
+  return { error };
+}
+
+// Remove an occurrence and every later one by ending the series just before it.
+// Deleting from the first occurrence removes the whole series.
+export async function deleteFutureEventOccurrences(
+  event: Event,
+  occurrenceStart: Date
+): Promise<{ error: any }> {
+  if (occurrenceStart.getTime() <= new Date(event.start_time).getTime()) {
+    return deleteEvent(event.id);
+  }
+
+  // UNTIL now bounds the series, so any COUNT is dropped rather than kept alongside it
+  const { error } = await updateEvent(event.id, {
+    recurrence: {
+      ...getRecurrenceInputFromEvent(event),
+      count: undefined,
+      endDate: new Date(occurrenceStart.getTime() - 1000),
+    },
+  });
+
+  return { error };
+}
+
+// Move an occurrence and every later one to new times: the original series ends
+// before the occurrence and a copy of it continues from newStart
+export async function moveFutureEventOccurrences(
+  event: EventWithDetails,
+  occurrenceStart: Date,
+  newStart: Date,
+  newEnd: Date
+): Promise<{ data: Event | null; error: any }> {
+  if (occurrenceStart.getTime() <= new Date(event.start_time).getTime()) {
+    return updateEvent(event.id, { startTime: newStart, endTime: newEnd });
+  }
+
+  // The copy is created by whoever moves it, which makes them its organiser, so only
+  // someone who could already change who may edit the series can split it
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data: role } = await supabase.rpc('family_role', { p_family_id: event.family_id });
+  if (!canChangeEditPermission(role as FamilyRole | null, user?.id, event.created_by)) {
+    return {
+      data: null,
+      error: new Error('Only the organiser or a family admin can move this and later occurrences. Move just this one instead.'),
+    };
+  }
+
+  // A COUNT-limited series keeps its total: the copy gets whatever is left
+  const recurrence = getRecurrenceInputFromEvent(event);
+  if (recurrence.count) {
+    const options = getRRuleOptionsFromEvent(event);
+    const before = options
+      ? expandRRule(
+          options,
+          new Date(event.start_time),
+          new Date(event.start_time),
+          occurrenceStart,
+          recurrence.count,
+          zonedWallClock(getEventTimeZone(event))
+        ).length
+      : 0;
+    recurrence.count = Math.max(recurrence.count - before, 1);
+  }
+
+  // The mover's alerts go with the copy, as when editing this and later occurrences
+  const { data: reminders, error: remindersError } = await getEventRemindersForUser(event.id);
+  if (remindersError) {
+    return { data: null, error: remindersError };
+  }
+
+  const { error: endError } = await deleteFutureEventOccurrences(event, occurrenceStart);
+  if (endError) {
+    return { data: null, error: endError };
+  }
+
+  const { data: newEvent, error: createError } = await createEvent(
+    event.family_id,
+    {
+      title: event.title,
+      description: event.description || undefined,
+      notes: event.notes || undefined,
+      location: event.location || undefined,
+      structuredLocationTitle: event.structured_location_title || undefined,
+      structuredLocationAddress: event.structured_location_address || undefined,
+      structuredLocationLatitude: event.structured_location_latitude ?? undefined,
+      structuredLocationLongitude: event.structured_location_longitude ?? undefined,
+      url: event.url || undefined,
+      startTime: newStart,
+      endTime: newEnd,
+      isAllDay: event.is_all_day,
+      timeZone: getEventTimeZone(event),
+      categoryId: event.category_id || undefined,
+      availability: event.availability,
+      travelTimeMinutes: event.travel_time ?? undefined,
+      isRecurring: true,
+      recurrence,
+      dropOffDriverId: event.drop_off_driver_id || undefined,
+      collectionDriverId: event.collection_driver_id || undefined,
+      sameDriver: event.same_driver,
+      editPermission: event.edit_permission,
+    },
+    event.participants?.map((p) => p.contact_id) || [],
+    (reminders || []).map((r) => ({ type: r.reminder_type, value: r.reminder_value, method: r.notification_method }))
+  );
+  if (createError || !newEvent) {
+    return { data: null, error: createError };
+  }
+
+  // Overrides and cancellations from here on belong to the copy, at the same place
+  // in it: shifted by the move on the series' wall clock
+  const clock = zonedWallClock(getEventTimeZone(event));
+  const shiftMs = clock.toFloating(newStart).getTime() - clock.toFloating(occurrenceStart).getTime();
+  const { data: laterExceptions, error: exceptionsError } = await supabase
+    .from('event_exceptions')
+    .select('id, exception_date')
+    .eq('event_id', event.id)
+    .gte('exception_date', occurrenceStart.toISOString());
+  if (exceptionsError) {
+    return { data: newEvent, error: exceptionsError };
+  }
+
+  for (const exception of laterExceptions || []) {
+    const floating = clock.toFloating(new Date(exception.exception_date)).getTime() + shiftMs;
+    const isMoved = new Date(exception.exception_date).getTime() === occurrenceStart.getTime();
+    const { error } = await supabase
+      .from('event_exceptions')
+      .update({
+        event_id: newEvent.id,
+        exception_date: clock.fromFloating(new Date(floating)).toISOString(),
+        // The dragged occurrence is now where the copy starts, not at any earlier move
+        ...(isMoved ? { start_time: null, end_time: null } : {}),
+      })
+      .eq('id', exception.id);
+    if (error) {
+      return { data: newEvent, error };
+    }
+  }
+
+  return { data: newEvent, error: null };
+}
+
+// Build a RecurrenceInput that reproduces an event's stored recurrence
+export function getRecurrenceInputFromEvent(event: Event): RecurrenceInput {
+  if (!event.is_recurring) return { isRecurring: false };
+  if (!event.recurrence_frequency && event.recurrence_rule) {
+    // Rule-only rows (e.g. imported) carry no structured columns
+    const fromRule = getRecurrenceInputFromRule(event.recurrence_rule, getEventTimeZone(event));
+    if (fromRule) return fromRule;
+  }
+  return {
+    isRecurring: true,
+    frequency: event.recurrence_frequency || 'daily',
+    interval: event.recurrence_interval || 1,
+    daysOfWeek: event.recurrence_days_of_week || undefined,
+    daysOfMonth: event.recurrence_days_of_month || undefined,
+    monthsOfYear: event.recurrence_months_of_year || undefined,
+    weeksOfYear: event.recurrence_weeks_of_year || undefined,
+    daysOfYear: event.recurrence_days_of_year || undefined,
+    setPositions: event.recurrence_set_positions || undefined,
+    count: event.recurrence_count || undefined,
+    endDate: event.recurrence_end_date ? new Date(event.recurrence_end_date) : undefined,
+    weekStart: event.recurrence_week_start || undefined,
+    rule: event.recurrence_rule || undefined,
+  };
+}
+
+// Build a RecurrenceInput from an RRULE value (e.g. "FREQ=MONTHLY;BYDAY=-1FR").
+// A floating UNTIL is read in timeZone (default: the device's).
+export function getRecurrenceInputFromRule(rule: string, timeZone?: string): RecurrenceInput | null {
+  const options = parseRRule(rule, zonedWallClock(timeZone || getDeviceTimeZone()));
+  if (!options) return null;
+  return {
+    isRecurring: true,
+    frequency: options.freq.toLowerCase() as Event['recurrence_frequency'],
+    interval: options.interval,
+    daysOfWeek: options.byDay?.map((d) => (d.n ? `${d.n}${d.weekday}` : d.weekday)),
+    daysOfMonth: options.byMonthDay,
+    monthsOfYear: options.byMonth,
+    weeksOfYear: options.byWeekNo,
+    daysOfYear: options.byYearDay,
+    setPositions: options.bySetPos,
+    count: options.count,
+    endDate: options.until,
+    weekStart: options.wkst,
+    rule,
+  };
+}
+
+function getRRuleOptionsFromRecurrenceInput(input: RecurrenceInput): RRuleOptions {
+  const nonEmpty = (values?: number[]) => (values && values.length ? values : undefined);
+  const byDay = (input.daysOfWeek || [])
+    .map(parseWeekday)
+    .filter((d): d is RRuleWeekday => d !== null);
+  const weekStart = (input.weekStart || 'MO').toUpperCase() as WeekdayCode;
+
+  return {
+    freq: (input.frequency || 'daily').toUpperCase() as RRuleOptions['freq'],
+    interval: input.interval || 1,
+    count: input.count || undefined,
+    until: input.endDate,
+    byDay: byDay.length ? byDay : undefined,
+    byMonthDay: nonEmpty(input.daysOfMonth),
+    byMonth: nonEmpty(input.monthsOfYear),
+    byWeekNo: nonEmpty(input.weeksOfYear),
+    byYearDay: nonEmpty(input.daysOfYear),
+    bySetPos: nonEmpty(input.setPositions),
+    wkst: WEEKDAY_CODES.includes(weekStart) ? weekStart : 'MO',
+  };
+}
+
+// Expansion options for an event, by the same rule the edge functions use (see getRuleOptions)
+function getRRuleOptionsFromEvent(event: Event): RRuleOptions | null {
+  return getRuleOptions(event, zonedWallClock(getEventTimeZone(event)));
+}
+
+// Keep recurrence_rule in step with the structured fields: a rule-only input is
+// expanded into structured fields, then the rule is regenerated from them
+function withRecurrenceRule(
+  recurrence: RecurrenceInput,
+  isAllDay?: boolean,
+  timeZone: string = getDeviceTimeZone()
+): RecurrenceInput {
+  let input = recurrence;
+  if (input.rule && !input.frequency) {
+    const fromRule = getRecurrenceInputFromRule(input.rule, timeZone);
+    if (fromRule) input = { ...fromRule, isRecurring: input.isRecurring ?? true };
+  }
+  if (!input.isRecurring) {
+    return { ...input, rule: undefined };
+  }
+  return {
+    ...input,
+    rule: formatRRule(getRRuleOptionsFromRecurrenceInput(input), {
+      allDay: isAllDay,
+      clock: zonedWallClock(timeZone),
+    }),
+  };
+}
+
+// Resolve the occurrence of a recurring event shown at displayedStart, applying any
+// exception override. displayedStart may be either the original or the moved start.
+export function resolveEventOccurrence(
+  event: EventWithDetails,
+  displayedStart: Date
+): EventWithDetails {
+  const displayedMs = displayedStart.getTime();
+  const exception = (event.exceptions || []).find(
+    (ex) =>
+      !ex.is_deleted &&
+      (new Date(ex.exception_date).getTime() === displayedMs ||
+        (ex.start_time && new Date(ex.start_time).getTime() === displayedMs))
+  );
+
+  const originalStart = exception ? new Date(exception.exception_date) : displayedStart;
+  const durationMs = new Date(event.end_time).getTime() - new Date(event.start_time).getTime();
+  const occurrence = buildOccurrence(event, originalStart);
+
+  return exception ? applyExceptionOverrides(occurrence, exception, durationMs) : occurrence;
+}
+
+// Update event participants. People already on the event keep their response.
 export async function updateEventParticipants(
   eventId: string,
   contactIds: string[]
 ): Promise<{ error: any }> {
-  // Remove all existing participants
-  const { error: deleteError } = await supabase
+  const { data: existing, error: fetchError } = await supabase
     .from('event_participants')
-    .delete()
+    .select('contact_id')
     .eq('event_id', eventId);
 
-  if (deleteError) {
-    return { error: deleteError };
+  if (fetchError) {
+    return { error: fetchError };
+  }
+
+  const existingIds = new Set((existing || []).map((p) => p.contact_id as string));
+  const removedIds = [...existingIds].filter((id) => !contactIds.includes(id));
+  if (removedIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('event_participants')
+      .delete()
+      .eq('event_id', eventId)
+      .in('contact_id', removedIds);
+
+    if (deleteError) {
+      return { error: deleteError };
+    }
   }
 
   // Add new participants
-  if (contactIds.length > 0) {
-    const participants = contactIds.map((contactId, index) => ({
+  const addedIds = contactIds.filter((id) => !existingIds.has(id));
+  if (addedIds.length > 0) {
+    const { data: { user } } = await supabase.auth.getUser();
+    const statuses = await getInvitationStatuses(addedIds, user?.id);
+    const participants = addedIds.map((contactId) => ({
       event_id: eventId,
       contact_id: contactId,
-      status: 'accepted' as const,
-      is_organizer: index === 0,
+      status: statuses.get(contactId) || 'accepted',
+      is_organizer: existingIds.size === 0 && contactId === contactIds[0],
     }));
 
     const { error: insertError } = await supabase
@@ -723,6 +1177,71 @@ export async function updateEventParticipants(
   return { error: null };
 }
 
+// Members with their own account answer an invitation themselves; the person adding
+// them and members without an account (such as young children) are accepted
+async function getInvitationStatuses(
+  contactIds: string[],
+  userId: string | undefined
+): Promise<Map<string, RSVPStatus>> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('id, user_id')
+    .in('id', contactIds);
+
+  if (error) {
+    console.error('Error fetching participant accounts:', error);
+  }
+
+  return new Map(
+    (data || []).map((contact) => [
+      contact.id as string,
+      contact.user_id && contact.user_id !== userId ? 'pending' : 'accepted',
+    ])
+  );
+}
+
+// Answer an event invitation for one participant (applies to every occurrence)
+export async function respondToEvent(
+  eventId: string,
+  contactId: string,
+  status: Exclude<RSVPStatus, 'pending'>
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('event_participants')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('event_id', eventId)
+    .eq('contact_id', contactId);
+
+  return { error };
+}
+
+// Participants who haven't declined, i.e. who the event keeps busy
+export function getAttendingParticipants<P extends Pick<EventParticipant, 'status'>>(
+  participants: P[] | undefined
+): P[] {
+  return (participants || []).filter((p) => p.status !== 'declined');
+}
+
+// Events still waiting on the signed-in user's answer, once per event (not per occurrence)
+export function getPendingInvitations(events: EventWithDetails[], userId: string): EventInvitation[] {
+  const seen = new Set<string>();
+  const results: EventInvitation[] = [];
+
+  for (const event of events) {
+    const eventId = event.original_event_id || event.id;
+    if (seen.has(eventId)) continue;
+
+    const participant = event.participants?.find(
+      (p) => p.status === 'pending' && p.contact?.user_id === userId
+    );
+    if (!participant) continue;
+
+    seen.add(eventId);
+    results.push({ event, contactId: participant.contact_id });
+  }
+  return results;
+}
+
 // Get reminders for current user for an event
 export async function getEventRemindersForUser(
   eventId: string
@@ -804,10 +1323,15 @@ export function mapEventToFamilyEvents(
   event: EventWithDetails,
   familyMembers: Contact[],
   familyName?: string | null,
-  familyColor?: string
+  familyColor?: string,
+  travelTimes?: Map<string, number> // Estimated travel minutes by event id (see getTravelTimes)
 ): FamilyEvent[] {
   const results: FamilyEvent[] = [];
   const baseFamilyColor = familyColor || FAMILY_EVENT_COLOR;
+  const travelMinutes = event.is_all_day
+    ? undefined
+    : event.travel_time || travelTimes?.get(event.original_event_id || event.id);
+  const leaveBy = travelMinutes ? getLeaveByTime(new Date(event.start_time), travelMinutes) : undefined;
   
   // Get participant colors for determining event color
   const participantColors = event.participants?.map(
@@ -854,6 +1378,11 @@ export function mapEventToFamilyEvents(
         color: participantColor,
         isRecurring: event.is_recurring,
         originalEventId: event.original_event_id || event.id, // Keep reference to original event for navigation
+        timeZone: getEventTimeZone(event),
+        rsvpStatus: participant.status,
+        leaveBy,
+        createdBy: event.created_by,
+        editPermission: event.edit_permission,
       });
     }
   } else {
@@ -868,6 +1397,10 @@ export function mapEventToFamilyEvents(
       color,
       isRecurring: event.is_recurring,
       originalEventId: event.original_event_id || event.id,
+      timeZone: getEventTimeZone(event),
+      leaveBy,
+      createdBy: event.created_by,
+      editPermission: event.edit_permission,
     });
   }
 
@@ -879,12 +1412,13 @@ export function mapEventsToFamilyEvents(
   events: EventWithDetails[],
   familyMembers: Contact[],
   familyName?: string | null,
-  familyColor?: string
+  familyColor?: string,
+  travelTimes?: Map<string, number>
 ): FamilyEvent[] {
   const allFamilyEvents: FamilyEvent[] = [];
   
   for (const event of events) {
-    const familyEvents = mapEventToFamilyEvents(event, familyMembers, familyName, familyColor);
+    const familyEvents = mapEventToFamilyEvents(event, familyMembers, familyName, familyColor, travelTimes);
     allFamilyEvents.push(...familyEvents);
   }
   
@@ -899,7 +1433,7 @@ function expandEventsForRange(
 ): EventWithDetails[] {
   const expanded: EventWithDetails[] = [];
   for (const event of events) {
-    if (!event.is_recurring || !event.recurrence_frequency) {
+    if (!event.is_recurring || (!event.recurrence_frequency && !event.recurrence_rule)) {
       expanded.push(event);
       continue;
     }
@@ -920,135 +1454,136 @@ function expandRecurringEvent(
   rangeEnd: Date,
   maxOccurrences: number = 500
 ): EventWithDetails[] {
-  const occurrences: EventWithDetails[] = [];
+  const options = getRRuleOptionsFromEvent(event);
 
-  const freq = event.recurrence_frequency;
-  const interval = event.recurrence_interval || 1;
-  const daysOfWeek = event.recurrence_days_of_week || [];
-  const count = event.recurrence_count || undefined;
-  const until = event.recurrence_end_date ? new Date(event.recurrence_end_date) : undefined;
+  // If the recurrence can't be expanded, return single
+  if (!options) {
+    return [event];
+  }
 
   const eventStart = new Date(event.start_time);
-  const eventEnd = new Date(event.end_time);
-  const durationMs = eventEnd.getTime() - eventStart.getTime();
+  const durationMs = new Date(event.end_time).getTime() - eventStart.getTime();
+
+  // Expand on the event's own wall clock so a 9:00 series stays at 9:00 there across
+  // DST changes; occurrences that started before the range but are still running overlap it
+  const starts = expandRRule(
+    options,
+    eventStart,
+    new Date(rangeStart.getTime() - durationMs),
+    rangeEnd,
+    maxOccurrences,
+    zonedWallClock(getEventTimeZone(event))
+  );
+  const occurrences = starts.map((start) => buildOccurrence(event, start));
 
-  // If recurrence frequency unsupported, return single
-  if (!freq) {
-    return [event];
-  }
+  return applyEventExceptions(event, occurrences, rangeStart, rangeEnd, options.until);
+}
 
-  let totalOccurrencesFound = 0;
-
-  const addOccurrence = (start: Date) => {
-    if (occurrences.length >= maxOccurrences) return;
-    const end = new Date(start.getTime() + durationMs);
-    occurrences.push({
-      ...event,
-      id: `${event.id}::${start.toISOString()}`,
-      original_event_id: event.original_event_id || event.id,
-      start_time: start.toISOString(),
-      end_time: end.toISOString(),
-      is_recurring: true,
-    });
+function buildOccurrence(event: EventWithDetails, start: Date): EventWithDetails {
+  // Keep the series' wall-clock length, so an all-day or overnight occurrence still
+  // ends at the same local time when a DST change falls inside it
+  const clock = zonedWallClock(getEventTimeZone(event));
+  const wallDurationMs =
+    clock.toFloating(new Date(event.end_time)).getTime() - clock.toFloating(new Date(event.start_time)).getTime();
+  const end = clock.fromFloating(new Date(clock.toFloating(start).getTime() + wallDurationMs));
+  return {
+    ...event,
+    id: `${event.id}::${start.toISOString()}`,
+    original_event_id: event.original_event_id || event.id,
+    occurrence_start_time: start.toISOString(),
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    is_recurring: true,
   };
+}
 
-  let current = new Date(eventStart);
-
-  if (freq === 'daily') {
-    // Optimization: skip ahead to just before rangeStart
-    if (current.getTime() + durationMs < rangeStart.getTime()) {
-      const msDiff = rangeStart.getTime() - current.getTime();
-      const daysDiff = Math.floor(msDiff / (24 * 3600 * 1000));
-      const intervalsToSkip = Math.floor(daysDiff / interval);
-      if (intervalsToSkip > 0) {
-        current.setDate(current.getDate() + intervalsToSkip * interval);
-        totalOccurrencesFound += intervalsToSkip;
-      }
-    }
+// Apply event_exceptions rows to expanded occurrences: cancelled occurrences are
+// dropped and overridden ones take the exception's title/description/location/times.
+// Occurrences moved into the range from a date outside it are added as well.
+function applyEventExceptions(
+  event: EventWithDetails,
+  occurrences: EventWithDetails[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  until?: Date
+): EventWithDetails[] {
+  const exceptions = event.exceptions || [];
+  if (exceptions.length === 0) {
+    return occurrences;
+  }
 
-    while (current < rangeEnd && (!until || current <= until) && occurrences.length < maxOccurrences) {
-      if (count && totalOccurrencesFound >= count) break;
-      
-      if (current.getTime() + durationMs >= rangeStart.getTime()) {
-        addOccurrence(new Date(current));
-      }
-      
-      totalOccurrencesFound++;
-      current.setDate(current.getDate() + interval);
-    }
-  } else if (freq === 'weekly') {
-    const targetDays = (daysOfWeek.length ? daysOfWeek : [dayToCode(eventStart.getDay())]).map((d) => d.toUpperCase());
-    const weekStartInitial = startOfWeek(eventStart);
-
-    // Optimization: skip ahead to just before rangeStart
-    if (current.getTime() + durationMs < rangeStart.getTime()) {
-      const msDiff = rangeStart.getTime() - current.getTime();
-      const weeksDiff = Math.floor(msDiff / (7 * 24 * 3600 * 1000));
-      const intervalsToSkip = Math.floor(weeksDiff / interval);
-      if (intervalsToSkip > 0) {
-        current.setDate(current.getDate() + intervalsToSkip * interval * 7);
-        // This is a rough estimate for totalOccurrencesFound, but count check happens in loop
-        // To be accurate with count we'd need more logic, but for weekly skipping it's okay
-      }
-    }
+  const exceptionsByStart = new Map<number, EventException>();
+  for (const exception of exceptions) {
+    exceptionsByStart.set(new Date(exception.exception_date).getTime(), exception);
+  }
 
-    while (current < rangeEnd && (!until || current <= until) && occurrences.length < maxOccurrences) {
-      if (count && totalOccurrencesFound >= count) break;
+  const durationMs = new Date(event.end_time).getTime() - new Date(event.start_time).getTime();
+  const overlapsRange = (occurrence: EventWithDetails) =>
+    new Date(occurrence.end_time).getTime() >= rangeStart.getTime() &&
+    new Date(occurrence.start_time).getTime() < rangeEnd.getTime();
 
-      const weeksFromStart = Math.floor((startOfWeek(current).getTime() - weekStartInitial.getTime()) / (7 * 24 * 3600 * 1000));
-      
-      if (weeksFromStart % interval === 0) {
-        const code = dayToCode(current.getDay());
-        if (targetDays.includes(code)) {
-          if (current.getTime() + durationMs >= rangeStart.getTime()) {
-            addOccurrence(new Date(current));
-          }
-          totalOccurrencesFound++;
-        }
-      }
-      
-      current.setDate(current.getDate() + 1);
-    }
-  } else if (freq === 'monthly') {
-    while (current < rangeEnd && (!until || current <= until) && occurrences.length < maxOccurrences) {
-      if (count && totalOccurrencesFound >= count) break;
-      if (current.getTime() + durationMs >= rangeStart.getTime()) {
-        addOccurrence(new Date(current));
-      }
-      totalOccurrencesFound++;
-      current.setMonth(current.getMonth() + interval);
+  const result: EventWithDetails[] = [];
+  const handled = new Set<number>();
+
+  for (const occurrence of occurrences) {
+    const originalStart = new Date(occurrence.occurrence_start_time || occurrence.start_time).getTime();
+    const exception = exceptionsByStart.get(originalStart);
+    if (!exception) {
+      result.push(occurrence);
+      continue;
     }
-  } else if (freq === 'yearly') {
-    while (current < rangeEnd && (!until || current <= until) && occurrences.length < maxOccurrences) {
-      if (count && totalOccurrencesFound >= count) break;
-      if (current.getTime() + durationMs >= rangeStart.getTime()) {
-        addOccurrence(new Date(current));
-      }
-      totalOccurrencesFound++;
-      current.setFullYear(current.getFullYear() + interval);
+
+    handled.add(originalStart);
+    if (exception.is_deleted) continue;
+
+    const overridden = applyExceptionOverrides(occurrence, exception, durationMs);
+    if (overlapsRange(overridden)) {
+      result.push(overridden);
     }
-  } else {
-    // Fallback: just include the original instance if it overlaps with range
-    if (eventStart.getTime() + durationMs >= rangeStart.getTime() && eventStart < rangeEnd) {
-      addOccurrence(eventStart);
+  }
+
+  // An occurrence whose original date falls outside the range may have been moved into it
+  const seriesStart = new Date(event.start_time).getTime();
+  for (const exception of exceptions) {
+    const originalStart = new Date(exception.exception_date).getTime();
+    if (exception.is_deleted || !exception.start_time || handled.has(originalStart)) continue;
+    if (originalStart < seriesStart || (until && originalStart > until.getTime())) continue;
+
+    const moved = applyExceptionOverrides(
+      buildOccurrence(event, new Date(originalStart)),
+      exception,
+      durationMs
+    );
+    if (overlapsRange(moved)) {
+      result.push(moved);
     }
   }
 
-  return occurrences;
+  return result;
 }
 
-function dayToCode(day: number): string {
-  // JS: 0 Sunday ... 6 Saturday
-  return ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][day] || 'MO';
-}
+function applyExceptionOverrides(
+  occurrence: EventWithDetails,
+  exception: EventException,
+  durationMs: number
+): EventWithDetails {
+  const start = exception.start_time ? new Date(exception.start_time) : new Date(occurrence.start_time);
+  const end = exception.end_time
+    ? new Date(exception.end_time)
+    : exception.start_time
+      ? new Date(start.getTime() + durationMs)
+      : new Date(occurrence.end_time);
 
-function startOfWeek(date: Date): Date {
-  const d = new Date(date);
-  const day = d.getDay(); // 0-6
-  const diff = day; // assuming week starts Sunday to align with JS getDay for simplicity
-  d.setDate(d.getDate() - diff);
-  d.setHours(0, 0, 0, 0);
-  return d;
+  return {
+    ...occurrence,
+    title: exception.title ?? occurrence.title,
+    description: exception.description ?? occurrence.description,
+    location: exception.location ?? occurrence.location,
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    drop_off_driver_id: exception.drop_off_driver_id ?? occurrence.drop_off_driver_id,
+    collection_driver_id: exception.collection_driver_id ?? occurrence.collection_driver_id,
+  };
 }
 
 // Personal Calendar Integration
@@ -1218,3 +1753,107 @@ export async function getTodayEventsWithPersonalCalendars(
     false // Include all personal calendars for today view
   );
 }
+
+// Another event that keeps one of an event's participants busy at the same time
+export interface EventConflict {
+  contactId: string;
+  eventId: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  isAllDay: boolean;
+  isPersonalCalendar: boolean;
+}
+
+/**
+ * Find events overlapping a time slot for any of the given contacts. Family events count
+ * when they're marked busy or unavailable and the contact hasn't declined them; recurring
+ * events are checked occurrence by occurrence. The signed-in user's personal calendars shown
+ * in the family view count too (other members' calendars can't be read from this device).
+ */
+export async function findEventConflicts(
+  familyId: string,
+  slot: {
+    startTime: Date;
+    endTime: Date;
+    contactIds: string[];
+    excludeEventId?: string; // The event being moved, with every occurrence of it
+  }
+): Promise<{ data: EventConflict[]; error: any }> {
+  const { startTime, endTime, contactIds, excludeEventId } = slot;
+  if (contactIds.length === 0 || endTime <= startTime) {
+    return { data: [], error: null };
+  }
+
+  // An event already running when the slot starts clashes too, like recurring
+  // occurrences (which expand with a look-back of their duration)
+  const { data: events, error } = await getEventsForDateRange(familyId, startTime, endTime, true);
+  if (error) {
+    return { data: [], error };
+  }
+
+  const excludeId = excludeEventId?.split('::')[0];
+  const overlaps = (start: Date, end: Date) => start < endTime && end > startTime;
+  const conflicts: EventConflict[] = [];
+
+  for (const event of events || []) {
+    const eventId = event.original_event_id || event.id;
+    if (eventId === excludeId) continue;
+    if (event.availability !== 'busy' && event.availability !== 'unavailable') continue;
+
+    const start = new Date(event.start_time);
+    const end = new Date(event.end_time);
+    if (!overlaps(start, end)) continue;
+
+    for (const participant of getAttendingParticipants(event.participants)) {
+      if (!contactIds.includes(participant.contact_id)) continue;
+      conflicts.push({
+        contactId: participant.contact_id,
+        eventId,
+        title: event.title,
+        startTime: start,
+        endTime: end,
+        isAllDay: event.is_all_day,
+        isPersonalCalendar: false,
+      });
+    }
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (user) {
+    const { data: userContact } = await supabase
+      .from('contacts')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('family_id', familyId)
+      .limit(1)
+      .single();
+
+    if (userContact && contactIds.includes(userContact.id)) {
+      const { data: personalEvents } = await getPersonalCalendarEventsForUser(
+        user.id,
+        familyId,
+        startTime,
+        endTime,
+        true
+      );
+      // Calendars have no busy flag we can read; all-day entries (birthdays, holidays)
+      // are shown as free by default, so only timed events count
+      for (const event of personalEvents || []) {
+        if (event.allDay || !overlaps(event.startDate, event.endDate)) continue;
+        conflicts.push({
+          contactId: userContact.id,
+          eventId: event.id,
+          title: event.title,
+          startTime: event.startDate,
+          endTime: event.endDate,
+          isAllDay: false,
+          isPersonalCalendar: true,
+        });
+      }
+    }
+  }
+
+  conflicts.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  return { data: conflicts, error: null };
+}
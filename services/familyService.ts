@@ -1,4 +1,5 @@
-import { Contact, Family, FamilyInvitation, FamilyMember, supabase } from '@/lib/supabase';
+import { Contact, Family, FamilyInvitation, FamilyJoinLink, FamilyMember, FamilyRole, supabase } from '@/lib/supabase';
+import { getNextAvailableColor } from '@/utils/colorUtils';
 
 export interface FamilyWithMembers extends Family {
   members: (FamilyMember & { contact: Contact })[];
@@ -96,7 +97,8 @@ export async function updateFamily(
   return { data, error };
 }
 
-// Get pending invitations for a family
+// Get a family's open invitations: pending ones, and expired or declined ones
+// that can still be resent
 export async function getFamilyInvitations(familyId: string): Promise<{
   data: FamilyInvitation[] | null;
   error: any;
@@ -105,7 +107,7 @@ export async function getFamilyInvitations(familyId: string): Promise<{
     .from('family_invitations')
     .select('*')
     .eq('family_id', familyId)
-    .eq('status', 'pending')
+    .in('status', ['pending', 'expired', 'declined'])
     .order('created_at', { ascending: false });
 
   return { data, error };
@@ -153,6 +155,23 @@ export async function cancelInvitation(invitationId: string): Promise<{ error: a
   return { error };
 }
 
+// Resend an invitation with a new token and expiry. The old link stops working
+// and a new email goes out.
+export async function resendInvitation(invitationId: string): Promise<{ data: FamilyInvitation | null; error: any }> {
+  const { data, error } = await supabase.rpc('resend_invitation', {
+    p_invitation_id: invitationId,
+  });
+
+  return { data, error };
+}
+
+// Decline an invitation from its link; works without signing in
+export async function declineInvitation(token: string): Promise<{ data: boolean; error: any }> {
+  const { data, error } = await supabase.rpc('decline_invitation', { p_token: token });
+
+  return { data: !!data, error };
+}
+
 // Remove a member from a family
 export async function removeFamilyMember(
   familyId: string,
@@ -171,7 +190,7 @@ export async function removeFamilyMember(
 export async function updateMemberRole(
   familyId: string,
   contactId: string,
-  role: 'admin' | 'member'
+  role: Exclude<FamilyRole, 'owner'>
 ): Promise<{ error: any }> {
   const { error } = await supabase
     .from('family_members')
@@ -182,101 +201,127 @@ export async function updateMemberRole(
   return { error };
 }
 
-// Get an invitation by token
+// Get an invitation by token, whatever its status, so callers can tell an expired
+// or declined invitation from a wrong link. Works without signing in.
 export async function getInvitationByToken(token: string): Promise<{ data: (FamilyInvitation & { family: Family }) | null; error: any }> {
-  const { data, error } = await supabase
-    .from('family_invitations')
-    .select('*, family:families(*)')
-    .eq('invitation_token', token)
-    .eq('status', 'pending')
-    .gt('expires_at', new Date().toISOString())
-    .single();
+  const { data, error } = await supabase.rpc('get_invitation_by_token', { p_token: token });
 
-  return { data: data as any, error };
+  return { data: data ?? null, error };
 }
 
-// Accept an invitation
+// Accept an invitation into the family it was sent from. Everything is scoped to
+// that family, so a user who already belongs to other families keeps those
+// memberships (and isn't added twice to this one). Returns the family joined.
 export async function acceptInvitation(
-  invitationId: string,
-  userId: string,
-  email: string,
+  token: string,
   firstName?: string,
   lastName?: string
-): Promise<{ error: any }> {
-  try {
-    // 1. Get invitation details
-    const { data: invitation, error: inviteError } = await supabase
-      .from('family_invitations')
-      .select('*')
-      .eq('id', invitationId)
-      .single();
-
-    if (inviteError || !invitation) {
-      throw inviteError || new Error('Invitation not found');
-    }
-
-    // 2. Check for existing contact to update or create new one
-    let contactId = invitation.contact_id;
-
-    if (contactId) {
-      // Update existing virtual contact
-      const { error: updateError } = await supabase
-        .from('contacts')
-        .update({
-          user_id: userId,
-          is_virtual: false,
-          email: email,
-          invitation_accepted_at: new Date().toISOString(),
-        })
-        .eq('id', contactId);
-
-      if (updateError) throw updateError;
-    } else {
-      // Create new contact
-      const { data: newContact, error: contactError } = await supabase
-        .from('contacts')
-        .insert({
-          family_id: invitation.family_id,
-          user_id: userId,
-          first_name: firstName || invitation.first_name || 'Member',
-          last_name: lastName || invitation.last_name || '',
-          email: email,
-          contact_type: 'family_member',
-          is_virtual: false,
-          invitation_accepted_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
-
-      if (contactError) throw contactError;
-      contactId = newContact.id;
-    }
-
-    // 3. Add to family_members
-    const { error: memberError } = await supabase
-      .from('family_members')
-      .insert({
-        family_id: invitation.family_id,
-        contact_id: contactId,
-        role: invitation.role || 'member',
-        added_by: invitation.invited_by,
-      });
-
-    if (memberError) throw memberError;
-
-    // 4. Update invitation status
-    const { error: finalError } = await supabase
-      .from('family_invitations')
-      .update({
-        status: 'accepted',
-        accepted_at: new Date().toISOString(),
-        accepted_by: userId,
-      })
-      .eq('id', invitationId);
-
-    return { error: finalError };
-  } catch (err) {
-    console.error('Error in acceptInvitation:', err);
-    return { error: err };
+): Promise<{ data: { familyId: string; contactId: string } | null; error: any }> {
+  // The server checks the invitation is still pending and in date
+  const { data, error } = await supabase.rpc('accept_family_invitation', {
+    p_token: token,
+    p_first_name: firstName || '',
+    p_last_name: lastName || '',
+  });
+
+  if (error || !data) {
+    console.error('Error in acceptInvitation:', error);
+    return { data: null, error: error || new Error('Failed to accept invitation') };
+  }
+
+  const familyId: string = data.family_id;
+  const contactId: string = data.contact_id;
+  await assignMemberColor(familyId, contactId);
+
+  return { data: { familyId, contactId }, error: null };
+}
+
+// Give a new member a colour no one in the family has yet
+async function assignMemberColor(familyId: string, contactId: string): Promise<void> {
+  const { data: familyContacts } = await supabase
+    .from('contacts')
+    .select('id, color')
+    .eq('family_id', familyId);
+
+  const own = familyContacts?.find(c => c.id === contactId);
+  if (familyContacts && own && !own.color) {
+    const color = getNextAvailableColor(familyContacts.filter(c => c.id !== contactId).map(c => c.color));
+    await supabase.from('contacts').update({ color }).eq('id', contactId);
   }
 }
+
+// Link people open to join a family, e.g. from a QR code. Handled by the
+// join-family screen, like invitation codes.
+export function getJoinLinkUrl(token: string): string {
+  const appUrl = process.env.EXPO_PUBLIC_APP_URL || 'https://familycal-app.netlify.app';
+  return `${appUrl}/join-family?code=${token}`;
+}
+
+// Get a family's join links, newest first (revoked ones are left out)
+export async function getJoinLinks(familyId: string): Promise<{ data: FamilyJoinLink[] | null; error: any }> {
+  const { data, error } = await supabase
+    .from('family_join_links')
+    .select('*')
+    .eq('family_id', familyId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  return { data, error };
+}
+
+// Create a join link anyone can use to join as a member, up to maxUses times
+export async function createJoinLink(
+  familyId: string,
+  maxUses: number
+): Promise<{ data: FamilyJoinLink | null; error: any }> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: new Error('Not authenticated') };
+  }
+
+  const { data, error } = await supabase
+    .from('family_join_links')
+    .insert({
+      family_id: familyId,
+      created_by: user.id,
+      max_uses: maxUses,
+    })
+    .select()
+    .single();
+
+  return { data, error };
+}
+
+// Stop a join link from working
+export async function revokeJoinLink(linkId: string): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('family_join_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  return { error };
+}
+
+// Join the family behind a join link. Returns the family joined.
+export async function joinFamilyWithLink(
+  token: string,
+  firstName: string,
+  lastName?: string
+): Promise<{ data: { familyId: string; contactId: string } | null; error: any }> {
+  const { data, error } = await supabase.rpc('join_family_with_link', {
+    p_token: token,
+    p_first_name: firstName,
+    p_last_name: lastName || '',
+  });
+
+  if (error || !data) {
+    return { data: null, error: error || new Error('Failed to join family') };
+  }
+
+  const familyId: string = data.family_id;
+  const contactId: string = data.contact_id;
+  await assignMemberColor(familyId, contactId);
+
+  return { data: { familyId, contactId }, error: null };
+}
@@ -0,0 +1,106 @@
+import { EventConflict, findEventConflicts } from './eventService';
+
+export interface FindTimeOptions {
+  contactIds: string[];
+  durationMinutes: number;
+  windowStart: Date;
+  windowEnd: Date;
+  dayStart: string; // HH:MM:SS, from the user's schedule preferences
+  dayEnd: string; // HH:MM:SS
+  limit?: number;
+}
+
+export interface FreeSlot {
+  startTime: Date;
+  endTime: Date;
+  // Free minutes left in the gap after the slot; more slack ranks higher
+  slackMinutes: number;
+}
+
+// Gaps with at least this much room to spare rank equally, earliest first
+const COMFORTABLE_SLACK_MINUTES = 120;
+const SLOT_ROUNDING_MINUTES = 15;
+
+function setTimeOfDay(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10) || 0);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+function roundUpToSlot(date: Date): Date {
+  const stepMs = SLOT_ROUNDING_MINUTES * 60 * 1000;
+  return new Date(Math.ceil(date.getTime() / stepMs) * stepMs);
+}
+
+/**
+ * Free slots inside the working hours of each day in the window, given everyone's busy
+ * time. Each gap long enough for the event offers one slot at its start; roomier gaps
+ * rank first, then earlier ones.
+ */
+export function computeFreeSlots(busy: Pick<EventConflict, 'startTime' | 'endTime'>[], options: FindTimeOptions): FreeSlot[] {
+  const durationMs = options.durationMinutes * 60 * 1000;
+  const now = new Date();
+  const sortedBusy = [...busy].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const slots: FreeSlot[] = [];
+
+  const day = new Date(options.windowStart);
+  day.setHours(0, 0, 0, 0);
+  for (; day < options.windowEnd; day.setDate(day.getDate() + 1)) {
+    const dayEnd = setTimeOfDay(day, options.dayEnd);
+    let cursor = roundUpToSlot(
+      new Date(Math.max(setTimeOfDay(day, options.dayStart).getTime(), options.windowStart.getTime(), now.getTime()))
+    );
+
+    const closeGap = (gapEnd: Date) => {
+      const freeMs = gapEnd.getTime() - cursor.getTime();
+      if (freeMs >= durationMs) {
+        slots.push({
+          startTime: new Date(cursor),
+          endTime: new Date(cursor.getTime() + durationMs),
+          slackMinutes: Math.round((freeMs - durationMs) / 60000),
+        });
+      }
+    };
+
+    for (const block of sortedBusy) {
+      if (block.endTime <= cursor || block.startTime >= dayEnd) continue;
+      if (block.startTime > cursor) closeGap(block.startTime);
+      if (block.endTime > cursor) cursor = roundUpToSlot(block.endTime);
+      if (cursor >= dayEnd) break;
+    }
+    if (cursor < dayEnd) closeGap(dayEnd);
+  }
+
+  slots.sort((a, b) => {
+    const slackA = Math.min(a.slackMinutes, COMFORTABLE_SLACK_MINUTES);
+    const slackB = Math.min(b.slackMinutes, COMFORTABLE_SLACK_MINUTES);
+    return slackB - slackA || a.startTime.getTime() - b.startTime.getTime();
+  });
+  return options.limit ? slots.slice(0, options.limit) : slots;
+}
+
+/**
+ * Find times when all the given contacts are free, checked against the same family
+ * events and personal calendars as conflict detection
+ */
+export async function findFreeSlots(
+  familyId: string,
+  options: FindTimeOptions
+): Promise<{ data: FreeSlot[]; error: Error | null }> {
+  if (options.durationMinutes <= 0 || options.windowEnd <= options.windowStart) {
+    return { data: [], error: null };
+  }
+
+  const { data: busy, error } = await findEventConflicts(familyId, {
+    startTime: options.windowStart,
+    endTime: options.windowEnd,
+    contactIds: options.contactIds,
+  });
+  if (error) {
+    console.error('Error fetching busy times:', error);
+    return { data: [], error: new Error(error.message || 'Failed to check calendars') };
+  }
+
+  return { data: computeFreeSlots(busy, options), error: null };
+}
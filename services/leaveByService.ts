@@ -0,0 +1,102 @@
+/**
+ * Leave-By Service
+ *
+ * When to set off for an event: its travel time before the driver has to be
+ * there. The travel time is the one set on the event, or else a routing estimate
+ * from its start location to its location. A pick-up is the same journey,
+ * arriving by the end of the event.
+ */
+
+import { EventWithDetails } from './eventService';
+import { getTravelTimeMinutes, RoutePoint } from './routingService';
+
+export type LeaveByLeg = 'drop_off' | 'collection';
+
+export interface LeaveByTime {
+  leg: LeaveByLeg;
+  leaveBy: Date;
+  arriveBy: Date;
+  driverId: string | null;
+}
+
+// Estimates are the same for every occurrence of a series, so only ask once
+const estimateCache = new Map<string, number | null>();
+
+function getRoute(event: EventWithDetails): { from: RoutePoint; to: RoutePoint } | null {
+  if (
+    event.start_location_latitude == null ||
+    event.start_location_longitude == null ||
+    event.structured_location_latitude == null ||
+    event.structured_location_longitude == null
+  ) {
+    return null;
+  }
+  return {
+    from: { latitude: event.start_location_latitude, longitude: event.start_location_longitude },
+    to: { latitude: event.structured_location_latitude, longitude: event.structured_location_longitude },
+  };
+}
+
+/**
+ * Travel time in minutes per event (keyed by series id for occurrences), for the
+ * events that have one set or a route to estimate it from
+ */
+export async function getTravelTimes(events: EventWithDetails[]): Promise<Map<string, number>> {
+  const travelTimes = new Map<string, number>();
+
+  for (const event of events) {
+    if (event.is_all_day) continue;
+    const eventId = event.original_event_id || event.id;
+    if (travelTimes.has(eventId)) continue;
+
+    if (event.travel_time) {
+      travelTimes.set(eventId, event.travel_time);
+      continue;
+    }
+
+    const route = getRoute(event);
+    if (!route) continue;
+
+    const cacheKey = `${route.from.latitude},${route.from.longitude}|${route.to.latitude},${route.to.longitude}`;
+    if (!estimateCache.has(cacheKey)) {
+      estimateCache.set(cacheKey, await getTravelTimeMinutes(route.from, route.to, new Date(event.start_time)));
+    }
+    const minutes = estimateCache.get(cacheKey);
+    if (minutes) travelTimes.set(eventId, minutes);
+  }
+
+  return travelTimes;
+}
+
+export function getLeaveByTime(arriveBy: Date, travelMinutes: number): Date {
+  return new Date(arriveBy.getTime() - travelMinutes * 60 * 1000);
+}
+
+/**
+ * The journeys for an event: drop-off for its start, and pick-up for its end
+ * when it's on the driver rota
+ */
+export function getLeaveByTimes(event: EventWithDetails, travelMinutes: number): LeaveByTime[] {
+  const start = new Date(event.start_time);
+  const times: LeaveByTime[] = [
+    {
+      leg: 'drop_off',
+      leaveBy: getLeaveByTime(start, travelMinutes),
+      arriveBy: start,
+      driverId: event.drop_off_driver_id,
+    },
+  ];
+
+  const collectionDriverId = event.same_driver ? event.drop_off_driver_id : event.collection_driver_id;
+  if (event.needs_transport || collectionDriverId) {
+    const end = new Date(event.end_time);
+    times.push({
+      leg: 'collection',
+      leaveBy: getLeaveByTime(end, travelMinutes),
+      arriveBy: end,
+      driverId: collectionDriverId,
+    });
+  }
+
+  return times;
+}
@@ -0,0 +1,154 @@
+import { FamilyList, ListItem, supabase } from '@/lib/supabase';
+
+export const listService = {
+    /**
+     * Fetch all lists for a family, with their items in order
+     */
+    async getLists(familyId: string): Promise<FamilyList[]> {
+        const { data, error } = await supabase
+            .from('family_lists')
+            .select(`
+                *,
+                items:list_items(*)
+            `)
+            .eq('family_id', familyId)
+            .order('sort_order', { ascending: true })
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        // Sort items by sort_order
+        return (data || []).map(list => ({
+            ...list,
+            items: (list.items || []).sort((a: ListItem, b: ListItem) => a.sort_order - b.sort_order)
+        }));
+    },
+
+    /**
+     * Create a new list
+     */
+    async createList(list: Partial<FamilyList>): Promise<FamilyList> {
+        const { data, error } = await supabase
+            .from('family_lists')
+            .insert(list)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Update a list
+     */
+    async updateList(id: string, updates: Partial<FamilyList>): Promise<FamilyList> {
+        const { data, error } = await supabase
+            .from('family_lists')
+            .update(updates)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Delete a list and its items
+     */
+    async deleteList(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('family_lists')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    },
+
+    /**
+     * Add an item to the end of a list
+     */
+    async addListItem(list: FamilyList, item: Partial<ListItem>): Promise<ListItem> {
+        const lastOrder = Math.max(-1, ...(list.items || []).map(i => i.sort_order));
+        const { data, error } = await supabase
+            .from('list_items')
+            .insert({
+                ...item,
+                list_id: list.id,
+                family_id: list.family_id,
+                sort_order: lastOrder + 1
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Update a list item
+     */
+    async updateListItem(id: string, updates: Partial<ListItem>): Promise<ListItem> {
+        const { data, error } = await supabase
+            .from('list_items')
+            .update(updates)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Check an item off, or put it back on the list
+     */
+    async toggleListItem(id: string, isChecked: boolean): Promise<ListItem> {
+        return listService.updateListItem(id, {
+            is_checked: isChecked,
+            checked_at: isChecked ? new Date().toISOString() : null
+        });
+    },
+
+    /**
+     * Delete a list item
+     */
+    async deleteListItem(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('list_items')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
+    },
+
+    /**
+     * Remove every checked-off item from a list
+     */
+    async clearCheckedItems(listId: string): Promise<void> {
+        const { error } = await supabase
+            .from('list_items')
+            .delete()
+            .eq('list_id', listId)
+            .eq('is_checked', true);
+
+        if (error) throw error;
+    },
+
+    /**
+     * Save a new order for a list's items (given first to last)
+     */
+    async reorderListItems(itemIds: string[]): Promise<void> {
+        const results = await Promise.all(
+            itemIds.map((id, index) =>
+                supabase
+                    .from('list_items')
+                    .update({ sort_order: index })
+                    .eq('id', id)
+            )
+        );
+
+        const failed = results.find(result => result.error);
+        if (failed?.error) throw failed.error;
+    }
+};
@@ -0,0 +1,232 @@
+import { EventReminder, EventWithDetails } from '@/services/eventService';
+import { getLeaveByTimes, getTravelTimes } from '@/services/leaveByService';
+import { markLocalRemindersSynced } from '@/services/pushNotificationService';
+import { formatTimeInZone, getEventTimeZone } from '@/utils/timezone';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+// Local notifications for the user's event reminders, so they still fire when the
+// device is offline at reminder time. Scheduled from the upcoming events of all the
+// user's families and rescheduled whenever the 'upcoming' event cache changes. Drivers also get a nudge before they need
+// to leave for the lifts they're giving.
+
+const IDENTIFIER_PREFIX = 'reminder:';
+const LEAVE_BY_PREFIX = 'leave-by:';
+const LEAVE_BY_NOTICE_MS = 10 * 60 * 1000; // Nudge the driver ten minutes before leaving
+const HORIZON_MS = 3 * 7 * 24 * 60 * 60 * 1000; // Three weeks ahead
+const MAX_SCHEDULED = 60; // iOS keeps at most 64 pending local notifications per app
+
+const UNIT_MS: Record<EventReminder['reminder_type'], number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+interface LocalReminder {
+  identifier: string;
+  fireAt: Date;
+  title: string;
+  body: string;
+  data: { eventId: string; occurrence: string; signature: string };
+}
+
+function isOwnNotification(identifier: string): boolean {
+  return identifier.startsWith(IDENTIFIER_PREFIX) || identifier.startsWith(LEAVE_BY_PREFIX);
+}
+
+// Same wording as the send-reminders push
+function describeOccurrence(event: EventWithDetails, start: Date): string {
+  const timeZone = getEventTimeZone(event);
+  if (event.is_all_day) {
+    return start.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long', timeZone });
+  }
+  const time = formatTimeInZone(start, timeZone);
+  return event.location ? `${time} at ${event.location}` : `Starts at ${time}`;
+}
+
+function buildLocalReminders(events: EventWithDetails[], userId: string, now: Date): LocalReminder[] {
+  const horizon = now.getTime() + HORIZON_MS;
+  const reminders: LocalReminder[] = [];
+
+  for (const event of events) {
+    if (!event.reminders?.length) continue;
+
+    const start = new Date(event.start_time);
+    // Occurrences are keyed by their original start, like reminder_deliveries
+    const originalStart = event.occurrence_start_time || event.start_time;
+    const eventId = event.original_event_id || event.id;
+
+    for (const reminder of event.reminders) {
+      if (reminder.user_id !== userId || reminder.notification_method === 'email') continue;
+      // One-off reminders already pushed by the server are done
+      if (reminder.is_sent && !event.is_recurring) continue;
+
+      const fireAt = new Date(start.getTime() - reminder.reminder_value * UNIT_MS[reminder.reminder_type]);
+      if (fireAt.getTime() <= now.getTime() || fireAt.getTime() > horizon) continue;
+
+      const body = describeOccurrence(event, start);
+      reminders.push({
+        identifier: `${IDENTIFIER_PREFIX}${reminder.id}:${new Date(originalStart).toISOString()}`,
+        fireAt,
+        title: event.title,
+        body,
+        data: {
+          eventId,
+          occurrence: start.toISOString(),
+          // Changes when the occurrence is moved or renamed, so it gets rescheduled
+          signature: `${fireAt.toISOString()}|${event.title}|${body}`,
+        },
+      });
+    }
+  }
+
+  return reminders;
+}
+
+async function buildLeaveByReminders(
+  events: EventWithDetails[],
+  driverContactIds: string[],
+  now: Date
+): Promise<LocalReminder[]> {
+  const horizon = now.getTime() + HORIZON_MS;
+  const isDriver = (contactId: string | null | undefined) => !!contactId && driverContactIds.includes(contactId);
+  const driving = events.filter(
+    (event) => !event.is_all_day && (isDriver(event.drop_off_driver_id) || isDriver(event.collection_driver_id))
+  );
+  const travelTimes = await getTravelTimes(driving);
+  const reminders: LocalReminder[] = [];
+
+  for (const event of driving) {
+    const eventId = event.original_event_id || event.id;
+    const travelMinutes = travelTimes.get(eventId);
+    if (!travelMinutes) continue;
+
+    const originalStart = event.occurrence_start_time || event.start_time;
+    const timeZone = getEventTimeZone(event);
+
+    for (const lift of getLeaveByTimes(event, travelMinutes)) {
+      if (!isDriver(lift.driverId)) continue;
+      const fireAt = new Date(lift.leaveBy.getTime() - LEAVE_BY_NOTICE_MS);
+      if (fireAt.getTime() <= now.getTime() || fireAt.getTime() > horizon) continue;
+
+      const title = `Leave by ${formatTimeInZone(lift.leaveBy, timeZone)}`;
+      const errand = lift.leg === 'drop_off' ? 'Drop-off' : 'Pick-up';
+      const body = `${errand} for ${event.title} at ${formatTimeInZone(lift.arriveBy, timeZone)}${
+        event.location ? `, ${event.location}` : ''
+      }`;
+      reminders.push({
+        identifier: `${LEAVE_BY_PREFIX}${eventId}:${new Date(originalStart).toISOString()}:${lift.leg}`,
+        fireAt,
+        title,
+        body,
+        data: {
+          eventId,
+          occurrence: new Date(event.start_time).toISOString(),
+          signature: `${fireAt.toISOString()}|${title}|${body}`,
+        },
+      });
+    }
+  }
+
+  return reminders;
+}
+
+/**
+ * Bring this device's scheduled reminder notifications in line with the given
+ * (expanded) events: new ones are scheduled, moved ones rescheduled, and ones
+ * whose event, occurrence or reminder is gone are cancelled.
+ * Leave-by nudges are scheduled alongside, for the lifts driverContactIds (the user's
+ * contacts in each of their families) are giving.
+ * Does nothing on web or when notification permission hasn't been granted.
+ */
+export async function syncLocalReminders(
+  events: EventWithDetails[],
+  userId: string,
+  driverContactIds: string[] = []
+): Promise<{ error: Error | null }> {
+  if (Platform.OS === 'web') {
+    return { error: null };
+  }
+
+  try {
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      return { error: null };
+    }
+
+    const now = new Date();
+    const wanted = [
+      ...buildLocalReminders(events, userId, now),
+      ...(driverContactIds.length > 0 ? await buildLeaveByReminders(events, driverContactIds, now) : []),
+    ]
+      .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+      .slice(0, MAX_SCHEDULED);
+    const wantedById = new Map(wanted.map((r) => [r.identifier, r]));
+
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const upToDate = new Set<string>();
+
+    for (const notification of scheduled) {
+      if (!isOwnNotification(notification.identifier)) continue;
+      const reminder = wantedById.get(notification.identifier);
+      if (reminder && notification.content.data?.signature === reminder.data.signature) {
+        upToDate.add(notification.identifier);
+        continue;
+      }
+      await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+    }
+
+    for (const reminder of wanted) {
+      if (upToDate.has(reminder.identifier)) continue;
+      await Notifications.scheduleNotificationAsync({
+        identifier: reminder.identifier,
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          data: reminder.data,
+          sound: 'default',
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminder.fireAt,
+          channelId: 'reminders',
+        },
+      });
+    }
+
+    // With the list capped, only the span up to the last scheduled reminder is covered
+    const coveredUntil =
+      wanted.length === MAX_SCHEDULED
+        ? wanted[wanted.length - 1].fireAt
+        : new Date(now.getTime() + HORIZON_MS);
+    await markLocalRemindersSynced(coveredUntil);
+
+    return { error: null };
+  } catch (err) {
+    console.error('Error scheduling local reminders:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Cancel every reminder notification scheduled on this device (e.g. on sign-out)
+ */
+export async function cancelLocalReminders(): Promise<{ error: Error | null }> {
+  if (Platform.OS === 'web') {
+    return { error: null };
+  }
+
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    for (const notification of scheduled) {
+      if (isOwnNotification(notification.identifier)) {
+        await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+      }
+    }
+    return { error: null };
+  } catch (err) {
+    console.error('Error cancelling local reminders:', err);
+    return { error: err as Error };
+  }
+}
@@ -1,16 +1,30 @@
 import { supabase } from '@/lib/supabase';
-import { getCalendarEvents, IOSCalendar } from './calendarImportService';
+import { expandICSEvents, ICSCalendar, parseICS } from '@/utils/ics';
+import { getCalendarEvents, DeviceCalendar, isCalendarSupported } from './calendarImportService';
+
+// 'device' calendars are read through expo-calendar; 'subscription' calendars are ICS URLs
+export type PersonalCalendarType = 'device' | 'subscription';
 
 export interface PersonalCalendar {
   id: string;
   user_id: string;
   family_id: string;
-  calendar_id: string;
+  calendar_type: PersonalCalendarType;
+  calendar_id: string; // Device calendar id, or the URL for subscriptions
   calendar_title: string;
   calendar_color: string;
   calendar_source_name: string | null;
   calendar_source_type: string | null;
   show_in_family_view: boolean;
+  subscription_url: string | null;
+  refresh_interval_minutes: number;
+  last_refreshed_at: string | null;
+  last_refresh_error: string | null;
+  // Two-way sync of family events into this device calendar (see calendarSyncService)
+  sync_enabled: boolean;
+  sync_contact_ids: string[] | null; // null = every member
+  sync_conflict_policy: 'last_writer_wins' | 'ask';
+  last_synced_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -62,7 +76,7 @@ export async function getPersonalCalendars(
 export async function addPersonalCalendar(
   userId: string,
   familyId: string,
-  calendar: IOSCalendar
+  calendar: DeviceCalendar
 ): Promise<{ data: PersonalCalendar | null; error: any }> {
   try {
     const { data, error } = await supabase
@@ -97,7 +111,17 @@ export async function addPersonalCalendar(
  */
 export async function updatePersonalCalendar(
   id: string,
-  updates: Partial<Pick<PersonalCalendar, 'show_in_family_view' | 'calendar_title' | 'calendar_color'>>
+  updates: Partial<
+    Pick<
+      PersonalCalendar,
+      | 'show_in_family_view'
+      | 'calendar_title'
+      | 'calendar_color'
+      | 'sync_enabled'
+      | 'sync_contact_ids'
+      | 'sync_conflict_policy'
+    >
+  >
 ): Promise<{ data: PersonalCalendar | null; error: any }> {
   try {
     const { data, error } = await supabase
@@ -143,6 +167,131 @@ export async function deletePersonalCalendar(
   }
 }
 
+// Parsed subscriptions by personal calendar id, re-fetched once older than the calendar's refresh interval
+const subscriptionCache = new Map<string, { calendar: ICSCalendar; fetchedAt: number }>();
+
+/**
+ * Fetch and parse an ICS URL through the fetch-ics edge function
+ */
+export async function fetchSubscribedCalendar(
+  url: string
+): Promise<{ data: ICSCalendar | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase.functions.invoke('fetch-ics', { body: { url } });
+
+    if (error) {
+      // The function reports why the feed couldn't be read in its JSON body
+      const body = await error.context?.json?.().catch(() => null);
+      return { data: null, error: body?.error || error.message || 'Failed to fetch calendar' };
+    }
+
+    return { data: parseICS(typeof data === 'string' ? data : ''), error: null };
+  } catch (error: any) {
+    console.error('Error in fetchSubscribedCalendar:', error);
+    return { data: null, error: error.message || 'Failed to fetch calendar' };
+  }
+}
+
+/**
+ * Subscribe to an ICS URL (https or webcal). The feed is fetched once up front so a
+ * bad address is reported straight away; its X-WR-CALNAME is the default title.
+ */
+export async function addSubscribedCalendar(
+  userId: string,
+  familyId: string,
+  subscription: { url: string; title?: string; color?: string }
+): Promise<{ data: PersonalCalendar | null; error: any }> {
+  const url = subscription.url.trim();
+  const { data: calendar, error: fetchError } = await fetchSubscribedCalendar(url);
+
+  if (fetchError || !calendar) {
+    return { data: null, error: new Error(fetchError || 'Failed to fetch calendar') };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('personal_calendars')
+      .insert({
+        user_id: userId,
+        family_id: familyId,
+        calendar_type: 'subscription',
+        calendar_id: url,
+        subscription_url: url,
+        calendar_title: subscription.title?.trim() || calendar.name || url.replace(/^\w+:\/\//, '').split('/')[0],
+        calendar_color: subscription.color || '#8E8E93',
+        calendar_source_name: 'Subscription',
+        calendar_source_type: 'subscription',
+        show_in_family_view: false, // Default to false
+        last_refreshed_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding subscribed calendar:', error);
+      return { data: null, error };
+    }
+
+    subscriptionCache.set(data.id, { calendar, fetchedAt: Date.now() });
+    return { data, error: null };
+  } catch (error: any) {
+    console.error('Error in addSubscribedCalendar:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get a subscribed calendar's events, re-fetching the feed when the cached copy is
+ * older than its refresh interval (or always, with force). When a refresh fails the
+ * last good copy is kept and the error is recorded on the calendar.
+ */
+export async function refreshSubscribedCalendar(
+  calendar: PersonalCalendar,
+  force: boolean = false
+): Promise<{ data: ICSCalendar | null; error: string | null }> {
+  const cached = subscriptionCache.get(calendar.id);
+  const maxAgeMs = calendar.refresh_interval_minutes * 60 * 1000;
+  if (cached && !force && Date.now() - cached.fetchedAt < maxAgeMs) {
+    return { data: cached.calendar, error: null };
+  }
+
+  const { data, error } = await fetchSubscribedCalendar(calendar.subscription_url || calendar.calendar_id);
+
+  if (data) {
+    subscriptionCache.set(calendar.id, { calendar: data, fetchedAt: Date.now() });
+  }
+
+  const { error: updateError } = await supabase
+    .from('personal_calendars')
+    .update(
+      data
+        ? { last_refreshed_at: new Date().toISOString(), last_refresh_error: null }
+        : { last_refresh_error: error }
+    )
+    .eq('id', calendar.id);
+
+  if (updateError) {
+    console.error('Error recording calendar refresh:', updateError);
+  }
+
+  return data ? { data, error: null } : { data: cached?.calendar || null, error };
+}
+
+/**
+ * Device event ids of the family events that calendar sync wrote into a calendar
+ */
+async function getSyncedDeviceEventIds(personalCalendarId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('calendar_sync_links')
+    .select('device_event_id')
+    .eq('personal_calendar_id', personalCalendarId);
+
+  if (error) {
+    console.error('Error fetching synced event ids:', error);
+  }
+  return new Set((data || []).map((link) => link.device_event_id));
+}
+
 /**
  * Get events from multiple personal calendars within a date range
  */
@@ -160,6 +309,34 @@ export async function getPersonalCalendarEvents(
 
     // Fetch events from each calendar
     for (const calendar of calendars) {
+      if (calendar.calendar_type === 'subscription') {
+        const { data: feed, error } = await refreshSubscribedCalendar(calendar);
+        if (error) {
+          console.error(`Error refreshing subscribed calendar ${calendar.calendar_title}:`, error);
+        }
+        if (!feed) continue;
+
+        allEvents.push(
+          ...expandICSEvents(feed, startDate, endDate).map(({ event, start, end, originalStart }) => ({
+            id: `${event.uid}-${originalStart.getTime()}`,
+            title: event.title,
+            startDate: start,
+            endDate: end,
+            allDay: event.allDay,
+            location: event.location,
+            notes: event.description,
+            calendarId: calendar.calendar_id,
+            calendarTitle: calendar.calendar_title,
+            calendarColor: calendar.calendar_color,
+            isPersonalCalendar: true as const,
+          }))
+        );
+        continue;
+      }
+
+      // Device calendars can only be read on the device that has them
+      if (!isCalendarSupported()) continue;
+
       const { data: events, error } = await getCalendarEvents(
         calendar.calendar_id,
         startDate,
@@ -178,19 +355,23 @@ export async function getPersonalCalendarEvents(
       }
 
       if (events) {
-        const mappedEvents: PersonalCalendarEvent[] = events.map((event) => ({
-          id: event.id,
-          title: event.title,
-          startDate: event.startDate,
-          endDate: event.endDate,
-          allDay: event.allDay,
-          location: event.location,
-          notes: event.notes,
-          calendarId: calendar.calendar_id,
-          calendarTitle: calendar.calendar_title,
-          calendarColor: calendar.calendar_color,
-          isPersonalCalendar: true,
-        }));
+        // Copies of family events written by calendar sync are already on the calendar
+        const syncedIds = calendar.sync_enabled ? await getSyncedDeviceEventIds(calendar.id) : null;
+        const mappedEvents: PersonalCalendarEvent[] = events
+          .filter((event) => !syncedIds?.has(event.id))
+          .map((event) => ({
+            id: event.id,
+            title: event.title,
+            startDate: event.startDate,
+            endDate: event.endDate,
+            allDay: event.allDay,
+            location: event.location,
+            notes: event.notes,
+            calendarId: calendar.calendar_id,
+            calendarTitle: calendar.calendar_title,
+            calendarColor: calendar.calendar_color,
+            isPersonalCalendar: true,
+          }));
 
         allEvents.push(...mappedEvents);
       }
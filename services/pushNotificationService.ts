@@ -0,0 +1,140 @@
+import { supabase } from '@/lib/supabase';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+// Expo push token of this device, once registered (used to unregister on sign-out)
+let registeredToken: string | null = null;
+
+/**
+ * Ask for notification permission and fetch this device's Expo push token.
+ * Returns null on web, simulators, or when permission is denied.
+ */
+async function getDevicePushToken(): Promise<string | null> {
+  if (Platform.OS === 'web' || !Device.isDevice) {
+    return null;
+  }
+
+  // Show reminders that arrive while the app is open
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync('reminders', {
+      name: 'Event reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  const { status: existingStatus } = await Notifications.getPermissionsAsync();
+  let finalStatus = existingStatus;
+  if (existingStatus !== 'granted') {
+    const { status } = await Notifications.requestPermissionsAsync();
+    finalStatus = status;
+  }
+  if (finalStatus !== 'granted') {
+    return null;
+  }
+
+  const projectId =
+    Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  const { data } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+  return data;
+}
+
+/**
+ * Register this device to receive reminder push notifications for the signed-in
+ * user. Safe to call on every sign-in; on a shared device the token is taken
+ * over from whoever was signed in before (claim_push_token).
+ */
+export async function registerPushToken(): Promise<{ error: Error | null }> {
+  try {
+    const token = await getDevicePushToken();
+    if (!token) {
+      return { error: null };
+    }
+
+    const { error } = await supabase.rpc('claim_push_token', {
+      p_token: token,
+      p_platform: Platform.OS === 'ios' ? 'ios' : 'android',
+      p_device_name: Device.deviceName ?? null,
+    });
+
+    if (error) {
+      console.error('Error registering push token:', error);
+      return { error: new Error(error.message) };
+    }
+
+    registeredToken = token;
+    return { error: null };
+  } catch (err) {
+    console.error('Unexpected error registering push token:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Stop sending reminders to this device. Call before signing out, while the
+ * session can still delete the user's own token row.
+ */
+export async function unregisterPushToken(): Promise<{ error: Error | null }> {
+  if (!registeredToken) {
+    return { error: null };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('push_tokens')
+      .delete()
+      .eq('token', registeredToken);
+
+    if (error) {
+      console.error('Error unregistering push token:', error);
+      return { error: new Error(error.message) };
+    }
+
+    registeredToken = null;
+    return { error: null };
+  } catch (err) {
+    console.error('Unexpected error unregistering push token:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Record that this device holds local notifications for the user's reminders
+ * due up to `until`. send-reminders skips pushing to a device for reminders it
+ * already holds, unless the event changed after this sync.
+ */
+export async function markLocalRemindersSynced(until: Date): Promise<{ error: Error | null }> {
+  if (!registeredToken) {
+    return { error: null };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('push_tokens')
+      .update({
+        local_reminders_synced_at: new Date().toISOString(),
+        local_reminders_until: until.toISOString(),
+      })
+      .eq('token', registeredToken);
+
+    if (error) {
+      console.error('Error recording local reminder sync:', error);
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    console.error('Unexpected error recording local reminder sync:', err);
+    return { error: err as Error };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Routing Service
+ *
+ * Travel-time estimates behind a pluggable provider. The default provider works
+ * offline from straight-line distance; a directions API can be plugged in with
+ * setRoutingProvider.
+ */
+
+import { RoutePoint, RoutingProviderInterface } from './routingService.types';
+
+export type { RoutePoint, RoutingProviderInterface } from './routingService.types';
+
+const EARTH_RADIUS_KM = 6371;
+const AVERAGE_SPEED_KMH = 30; // Town driving
+const ROAD_DETOUR_FACTOR = 1.3; // Roads are longer than the straight line
+
+function distanceKm(from: RoutePoint, to: RoutePoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Local stub: straight-line distance at an average town speed, rounded up to
+ * five minutes
+ */
+export const straightLineRoutingProvider: RoutingProviderInterface = {
+  async getTravelTimeMinutes(from, to) {
+    const km = distanceKm(from, to) * ROAD_DETOUR_FACTOR;
+    const minutes = (km / AVERAGE_SPEED_KMH) * 60;
+    return Math.max(5, Math.ceil(minutes / 5) * 5);
+  },
+};
+
+let provider: RoutingProviderInterface = straightLineRoutingProvider;
+
+export function setRoutingProvider(next: RoutingProviderInterface): void {
+  provider = next;
+}
+
+export async function getTravelTimeMinutes(
+  from: RoutePoint,
+  to: RoutePoint,
+  arriveBy: Date
+): Promise<number | null> {
+  try {
+    return await provider.getTravelTimeMinutes(from, to, arriveBy);
+  } catch (err) {
+    console.error('Error estimating travel time:', err);
+    return null;
+  }
+}
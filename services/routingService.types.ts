@@ -0,0 +1,25 @@
+/**
+ * Routing service types shared by all routing providers
+ */
+
+/**
+ * A point to travel from or to
+ */
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Interface for routing provider implementations
+ */
+export interface RoutingProviderInterface {
+  /**
+   * Estimate how long it takes to drive between two points
+   * @param from Where the journey starts
+   * @param to Where the journey ends
+   * @param arriveBy When the journey has to end, for providers that account for traffic
+   * @returns Travel time in minutes, or null if no estimate is available
+   */
+  getTravelTimeMinutes(from: RoutePoint, to: RoutePoint, arriveBy: Date): Promise<number | null>;
+}
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { getDeviceTimeZone } from '@/utils/timezone';
 
 export interface UserPreferences {
   id: string;
@@ -6,6 +7,7 @@ export interface UserPreferences {
   upcoming_events_card_view: boolean;
   schedule_day_start: string; // TIME format like "07:00:00"
   schedule_day_end: string; // TIME format like "19:30:00"
+  timezone: string | null; // Zone of the device the user last opened the app on
   created_at: string;
   updated_at: string;
 }
@@ -120,3 +122,21 @@ export async function updateScheduleTimes(
     error,
   };
 }
+
+/**
+ * Record the device's zone, so the edge functions read events saved without one
+ * on the same clock the app does (see getEventTimeZone)
+ */
+export async function recordDeviceTimeZone(userId: string): Promise<{
+  success: boolean;
+  error: Error | null;
+}> {
+  const { data, error } = await updateUserPreferences(userId, {
+    timezone: getDeviceTimeZone(),
+  });
+
+  return {
+    success: !error && !!data,
+    error,
+  };
+}
@@ -0,0 +1,108 @@
+// Run with: deno test supabase/functions/_shared/ical.test.ts
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildVTimezone, escapeText, foldLine, ICalComponent, matchesETag } from "./ical.ts";
+
+const octets = (text: string) => new TextEncoder().encode(text).length;
+const unfold = (folded: string) => folded.replace(/\r\n /g, "");
+
+Deno.test("escapeText escapes backslashes, semicolons, commas and newlines", () => {
+    assertEquals(escapeText("a\\b;c,d"), "a\\\\b\\;c\\,d");
+    assertEquals(escapeText("one\r\ntwo\nthree\rfour"), "one\\ntwo\\nthree\\nfour");
+    assertEquals(escapeText("Football: 15:00"), "Football: 15:00");
+});
+
+Deno.test("foldLine leaves lines of up to 75 octets alone", () => {
+    const line = "X".repeat(75);
+    assertEquals(foldLine(line), line);
+    assertEquals(foldLine(""), "");
+});
+
+Deno.test("foldLine folds longer lines with a leading space on each continuation", () => {
+    const line = "X".repeat(200);
+    const physical = foldLine(line).split("\r\n");
+
+    assertEquals(physical[0].length, 75);
+    for (const continuation of physical.slice(1)) {
+        assert(continuation.startsWith(" "));
+        assert(octets(continuation) <= 75);
+    }
+    assertEquals(unfold(foldLine(line)), line);
+});
+
+Deno.test("foldLine never splits a multi-byte character at the 75-octet boundary", () => {
+    // 74 octets of ASCII, then a 2-byte character that would end on octet 76
+    const accented = "a".repeat(74) + "é" + "b";
+    const [first, second] = foldLine(accented).split("\r\n");
+    assertEquals(first, "a".repeat(74));
+    assertEquals(second, " éb");
+
+    // A 4-byte emoji starting on octet 73 moves to the next line whole
+    const emoji = "a".repeat(72) + "😀" + "b";
+    assertEquals(foldLine(emoji).split("\r\n")[0], "a".repeat(72));
+
+    // Exactly 75 octets ending in a 3-byte character needs no fold
+    const euro = "a".repeat(72) + "€";
+    assertEquals(foldLine(euro), euro);
+});
+
+Deno.test("foldLine keeps every physical line of multi-byte text within 75 octets", () => {
+    const line = "DESCRIPTION:" + "Zwölf Boxkämpfer jagen Viktor quer über den Sylter Deich 🥊 ".repeat(6);
+    const folded = foldLine(line);
+
+    for (const physical of folded.split("\r\n")) {
+        assert(octets(physical) <= 75, `${octets(physical)} octets: ${physical}`);
+    }
+    assertEquals(unfold(folded), line);
+});
+
+function observances(timezone: ICalComponent) {
+    return (timezone.components || []).map((c) => ({
+        type: c.type,
+        start: c.properties.find((p) => p.name === "DTSTART")?.value,
+        from: c.properties.find((p) => p.name === "TZOFFSETFROM")?.value,
+        to: c.properties.find((p) => p.name === "TZOFFSETTO")?.value,
+    }));
+}
+
+Deno.test("buildVTimezone writes each DST change in the range as an observance", () => {
+    const london = buildVTimezone("Europe/London", 2026, 2026);
+
+    assertEquals(london.type, "VTIMEZONE");
+    assertEquals(london.properties, [{ name: "TZID", value: "Europe/London", params: undefined }]);
+    assertEquals(observances(london), [
+        { type: "STANDARD", start: "20260101T000000", from: "+0000", to: "+0000" },
+        // Starts are on the clock in force before the change
+        { type: "DAYLIGHT", start: "20260329T010000", from: "+0000", to: "+0100" },
+        { type: "STANDARD", start: "20261025T020000", from: "+0100", to: "+0000" },
+    ]);
+});
+
+Deno.test("buildVTimezone handles zones on daylight time at the start of the range", () => {
+    const sydney = buildVTimezone("Australia/Sydney", 2026, 2026);
+
+    assertEquals(observances(sydney), [
+        { type: "DAYLIGHT", start: "20260101T110000", from: "+1100", to: "+1100" },
+        { type: "STANDARD", start: "20260405T030000", from: "+1100", to: "+1000" },
+        { type: "DAYLIGHT", start: "20261004T020000", from: "+1000", to: "+1100" },
+    ]);
+});
+
+Deno.test("buildVTimezone gives zones without DST a single observance", () => {
+    assertEquals(observances(buildVTimezone("Asia/Tokyo", 2026, 2027)), [
+        { type: "STANDARD", start: "20260101T090000", from: "+0900", to: "+0900" },
+    ]);
+});
+
+Deno.test("matchesETag compares If-None-Match against the feed's ETag", () => {
+    const etag = '"abc123"';
+
+    assertEquals(matchesETag(null, etag), false);
+    assertEquals(matchesETag("", etag), false);
+    assertEquals(matchesETag('"abc123"', etag), true);
+    assertEquals(matchesETag('"other"', etag), false);
+    // Weak comparison, lists and the wildcard
+    assertEquals(matchesETag('W/"abc123"', etag), true);
+    assertEquals(matchesETag('"other", W/"abc123"', etag), true);
+    assertEquals(matchesETag("*", etag), true);
+});
@@ -0,0 +1,253 @@
+// RFC 5545 iCalendar serialization shared by the edge functions: text escaping,
+// parameter quoting, 75-octet line folding, VTIMEZONE generation and feed ETags.
+
+import { formatICalDate, formatICalDateTime, getTimeZoneOffset, WallClock } from "./rrule.ts";
+
+export type ICalParams = Record<string, string>;
+
+export interface ICalProperty {
+    name: string;
+    value: string; // Already in iCalendar form; use textProperty for TEXT values
+    params?: ICalParams;
+}
+
+export interface ICalComponent {
+    type: string; // VCALENDAR, VEVENT, VALARM, ...
+    properties: ICalProperty[];
+    components?: ICalComponent[];
+}
+
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and newlines (§3.3.11)
+ */
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// Parameter values containing : ; or , must be quoted; quotes themselves are not allowed
+function formatParamValue(value: string): string {
+    const clean = value.replace(/"/g, "'").replace(/[\r\n]/g, " ");
+    return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+export function property(name: string, value: string, params?: ICalParams): ICalProperty {
+    return { name, value, params };
+}
+
+export function textProperty(name: string, value: string, params?: ICalParams): ICalProperty {
+    return { name, value: escapeText(value), params };
+}
+
+// Multi-valued TEXT, e.g. CATEGORIES:School,Sport
+export function textListProperty(name: string, values: string[], params?: ICalParams): ICalProperty {
+    return { name, value: values.map(escapeText).join(","), params };
+}
+
+/**
+ * Date or date-time property on a wall clock: a DATE when allDay, UTC when no
+ * zone is given (or it's UTC), otherwise local time with a TZID
+ */
+export function dateProperty(
+    name: string,
+    instant: Date,
+    { allDay = false, timeZone, clock }: { allDay?: boolean; timeZone?: string; clock: WallClock }
+): ICalProperty {
+    if (allDay) {
+        return property(name, formatICalDate(clock.toFloating(instant)), { VALUE: "DATE" });
+    }
+    if (!timeZone || timeZone === "UTC") {
+        return property(name, formatICalDateTime(instant));
+    }
+    return property(name, formatICalDateTime(clock.toFloating(instant)).slice(0, -1), { TZID: timeZone });
+}
+
+/**
+ * DTEND of an all-day event: the day after its last day. Rows may store the end
+ * as midnight or as 23:59 of the last day.
+ */
+export function allDayEndProperty(start: Date, end: Date, clock: WallClock): ICalProperty {
+    const firstDay = clock.toFloating(start).getTime();
+    const lastDay = clock.toFloating(new Date(Math.max(end.getTime() - 1, start.getTime()))).getTime();
+    return property("DTEND", formatICalDate(new Date(Math.max(lastDay, firstDay) + DAY_MS)), { VALUE: "DATE" });
+}
+
+export function formatProperty({ name, value, params }: ICalProperty): string {
+    const paramText = Object.entries(params || {})
+        .map(([key, paramValue]) => `;${key}=${formatParamValue(paramValue)}`)
+        .join("");
+    return `${name}${paramText}:${value}`;
+}
+
+function utf8Length(char: string): number {
+    const code = char.codePointAt(0) || 0;
+    if (code < 0x80) return 1;
+    if (code < 0x800) return 2;
+    if (code < 0x10000) return 3;
+    return 4;
+}
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets (§3.1). Continuation
+ * lines start with a space; multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = "";
+    let octets = 0;
+
+    for (const char of line) {
+        const size = utf8Length(char);
+        // Continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = "";
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+
+    return parts.join("\r\n ");
+}
+
+export function serializeComponent(component: ICalComponent): string[] {
+    return [
+        `BEGIN:${component.type}`,
+        ...component.properties.map((p) => foldLine(formatProperty(p))),
+        ...(component.components || []).flatMap(serializeComponent),
+        `END:${component.type}`,
+    ];
+}
+
+/**
+ * Serialize a VCALENDAR with CRLF line endings
+ */
+export function serializeCalendar(calendar: ICalComponent): string {
+    return serializeComponent(calendar).join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// VTIMEZONE
+// ---------------------------------------------------------------------------
+
+// Built from the runtime's own tz database (via Intl), so no zone data has to be
+// bundled. Each DST change in the requested years is written out as its own
+// observance rather than as a yearly RRULE, which keeps zones whose rules changed
+// over the years exact.
+
+const STEP_MS = 7 * DAY_MS; // Zones never change offset twice within a week
+const MINUTE_MS = 60 * 1000;
+
+interface Transition {
+    at: Date; // First instant with the new offset
+    offsetFrom: number;
+    offsetTo: number;
+}
+
+function formatOffset(offsetMs: number): string {
+    const sign = offsetMs < 0 ? "-" : "+";
+    const minutes = Math.round(Math.abs(offsetMs) / MINUTE_MS);
+    const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+    const mm = String(minutes % 60).padStart(2, "0");
+    return `${sign}${hh}${mm}`;
+}
+
+// Local wall-clock time of an instant under an offset, as a DATE-TIME without Z
+function formatLocal(instant: Date, offsetMs: number): string {
+    return formatICalDateTime(new Date(instant.getTime() + offsetMs)).slice(0, -1);
+}
+
+function findTransitions(timeZone: string, from: Date, to: Date): Transition[] {
+    const transitions: Transition[] = [];
+    let previous = from.getTime();
+    let previousOffset = getTimeZoneOffset(from, timeZone);
+
+    for (let t = previous + STEP_MS; t <= to.getTime(); t += STEP_MS) {
+        const offset = getTimeZoneOffset(new Date(t), timeZone);
+        if (offset !== previousOffset) {
+            // Narrow the change down to the minute
+            let lo = previous;
+            let hi = t;
+            while (hi - lo > MINUTE_MS) {
+                const mid = lo + Math.floor((hi - lo) / 2 / MINUTE_MS) * MINUTE_MS;
+                if (getTimeZoneOffset(new Date(mid), timeZone) === previousOffset) lo = mid;
+                else hi = mid;
+            }
+            transitions.push({ at: new Date(hi), offsetFrom: previousOffset, offsetTo: offset });
+            previousOffset = offset;
+        }
+        previous = t;
+    }
+    return transitions;
+}
+
+function observance(type: "STANDARD" | "DAYLIGHT", start: string, from: number, to: number): ICalComponent {
+    return {
+        type,
+        properties: [
+            property("DTSTART", start),
+            property("TZOFFSETFROM", formatOffset(from)),
+            property("TZOFFSETTO", formatOffset(to)),
+        ],
+    };
+}
+
+/**
+ * VTIMEZONE for an IANA zone, covering the years fromYear to toYear
+ */
+export function buildVTimezone(timeZone: string, fromYear: number, toYear: number): ICalComponent {
+    const from = new Date(Date.UTC(fromYear, 0, 1));
+    const to = new Date(Date.UTC(toYear + 1, 0, 1));
+    const initialOffset = getTimeZoneOffset(from, timeZone);
+    const transitions = findTransitions(timeZone, from, to);
+
+    // The offset in force at the start of the range
+    const firstIsDaylight = transitions.length > 0 && transitions[0].offsetFrom > transitions[0].offsetTo;
+    const components = [
+        observance(firstIsDaylight ? "DAYLIGHT" : "STANDARD", formatLocal(from, initialOffset), initialOffset, initialOffset),
+        // Observance starts are given on the clock in force just before the change
+        ...transitions.map((t) =>
+            observance(
+                t.offsetTo > t.offsetFrom ? "DAYLIGHT" : "STANDARD",
+                formatLocal(t.at, t.offsetFrom),
+                t.offsetFrom,
+                t.offsetTo
+            )
+        ),
+    ];
+
+    return { type: "VTIMEZONE", properties: [property("TZID", timeZone)], components };
+}
+
+// ---------------------------------------------------------------------------
+// ETags
+// ---------------------------------------------------------------------------
+
+/**
+ * Strong ETag for a serialized calendar (SHA-1 of the body)
+ */
+export async function computeETag(body: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(body));
+    const hex = Array.from(new Uint8Array(digest))
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+    return `"${hex}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches an ETag (weak comparison, §13.1.2 of RFC 9110)
+ */
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+    if (!ifNoneMatch) return false;
+    const strip = (tag: string) => tag.trim().replace(/^W\//, "");
+    return ifNoneMatch.split(",").some((tag) => tag.trim() === "*" || strip(tag) === strip(etag));
+}
@@ -0,0 +1,21 @@
+// Recurrence columns of an events row, as read by the edge functions. They're
+// expanded with getRuleOptions from the shared engine, as the app does.
+
+export { getRuleOptions } from "./rrule.ts";
+export type { RecurrenceColumns } from "./rrule.ts";
+
+export const RECURRENCE_COLUMNS = `
+    is_recurring,
+    recurrence_rule,
+    recurrence_frequency,
+    recurrence_interval,
+    recurrence_days_of_week,
+    recurrence_days_of_month,
+    recurrence_months_of_year,
+    recurrence_weeks_of_year,
+    recurrence_days_of_year,
+    recurrence_set_positions,
+    recurrence_count,
+    recurrence_end_date,
+    recurrence_week_start
+`;
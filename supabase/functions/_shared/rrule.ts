@@ -0,0 +1,597 @@
+// RFC 5545 recurrence rules (RRULE): parsing, formatting and expansion.
+//
+// Expansion works on "floating" wall-clock times: Dates whose UTC fields hold the
+// local date and time of an occurrence. Calendar arithmetic on those never crosses
+// a DST jump; a WallClock converts between floating times and real instants.
+//
+// This module has no imports so the app and the edge functions (under Deno) share it.
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type WeekdayCode = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RRuleWeekday {
+  weekday: WeekdayCode;
+  n?: number; // Ordinal within the month/year: 2 = second, -1 = last
+}
+
+export interface RRuleOptions {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: Date; // Instant
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+  byWeekNo?: number[];
+  byYearDay?: number[];
+  bySetPos?: number[];
+  wkst: WeekdayCode;
+}
+
+export interface WallClock {
+  toFloating(instant: Date): Date;
+  fromFloating(floating: Date): Date;
+}
+
+// Wall clock of the device's own time zone
+export const LOCAL_WALL_CLOCK: WallClock = {
+  toFloating: (d) =>
+    new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds(), d.getMilliseconds())),
+  fromFloating: (f) =>
+    new Date(f.getUTCFullYear(), f.getUTCMonth(), f.getUTCDate(), f.getUTCHours(), f.getUTCMinutes(), f.getUTCSeconds(), f.getUTCMilliseconds()),
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Offset of a timezone from UTC at the given instant, in milliseconds
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getZoneFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return wallClockAsUtc - wholeSeconds;
+}
+
+/**
+ * Wall clock for an IANA timezone, for expanding recurrences in an event's own zone.
+ * Times skipped by a DST jump resolve with the offset from before the jump (RFC 5545 §3.3.5).
+ */
+export function zonedWallClock(timeZone: string): WallClock {
+  return {
+    toFloating: (instant) => new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone)),
+    fromFloating: (floating) => {
+      const ms = floating.getTime();
+      const firstGuess = getTimeZoneOffset(floating, timeZone);
+      const offset = getTimeZoneOffset(new Date(ms - firstGuess), timeZone);
+      if (offset === firstGuess) return new Date(ms - offset);
+
+      const secondGuess = getTimeZoneOffset(new Date(ms - offset), timeZone);
+      if (secondGuess === offset) return new Date(ms - offset);
+
+      // Inside a DST gap: neither offset round-trips, so use the pre-jump (smaller) one
+      return new Date(ms - Math.min(offset, secondGuess));
+    },
+  };
+}
+
+/**
+ * The zone an event's times are read in. Rows written before events recorded a
+ * zone carry the column default 'UTC' but were entered on the user's own clock,
+ * so those (and zones Intl doesn't know) read in `fallbackZone`: the device zone
+ * in the app, and the zone the user's app last recorded in the edge functions.
+ */
+export function resolveEventTimeZone(timeZone: string | null | undefined, fallbackZone: string): string {
+  if (!timeZone || timeZone === 'UTC') return fallbackZone;
+  try {
+    getZoneFormatter(timeZone);
+    return timeZone;
+  } catch {
+    return fallbackZone;
+  }
+}
+
+export const WEEKDAY_CODES: WeekdayCode[] =['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIODS = 100000; // Guards against rules that can never match (e.g. BYMONTHDAY=30;BYMONTH=2)
+
+// ---------------------------------------------------------------------------
+// Parsing and formatting
+// ---------------------------------------------------------------------------
+
+export function parseWeekday(token: string): RRuleWeekday | null {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/i.exec(token.trim());
+  if (!match) return null;
+  const weekday = match[2].toUpperCase() as WeekdayCode;
+  return match[1] ? { weekday, n: parseInt(match[1], 10) } : { weekday };
+}
+
+export function formatWeekday(day: RRuleWeekday): string {
+  return day.n ? `${day.n}${day.weekday}` : day.weekday;
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value (e.g. 20260105, 20260105T090000,
+ * 20260105T090000Z). Values without a trailing Z are read on the given wall clock.
+ */
+export function parseICalDate(value: string, clock: WallClock = LOCAL_WALL_CLOCK): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', utc] = match;
+  const floating = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  return utc ? floating : clock.fromFloating(floating);
+}
+
+/**
+ * Format an instant as an iCalendar UTC DATE-TIME (e.g. 20260105T090000Z)
+ */
+export function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
+
+/**
+ * Format a floating time's date part as an iCalendar DATE (e.g. 20260105)
+ */
+export function formatICalDate(floating: Date): string {
+  return floating.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function parseIntList(value: string): number[] {
+  return value
+    .split(',')
+    .map((v) => parseInt(v, 10))
+    .filter((v) => !isNaN(v) && v !== 0);
+}
+
+/**
+ * Parse an RRULE value ("FREQ=MONTHLY;BYDAY=2TU", optionally prefixed with "RRULE:").
+ * Returns null for rules this engine cannot expand (e.g. HOURLY).
+ */
+export function parseRRule(rule: string, clock: WallClock = LOCAL_WALL_CLOCK): RRuleOptions | null {
+  const body = rule.trim().replace(/^RRULE:/i, '');
+  if (!body) return null;
+
+  const options: Partial<RRuleOptions> = { interval: 1, wkst: 'MO' };
+
+  for (const part of body.split(';')) {
+    const [rawKey, rawValue] = part.split('=');
+    if (!rawKey || rawValue === undefined) continue;
+    const key = rawKey.trim().toUpperCase();
+    const value = rawValue.trim();
+
+    switch (key) {
+      case 'FREQ': {
+        const freq = value.toUpperCase() as RRuleFrequency;
+        if (!FREQUENCIES.includes(freq)) return null;
+        options.freq = freq;
+        break;
+      }
+      case 'INTERVAL': {
+        const interval = parseInt(value, 10);
+        if (interval > 0) options.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = parseInt(value, 10);
+        if (count > 0) options.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseICalDate(value, clock);
+        if (until) options.until = until;
+        break;
+      }
+      case 'BYDAY': {
+        const days = value
+          .split(',')
+          .map(parseWeekday)
+          .filter((d): d is RRuleWeekday => d !== null);
+        if (days.length) options.byDay = days;
+        break;
+      }
+      case 'BYMONTHDAY':
+        options.byMonthDay = parseIntList(value);
+        break;
+      case 'BYMONTH':
+        options.byMonth = parseIntList(value);
+        break;
+      case 'BYWEEKNO':
+        options.byWeekNo = parseIntList(value);
+        break;
+      case 'BYYEARDAY':
+        options.byYearDay = parseIntList(value);
+        break;
+      case 'BYSETPOS':
+        options.bySetPos = parseIntList(value);
+        break;
+      case 'WKST': {
+        const wkst = value.toUpperCase() as WeekdayCode;
+        if (WEEKDAY_CODES.includes(wkst)) options.wkst = wkst;
+        break;
+      }
+      default:
+        // BYHOUR/BYMINUTE/BYSECOND and X- parts are not supported; ignore them
+        break;
+    }
+  }
+
+  if (!options.freq) return null;
+
+  // Drop empty lists so callers can rely on "undefined means not set"
+  (['byMonthDay', 'byMonth', 'byWeekNo', 'byYearDay', 'bySetPos'] as const).forEach((key) => {
+    if (options[key] && options[key]!.length === 0) delete options[key];
+  });
+
+  return options as RRuleOptions;
+}
+
+/**
+ * Format options as an RRULE value (without the "RRULE:" prefix).
+ * For all-day events UNTIL is written as a DATE on the given wall clock.
+ */
+export function formatRRule(
+  options: RRuleOptions,
+  { allDay = false, clock = LOCAL_WALL_CLOCK }: { allDay?: boolean; clock?: WallClock } = {}
+): string {
+  const parts = [`FREQ=${options.freq}`];
+  if (options.interval && options.interval > 1) parts.push(`INTERVAL=${options.interval}`);
+  if (options.count) parts.push(`COUNT=${options.count}`);
+  if (options.until) {
+    parts.push(`UNTIL=${allDay ? formatICalDate(clock.toFloating(options.until)) : formatICalDateTime(options.until)}`);
+  }
+  if (options.byMonth?.length) parts.push(`BYMONTH=${options.byMonth.join(',')}`);
+  if (options.byWeekNo?.length) parts.push(`BYWEEKNO=${options.byWeekNo.join(',')}`);
+  if (options.byYearDay?.length) parts.push(`BYYEARDAY=${options.byYearDay.join(',')}`);
+  if (options.byMonthDay?.length) parts.push(`BYMONTHDAY=${options.byMonthDay.join(',')}`);
+  if (options.byDay?.length) parts.push(`BYDAY=${options.byDay.map(formatWeekday).join(',')}`);
+  if (options.bySetPos?.length) parts.push(`BYSETPOS=${options.bySetPos.join(',')}`);
+  if (options.wkst && options.wkst !== 'MO') parts.push(`WKST=${options.wkst}`);
+  return parts.join(';');
+}
+
+/**
+ * Recurrence columns of an events row
+ */
+export interface RecurrenceColumns {
+  is_recurring: boolean;
+  recurrence_rule: string | null;
+  recurrence_frequency: string | null;
+  recurrence_interval: number | null;
+  recurrence_days_of_week: string[] | null;
+  recurrence_days_of_month: number[] | null;
+  recurrence_months_of_year: number[] | null;
+  recurrence_weeks_of_year: number[] | null;
+  recurrence_days_of_year: number[] | null;
+  recurrence_set_positions: number[] | null;
+  recurrence_count: number | null;
+  recurrence_end_date: string | null;
+  recurrence_week_start: string | null;
+}
+
+/**
+ * The rule of a recurring event, read on its own wall clock. The structured columns
+ * are what the app edits, so they win; recurrence_rule covers rows that only have a
+ * rule (e.g. imported ones). The app, the calendar feed and reminders all expand
+ * events through this, so they agree on the dates.
+ */
+export function getRuleOptions(event: RecurrenceColumns, clock: WallClock): RRuleOptions | null {
+  if (!event.recurrence_frequency) {
+    return event.recurrence_rule ? parseRRule(event.recurrence_rule, clock) : null;
+  }
+
+  const nonEmpty = (values: number[] | null) => (values && values.length ? values : undefined);
+  const byDay = (event.recurrence_days_of_week || [])
+    .map(parseWeekday)
+    .filter((d): d is RRuleWeekday => d !== null);
+  const freq = event.recurrence_frequency.toUpperCase() as RRuleFrequency;
+  const wkst = (event.recurrence_week_start || 'MO').toUpperCase() as WeekdayCode;
+
+  if (!FREQUENCIES.includes(freq)) return null;
+  return {
+    freq,
+    interval: event.recurrence_interval || 1,
+    count: event.recurrence_count || undefined,
+    until: event.recurrence_end_date ? new Date(event.recurrence_end_date) : undefined,
+    byDay: byDay.length ? byDay : undefined,
+    byMonthDay: nonEmpty(event.recurrence_days_of_month),
+    byMonth: nonEmpty(event.recurrence_months_of_year),
+    byWeekNo: nonEmpty(event.recurrence_weeks_of_year),
+    byYearDay: nonEmpty(event.recurrence_days_of_year),
+    bySetPos: nonEmpty(event.recurrence_set_positions),
+    wkst: WEEKDAY_CODES.includes(wkst) ? wkst : 'MO',
+  };
+}
+
+/**
+ * The weekday of a date with its position in the month: the 2nd Tuesday gives
+ * { weekday: 'TU', n: 2 }, or with fromEnd the last Tuesday gives { weekday: 'TU', n: -1 }
+ */
+export function getMonthlyWeekday(date: Date, fromEnd: boolean = false): RRuleWeekday {
+  const weekday = WEEKDAY_CODES[date.getDay()];
+  if (fromEnd) {
+    const dim = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    return { weekday, n: -(Math.floor((dim - date.getDate()) / 7) + 1) };
+  }
+  return { weekday, n: Math.floor((date.getDate() - 1) / 7) + 1 };
+}
+
+/**
+ * Short label for a BYDAY entry, e.g. "2nd TU", "Last FR", "MO"
+ */
+export function describeWeekday(day: RRuleWeekday): string {
+  if (!day.n) return day.weekday;
+  if (day.n === -1) return `Last ${day.weekday}`;
+  const abs = Math.abs(day.n);
+  const suffix = abs % 10 === 1 && abs !== 11 ? 'st' : abs % 10 === 2 && abs !== 12 ? 'nd' : abs % 10 === 3 && abs !== 13 ? 'rd' : 'th';
+  return day.n > 0 ? `${abs}${suffix} ${day.weekday}` : `${abs}${suffix} last ${day.weekday}`;
+}
+
+// ---------------------------------------------------------------------------
+// Day arithmetic (day numbers count days since 1970-01-01)
+// ---------------------------------------------------------------------------
+
+function dayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month, day) / DAY_MS);
+}
+
+function weekdayOf(dn: number): number {
+  // 1970-01-01 was a Thursday; 0 = Sunday like Date.getDay()
+  return (((dn + 4) % 7) + 7) % 7;
+}
+
+function partsOf(dn: number): { year: number; month: number; day: number } {
+  const date = new Date(dn * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function range(start: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => start + i);
+}
+
+// First day of week 1 of a year: the week (starting on wkst) containing at least 4 days of the year
+function firstWeekStart(year: number, wkst: number): number {
+  const jan1 = dayNumber(year, 0, 1);
+  const offset = (weekdayOf(jan1) - wkst + 7) % 7;
+  return offset <= 3 ? jan1 - offset : jan1 - offset + 7;
+}
+
+function weekNoDays(year: number, weekNos: number[], wkst: number): number[] {
+  const start = firstWeekStart(year, wkst);
+  const weekCount = (firstWeekStart(year + 1, wkst) - start) / 7;
+  const days: number[] = [];
+  for (const weekNo of weekNos) {
+    const index = weekNo > 0 ? weekNo - 1 : weekCount + weekNo;
+    if (index < 0 || index >= weekCount) continue;
+    days.push(...range(start + index * 7, 7));
+  }
+  return days;
+}
+
+// Days within [first, first + length) matching BYDAY, honouring ordinals ("2TU", "-1FR")
+function matchWeekdays(first: number, length: number, byDay: RRuleWeekday[], useOrdinals: boolean): Set<number> {
+  const matched = new Set<number>();
+  for (const { weekday, n } of byDay) {
+    const target = WEEKDAY_CODES.indexOf(weekday);
+    const candidates = range(first, length).filter((dn) => weekdayOf(dn) === target);
+    if (n && useOrdinals) {
+      const picked = n > 0 ? candidates[n - 1] : candidates[candidates.length + n];
+      if (picked !== undefined) matched.add(picked);
+    } else {
+      candidates.forEach((dn) => matched.add(dn));
+    }
+  }
+  return matched;
+}
+
+function matchesMonthDay(dn: number, byMonthDay: number[]): boolean {
+  const { year, month, day } = partsOf(dn);
+  const dim = daysInMonth(year, month);
+  return byMonthDay.some((v) => (v > 0 ? v === day : dim + v + 1 === day));
+}
+
+function matchesYearDay(dn: number, byYearDay: number[]): boolean {
+  const { year } = partsOf(dn);
+  const jan1 = dayNumber(year, 0, 1);
+  const yearLength = dayNumber(year + 1, 0, 1) - jan1;
+  const day = dn - jan1 + 1;
+  return byYearDay.some((v) => (v > 0 ? v === day : yearLength + v + 1 === day));
+}
+
+function applySetPos(days: number[], bySetPos?: number[]): number[] {
+  if (!bySetPos?.length) return days;
+  const picked = new Set<number>();
+  for (const pos of bySetPos) {
+    const dn = pos > 0 ? days[pos - 1] : days[days.length + pos];
+    if (dn !== undefined) picked.add(dn);
+  }
+  return Array.from(picked).sort((a, b) => a - b);
+}
+
+// Candidate days of the k-th period after DTSTART's period, before BYSETPOS
+function periodCandidates(options: RRuleOptions, startDn: number, k: number): { days: number[]; periodStart: number } {
+  const { freq, interval } = options;
+  const start = partsOf(startDn);
+  const wkst = WEEKDAY_CODES.indexOf(options.wkst);
+  const byMonth = options.byMonth;
+  const byDay = options.byDay;
+  let days: number[];
+  let periodStart: number;
+
+  if (freq === 'DAILY') {
+    periodStart = startDn + k * interval;
+    days = [periodStart];
+    if (byDay) {
+      const weekdays = new Set(byDay.map((d) => WEEKDAY_CODES.indexOf(d.weekday)));
+      days = days.filter((dn) => weekdays.has(weekdayOf(dn)));
+    }
+    if (options.byMonthDay) days = days.filter((dn) => matchesMonthDay(dn, options.byMonthDay!));
+    if (options.byYearDay) days = days.filter((dn) => matchesYearDay(dn, options.byYearDay!));
+  } else if (freq === 'WEEKLY') {
+    const firstWeek = startDn - ((weekdayOf(startDn) - wkst + 7) % 7);
+    periodStart = firstWeek + k * interval * 7;
+    const weekdays = byDay
+      ? new Set(byDay.map((d) => WEEKDAY_CODES.indexOf(d.weekday)))
+      : new Set([weekdayOf(startDn)]);
+    days = range(periodStart, 7).filter((dn) => weekdays.has(weekdayOf(dn)));
+  } else if (freq === 'MONTHLY') {
+    const monthIndex = start.year * 12 + start.month + k * interval;
+    const year = Math.floor(monthIndex / 12);
+    const month = monthIndex % 12;
+    const dim = daysInMonth(year, month);
+    periodStart = dayNumber(year, month, 1);
+
+    if (byMonth && !byMonth.includes(month + 1)) {
+      days = [];
+    } else if (!options.byMonthDay && !byDay) {
+      days = start.day <= dim ? [dayNumber(year, month, start.day)] : [];
+    } else {
+      days = range(periodStart, dim);
+      if (options.byMonthDay) days = days.filter((dn) => matchesMonthDay(dn, options.byMonthDay!));
+      if (byDay) {
+        const matched = matchWeekdays(periodStart, dim, byDay, true);
+        days = days.filter((dn) => matched.has(dn));
+      }
+    }
+  } else {
+    const year = start.year + k * interval;
+    const jan1 = dayNumber(year, 0, 1);
+    const yearLength = dayNumber(year + 1, 0, 1) - jan1;
+    periodStart = jan1;
+
+    const hasDayRule = !!(options.byWeekNo || options.byYearDay || options.byMonthDay || byDay);
+    if (!hasDayRule) {
+      // Same day of month as DTSTART, in DTSTART's month or each BYMONTH month
+      const months = byMonth ? byMonth.map((m) => m - 1) : [start.month];
+      days = months
+        .filter((m) => start.day <= daysInMonth(year, m))
+        .map((m) => dayNumber(year, m, start.day));
+    } else {
+      days = options.byWeekNo ? weekNoDays(year, options.byWeekNo, wkst) : range(jan1, yearLength);
+      if (byMonth) days = days.filter((dn) => byMonth.includes(partsOf(dn).month + 1));
+      if (options.byYearDay) days = days.filter((dn) => matchesYearDay(dn, options.byYearDay!));
+      if (options.byMonthDay) days = days.filter((dn) => matchesMonthDay(dn, options.byMonthDay!));
+
+      if (byDay) {
+        let matched: Set<number>;
+        if (options.byWeekNo) {
+          // Ordinals have no meaning inside BYWEEKNO weeks
+          matched = matchWeekdays(days[0] ?? jan1, days.length ? days[days.length - 1] - days[0] + 1 : 0, byDay, false);
+        } else if (byMonth) {
+          // Ordinals count within each month ("2nd Tuesday of March")
+          matched = new Set<number>();
+          for (const m of byMonth) {
+            matchWeekdays(dayNumber(year, m - 1, 1), daysInMonth(year, m - 1), byDay, true).forEach((dn) => matched.add(dn));
+          }
+        } else {
+          // Ordinals count within the year ("20th Monday")
+          matched = matchWeekdays(jan1, yearLength, byDay, true);
+        }
+        days = days.filter((dn) => matched.has(dn));
+      } else if (options.byWeekNo) {
+        days = days.filter((dn) => weekdayOf(dn) === weekdayOf(startDn));
+      }
+    }
+  }
+
+  if (byMonth && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    days = days.filter((dn) => byMonth.includes(partsOf(dn).month + 1));
+  }
+
+  days = Array.from(new Set(days)).sort((a, b) => a - b);
+  return { days: applySetPos(days, options.bySetPos), periodStart };
+}
+
+// Index of the first period that can contain days on or after `dn`
+function periodIndexNear(options: RRuleOptions, startDn: number, dn: number): number {
+  const { freq, interval } = options;
+  const start = partsOf(startDn);
+  const target = partsOf(dn);
+  let periods: number;
+  if (freq === 'DAILY') {
+    periods = (dn - startDn) / interval;
+  } else if (freq === 'WEEKLY') {
+    periods = (dn - startDn) / (7 * interval);
+  } else if (freq === 'MONTHLY') {
+    periods = (target.year * 12 + target.month - (start.year * 12 + start.month)) / interval;
+  } else {
+    periods = (target.year - start.year) / interval;
+  }
+  // Step back one period so nothing straddling the boundary is missed
+  return Math.max(0, Math.floor(periods) - 1);
+}
+
+/**
+ * Expand a rule into occurrence start instants within [after, before).
+ *
+ * Only occurrences on or after DTSTART are produced. When COUNT is set every
+ * occurrence since DTSTART is counted, so expansion starts at DTSTART; otherwise
+ * it skips straight to the periods around `after`.
+ */
+export function expandRRule(
+  options: RRuleOptions,
+  dtstart: Date,
+  after: Date,
+  before: Date,
+  limit: number = 500,
+  clock: WallClock = LOCAL_WALL_CLOCK
+): Date[] {
+  const results: Date[] = [];
+  const startFloating = clock.toFloating(dtstart).getTime();
+  const startDn = Math.floor(startFloating / DAY_MS);
+  const timeOfDayMs = startFloating - startDn * DAY_MS;
+  const beforeDn = Math.floor(clock.toFloating(before).getTime() / DAY_MS);
+  const afterDn = Math.floor(clock.toFloating(after).getTime() / DAY_MS);
+
+  let k = options.count ? 0 : periodIndexNear(options, startDn, afterDn);
+  let found = 0;
+
+  for (let guard = 0; guard < MAX_PERIODS; guard++, k++) {
+    const { days, periodStart } = periodCandidates(options, startDn, k);
+    // YEARLY BYWEEKNO periods can begin in late December of the previous year
+    if (periodStart - 7 > beforeDn) break;
+
+    for (const dn of days) {
+      const floating = dn * DAY_MS + timeOfDayMs;
+      if (floating < startFloating) continue;
+
+      const instant = clock.fromFloating(new Date(floating));
+      if (options.until && instant.getTime() > options.until.getTime()) return results;
+      found++;
+      if (options.count && found > options.count) return results;
+      if (instant.getTime() >= before.getTime()) return results;
+      if (instant.getTime() >= after.getTime()) {
+        results.push(instant);
+        if (results.length >= limit) return results;
+      }
+    }
+  }
+
+  return results;
+}
@@ -1,14 +1,218 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import {
+    expandRRule,
+    formatICalDateTime,
+    formatRRule,
+    resolveEventTimeZone,
+    WallClock,
+    zonedWallClock,
+} from "../_shared/rrule.ts";
+import {
+    allDayEndProperty,
+    buildVTimezone,
+    computeETag,
+    dateProperty,
+    ICalComponent,
+    ICalProperty,
+    matchesETag,
+    property,
+    serializeCalendar,
+    textListProperty,
+    textProperty,
+} from "../_shared/ical.ts";
+import { getRuleOptions, RECURRENCE_COLUMNS, RecurrenceColumns } from "../_shared/recurrence.ts";
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 
+// For rows saved without a zone, when the owner's app hasn't recorded one either
+const DEFAULT_TIMEZONE = Deno.env.get('CALENDAR_FEED_DEFAULT_TIMEZONE') || 'UTC';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// What a feed token may see. The legacy user_preferences token sees everything.
+interface FeedScope {
+    ownerId: string;
+    familyIds: string[]; // Merged into one calendar; only families the owner belongs to
+    name: string | null;
+    contactIds: string[] | null;
+    categoryIds: string[] | null;
+    privacy: 'full' | 'titles_only' | 'busy';
+    includeAlarms: boolean; // Named feeds are usually shared, so the owner's reminders stay out
+    driverContactId: string | null; // A driver's agenda: just the lifts they give
+}
+
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, if-none-match',
+    'Access-Control-Expose-Headers': 'etag',
 };
 
+interface FeedException {
+    exception_date: string;
+    is_deleted: boolean;
+    title: string | null;
+    description: string | null;
+    location: string | null;
+    start_time: string | null;
+    end_time: string | null;
+    drop_off_driver_id: string | null;
+    collection_driver_id: string | null;
+    updated_at: string;
+}
+
+interface FeedEvent extends RecurrenceColumns {
+    id: string;
+    family_id: string;
+    title: string;
+    description: string | null;
+    location: string | null;
+    start_time: string;
+    end_time: string;
+    is_all_day: boolean;
+    timezone: string | null;
+    updated_at: string;
+    drop_off_driver_id: string | null;
+    collection_driver_id: string | null;
+    same_driver: boolean;
+    category: { name: string; color: string } | null;
+    participants: { contact_id: string; status: string; contact: { first_name: string } | null }[] | null;
+    exceptions: FeedException[] | null;
+    reminders: { reminder_type: string; reminder_value: number }[] | null;
+}
+
+// Feed events have their zone resolved as they're loaded, below
+function eventTimeZone(event: FeedEvent): string {
+    return event.timezone || DEFAULT_TIMEZONE;
+}
+
+// DTSTART-style property on the event's own clock
+function eventDateProperty(name: string, instant: Date, event: FeedEvent, clock: WallClock): ICalProperty {
+    return dateProperty(name, instant, { allDay: event.is_all_day, timeZone: eventTimeZone(event), clock });
+}
+
+function endProperty(start: Date, end: Date, event: FeedEvent, clock: WallClock): ICalProperty {
+    return event.is_all_day ? allDayEndProperty(start, end, clock) : eventDateProperty('DTEND', end, event, clock);
+}
+
+interface FeedOccurrence {
+    originalStart: Date;
+    start: Date;
+    end: Date;
+    modified: Date;
+    title: string;
+    location: string | null;
+    dropOffDriverId: string | null;
+    collectionDriverId: string | null;
+}
+
+// Occurrences of an event starting in [from, to), with exceptions applied
+function occurrencesIn(event: FeedEvent, from: Date, to: Date, clock: WallClock): FeedOccurrence[] {
+    const start = new Date(event.start_time);
+    const durationMs = new Date(event.end_time).getTime() - start.getTime();
+    const updatedAt = new Date(event.updated_at);
+    const base = (originalStart: Date): FeedOccurrence => ({
+        originalStart,
+        start: originalStart,
+        end: new Date(originalStart.getTime() + durationMs),
+        modified: updatedAt,
+        title: event.title,
+        location: event.location,
+        dropOffDriverId: event.drop_off_driver_id,
+        collectionDriverId: event.collection_driver_id,
+    });
+
+    const options = event.is_recurring ? getRuleOptions(event, clock) : null;
+    if (!options) {
+        return start >= from && start < to ? [base(start)] : [];
+    }
+
+    const exceptions = new Map((event.exceptions || []).map(ex => [new Date(ex.exception_date).getTime(), ex]));
+    const occurrences: FeedOccurrence[] = [];
+    const starts = expandRRule(options, start, from, to, 500, clock);
+    const handled = new Set<number>();
+
+    const withException = (occurrence: FeedOccurrence, ex: FeedException): FeedOccurrence => {
+        const occurrenceStart = ex.start_time ? new Date(ex.start_time) : occurrence.start;
+        return {
+            ...occurrence,
+            start: occurrenceStart,
+            end: ex.end_time ? new Date(ex.end_time) : new Date(occurrenceStart.getTime() + durationMs),
+            modified: new Date(Math.max(updatedAt.getTime(), new Date(ex.updated_at).getTime())),
+            title: ex.title ?? occurrence.title,
+            location: ex.location ?? occurrence.location,
+            dropOffDriverId: ex.drop_off_driver_id ?? occurrence.dropOffDriverId,
+            collectionDriverId: ex.collection_driver_id ?? occurrence.collectionDriverId,
+        };
+    };
+
+    for (const originalStart of starts) {
+        const ex = exceptions.get(originalStart.getTime());
+        handled.add(originalStart.getTime());
+        if (ex?.is_deleted) continue;
+        occurrences.push(ex ? withException(base(originalStart), ex) : base(originalStart));
+    }
+    // Occurrences moved into the window from outside it
+    for (const ex of event.exceptions || []) {
+        const originalStart = new Date(ex.exception_date);
+        if (ex.is_deleted || !ex.start_time || handled.has(originalStart.getTime())) continue;
+        if (originalStart < start || (options.until && originalStart > options.until)) continue;
+        const moved = withException(base(originalStart), ex);
+        if (moved.start >= from && moved.start < to) occurrences.push(moved);
+    }
+    return occurrences;
+}
+
+// Which legs of a lift the driver gives, or null when it isn't theirs
+function liftLabel(occurrence: FeedOccurrence, sameDriver: boolean, driverId: string): string | null {
+    const dropsOff = occurrence.dropOffDriverId === driverId;
+    const collects = sameDriver ? dropsOff : occurrence.collectionDriverId === driverId;
+    if (dropsOff && collects) return 'Drop-off & pick-up';
+    if (dropsOff) return 'Drop-off';
+    if (collects) return 'Pick-up';
+    return null;
+}
+
+// VALARMs for the feed owner's reminders on the event
+function alarms(event: FeedEvent, summary: string): ICalComponent[] {
+    const units: Record<string, string> = { minutes: 'M', hours: 'H', days: 'D', weeks: 'W' };
+    const components: ICalComponent[] = [];
+    for (const reminder of event.reminders || []) {
+        const unit = units[reminder.reminder_type];
+        if (!unit) continue;
+        const duration = unit === 'M' || unit === 'H'
+            ? `-PT${reminder.reminder_value}${unit}`
+            : `-P${reminder.reminder_value}${unit}`;
+        components.push({
+            type: 'VALARM',
+            properties: [
+                property('ACTION', 'DISPLAY'),
+                textProperty('DESCRIPTION', summary),
+                property('TRIGGER', duration),
+            ],
+        });
+    }
+    return components;
+}
+
+// Families the user is a member of; feeds are limited to these, so leaving a
+// family also takes it out of every feed the user handed out. Families where the
+// user is a child are left out: the feed is served past the policies that hide
+// other people's events from them.
+async function memberFamilyIds(supabase: SupabaseClient, userId: string): Promise<string[]> {
+    const { data, error } = await supabase
+        .from('family_members')
+        .select('family_id, role, contact:contacts!inner(user_id)')
+        .eq('contact.user_id', userId)
+        // A NULL role is a plain member (see family_role()), which neq alone would drop
+        .or('role.is.null,role.neq.child');
+    if (error) {
+        console.error(error);
+        return [];
+    }
+    return Array.from(new Set((data || []).map((row: { family_id: string }) => row.family_id)));
+}
+
 serve(async (req) => {
     // Handle CORS preflight requests
     if (req.method === 'OPTIONS') {
@@ -20,114 +224,331 @@ serve(async (req) => {
         const userId = url.searchParams.get('user_id');
         const token = url.searchParams.get('token');
 
-        if (!userId || !token) {
+        if (!token) {
             return new Response("Missing parameters", { status: 400, headers: corsHeaders });
         }
+        if (!UUID_PATTERN.test(token)) {
+            return new Response("Unauthorized", { status: 401, headers: corsHeaders });
+        }
 
         const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+        let scope: FeedScope;
 
-        // 1. Verify token
-        const { data: prefs, error: prefsError } = await supabase
-            .from('user_preferences')
-            .select('calendar_token')
-            .eq('user_id', userId)
-            .eq('calendar_token', token)
-            .single();
+        if (userId) {
+            // 1. Verify the whole-family token
+            const { data: prefs, error: prefsError } = await supabase
+                .from('user_preferences')
+                .select('calendar_token, calendar_token_family_ids')
+                .eq('user_id', userId)
+                .eq('calendar_token', token)
+                .single();
 
-        if (prefsError || !prefs) {
-            return new Response("Unauthorized", { status: 401, headers: corsHeaders });
-        }
+            if (prefsError || !prefs) {
+                return new Response("Unauthorized", { status: 401, headers: corsHeaders });
+            }
 
-        // 2. Fetch user's family ID
-        const { data: contact, error: contactError } = await supabase
-            .from('contacts')
-            .select('family_id')
-            .eq('user_id', userId)
-            .single();
+            // 2. The families it covers: the ones chosen for it, or all of the user's
+            const memberOf = await memberFamilyIds(supabase, userId);
+            const chosen: string[] | null = prefs.calendar_token_family_ids;
+            const familyIds = chosen?.length ? memberOf.filter(id => chosen.includes(id)) : memberOf;
 
-        if (contactError || !contact) {
-            return new Response("Family not found", { status: 404, headers: corsHeaders });
-        }
+            if (familyIds.length === 0) {
+                return new Response("Family not found", { status: 404, headers: corsHeaders });
+            }
+
+            scope = {
+                ownerId: userId,
+                familyIds,
+                name: null,
+                contactIds: null,
+                categoryIds: null,
+                privacy: 'full',
+                includeAlarms: true,
+                driverContactId: null,
+            };
+        } else {
+            // 1-2. Named feed tokens carry their own family and filters
+            const { data: feedToken, error: feedTokenError } = await supabase
+                .from('calendar_feed_tokens')
+                .select('id, user_id, family_id, family_ids, name, contact_ids, category_ids, privacy, driver_contact_id')
+                .eq('token', token)
+                .single();
+
+            if (feedTokenError || !feedToken) {
+                return new Response("Unauthorized", { status: 401, headers: corsHeaders });
+            }
+
+            const memberOf = await memberFamilyIds(supabase, feedToken.user_id);
+            const chosen: string[] = feedToken.family_ids?.length ? feedToken.family_ids : [feedToken.family_id];
+            const familyIds = chosen.filter(id => memberOf.includes(id));
 
-        const familyId = contact.family_id;
+            if (familyIds.length === 0) {
+                return new Response("Family not found", { status: 404, headers: corsHeaders });
+            }
+
+            scope = {
+                ownerId: feedToken.user_id,
+                familyIds,
+                name: feedToken.name,
+                contactIds: feedToken.contact_ids,
+                categoryIds: feedToken.category_ids,
+                privacy: feedToken.privacy,
+                includeAlarms: false,
+                driverContactId: feedToken.driver_contact_id,
+            };
+
+            await supabase
+                .from('calendar_feed_tokens')
+                .update({ last_accessed_at: new Date().toISOString() })
+                .eq('id', feedToken.id);
+        }
 
-        // 3. Fetch events (from 1 month ago to 2 years in the future)
+        // 3. Fetch one-off events from 1 month ago to 2 years in the future, and
+        // every recurring series still running in that window whenever it began
         const startDate = new Date();
         startDate.setMonth(startDate.getMonth() - 1);
         const endDate = new Date();
         endDate.setFullYear(endDate.getFullYear() + 2);
+        const from = startDate.toISOString();
+        const to = endDate.toISOString();
 
-        const { data: events, error: eventsError } = await supabase
+        let query = supabase
             .from('events')
             .select(`
                 id,
+                family_id,
                 title,
                 description,
                 location,
                 start_time,
                 end_time,
                 is_all_day,
+                timezone,
+                updated_at,
+                drop_off_driver_id,
+                collection_driver_id,
+                same_driver,
+                ${RECURRENCE_COLUMNS},
                 category:event_categories(name, color),
                 participants:event_participants(
+                    contact_id,
+                    status,
                     contact:contacts(first_name)
-                )
+                ),
+                exceptions:event_exceptions(
+                    exception_date, is_deleted, title, description, location, start_time, end_time,
+                    drop_off_driver_id, collection_driver_id, updated_at
+                ),
+                reminders:event_reminders(reminder_type, reminder_value)
             `)
-            .eq('family_id', familyId)
-            .gte('start_time', startDate.toISOString())
-            .lte('start_time', endDate.toISOString())
-            .order('start_time', { ascending: true })
-            .limit(2000);
+            .in('family_id', scope.familyIds)
+            .eq('reminders.user_id', scope.ownerId)
+            .or(
+                `and(start_time.gte.${from},start_time.lte.${to}),` +
+                `and(is_recurring.eq.true,start_time.lte.${to},or(recurrence_end_date.is.null,recurrence_end_date.gte.${from}))`
+            );
+        if (scope.categoryIds) {
+            query = query.in('category_id', scope.categoryIds);
+        }
+
+        const [{ data: events, error: eventsError }, { data: families }, { data: ownerPrefs }] = await Promise.all([
+            query.order('start_time', { ascending: true }).limit(2000),
+            supabase.from('families').select('id, name').in('id', scope.familyIds),
+            supabase.from('user_preferences').select('timezone').eq('user_id', scope.ownerId).maybeSingle(),
+        ]);
 
         if (eventsError) {
             console.error(eventsError);
             return new Response("Error fetching events", { status: 500, headers: corsHeaders });
         }
 
+        // Merged feeds name their families, and tag each event with the one it's from
+        const familyNames = new Map<string, string>(
+            ((families || []) as { id: string; name: string }[]).map(family => [family.id, family.name])
+        );
+        const isMerged = scope.familyIds.length > 1;
+        const calendarName = scope.name
+            ? `FamilyCal - ${scope.name}`
+            : familyNames.size > 0
+                ? `FamilyCal - ${scope.familyIds.map(id => familyNames.get(id)).filter(Boolean).join(' & ')}`
+                : 'FamilyCal';
+
         // 4. Generate iCalendar
-        let ical = [
-            "BEGIN:VCALENDAR",
-            "VERSION:2.0",
-            "PRODID:-//FamilyCal//NONSGML v1.0//EN",
-            "CALSCALE:GREGORIAN",
-            "METHOD:PUBLISH",
-            `X-WR-CALNAME:FamilyCal`,
-            "X-WR-TIMEZONE:UTC",
-        ];
-
-        events.forEach(event => {
-            const start = new Date(event.start_time).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-            const end = new Date(event.end_time).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-            const created = new Date().toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-
-            ical.push("BEGIN:VEVENT");
-            ical.push(`UID:${event.id}@familycal.app`);
-            ical.push(`DTSTAMP:${created}`);
-            ical.push(`DTSTART:${start}`);
-            ical.push(`DTEND:${end}`);
+        const calendar: ICalComponent = {
+            type: 'VCALENDAR',
+            properties: [
+                property('VERSION', '2.0'),
+                property('PRODID', '-//FamilyCal//NONSGML v1.0//EN'),
+                property('CALSCALE', 'GREGORIAN'),
+                property('METHOD', 'PUBLISH'),
+                textProperty('X-WR-CALNAME', calendarName),
+                property('X-WR-TIMEZONE', 'UTC'),
+            ],
+            components: [],
+        };
+
+        // Events involving any of the token's members; people who declined aren't on the event.
+        // Events saved without a zone read in the owner's, as the owner's app shows them.
+        const ownerTimeZone = resolveEventTimeZone(ownerPrefs?.timezone, DEFAULT_TIMEZONE);
+        const feedEvents = ((events || []) as unknown as FeedEvent[])
+            .map(event => ({
+                ...event,
+                timezone: resolveEventTimeZone(event.timezone, ownerTimeZone),
+                participants: (event.participants || []).filter(p => p.status !== 'declined'),
+            }))
+            .filter(event =>
+                !scope.contactIds ||
+                event.participants.some(p => scope.contactIds!.includes(p.contact_id))
+            );
+        const showDetails = scope.privacy === 'full';
+        const busyOnly = scope.privacy === 'busy';
+
+        // One VTIMEZONE per zone used by a timed event, from its earliest start
+        const zoneYears = new Map<string, number>();
+        feedEvents.forEach(event => {
+            const timeZone = eventTimeZone(event);
+            if (event.is_all_day || timeZone === 'UTC') return;
+            const year = new Date(event.start_time).getUTCFullYear() - 1;
+            zoneYears.set(timeZone, Math.min(year, zoneYears.get(timeZone) ?? year));
+        });
+        zoneYears.forEach((fromYear, timeZone) => {
+            calendar.components!.push(buildVTimezone(timeZone, fromYear, endDate.getUTCFullYear() + 1));
+        });
+
+        feedEvents.forEach(event => {
+            const clock = zonedWallClock(eventTimeZone(event));
+
+            // A driver gets one event per lift, with where to go but not the family's notes
+            if (scope.driverContactId) {
+                const names = event.participants.map(p => p.contact?.first_name).filter(Boolean).join(', ');
+                occurrencesIn(event, startDate, endDate, clock).forEach(occurrence => {
+                    const label = liftLabel(occurrence, event.same_driver, scope.driverContactId!);
+                    if (!label) return;
+                    const stamp = formatICalDateTime(occurrence.modified);
+                    calendar.components!.push({
+                        type: 'VEVENT',
+                        properties: [
+                            property('UID', `${event.id}-${occurrence.originalStart.getTime()}-lift@familycal.app`),
+                            property('DTSTAMP', stamp),
+                            property('LAST-MODIFIED', stamp),
+                            textProperty('SUMMARY', `${label}: ${occurrence.title}${names ? ` (${names})` : ''}`),
+                            ...(occurrence.location ? [textProperty('LOCATION', occurrence.location)] : []),
+                            eventDateProperty('DTSTART', occurrence.start, event, clock),
+                            endProperty(occurrence.start, occurrence.end, event, clock),
+                        ],
+                        components: [],
+                    });
+                });
+                return;
+            }
+
+            const start = new Date(event.start_time);
+            const end = new Date(event.end_time);
+            const durationMs = end.getTime() - start.getTime();
+            const options = event.is_recurring ? getRuleOptions(event, clock) : null;
+
             // Format title with participants
             const participantNames = event.participants
                 ?.map((p: any) => p.contact?.first_name)
                 .filter(Boolean)
                 .join(', ');
 
-            const summary = participantNames
-                ? `${event.title} (${participantNames})`
-                : event.title;
+            const categories = [
+                ...(isMerged && familyNames.has(event.family_id) ? [familyNames.get(event.family_id)!] : []),
+                ...(event.category ? [event.category.name] : []),
+            ];
+
+            const summarize = (title: string) => {
+                if (busyOnly) return 'Busy';
+                return participantNames ? `${title} (${participantNames})` : title;
+            };
 
-            ical.push(`SUMMARY:${summary}`);
-            if (event.description) ical.push(`DESCRIPTION:${event.description.replace(/\n/g, '\\n')}`);
-            if (event.location) ical.push(`LOCATION:${event.location}`);
-            if (event.category) ical.push(`CATEGORIES:${event.category.name}`);
-            ical.push("END:VEVENT");
+            // Stamped with the row's own modification time, so an unchanged feed
+            // serializes identically and its ETag stays valid
+            const eventProperties = (
+                modified: Date,
+                title: string,
+                description: string | null,
+                location: string | null,
+            ): ICalProperty[] => {
+                const stamp = formatICalDateTime(modified);
+                return [
+                    property('UID', `${event.id}@familycal.app`),
+                    property('DTSTAMP', stamp),
+                    property('LAST-MODIFIED', stamp),
+                    textProperty('SUMMARY', summarize(title)),
+                    ...(busyOnly ? [property('CLASS', 'PRIVATE')] : []),
+                    ...(showDetails && description ? [textProperty('DESCRIPTION', description)] : []),
+                    ...(showDetails && location ? [textProperty('LOCATION', location)] : []),
+                    ...(!busyOnly && categories.length > 0 ? [textListProperty('CATEGORIES', categories)] : []),
+                ];
+            };
+
+            const updatedAt = new Date(event.updated_at);
+            const master: ICalComponent = {
+                type: 'VEVENT',
+                properties: [
+                    ...eventProperties(updatedAt, event.title, event.description, event.location),
+                    eventDateProperty('DTSTART', start, event, clock),
+                    endProperty(start, end, event, clock),
+                ],
+                components: scope.includeAlarms ? alarms(event, summarize(event.title)) : [],
+            };
+            if (options) {
+                master.properties.push(property('RRULE', formatRRule(options, { allDay: event.is_all_day, clock })));
+                (event.exceptions || [])
+                    .filter(ex => ex.is_deleted)
+                    .forEach(ex => master.properties.push(eventDateProperty('EXDATE', new Date(ex.exception_date), event, clock)));
+            }
+            calendar.components!.push(master);
+
+            if (!options) return;
+
+            // Occurrences edited on their own are overrides of the same UID
+            (event.exceptions || [])
+                .filter(ex => !ex.is_deleted)
+                .forEach(ex => {
+                    const originalStart = new Date(ex.exception_date);
+                    const occurrenceStart = ex.start_time ? new Date(ex.start_time) : originalStart;
+                    const occurrenceEnd = ex.end_time
+                        ? new Date(ex.end_time)
+                        : new Date(occurrenceStart.getTime() + durationMs);
+                    const modified = new Date(Math.max(updatedAt.getTime(), new Date(ex.updated_at).getTime()));
+                    const title = ex.title ?? event.title;
+
+                    calendar.components!.push({
+                        type: 'VEVENT',
+                        properties: [
+                            ...eventProperties(
+                                modified,
+                                title,
+                                ex.description ?? event.description,
+                                ex.location ?? event.location,
+                            ),
+                            eventDateProperty('RECURRENCE-ID', originalStart, event, clock),
+                            eventDateProperty('DTSTART', occurrenceStart, event, clock),
+                            endProperty(occurrenceStart, occurrenceEnd, event, clock),
+                        ],
+                        components: scope.includeAlarms ? alarms(event, summarize(title)) : [],
+                    });
+                });
         });
 
-        ical.push("END:VCALENDAR");
+        const body = serializeCalendar(calendar);
+
+        // Subscribed clients poll often; let them skip unchanged feeds
+        const etag = await computeETag(body);
+        if (matchesETag(req.headers.get('If-None-Match'), etag)) {
+            return new Response(null, { status: 304, headers: { ...corsHeaders, ETag: etag } });
+        }
 
-        return new Response(ical.join("\r\n"), {
+        return new Response(body, {
             headers: {
                 ...corsHeaders,
                 "Content-Type": "text/calendar; charset=utf-8",
                 "Content-Disposition": 'attachment; filename="familycal.ics"',
+                "Cache-Control": "no-cache",
+                ETag: etag,
             },
         });
 
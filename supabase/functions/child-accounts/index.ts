@@ -0,0 +1,276 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+
+// Sign-in for children on a shared tablet, with a PIN instead of an email and
+// password. A child's account is an ordinary auth user with a placeholder email
+// that nobody can receive mail at; it only ever signs in through here.
+//
+//   set-pin  { familyId, contactId, pin }  owner/admin: give a child sign-in, or a new PIN (lifts any lockout)
+//   remove   { familyId, contactId }       owner/admin: turn the child back into a contact
+//   sign-in  { contactId, pin }            anyone: returns a token hash for verifyOtp
+
+// Every MAX_ATTEMPTS wrong PINs lock the child out, for LOCKOUT_MINUTES and then
+// four times longer each time; after MAX_LOCKOUTS only a new PIN from a parent
+// lets them back in (see count_child_pin_attempt)
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+const MAX_LOCKOUTS = 3;
+const PBKDF2_ITERATIONS = 100000;
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+}
+
+function jsonError(message: string, status: number): Response {
+    return json({ error: message }, status);
+}
+
+function childEmail(contactId: string): string {
+    return `child-${contactId}@children.familycal.invalid`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+async function derive(pin: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+    const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256);
+    return new Uint8Array(bits);
+}
+
+// Stored as pbkdf2$<iterations>$<salt>$<hash>
+async function hashPin(pin: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const hash = await derive(pin, salt, PBKDF2_ITERATIONS);
+    return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+async function verifyPin(pin: string, stored: string): Promise<boolean> {
+    const [scheme, iterations, salt, expected] = stored.split("$");
+    if (scheme !== "pbkdf2" || !iterations || !salt || !expected) return false;
+
+    const actual = toBase64(await derive(pin, fromBase64(salt), Number(iterations)));
+    // Compare every character so the time taken doesn't give the PIN away
+    let diff = actual.length ^ expected.length;
+    for (let i = 0; i < Math.min(actual.length, expected.length); i++) {
+        diff |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+    }
+    return diff === 0;
+}
+
+// The caller must be an owner or admin of the family the child belongs to
+async function authorizeParent(req: Request, admin: SupabaseClient, familyId: string, contactId: string) {
+    const supabase = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { global: { headers: { Authorization: req.headers.get("Authorization") || "" } } }
+    );
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { error: jsonError("Unauthorized", 401) };
+
+    const { data: memberships } = await admin
+        .from("family_members")
+        .select("role, contact:contacts!inner(user_id)")
+        .eq("family_id", familyId)
+        .eq("contact.user_id", user.id);
+    const isAdmin = (memberships || []).some((m: { role: string | null }) => m.role === "owner" || m.role === "admin");
+    if (!isAdmin) return { error: jsonError("Only family owners and admins can manage child sign-in", 403) };
+
+    const { data: contact } = await admin
+        .from("contacts")
+        .select("id, family_id, first_name, last_name, user_id, is_virtual")
+        .eq("id", contactId)
+        .eq("family_id", familyId)
+        .single();
+    if (!contact) return { error: jsonError("Child not found in this family", 404) };
+
+    return { user, contact };
+}
+
+async function setPin(req: Request, admin: SupabaseClient, familyId: string, contactId: string, pin: string) {
+    if (!/^\d{4,6}$/.test(pin || "")) {
+        return jsonError("The PIN must be 4 to 6 digits", 400);
+    }
+
+    const auth = await authorizeParent(req, admin, familyId, contactId);
+    if (auth.error) return auth.error;
+    const { user, contact } = auth;
+
+    const { data: existing } = await admin
+        .from("child_accounts")
+        .select("user_id")
+        .eq("contact_id", contactId)
+        .maybeSingle();
+
+    // A contact that already signs in as an adult can't become a child account
+    if (!existing && contact.user_id) {
+        return jsonError("This person already has their own sign-in", 409);
+    }
+
+    let childUserId = existing?.user_id as string | undefined;
+    if (!childUserId) {
+        const { data: created, error: createError } = await admin.auth.admin.createUser({
+            email: childEmail(contactId),
+            email_confirm: true,
+            user_metadata: { first_name: contact.first_name, last_name: contact.last_name || "", is_child: true },
+        });
+        if (createError || !created.user) throw createError || new Error("Failed to create child account");
+        childUserId = created.user.id;
+
+        const { error: contactError } = await admin
+            .from("contacts")
+            .update({ user_id: childUserId, is_virtual: false })
+            .eq("id", contactId);
+        if (contactError) throw contactError;
+    }
+
+    const { data: membership } = await admin
+        .from("family_members")
+        .select("id")
+        .eq("family_id", familyId)
+        .eq("contact_id", contactId)
+        .maybeSingle();
+    const { error: memberError } = membership
+        ? await admin.from("family_members").update({ role: "child" }).eq("id", membership.id)
+        : await admin.from("family_members").insert({ family_id: familyId, contact_id: contactId, role: "child", added_by: user.id });
+    if (memberError) throw memberError;
+
+    const { error: accountError } = await admin.from("child_accounts").upsert({
+        contact_id: contactId,
+        family_id: familyId,
+        user_id: childUserId,
+        pin_hash: await hashPin(pin),
+        failed_attempts: 0,
+        locked_until: null,
+        created_by: user.id,
+        updated_at: new Date().toISOString(),
+    });
+    if (accountError) throw accountError;
+
+    return json({ success: true });
+}
+
+async function removeChild(req: Request, admin: SupabaseClient, familyId: string, contactId: string) {
+    const auth = await authorizeParent(req, admin, familyId, contactId);
+    if (auth.error) return auth.error;
+
+    const { data: account } = await admin
+        .from("child_accounts")
+        .select("user_id")
+        .eq("contact_id", contactId)
+        .maybeSingle();
+    if (!account) return jsonError("This child doesn't have sign-in set up", 404);
+
+    // Keep the contact (and its events and routines); only the sign-in goes
+    const { error: contactError } = await admin
+        .from("contacts")
+        .update({ user_id: null, is_virtual: true })
+        .eq("id", contactId);
+    if (contactError) throw contactError;
+
+    await admin
+        .from("family_members")
+        .update({ role: "member" })
+        .eq("family_id", familyId)
+        .eq("contact_id", contactId);
+
+    const { error: deleteError } = await admin.auth.admin.deleteUser(account.user_id);
+    if (deleteError) throw deleteError;
+
+    await admin.from("child_accounts").delete().eq("contact_id", contactId);
+    return json({ success: true });
+}
+
+async function signIn(admin: SupabaseClient, contactId: string, pin: string) {
+    const { data: account } = await admin
+        .from("child_accounts")
+        .select("contact_id, user_id, pin_hash, locked_until")
+        .eq("contact_id", contactId)
+        .maybeSingle();
+    if (!account) return jsonError("Wrong PIN", 401);
+
+    // The attempt is counted (and the account locked after too many) before the PIN is
+    // checked, so parallel guesses can't get past MAX_ATTEMPTS
+    const { data: allowed, error: attemptError } = await admin.rpc("count_child_pin_attempt", {
+        p_contact_id: contactId,
+        p_max_attempts: MAX_ATTEMPTS,
+        p_lockout: `${LOCKOUT_MINUTES} minutes`,
+        p_max_lockouts: MAX_LOCKOUTS,
+    });
+    if (attemptError) throw attemptError;
+    if (!allowed) {
+        return account.locked_until === "infinity"
+            ? jsonError("Too many wrong tries. Ask a grown-up to set a new PIN.", 423)
+            : jsonError("Too many wrong tries. Ask a grown-up, or try again later.", 429);
+    }
+
+    if (!(await verifyPin(pin || "", account.pin_hash))) {
+        return jsonError("Wrong PIN", 401);
+    }
+
+    await admin
+        .from("child_accounts")
+        .update({ failed_attempts: 0, locked_until: null, last_sign_in_at: new Date().toISOString() })
+        .eq("contact_id", contactId);
+
+    // A one-time magic link token the app exchanges for a session; no email is sent
+    const { data: link, error: linkError } = await admin.auth.admin.generateLink({
+        type: "magiclink",
+        email: childEmail(contactId),
+    });
+    if (linkError || !link?.properties?.hashed_token) throw linkError || new Error("Failed to sign in");
+
+    return json({ tokenHash: link.properties.hashed_token });
+}
+
+serve(async (req) => {
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    let body: { action?: string; familyId?: string; contactId?: string; pin?: string };
+    try {
+        body = await req.json();
+    } catch {
+        return jsonError("Expected a JSON body", 400);
+    }
+
+    const { action, familyId, contactId, pin } = body;
+    if (!contactId) {
+        return jsonError("Missing contactId", 400);
+    }
+
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    try {
+        switch (action) {
+            case "sign-in":
+                return await signIn(admin, contactId, pin || "");
+            case "set-pin":
+                if (!familyId) return jsonError("Missing familyId", 400);
+                return await setPin(req, admin, familyId, contactId, pin || "");
+            case "remove":
+                if (!familyId) return jsonError("Missing familyId", 400);
+                return await removeChild(req, admin, familyId, contactId);
+            default:
+                return jsonError("Unknown action", 400);
+        }
+    } catch (error: any) {
+        console.error("child-accounts error:", error);
+        return jsonError(error.message || "Something went wrong", 500);
+    }
+});
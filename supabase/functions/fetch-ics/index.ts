@@ -0,0 +1,261 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+
+// Fetches an external ICS feed for a signed-in user. Browsers can't read most feeds
+// directly (no CORS headers), so subscribed calendars are always fetched through here.
+
+const MAX_BYTES = 5 * 1024 * 1024;
+const TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 3;
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonError(message: string, status: number): Response {
+    return new Response(JSON.stringify({ error: message }), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+}
+
+// Names that only mean something inside the function's own network
+function isInternalName(host: string): boolean {
+    return host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") ||
+        host.endsWith(".internal");
+}
+
+/**
+ * Parse an IPv4 address the way inet_aton does, so the decimal ("2130706433"),
+ * octal ("0177.0.0.1"), hex and short ("127.1") forms all come out as four bytes
+ */
+function parseIPv4(host: string): number[] | null {
+    const parts = host.split(".");
+    if (parts.length < 1 || parts.length > 4) return null;
+
+    const values: number[] = [];
+    for (const part of parts) {
+        let value: number;
+        if (/^0x[0-9a-f]*$/i.test(part)) value = parseInt(part.slice(2) || "0", 16);
+        else if (/^0[0-7]+$/.test(part)) value = parseInt(part, 8);
+        else if (/^(0|[1-9]\d*)$/.test(part)) value = parseInt(part, 10);
+        else return null;
+        values.push(value);
+    }
+
+    // The last part fills all the bytes the others leave
+    const last = values.pop()!;
+    if (values.some((v) => v > 255) || last >= 256 ** (4 - values.length)) return null;
+    const bytes = [...values];
+    for (let i = 3 - values.length; i >= 0; i--) {
+        bytes.push(Math.floor(last / 256 ** i) % 256);
+    }
+    return bytes;
+}
+
+// An IPv6 address as eight 16-bit groups, with any embedded dotted IPv4 tail converted
+function parseIPv6(host: string): number[] | null {
+    if (!host.includes(":")) return null;
+
+    let address = host.split("%")[0];
+    const tail = /:(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+    if (tail) {
+        const ipv4 = parseIPv4(tail[1]);
+        if (!ipv4) return null;
+        address = `${address.slice(0, tail.index)}:${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${
+            ((ipv4[2] << 8) | ipv4[3]).toString(16)
+        }`;
+    }
+
+    const halves = address.split("::");
+    if (halves.length > 2) return null;
+    const head = halves[0] ? halves[0].split(":") : [];
+    const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+    const missing = 8 - head.length - rest.length;
+    if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+    const groups = [...head, ...Array(missing).fill("0"), ...rest].map((g) =>
+        /^[0-9a-f]{1,4}$/i.test(g) ? parseInt(g, 16) : NaN
+    );
+    return groups.some(isNaN) ? null : groups;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+    return a === 0 || a === 10 || a === 127 ||
+        (a === 169 && b === 254) ||
+        (a === 172 && b >= 16 && b <= 31) ||
+        (a === 192 && b === 168) ||
+        (a === 100 && b >= 64 && b <= 127) ||
+        a >= 224;
+}
+
+/**
+ * Whether an IP address (either family, in any of its spellings) is one a caller
+ * could use to reach the function's own network. Anything that doesn't parse is
+ * treated as private.
+ */
+function isPrivateAddress(address: string): boolean {
+    const ipv4 = parseIPv4(address);
+    if (ipv4) return isPrivateIPv4(ipv4);
+
+    const ipv6 = parseIPv6(address);
+    if (!ipv6) return true;
+
+    // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+    // addresses reach the IPv4 address they carry
+    const embedsIPv4 = (ipv6.slice(0, 5).every((g) => g === 0) && (ipv6[5] === 0xffff || ipv6[5] === 0)) ||
+        (ipv6[0] === 0x64 && ipv6[1] === 0xff9b && ipv6.slice(2, 6).every((g) => g === 0));
+    if (embedsIPv4) {
+        return isPrivateIPv4([ipv6[6] >> 8, ipv6[6] & 0xff, ipv6[7] >> 8, ipv6[7] & 0xff]);
+    }
+
+    // Unique-local, link-local and multicast
+    return (ipv6[0] & 0xfe00) === 0xfc00 || (ipv6[0] & 0xffc0) === 0xfe80 || (ipv6[0] & 0xff00) === 0xff00;
+}
+
+/**
+ * Check a feed host before connecting to it: IP literals directly, names by
+ * every address they resolve to, so a public name pointing at 127.0.0.1 or the
+ * metadata service is refused too
+ */
+async function assertPublicHost(hostname: string): Promise<void> {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+    if (isInternalName(host)) {
+        throw new Error("That address isn't reachable from here");
+    }
+
+    if (parseIPv4(host) || parseIPv6(host)) {
+        if (isPrivateAddress(host)) throw new Error("That address isn't reachable from here");
+        return;
+    }
+
+    const lookups = await Promise.allSettled([Deno.resolveDns(host, "A"), Deno.resolveDns(host, "AAAA")]);
+    const addresses = lookups.flatMap((lookup) => lookup.status === "fulfilled" ? lookup.value : []);
+    if (addresses.length === 0) {
+        throw new Error("Couldn't find the calendar server");
+    }
+    if (addresses.some(isPrivateAddress)) {
+        throw new Error("That address isn't reachable from here");
+    }
+}
+
+/**
+ * Parse a subscription URL. webcal:// is the usual scheme for calendar links and
+ * means https.
+ */
+function parseFeedUrl(raw: string): URL | null {
+    try {
+        const url = new URL(raw.trim().replace(/^webcals?:\/\//i, "https://"));
+        if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+        return url;
+    } catch {
+        return null;
+    }
+}
+
+async function fetchFeed(url: URL, signal: AbortSignal): Promise<Response> {
+    let current = url;
+    for (let i = 0; i <= MAX_REDIRECTS; i++) {
+        // Each hop is checked, so a public URL can't redirect to a private one
+        await assertPublicHost(current.hostname);
+        const response = await fetch(current, {
+            redirect: "manual",
+            signal,
+            headers: { Accept: "text/calendar, text/plain;q=0.9, */*;q=0.1" },
+        });
+        const location = response.headers.get("location");
+        if (response.status < 300 || response.status >= 400 || !location) {
+            return response;
+        }
+
+        const next = parseFeedUrl(new URL(location, current).toString());
+        if (!next) throw new Error("Redirected to an unsupported address");
+        current = next;
+    }
+    throw new Error("Too many redirects");
+}
+
+async function readLimited(response: Response): Promise<string> {
+    if (!response.body) return "";
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > MAX_BYTES) {
+            await reader.cancel();
+            throw new Error("Calendar is too large");
+        }
+        chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return new TextDecoder().decode(bytes);
+}
+
+serve(async (req) => {
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    const supabase = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { global: { headers: { Authorization: req.headers.get("Authorization") || "" } } }
+    );
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return jsonError("Unauthorized", 401);
+    }
+
+    let rawUrl: string | undefined;
+    try {
+        ({ url: rawUrl } = await req.json());
+    } catch {
+        return jsonError("Expected a JSON body with a url", 400);
+    }
+
+    const url = rawUrl ? parseFeedUrl(rawUrl) : null;
+    if (!url) {
+        return jsonError("Enter an http, https or webcal address", 400);
+    }
+
+    // One deadline covers the redirects and reading the body, so a server that
+    // trickles bytes can't hold the function open
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+    try {
+        const response = await fetchFeed(url, controller.signal);
+        if (!response.ok) {
+            return jsonError(`The calendar server responded with ${response.status}`, 502);
+        }
+
+        const body = await readLimited(response);
+        if (!body.includes("BEGIN:VCALENDAR")) {
+            return jsonError("The address didn't return a calendar", 502);
+        }
+
+        return new Response(body, {
+            headers: { ...corsHeaders, "Content-Type": "text/calendar; charset=utf-8" },
+        });
+    } catch (error) {
+        console.error(`Error fetching ${url.hostname}:`, error);
+        const message = error instanceof Error && error.name !== "AbortError"
+            ? error.message
+            : "The calendar server didn't respond";
+        return jsonError(message, 502);
+    } finally {
+        clearTimeout(timeout);
+    }
+});
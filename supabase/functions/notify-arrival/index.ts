@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { createPushTransport, PushMessage } from "../send-reminders/transports.ts";
+
+// Pushes a new arrival_events row ("Emma arrived at School") to everyone else in
+// the family. Called by the insert trigger in
+// migrations/20261019_add_arrival_alerts.sql with { record: <row> }.
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+interface ArrivalRecord {
+    id: string;
+    family_id: string;
+    contact_id: string;
+    event_id: string | null;
+    event_title: string;
+    location_name: string | null;
+    kind: "arrived" | "left";
+    occurred_at: string;
+}
+
+function describeArrival(name: string, arrival: ArrivalRecord): string {
+    const place = arrival.location_name || arrival.event_title;
+    return arrival.kind === "arrived" ? `${name} arrived at ${place}` : `${name} left ${place}`;
+}
+
+serve(async (req) => {
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the database trigger (holding the service role key) may send these
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+        return new Response("Unauthorized", { status: 401, headers: corsHeaders });
+    }
+
+    try {
+        const { record } = (await req.json()) as { record: ArrivalRecord };
+        if (!record?.family_id || !record?.contact_id) {
+            return new Response(JSON.stringify({ error: "Missing record" }), {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+                status: 400,
+            });
+        }
+
+        const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+        const { data: contact } = await supabase
+            .from("contacts")
+            .select("first_name, user_id")
+            .eq("id", record.contact_id)
+            .single();
+        if (!contact) {
+            return new Response(JSON.stringify({ success: true, sent: 0 }), {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+                status: 200,
+            });
+        }
+
+        // Everyone in the family with an account, apart from whoever moved
+        const { data: members } = await supabase
+            .from("family_members")
+            .select("contact:contacts!inner(user_id)")
+            .eq("family_id", record.family_id);
+        const userIds = (members || [])
+            .map((member: any) => member.contact?.user_id as string | null)
+            .filter((userId: string | null): userId is string => !!userId && userId !== contact.user_id);
+
+        if (userIds.length === 0) {
+            return new Response(JSON.stringify({ success: true, sent: 0 }), {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+                status: 200,
+            });
+        }
+
+        const { data: devices } = await supabase
+            .from("push_tokens")
+            .select("token")
+            .in("user_id", userIds);
+
+        const pushTransport = createPushTransport();
+        const messages: PushMessage[] = (devices || []).map((device: { token: string }) => ({
+            to: device.token,
+            title: describeArrival(contact.first_name, record),
+            body: record.event_title,
+            data: { eventId: record.event_id, arrivalId: record.id },
+        }));
+        const results = messages.length > 0 ? await pushTransport.send(messages) : [];
+
+        // Forget devices that have uninstalled the app
+        const invalid = results.filter((r) => r.invalidToken).map((r) => r.token);
+        if (invalid.length > 0) {
+            await supabase.from("push_tokens").delete().in("token", invalid);
+        }
+
+        const sent = results.filter((r) => r.ok).length;
+        console.log("notify-arrival finished:", { arrival: record.id, sent, push: pushTransport.name });
+
+        return new Response(JSON.stringify({ success: true, sent }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+        });
+    } catch (error: any) {
+        console.error("Error notifying arrival:", error);
+        return new Response(JSON.stringify({ error: error.message }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 500,
+        });
+    }
+});
@@ -7,6 +7,8 @@ const corsHeaders = {
         "authorization, x-client-info, apikey, content-type",
 };
 
+// Posted by on_invitation_created() when an invitation is created, and again when
+// it's resent with a new token (migrations/20261019_add_invitation_lifecycle.sql)
 interface InvitationPayload {
     type: "INSERT";
     table: string;
@@ -66,10 +68,25 @@ serve(async (req) => {
         );
 
         if (inviteError) {
-            throw inviteError;
+            // The invite email only goes to new users. Anyone who already has an
+            // account (including everyone being sent an invitation again) gets a
+            // magic link that signs them in and lands on the invitation instead.
+            if (inviteError.status !== 422 && !/already.*registered/i.test(inviteError.message)) {
+                throw inviteError;
+            }
+
+            console.log(`${record.email} already has an account, sending a magic link instead`);
+            const { error: otpError } = await supabase.auth.signInWithOtp({
+                email: record.email,
+                options: { emailRedirectTo: inviteLink, shouldCreateUser: false },
+            });
+
+            if (otpError) {
+                throw otpError;
+            }
         }
 
-        console.log(`Successfully triggered built-in invitation for ${record.email}`);
+        console.log(`Successfully sent invitation email to ${record.email}`);
 
         return new Response(JSON.stringify({ success: true }), {
             headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,467 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { expandRRule, resolveEventTimeZone, zonedWallClock } from "../_shared/rrule.ts";
+import { getRuleOptions, RECURRENCE_COLUMNS, RecurrenceColumns } from "../_shared/recurrence.ts";
+import { createEmailTransport, createPushTransport, PushMessage } from "./transports.ts";
+
+// Sends due event_reminders. Meant to run every minute (see
+// migrations/20261019_add_reminder_delivery.sql for the pg_cron schedule).
+//
+// A reminder is due when (occurrence start - lead time) has passed within the
+// last LOOKBACK_MS, so a skipped run is caught up by the next one. Each
+// (reminder, occurrence, channel) is claimed in reminder_deliveries before it is
+// sent, which makes overlapping or repeated runs safe. Devices that already
+// scheduled the reminder as a local notification are not pushed to.
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+const LOOKBACK_MS = 15 * 60 * 1000;
+const MAX_LEAD_MS = 8 * 7 * 24 * 60 * 60 * 1000; // One-off reminders set further ahead than this are not picked up
+const PAGE_SIZE = 1000; // PostgREST's default row cap
+const UNIT_MS: Record<string, number> = {
+    minutes: 60 * 1000,
+    hours: 60 * 60 * 1000,
+    days: 24 * 60 * 60 * 1000,
+    weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+// For rows saved without a zone, when the recipient's app hasn't recorded one either
+const DEFAULT_TIMEZONE = Deno.env.get("REMINDERS_DEFAULT_TIMEZONE") || "UTC";
+
+const EVENT_COLUMNS = `
+    id,
+    title,
+    location,
+    start_time,
+    end_time,
+    is_all_day,
+    timezone,
+    ${RECURRENCE_COLUMNS},
+    updated_at,
+    exceptions:event_exceptions(exception_date, is_deleted, title, location, start_time, updated_at)
+`;
+
+interface ReminderEvent extends RecurrenceColumns {
+    id: string;
+    title: string;
+    location: string | null;
+    start_time: string;
+    end_time: string;
+    is_all_day: boolean;
+    timezone: string | null;
+    updated_at: string;
+    exceptions: {
+        exception_date: string;
+        is_deleted: boolean;
+        title: string | null;
+        location: string | null;
+        start_time: string | null;
+        updated_at: string;
+    }[];
+}
+
+interface ReminderRow {
+    id: string;
+    user_id: string;
+    reminder_type: string;
+    reminder_value: number;
+    notification_method: "push" | "email" | "both";
+    created_at: string;
+    event: ReminderEvent;
+}
+
+interface PushTokenRow {
+    token: string;
+    local_reminders_synced_at: string | null;
+    local_reminders_until: string | null;
+}
+
+interface Occurrence {
+    originalStart: Date; // Idempotency key; matches event_exceptions.exception_date
+    start: Date;
+    title: string;
+    location: string | null;
+}
+
+// Candidates have their zone resolved as they're loaded (see withRecipientTimeZones)
+function eventTimeZone(event: ReminderEvent): string {
+    return event.timezone || DEFAULT_TIMEZONE;
+}
+
+// Occurrences of an event starting in [from, to), with exceptions applied
+function occurrencesStartingIn(event: ReminderEvent, from: Date, to: Date): Occurrence[] {
+    const inWindow = (date: Date) => date >= from && date < to;
+
+    if (!event.is_recurring) {
+        const start = new Date(event.start_time);
+        return inWindow(start)
+            ? [{ originalStart: start, start, title: event.title, location: event.location }]
+            : [];
+    }
+
+    const options = getRuleOptions(event, zonedWallClock(eventTimeZone(event)));
+    if (!options) return [];
+
+    const exceptions = new Map(
+        (event.exceptions || []).map((ex) => [new Date(ex.exception_date).getTime(), ex]),
+    );
+    const occurrences: Occurrence[] = [];
+
+    const starts = expandRRule(
+        options,
+        new Date(event.start_time),
+        from,
+        to,
+        100,
+        zonedWallClock(eventTimeZone(event)),
+    );
+    for (const start of starts) {
+        const exception = exceptions.get(start.getTime());
+        // Cancelled, or moved (a moved occurrence is picked up at its new time below)
+        if (exception && (exception.is_deleted || exception.start_time)) continue;
+        occurrences.push({
+            originalStart: start,
+            start,
+            title: exception?.title ?? event.title,
+            location: exception?.location ?? event.location,
+        });
+    }
+
+    for (const exception of event.exceptions || []) {
+        if (exception.is_deleted || !exception.start_time) continue;
+        const start = new Date(exception.start_time);
+        const originalStart = new Date(exception.exception_date);
+        if (!inWindow(start)) continue;
+        if (originalStart < new Date(event.start_time)) continue;
+        if (options.until && originalStart > options.until) continue;
+        occurrences.push({
+            originalStart,
+            start,
+            title: exception.title ?? event.title,
+            location: exception.location ?? event.location,
+        });
+    }
+
+    return occurrences;
+}
+
+// Last change to a reminder or its event that a device's local copy must have seen
+function lastChanged(reminder: ReminderRow): number {
+    return Math.max(
+        new Date(reminder.created_at).getTime(),
+        new Date(reminder.event.updated_at).getTime(),
+        ...(reminder.event.exceptions || []).map((ex) => new Date(ex.updated_at).getTime()),
+    );
+}
+
+// Whether a device scheduled this reminder locally (see services/localReminderService.ts)
+// after the last change, so pushing it as well would notify twice
+function heldLocally(device: PushTokenRow, dueAt: Date, changedAt: number): boolean {
+    if (!device.local_reminders_synced_at || !device.local_reminders_until) return false;
+    return (
+        new Date(device.local_reminders_until).getTime() >= dueAt.getTime() &&
+        new Date(device.local_reminders_synced_at).getTime() >= changedAt
+    );
+}
+
+function describeOccurrence(event: ReminderEvent, occurrence: Occurrence): string {
+    if (event.is_all_day) {
+        return occurrence.start.toLocaleDateString("en-GB", {
+            weekday: "long",
+            day: "numeric",
+            month: "long",
+            timeZone: eventTimeZone(event),
+        });
+    }
+    const time = occurrence.start.toLocaleTimeString("en-GB", {
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+        timeZone: eventTimeZone(event),
+    });
+    return occurrence.location ? `${time} at ${occurrence.location}` : `Starts at ${time}`;
+}
+
+// Claim a delivery; returns null if another run already has it
+async function claimDelivery(
+    supabase: SupabaseClient,
+    reminderId: string,
+    occurrence: Occurrence,
+    channel: "push" | "email",
+): Promise<string | null> {
+    const { data, error } = await supabase
+        .from("reminder_deliveries")
+        .upsert(
+            {
+                reminder_id: reminderId,
+                occurrence_start: occurrence.originalStart.toISOString(),
+                channel,
+                status: "pending",
+            },
+            { onConflict: "reminder_id,occurrence_start,channel", ignoreDuplicates: true },
+        )
+        .select("id");
+
+    if (error) {
+        console.error("Failed to claim delivery:", error);
+        return null;
+    }
+    return data && data.length > 0 ? data[0].id : null;
+}
+
+async function finishDelivery(
+    supabase: SupabaseClient,
+    deliveryId: string,
+    status: "sent" | "failed" | "skipped",
+    error?: string,
+) {
+    await supabase
+        .from("reminder_deliveries")
+        .update({
+            status,
+            error: error || null,
+            sent_at: status === "sent" ? new Date().toISOString() : null,
+        })
+        .eq("id", deliveryId);
+}
+
+// Every row of a query, a page at a time in id order, so none are silently cut off
+async function fetchAllPages<T>(
+    fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
+}
+
+async function fetchDueCandidates(supabase: SupabaseClient, now: Date): Promise<ReminderRow[]> {
+    const select = `id, user_id, reminder_type, reminder_value, notification_method, created_at, event:events!inner(${EVENT_COLUMNS})`;
+
+    const [oneOff, recurring] = await Promise.all([
+        fetchAllPages((from, to) =>
+            supabase
+                .from("event_reminders")
+                .select(select)
+                .eq("is_sent", false)
+                .eq("event.is_recurring", false)
+                .gte("event.start_time", new Date(now.getTime() - LOOKBACK_MS).toISOString())
+                .lte("event.start_time", new Date(now.getTime() + MAX_LEAD_MS).toISOString())
+                .order("id")
+                .range(from, to)
+        ),
+        fetchAllPages((from, to) =>
+            supabase
+                .from("event_reminders")
+                .select(select)
+                .eq("event.is_recurring", true)
+                .or(`recurrence_end_date.is.null,recurrence_end_date.gte.${new Date(now.getTime() - LOOKBACK_MS).toISOString()}`, {
+                    foreignTable: "event",
+                })
+                .order("id")
+                .range(from, to)
+        ),
+    ]);
+
+    return [...oneOff, ...recurring] as unknown as ReminderRow[];
+}
+
+// Events saved without a zone read in the recipient's, as the recipient's app shows them
+async function withRecipientTimeZones(supabase: SupabaseClient, reminders: ReminderRow[]): Promise<ReminderRow[]> {
+    const userIds = [...new Set(reminders.map((reminder) => reminder.user_id))];
+    if (userIds.length === 0) return reminders;
+
+    const { data, error } = await supabase
+        .from("user_preferences")
+        .select("user_id, timezone")
+        .in("user_id", userIds);
+    if (error) throw error;
+
+    const userZones = new Map(
+        ((data || []) as { user_id: string; timezone: string | null }[]).map((prefs) => [
+            prefs.user_id,
+            resolveEventTimeZone(prefs.timezone, DEFAULT_TIMEZONE),
+        ]),
+    );
+    return reminders.map((reminder) => ({
+        ...reminder,
+        event: {
+            ...reminder.event,
+            timezone: resolveEventTimeZone(
+                reminder.event.timezone,
+                userZones.get(reminder.user_id) ?? DEFAULT_TIMEZONE,
+            ),
+        },
+    }));
+}
+
+serve(async (req) => {
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler (holding the service role key) may trigger deliveries
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+        return new Response("Unauthorized", { status: 401, headers: corsHeaders });
+    }
+
+    try {
+        const supabase = createClient(supabaseUrl, supabaseServiceKey);
+        const pushTransport = createPushTransport();
+        const emailTransport = createEmailTransport();
+        const now = new Date();
+
+        const reminders = await withRecipientTimeZones(supabase, await fetchDueCandidates(supabase, now));
+        const stats = { checked: reminders.length, sent: 0, failed: 0, skipped: 0 };
+
+        const pushTokenCache = new Map<string, PushTokenRow[]>();
+        const emailCache = new Map<string, string | null>();
+
+        const getPushTokens = async (userId: string) => {
+            if (!pushTokenCache.has(userId)) {
+                const { data } = await supabase
+                    .from("push_tokens")
+                    .select("token, local_reminders_synced_at, local_reminders_until")
+                    .eq("user_id", userId);
+                pushTokenCache.set(userId, (data || []) as PushTokenRow[]);
+            }
+            return pushTokenCache.get(userId)!;
+        };
+
+        const getEmail = async (userId: string) => {
+            if (!emailCache.has(userId)) {
+                const { data } = await supabase.auth.admin.getUserById(userId);
+                emailCache.set(userId, data?.user?.email ?? null);
+            }
+            return emailCache.get(userId)!;
+        };
+
+        for (const reminder of reminders) {
+            const leadMs = reminder.reminder_value * (UNIT_MS[reminder.reminder_type] || 0);
+            // Due now: start - lead falls within (now - LOOKBACK_MS, now]
+            const from = new Date(now.getTime() - LOOKBACK_MS + leadMs);
+            const to = new Date(now.getTime() + leadMs + 1);
+            const occurrences = occurrencesStartingIn(reminder.event, from, to);
+            if (occurrences.length === 0) continue;
+
+            const channels: ("push" | "email")[] =
+                reminder.notification_method === "both" ? ["push", "email"] : [reminder.notification_method];
+
+            for (const occurrence of occurrences) {
+                const body = describeOccurrence(reminder.event, occurrence);
+                const dueAt = new Date(occurrence.start.getTime() - leadMs);
+
+                for (const channel of channels) {
+                    const deliveryId = await claimDelivery(supabase, reminder.id, occurrence, channel);
+                    if (!deliveryId) continue;
+
+                    try {
+                        if (channel === "push") {
+                            const devices = await getPushTokens(reminder.user_id);
+                            if (devices.length === 0) {
+                                await finishDelivery(supabase, deliveryId, "skipped", "No registered devices");
+                                stats.skipped++;
+                                continue;
+                            }
+
+                            const changedAt = lastChanged(reminder);
+                            const tokens = devices
+                                .filter((device) => !heldLocally(device, dueAt, changedAt))
+                                .map((device) => device.token);
+                            if (tokens.length === 0) {
+                                await finishDelivery(supabase, deliveryId, "skipped", "Scheduled on device");
+                                stats.skipped++;
+                                continue;
+                            }
+
+                            const messages: PushMessage[] = tokens.map((token) => ({
+                                to: token,
+                                title: occurrence.title,
+                                body,
+                                data: {
+                                    eventId: reminder.event.id,
+                                    occurrence: occurrence.start.toISOString(),
+                                },
+                            }));
+                            const results = await pushTransport.send(messages);
+
+                            // Forget devices that have uninstalled the app
+                            const invalid = results.filter((r) => r.invalidToken).map((r) => r.token);
+                            if (invalid.length > 0) {
+                                await supabase.from("push_tokens").delete().in("token", invalid);
+                                pushTokenCache.set(
+                                    reminder.user_id,
+                                    devices.filter((device) => !invalid.includes(device.token)),
+                                );
+                            }
+
+                            const delivered = results.some((r) => r.ok);
+                            await finishDelivery(
+                                supabase,
+                                deliveryId,
+                                delivered ? "sent" : "failed",
+                                delivered ? undefined : results.map((r) => r.error).join("; "),
+                            );
+                            if (delivered) stats.sent++;
+                            else stats.failed++;
+                        } else {
+                            const email = await getEmail(reminder.user_id);
+                            if (!email) {
+                                await finishDelivery(supabase, deliveryId, "skipped", "No email address");
+                                stats.skipped++;
+                                continue;
+                            }
+
+                            await emailTransport.send({
+                                to: email,
+                                subject: `Reminder: ${occurrence.title}`,
+                                text: `${occurrence.title}\n${body}`,
+                            });
+                            await finishDelivery(supabase, deliveryId, "sent");
+                            stats.sent++;
+                        }
+                    } catch (error: any) {
+                        console.error(`Failed to deliver reminder ${reminder.id} via ${channel}:`, error);
+                        await finishDelivery(supabase, deliveryId, "failed", error?.message || String(error));
+                        stats.failed++;
+                    }
+                }
+            }
+
+            // One-off reminders are done; recurring ones stay open for later occurrences
+            await supabase
+                .from("event_reminders")
+                .update({
+                    sent_at: now.toISOString(),
+                    ...(reminder.event.is_recurring ? {} : { is_sent: true }),
+                })
+                .eq("id", reminder.id);
+        }
+
+        console.log("send-reminders finished:", stats, {
+            push: pushTransport.name,
+            email: emailTransport.name,
+        });
+
+        return new Response(JSON.stringify({ success: true, ...stats }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+        });
+    } catch (error: any) {
+        console.error("Error sending reminders:", error);
+        return new Response(JSON.stringify({ error: error.message }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 500,
+        });
+    }
+});
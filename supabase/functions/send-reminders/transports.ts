@@ -0,0 +1,152 @@
+// Delivery transports for send-reminders. Pick them with environment variables:
+//   REMINDER_PUSH_TRANSPORT  = expo (default) | log
+//   REMINDER_EMAIL_TRANSPORT = resend (default when RESEND_API_KEY is set) | log
+// To add a provider, implement PushTransport/EmailTransport and add a case below.
+
+export interface PushMessage {
+    to: string; // Expo push token
+    title: string;
+    body: string;
+    data?: Record<string, unknown>;
+}
+
+export interface PushResult {
+    token: string;
+    ok: boolean;
+    error?: string;
+    invalidToken?: boolean; // The device is gone; the token should be removed
+}
+
+export interface PushTransport {
+    name: string;
+    send(messages: PushMessage[]): Promise<PushResult[]>;
+}
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface EmailTransport {
+    name: string;
+    send(message: EmailMessage): Promise<void>;
+}
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+const EXPO_BATCH_SIZE = 100; // Expo accepts at most 100 messages per request
+
+function createExpoPushTransport(): PushTransport {
+    const accessToken = Deno.env.get("EXPO_ACCESS_TOKEN");
+
+    return {
+        name: "expo",
+        async send(messages) {
+            const results: PushResult[] = [];
+
+            for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+                const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+                const response = await fetch(EXPO_PUSH_URL, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        Accept: "application/json",
+                        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+                    },
+                    body: JSON.stringify(batch.map((m) => ({ ...m, sound: "default", channelId: "reminders" }))),
+                });
+
+                if (!response.ok) {
+                    const error = `Expo push request failed: ${response.status}`;
+                    batch.forEach((m) => results.push({ token: m.to, ok: false, error }));
+                    continue;
+                }
+
+                // Tickets come back in the same order as the messages
+                const { data: tickets } = await response.json();
+                batch.forEach((m, index) => {
+                    const ticket = tickets?.[index];
+                    if (ticket?.status === "ok") {
+                        results.push({ token: m.to, ok: true });
+                    } else {
+                        results.push({
+                            token: m.to,
+                            ok: false,
+                            error: ticket?.message || "Unknown push error",
+                            invalidToken: ticket?.details?.error === "DeviceNotRegistered",
+                        });
+                    }
+                });
+            }
+
+            return results;
+        },
+    };
+}
+
+function createResendEmailTransport(apiKey: string): EmailTransport {
+    const from = Deno.env.get("REMINDERS_EMAIL_FROM") || "FamilyCal <reminders@familycal.app>";
+
+    return {
+        name: "resend",
+        async send(message) {
+            const response = await fetch("https://api.resend.com/emails", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: `Bearer ${apiKey}`,
+                },
+                body: JSON.stringify({
+                    from,
+                    to: message.to,
+                    subject: message.subject,
+                    text: message.text,
+                }),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Resend request failed: ${response.status} ${await response.text()}`);
+            }
+        },
+    };
+}
+
+// Logs instead of sending; useful locally and when no provider is configured
+function createLogPushTransport(): PushTransport {
+    return {
+        name: "log",
+        async send(messages) {
+            messages.forEach((m) => console.log("[push]", m.to, m.title, m.body));
+            return messages.map((m) => ({ token: m.to, ok: true }));
+        },
+    };
+}
+
+function createLogEmailTransport(): EmailTransport {
+    return {
+        name: "log",
+        async send(message) {
+            console.log("[email]", message.to, message.subject);
+        },
+    };
+}
+
+export function createPushTransport(): PushTransport {
+    switch (Deno.env.get("REMINDER_PUSH_TRANSPORT") || "expo") {
+        case "log":
+            return createLogPushTransport();
+        case "expo":
+        default:
+            return createExpoPushTransport();
+    }
+}
+
+export function createEmailTransport(): EmailTransport {
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+    const configured = Deno.env.get("REMINDER_EMAIL_TRANSPORT") || (resendApiKey ? "resend" : "log");
+
+    if (configured === "resend" && resendApiKey) {
+        return createResendEmailTransport(resendApiKey);
+    }
+    return createLogEmailTransport();
+}
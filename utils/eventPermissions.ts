@@ -0,0 +1,34 @@
+import type { EventEditPermission, FamilyRole } from '@/lib/supabase';
+
+// Whether someone with this role can edit, move or delete an event. Mirrors
+// can_edit_event() in migrations/20261019_add_event_permissions.sql, which is
+// what actually enforces it; this only keeps the UI from offering what RLS refuses.
+export function canEditEvent(
+  role: FamilyRole | null,
+  userId: string | null | undefined,
+  createdBy: string | null | undefined,
+  editPermission: EventEditPermission | null | undefined
+): boolean {
+  if (!role || !userId) return false;
+  if (role === 'owner' || role === 'admin' || createdBy === userId) return true;
+
+  const permission = editPermission || 'family';
+  if (permission === 'organiser') return false;
+  return role !== 'child' || permission === 'family';
+}
+
+// Only the organiser and owners/admins choose who else can edit an event
+export function canChangeEditPermission(
+  role: FamilyRole | null,
+  userId: string | null | undefined,
+  createdBy: string | null | undefined
+): boolean {
+  if (!role || !userId) return false;
+  return role === 'owner' || role === 'admin' || createdBy === userId;
+}
+
+export const EDIT_PERMISSION_LABELS: Record<EventEditPermission, string> = {
+  family: 'Everyone in the family',
+  adults: 'Adults only',
+  organiser: 'Only the organiser',
+};
@@ -0,0 +1,362 @@
+import {
+  expandRRule,
+  LOCAL_WALL_CLOCK,
+  parseICalDate,
+  parseRRule,
+  RRuleOptions,
+  WallClock,
+  zonedWallClock,
+} from '@/utils/rrule';
+import { isValidTimeZone } from '@/utils/timezone';
+
+// Parser for iCalendar (.ics) files and feeds: VEVENTs with RRULE, EXDATE,
+// RECURRENCE-ID overrides and VTIMEZONE definitions.
+//
+// TZIDs that are IANA names use the device's tz database; others (e.g. Outlook's
+// "GMT Standard Time") are resolved from the file's own VTIMEZONE blocks.
+
+export interface ICSEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timeZone?: string; // IANA zone of DTSTART, when the file names one
+  clock: WallClock; // Wall clock of DTSTART, for expanding the rule
+  rule?: string; // RRULE value as written
+  rrule?: RRuleOptions;
+  exdates: Date[];
+  recurrenceId?: Date; // Set on overrides of a single occurrence
+  cancelled: boolean;
+  sequence: number;
+  lastModified?: Date;
+}
+
+export interface ICSCalendar {
+  name?: string;
+  events: ICSEvent[];
+}
+
+// An occurrence of an ICSEvent within a range, after exceptions
+export interface ICSOccurrence {
+  event: ICSEvent;
+  start: Date;
+  end: Date;
+  originalStart: Date;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  type: string;
+  lines: ContentLine[];
+  children: Component[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Lexing
+// ---------------------------------------------------------------------------
+
+// Join folded lines (a line starting with a space or tab continues the previous one)
+function unfold(text: string): string[] {
+  const lines: string[] = [];
+  for (const raw of text.split(/\r\n|\n|\r/)) {
+    if ((raw.startsWith(' ') || raw.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += raw.slice(1);
+    } else if (raw.trim()) {
+      lines.push(raw);
+    }
+  }
+  return lines;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).match(/(?:[^;"]+|"[^"]*")+/g) || [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseComponents(text: string): Component[] {
+  const root: Component = { type: 'ROOT', lines: [], children: [] };
+  const stack: Component[] = [root];
+
+  for (const raw of unfold(text)) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    const current = stack[stack.length - 1];
+
+    if (line.name === 'BEGIN') {
+      const child: Component = { type: line.value.trim().toUpperCase(), lines: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (line.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.lines.push(line);
+    }
+  }
+  return root.children;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function getLine(component: Component, name: string): ContentLine | undefined {
+  return component.lines.find((line) => line.name === name);
+}
+
+function getText(component: Component, name: string): string | undefined {
+  const line = getLine(component, name);
+  const text = line ? unescapeText(line.value).trim() : '';
+  return text || undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Time zones
+// ---------------------------------------------------------------------------
+
+function parseOffset(value: string): number {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!match) return 0;
+  const ms = ((+match[2] * 60 + +match[3]) * 60 + +(match[4] || 0)) * 1000;
+  return match[1] === '-' ? -ms : ms;
+}
+
+const fixedClock = (offset: number): WallClock => ({
+  toFloating: (instant) => new Date(instant.getTime() + offset),
+  fromFloating: (floating) => new Date(floating.getTime() - offset),
+});
+
+/**
+ * Wall clock defined by a VTIMEZONE's STANDARD/DAYLIGHT observances
+ */
+function vtimezoneClock(component: Component): WallClock {
+  const onsets: { at: number; offset: number }[] = [];
+  const horizon = new Date(Date.UTC(new Date().getUTCFullYear() + 30, 0, 1));
+
+  for (const observance of component.children) {
+    const start = getLine(observance, 'DTSTART');
+    const from = getLine(observance, 'TZOFFSETFROM');
+    const to = getLine(observance, 'TZOFFSETTO');
+    if (!start || !to) continue;
+
+    // Observance starts are local times on the clock in force before the change
+    const before = fixedClock(parseOffset((from || to).value));
+    const offset = parseOffset(to.value);
+    const first = parseICalDate(start.value, before);
+    if (!first) continue;
+
+    const rule = getLine(observance, 'RRULE');
+    const options = rule ? parseRRule(rule.value, before) : null;
+    const starts = options ? expandRRule(options, first, first, horizon, 500, before) : [first];
+    for (const at of starts) onsets.push({ at: at.getTime(), offset });
+  }
+
+  onsets.sort((a, b) => a.at - b.at);
+  if (onsets.length === 0) return LOCAL_WALL_CLOCK;
+
+  const offsetAt = (ms: number) => {
+    let offset = onsets[0].offset;
+    for (const onset of onsets) {
+      if (onset.at > ms) break;
+      offset = onset.offset;
+    }
+    return offset;
+  };
+
+  return {
+    toFloating: (instant) => new Date(instant.getTime() + offsetAt(instant.getTime())),
+    fromFloating: (floating) => {
+      const ms = floating.getTime();
+      const guess = offsetAt(ms - onsets[0].offset);
+      return new Date(ms - offsetAt(ms - guess));
+    },
+  };
+}
+
+function resolveClock(tzid: string | undefined, zones: Map<string, WallClock>): WallClock {
+  if (!tzid) return LOCAL_WALL_CLOCK;
+  return zones.get(tzid) || (isValidTimeZone(tzid) ? zonedWallClock(tzid) : LOCAL_WALL_CLOCK);
+}
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+function isDateValue(line: ContentLine): boolean {
+  return line.params.VALUE === 'DATE' || /^\d{8}$/.test(line.value.trim());
+}
+
+// DATE values are whole days on the device's calendar, like all-day events created in the app
+function parseDateLine(line: ContentLine, zones: Map<string, WallClock>): Date | null {
+  if (isDateValue(line)) return parseICalDate(line.value.trim().slice(0, 8), LOCAL_WALL_CLOCK);
+  return parseICalDate(line.value, resolveClock(line.params.TZID, zones));
+}
+
+function parseDuration(value: string): number {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return 0;
+  const [, sign, w, d, h, m, s] = match;
+  const ms = ((((+(w || 0) * 7 + +(d || 0)) * 24 + +(h || 0)) * 60 + +(m || 0)) * 60 + +(s || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseEvent(component: Component, zones: Map<string, WallClock>): ICSEvent | null {
+  const startLine = getLine(component, 'DTSTART');
+  if (!startLine) return null;
+  const start = parseDateLine(startLine, zones);
+  if (!start) return null;
+
+  const allDay = isDateValue(startLine);
+  const tzid = allDay ? undefined : startLine.params.TZID;
+  const clock = allDay ? LOCAL_WALL_CLOCK : resolveClock(tzid, zones);
+
+  const endLine = getLine(component, 'DTEND');
+  const durationLine = getLine(component, 'DURATION');
+  let end = endLine ? parseDateLine(endLine, zones) : null;
+  if (!end) {
+    const duration = durationLine ? parseDuration(durationLine.value) : allDay ? DAY_MS : 0;
+    end = new Date(start.getTime() + duration);
+  }
+  if (allDay) {
+    // DTEND is exclusive; the app ends all-day events at the last second of their last day
+    end = new Date(Math.max(end.getTime(), start.getTime() + DAY_MS) - 1000);
+  }
+
+  const ruleLine = getLine(component, 'RRULE');
+  const exdates = component.lines
+    .filter((line) => line.name === 'EXDATE')
+    .flatMap((line) =>
+      line.value.split(',').map((value) => parseDateLine({ ...line, value }, zones))
+    )
+    .filter((date): date is Date => date !== null);
+  const recurrenceIdLine = getLine(component, 'RECURRENCE-ID');
+  const lastModifiedLine = getLine(component, 'LAST-MODIFIED') || getLine(component, 'DTSTAMP');
+
+  return {
+    uid: getLine(component, 'UID')?.value.trim() || `${start.toISOString()}-${getText(component, 'SUMMARY') || ''}`,
+    title: getText(component, 'SUMMARY') || 'Untitled Event',
+    description: getText(component, 'DESCRIPTION'),
+    location: getText(component, 'LOCATION'),
+    start,
+    end,
+    allDay,
+    timeZone: tzid && isValidTimeZone(tzid) ? tzid : undefined,
+    clock,
+    rule: ruleLine?.value.trim(),
+    rrule: ruleLine ? parseRRule(ruleLine.value, clock) || undefined : undefined,
+    exdates,
+    recurrenceId: recurrenceIdLine ? parseDateLine(recurrenceIdLine, zones) || undefined : undefined,
+    cancelled: getLine(component, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    sequence: parseInt(getLine(component, 'SEQUENCE')?.value || '0', 10) || 0,
+    lastModified: lastModifiedLine ? parseICalDate(lastModifiedLine.value) || undefined : undefined,
+  };
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar file. Overrides of single occurrences are
+ * returned as separate events carrying a recurrenceId.
+ */
+export function parseICS(text: string): ICSCalendar {
+  const calendars = parseComponents(text).filter((c) => c.type === 'VCALENDAR');
+  const events: ICSEvent[] = [];
+  let name: string | undefined;
+
+  for (const calendar of calendars) {
+    name = name || getText(calendar, 'X-WR-CALNAME') || getText(calendar, 'NAME');
+
+    const zones = new Map<string, WallClock>();
+    for (const zone of calendar.children.filter((c) => c.type === 'VTIMEZONE')) {
+      const tzid = getLine(zone, 'TZID')?.value.trim();
+      // Prefer the device's own rules for IANA zones
+      if (tzid && !isValidTimeZone(tzid)) zones.set(tzid, vtimezoneClock(zone));
+    }
+
+    for (const component of calendar.children.filter((c) => c.type === 'VEVENT')) {
+      const event = parseEvent(component, zones);
+      if (event) events.push(event);
+    }
+  }
+
+  return { name, events };
+}
+
+/**
+ * Occurrences of the calendar's events overlapping [rangeStart, rangeEnd), with
+ * EXDATEs, overrides and cancellations applied
+ */
+export function expandICSEvents(calendar: ICSCalendar, rangeStart: Date, rangeEnd: Date): ICSOccurrence[] {
+  const overrides = new Map<string, ICSEvent>();
+  for (const event of calendar.events) {
+    if (event.recurrenceId) overrides.set(`${event.uid}|${event.recurrenceId.getTime()}`, event);
+  }
+
+  const overlaps = (start: Date, end: Date) =>
+    end.getTime() > rangeStart.getTime() && start.getTime() < rangeEnd.getTime();
+  const occurrences: ICSOccurrence[] = [];
+
+  for (const event of calendar.events) {
+    const durationMs = event.end.getTime() - event.start.getTime();
+
+    if (event.recurrenceId) {
+      if (!event.cancelled && overlaps(event.start, event.end)) {
+        occurrences.push({ event, start: event.start, end: event.end, originalStart: event.recurrenceId });
+      }
+      continue;
+    }
+    if (event.cancelled) continue;
+
+    if (!event.rrule) {
+      if (overlaps(event.start, event.end)) {
+        occurrences.push({ event, start: event.start, end: event.end, originalStart: event.start });
+      }
+      continue;
+    }
+
+    const excluded = new Set(event.exdates.map((date) => date.getTime()));
+    const starts = expandRRule(
+      event.rrule,
+      event.start,
+      new Date(rangeStart.getTime() - durationMs),
+      rangeEnd,
+      500,
+      event.clock
+    );
+    for (const start of starts) {
+      if (excluded.has(start.getTime()) || overrides.has(`${event.uid}|${start.getTime()}`)) continue;
+      occurrences.push({ event, start, end: new Date(start.getTime() + durationMs), originalStart: start });
+    }
+  }
+
+  occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return occurrences;
+}
@@ -1,3 +1,5 @@
+import type { EventEditPermission } from '@/lib/supabase';
+
 export interface MockEvent {
   id: string;
   title: string;
@@ -10,6 +12,8 @@ export interface MockEvent {
   endTime?: Date;
   isRecurring?: boolean;
   originalEventId?: string;
+  timeZone?: string; // IANA zone the event's times are anchored to
+  rsvpStatus?: 'declined'; // Set when every participant declined
 }
 
 // Pastel color palette
@@ -339,6 +343,12 @@ export interface FamilyEvent {
   isRecurring?: boolean;
   isAllDay?: boolean; // Whether this is an all-day event
   originalEventId?: string; // For events expanded per participant, this is the actual event ID
+  timeZone?: string; // IANA zone the event's times are anchored to
+  // The person's answer to the invitation; consolidated calendar events only carry 'declined', when everyone declined
+  rsvpStatus?: 'pending' | 'accepted' | 'declined' | 'maybe';
+  leaveBy?: Date; // When to set off to get there on time, if the travel time is known
+  createdBy?: string; // The organiser, for edit permissions (see utils/eventPermissions.ts)
+  editPermission?: EventEditPermission;
 }
 
 // Generate current events for today (matching the image)
@@ -506,6 +516,14 @@ export function getCountdownText(startTime: Date): string {
   return `Starts in ${parts.join(' ')}`;
 }
 
+// "Leave by 08:15", or "Leave now" once that's passed
+export function getLeaveByText(leaveBy: Date): string {
+  if (leaveBy.getTime() <= Date.now()) return 'Leave now';
+  const hours = leaveBy.getHours().toString().padStart(2, '0');
+  const minutes = leaveBy.getMinutes().toString().padStart(2, '0');
+  return `Leave by ${hours}:${minutes}`;
+}
+
 // Helper function to format time range
 export function formatTimeRange(startTime: Date, endTime: Date): string {
   const startHours = startTime.getHours();
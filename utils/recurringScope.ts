@@ -0,0 +1,48 @@
+import { Alert, Platform } from 'react-native';
+import type { RecurringEditScope } from '@/services/eventService';
+
+type ScopePromptOptions = {
+  title: string;
+  message: string;
+  verb: string; // e.g. 'Move', 'Delete'
+  destructive?: boolean;
+};
+
+// Ask whether a change to a recurring event applies to this occurrence only,
+// this and future occurrences, or the whole series. Resolves null on cancel.
+export function promptRecurringScope({
+  title,
+  message,
+  verb,
+  destructive = false,
+}: ScopePromptOptions): Promise<RecurringEditScope | null> {
+  if (Platform.OS === 'web') {
+    // Button-like flow using confirms (no typing)
+    if (window.confirm(`${verb} this occurrence only?`)) return Promise.resolve('single');
+    if (window.confirm(`${verb} this and future occurrences?`)) return Promise.resolve('future');
+    if (window.confirm(`${verb} all occurrences?`)) return Promise.resolve('all');
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+        { text: 'This occurrence only', onPress: () => resolve('single') },
+        {
+          text: 'This and future',
+          style: destructive ? 'destructive' : 'default',
+          onPress: () => resolve('future'),
+        },
+        {
+          text: 'All occurrences',
+          style: destructive ? 'destructive' : 'default',
+          onPress: () => resolve('all'),
+        },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+}
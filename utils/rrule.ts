@@ -0,0 +1,3 @@
+// The recurrence engine lives with the edge functions, which deploy only what is
+// under supabase/functions; the app uses the same code from there.
+export * from '@/supabase/functions/_shared/rrule';
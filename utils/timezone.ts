@@ -0,0 +1,57 @@
+import type { Event } from '@/lib/supabase';
+import { getTimeZoneOffset, resolveEventTimeZone } from '@/utils/rrule';
+
+// IANA timezone helpers built on Intl, so they work the same on web and native.
+// The offset arithmetic lives in supabase/functions/_shared/rrule so edge functions share it.
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The zone an event's recurrence is anchored to. Rows written before the app
+ * recorded zones fall back to the device zone; the edge functions apply the same
+ * rule with the zone recorded by recordDeviceTimeZone.
+ */
+export function getEventTimeZone(event: Pick<Event, 'timezone'>): string {
+  return resolveEventTimeZone(event.timezone, getDeviceTimeZone());
+}
+
+/**
+ * Whether a zone shows different wall-clock times from the device's zone
+ */
+export function isForeignTimeZone(timeZone: string | null | undefined, at: Date = new Date()): boolean {
+  if (!isValidTimeZone(timeZone)) return false;
+  const deviceZone = getDeviceTimeZone();
+  if (timeZone === deviceZone) return false;
+  return getTimeZoneOffset(at, timeZone) !== getTimeZoneOffset(at, deviceZone);
+}
+
+/**
+ * Short label for a zone, e.g. "London" for Europe/London
+ */
+export function formatTimeZoneLabel(timeZone: string): string {
+  const city = timeZone.split('/').pop() || timeZone;
+  return city.replace(/_/g, ' ');
+}
+
+/**
+ * Time of day of an instant on a zone's wall clock, e.g. "09:00"
+ */
+export function formatTimeInZone(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone });
+}